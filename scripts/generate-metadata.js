@@ -138,7 +138,8 @@ function generateMetadata() {
       modes: processTemplateDirectory(path.join(TEMPLATES_DIR, 'modes'), 'modes'),
       workflows: processTemplateDirectory(path.join(TEMPLATES_DIR, 'workflows'), 'workflows'),
       agents: processTemplateDirectory(path.join(TEMPLATES_DIR, 'agents'), 'agents'),
-      hooks: processTemplateDirectory(path.join(TEMPLATES_DIR, 'hooks'), 'hooks')
+      hooks: processTemplateDirectory(path.join(TEMPLATES_DIR, 'hooks'), 'hooks'),
+      tickets: processTemplateDirectory(path.join(TEMPLATES_DIR, 'tickets'), 'tickets')
     }
   };
   
@@ -161,7 +162,8 @@ function generateMetadata() {
     modes: metadata.templates.modes.length,
     workflows: metadata.templates.workflows.length,
     agents: metadata.templates.agents.length,
-    hooks: metadata.templates.hooks.length
+    hooks: metadata.templates.hooks.length,
+    tickets: metadata.templates.tickets.length
   };
   
   console.log(`Generated metadata.json with:`);
@@ -169,6 +171,7 @@ function generateMetadata() {
   console.log(`  - ${counts.workflows} workflows`);
   console.log(`  - ${counts.agents} agents`);
   console.log(`  - ${counts.hooks} hooks`);
+  console.log(`  - ${counts.tickets} ticket templates`);
   console.log(`Output: ${OUTPUT_FILE}`);
 }
 
@@ -1,19 +1,17 @@
-import { Writable } from 'stream';
+import { Readable, Writable } from 'stream';
 
 // Minimal stub for tar module used in tests.
-// Provides x/extract and c/create methods returning writable streams
-// that immediately consume data without touching the real filesystem.
+// Provides x/extract returning a writable stream that immediately consumes data,
+// and c/create returning a readable stream with a JSON description of the archive
+// (options and file list) instead of reading the real filesystem.
 export const x = (_opts?: any) => new Writable({
   write(_chunk, _encoding, callback) {
     callback();
   }
 });
 
-export const c = (_opts?: any, _files?: string[]) => new Writable({
-  write(_chunk, _encoding, callback) {
-    callback();
-  }
-});
+export const c = (opts?: any, files?: string[]) =>
+  Readable.from([Buffer.from(JSON.stringify({ options: opts, files }))]);
 
 export const extract = x;
 export const create = c;
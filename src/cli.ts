@@ -11,6 +11,7 @@ import { searchCommand } from "./commands/search";
 import { logger } from "./lib/logger";
 import { handleError } from "./lib/errors";
 import { cliContext } from "./lib/context";
+import { recoverPackTransaction } from "./lib/packs/PackTransaction";
 
 // Version will be injected during build
 // In dev mode, read from package.json
@@ -24,6 +25,9 @@ if (!version) {
   }
 }
 
+// Commands Claude Code runs while zcc may be installing a pack; they only read the project
+const READ_ONLY_COMMANDS = new Set(["hook run", "hook logs"]);
+
 const program = new Command();
 
 program
@@ -34,6 +38,7 @@ program
   .option("-d, --debug", "enable debug output")
   .option("-y, --yes", "answer yes to all prompts (non-interactive mode)")
   .option("-f, --force", "force operations without confirmation prompts")
+  .option("--offline", "use only cached packs and sources (also ZCC_OFFLINE=1)")
   .option("--no-color", "disable colored output")
   .addHelpText(
     "after",
@@ -52,7 +57,7 @@ Examples:
 For more information, visit: https://github.com/git-on-my-level/zcc
 Documentation: https://github.com/git-on-my-level/zcc#readme`
   )
-  .hook("preAction", (thisCommand) => {
+  .hook("preAction", async (thisCommand, actionCommand) => {
     // Get options from both parent and current command
     const options = thisCommand.opts();
     const parentOptions = thisCommand.parent?.opts() || {};
@@ -64,6 +69,7 @@ Documentation: https://github.com/git-on-my-level/zcc#readme`
       debug: allOptions.debug || false,
       nonInteractive: allOptions.yes || false,
       force: allOptions.force, // Don't default to false, let context handle it
+      offline: allOptions.offline || false,
       projectRoot: process.cwd(),
     });
 
@@ -77,6 +83,14 @@ Documentation: https://github.com/git-on-my-level/zcc#readme`
     if (allOptions.noColor) {
       logger.setNoColor(true);
     }
+
+    // Finish or roll back a pack install or uninstall an earlier run was interrupted in
+    const commandPath = [actionCommand.parent?.name(), actionCommand.name()]
+      .filter(name => name && name !== program.name())
+      .join(" ");
+    if (!READ_ONLY_COMMANDS.has(commandPath)) {
+      await recoverPackTransaction(process.cwd());
+    }
   });
 
 // Register commands
@@ -103,5 +117,7 @@ const args = process.argv.slice(2);
 if (args.length === 0) {
   program.outputHelp();
 } else {
-  program.parse(process.argv);
+  program.parseAsync(process.argv).catch((error) => {
+    handleError(error, cliContext.isVerbose());
+  });
 }
@@ -1,7 +1,9 @@
 import { TicketManager } from '../../lib/ticketManager';
+import { TicketGitIntegration } from '../../lib/ticketGitIntegration';
 import { logger } from '../../lib/logger';
 
 jest.mock('../../lib/ticketManager');
+jest.mock('../../lib/ticketGitIntegration');
 jest.mock('../../lib/logger', () => ({
   logger: {
     info: jest.fn(),
@@ -41,12 +43,17 @@ describe('Ticket Command Basic Coverage', () => {
 
     mockTicketManager = {
       create: jest.fn(),
+      get: jest.fn().mockResolvedValue({ name: 'ticket', status: 'next', id: 'ZCC-1' }),
       list: jest.fn(),
+      getStatuses: jest.fn().mockResolvedValue(['next', 'in-progress', 'done']),
       move: jest.fn(),
       delete: jest.fn()
     };
 
     (TicketManager as jest.MockedClass<typeof TicketManager>).mockImplementation(() => mockTicketManager);
+    (TicketGitIntegration as jest.MockedClass<typeof TicketGitIntegration>).mockImplementation(() => ({
+      isEnabled: jest.fn().mockResolvedValue(false)
+    }) as any);
     
     originalExit = process.exit;
     process.exit = jest.fn() as any;
@@ -112,7 +119,7 @@ describe('Ticket Command Basic Coverage', () => {
 
     await ticketCommand.parseAsync(['node', 'test', 'move', 'Test ticket', 'done']);
     
-    expect(mockTicketManager.move).toHaveBeenCalledWith('Test ticket', 'done');
+    expect(mockTicketManager.move).toHaveBeenCalledWith('Test ticket', 'done', { force: undefined });
     expect(logger.success).toHaveBeenCalledWith(expect.stringContaining('Moved ticket'));
   });
 
@@ -1,8 +1,15 @@
 import { TicketManager } from '../../lib/ticketManager';
+import { TicketExchange } from '../../lib/ticketExchange';
+import { TicketBoard } from '../../lib/ticketBoard';
+import { TicketGitIntegration } from '../../lib/ticketGitIntegration';
 import { logger } from '../../lib/logger';
+import { TicketError } from '../../lib/errors';
 import inquirer from 'inquirer';
 
 jest.mock('../../lib/ticketManager');
+jest.mock('../../lib/ticketExchange');
+jest.mock('../../lib/ticketBoard');
+jest.mock('../../lib/ticketGitIntegration');
 jest.mock('../../lib/logger', () => ({
   logger: {
     info: jest.fn(),
@@ -43,8 +50,18 @@ describe('Ticket Command', () => {
 
     mockTicketManager = {
       create: jest.fn(),
+      get: jest.fn().mockResolvedValue({ name: 'ticket', status: 'next', id: 'ZCC-1' }),
       list: jest.fn(),
+      getStatuses: jest.fn().mockResolvedValue(['next', 'in-progress', 'done']),
+      query: jest.fn(),
+      search: jest.fn(),
+      listTemplates: jest.fn(),
+      getOpenBlockers: jest.fn().mockResolvedValue([]),
+      link: jest.fn(),
+      getDependencyGraph: jest.fn(),
+      report: jest.fn(),
       move: jest.fn(),
+      rename: jest.fn(),
       delete: jest.fn()
     };
     
@@ -92,6 +109,8 @@ describe('Ticket Command', () => {
           assignee: 'john.doe',
           tags: ['frontend', 'react']
         });
+        expect(mockTicketManager.get).toHaveBeenCalledWith('feature-ticket');
+        expect(logger.info).toHaveBeenCalledWith('ID: ZCC-1');
       });
 
       it('should handle invalid ticket type validation', async () => {
@@ -164,6 +183,33 @@ describe('Ticket Command', () => {
       });
     });
 
+    describe('with templates', () => {
+      it('should create from a template without prompting for a type', async () => {
+        mockTicketManager.create.mockResolvedValue('/project/.zcc/tickets/next/queue-choice.md');
+
+        await ticketCommand.parseAsync(['node', 'test', 'create', 'queue-choice', '--template', 'spike']);
+
+        expect(inquirer.prompt).not.toHaveBeenCalled();
+        expect(mockTicketManager.create).toHaveBeenCalledWith('queue-choice', expect.objectContaining({
+          template: 'spike',
+          type: undefined
+        }));
+        expect(logger.success).toHaveBeenCalledWith('Created spike ticket: queue-choice');
+      });
+
+      it('should list available templates with their scope', async () => {
+        mockTicketManager.listTemplates.mockResolvedValue([
+          { name: 'bug', source: 'builtin' },
+          { name: 'spike', source: 'project', description: 'Time-boxed investigation' }
+        ]);
+
+        await ticketCommand.parseAsync(['node', 'test', 'templates']);
+
+        expect(logger.info).toHaveBeenCalledWith('  bug (builtin)');
+        expect(logger.info).toHaveBeenCalledWith('  spike (project) - Time-boxed investigation');
+      });
+    });
+
     describe('with interactive prompts', () => {
       it('should create ticket using interactive prompts', async () => {
         const ticketPath = '/project/.zcc/tickets/next/interactive-ticket.md';
@@ -269,6 +315,50 @@ describe('Ticket Command', () => {
       expect(logger.info).toHaveBeenCalledWith('  - Old task');
     });
 
+    it('should query tickets when filters are given', async () => {
+      process.env.ZCC_USER = 'alice';
+      mockTicketManager.query.mockResolvedValue([
+        { name: 'login', status: 'next', type: 'feature', priority: 'high', assignee: 'alice', tags: ['auth'] }
+      ]);
+
+      const result = ticketCommand.parseAsync([
+        'node', 'test', 'list', '--priority', 'high', '--assignee', 'me', '--tag', 'auth', '--sort', 'updated'
+      ]);
+
+      await expect(result).resolves.not.toThrow();
+      delete process.env.ZCC_USER;
+      expect(mockTicketManager.list).not.toHaveBeenCalled();
+      expect(mockTicketManager.query).toHaveBeenCalledWith({
+        priority: 'high',
+        assignee: 'alice',
+        tags: ['auth'],
+        sort: 'updated'
+      });
+      expect(logger.info).toHaveBeenCalledWith('  - login [high] feature @alice #auth');
+    });
+
+    it('should validate sort field', async () => {
+      const result = ticketCommand.parseAsync(['node', 'test', 'list', '--sort', 'random']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(logger.error).toHaveBeenCalledWith('Failed to list tickets: Error: Invalid sort field: random. Must be one of: name, priority, created, updated, due');
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should render custom workflow columns in configured order', async () => {
+      mockTicketManager.getStatuses.mockResolvedValue(['next', 'in-progress', 'review', 'done', 'archived']);
+      mockTicketManager.list.mockResolvedValue([
+        { name: 'Old task', status: 'archived' },
+        { name: 'Needs eyes', status: 'review' }
+      ]);
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'list']);
+
+      await expect(result).resolves.not.toThrow();
+      const calls = (logger.info as jest.Mock).mock.calls.map(call => call[0]);
+      expect(calls).toEqual(['\nreview:', '  - Needs eyes', '\narchived:', '  - Old task']);
+    });
+
     it('should handle empty ticket list', async () => {
       mockTicketManager.list.mockResolvedValue([]);
 
@@ -289,6 +379,166 @@ describe('Ticket Command', () => {
     });
   });
 
+  describe('ticket board', () => {
+    const setTTY = (value: boolean | undefined) => {
+      Object.defineProperty(process.stdout, 'isTTY', { value, configurable: true });
+      Object.defineProperty(process.stdin, 'isTTY', { value, configurable: true });
+    };
+    let stdoutTTY: boolean | undefined;
+    let stdinTTY: boolean | undefined;
+
+    beforeEach(() => {
+      stdoutTTY = process.stdout.isTTY;
+      stdinTTY = process.stdin.isTTY;
+    });
+
+    afterEach(() => {
+      Object.defineProperty(process.stdout, 'isTTY', { value: stdoutTTY, configurable: true });
+      Object.defineProperty(process.stdin, 'isTTY', { value: stdinTTY, configurable: true });
+    });
+
+    it('should print the plain list when output is not a terminal', async () => {
+      setTTY(false);
+      mockTicketManager.query.mockResolvedValue([
+        { name: 'login', status: 'next', id: 'ZCC-1', priority: 'high', tags: ['auth'] }
+      ]);
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'board', '--tag', 'auth', '--priority', 'high']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(TicketBoard).not.toHaveBeenCalled();
+      expect(mockTicketManager.query).toHaveBeenCalledWith({ sort: 'priority', tags: ['auth'], priority: 'high' });
+      expect(logger.info).toHaveBeenCalledWith('\nnext:');
+      expect(logger.info).toHaveBeenCalledWith('  - ZCC-1 login [high] #auth');
+    });
+
+    it('should print the plain list in non-interactive mode', async () => {
+      setTTY(true);
+      mockTicketManager.query.mockResolvedValue([]);
+      // The command module has its own context instance in this isolated registry
+      jest.isolateModules(() => {
+        require('../../lib/context').cliContext.updateContext({ nonInteractive: true });
+        ticketCommand = require('../ticket').ticketCommand;
+      });
+
+      await ticketCommand.parseAsync(['node', 'test', 'board']);
+
+      expect(TicketBoard).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith('No tickets found.');
+    });
+
+    it('should open the interactive board in a terminal', async () => {
+      setTTY(true);
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'board', '--priority', 'critical']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(TicketBoard).toHaveBeenCalledWith(mockTicketManager, { tag: undefined, priority: 'critical' });
+      expect((TicketBoard as jest.MockedClass<typeof TicketBoard>).mock.instances[0].run).toHaveBeenCalled();
+    });
+  });
+
+  describe('search tickets', () => {
+    const results = [
+      { name: 'session-timeout', status: 'in-progress', score: 80, snippet: 'Users are logged out when the session token expires.' },
+      { name: 'oauth-login', status: 'next', score: 5 }
+    ];
+
+    it('should print ranked results with snippets', async () => {
+      mockTicketManager.search.mockResolvedValue(results);
+
+      await ticketCommand.parseAsync(['node', 'test', 'search', 'session']);
+
+      expect(mockTicketManager.search).toHaveBeenCalledWith('session', { status: undefined, limit: 20 });
+      expect(logger.info).toHaveBeenCalledWith('session-timeout (in-progress) score 80');
+      expect(logger.info).toHaveBeenCalledWith('    Users are logged out when the session token expires.');
+      expect(logger.info).toHaveBeenCalledWith('oauth-login (next) score 5');
+    });
+
+    it('should output JSON and pass the status filter', async () => {
+      mockTicketManager.search.mockResolvedValue(results);
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      await ticketCommand.parseAsync(['node', 'test', 'search', 'session', '--status', 'next', '--json']);
+
+      expect(mockTicketManager.search).toHaveBeenCalledWith('session', { status: 'next', limit: 20 });
+      expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual(results);
+      logSpy.mockRestore();
+    });
+
+    it('should reject unknown statuses', async () => {
+      await ticketCommand.parseAsync(['node', 'test', 'search', 'session', '--status', 'later']);
+
+      expect(mockTicketManager.search).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should report when nothing matches', async () => {
+      mockTicketManager.search.mockResolvedValue([]);
+
+      await ticketCommand.parseAsync(['node', 'test', 'search', 'nothing']);
+
+      expect(logger.info).toHaveBeenCalledWith("No tickets matching 'nothing'.");
+    });
+  });
+
+  describe('export and import', () => {
+    let mockExchange: any;
+
+    beforeEach(() => {
+      mockExchange = {
+        export: jest.fn().mockResolvedValue('[]\n'),
+        exportToFile: jest.fn().mockResolvedValue(3),
+        importFile: jest.fn()
+      };
+      (TicketExchange as jest.MockedClass<typeof TicketExchange>).mockImplementation(() => mockExchange);
+    });
+
+    it('should export to a file in the requested format', async () => {
+      await ticketCommand.parseAsync(['node', 'test', 'export', '--format', 'csv', '--output', 'tickets.csv']);
+
+      expect(mockExchange.exportToFile).toHaveBeenCalledWith('csv', expect.stringMatching(/tickets\.csv$/));
+      expect(logger.success).toHaveBeenCalledWith('Exported 3 ticket(s) to tickets.csv');
+    });
+
+    it('should reject unknown export formats', async () => {
+      await ticketCommand.parseAsync(['node', 'test', 'export', '--format', 'xml']);
+
+      expect(mockExchange.export).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith('Failed to export tickets: Error: Invalid format: xml. Must be one of: json, csv, github');
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should print the planned changes of a dry-run import', async () => {
+      mockExchange.importFile.mockResolvedValue({
+        dryRun: true,
+        entries: [
+          { id: 'rate-limit', action: 'create', changes: [{ field: 'title', to: 'Rate limit' }, { field: 'state', to: 'next' }] },
+          { id: 'oauth-login', action: 'update', changes: [{ field: 'assignee', from: 'alice', to: 'bob' }, { field: 'body', from: 'a', to: 'b' }] },
+          { id: 'fix-typo', action: 'unchanged', changes: [] }
+        ]
+      });
+
+      await ticketCommand.parseAsync(['node', 'test', 'import', 'issues.json', '--dry-run']);
+
+      expect(mockExchange.importFile).toHaveBeenCalledWith(expect.stringMatching(/issues\.json$/), { format: undefined, dryRun: true });
+      expect(logger.info).toHaveBeenCalledWith('+ rate-limit (next)');
+      expect(logger.info).toHaveBeenCalledWith('~ oauth-login');
+      expect(logger.info).toHaveBeenCalledWith('    assignee: alice → bob');
+      expect(logger.info).toHaveBeenCalledWith('    body: changed');
+      expect(logger.info).toHaveBeenCalledWith('Dry run: 1 to create, 1 to update, 1 unchanged');
+    });
+
+    it('should report import failures', async () => {
+      mockExchange.importFile.mockRejectedValue(new Error('Import file not found'));
+
+      await ticketCommand.parseAsync(['node', 'test', 'import', 'missing.json']);
+
+      expect(logger.error).toHaveBeenCalledWith('Failed to import tickets: Error: Import file not found');
+      expect(process.exitCode).toBe(1);
+    });
+  });
+
   describe('move ticket', () => {
     it('should move ticket to new status', async () => {
       mockTicketManager.move.mockResolvedValue(undefined);
@@ -296,7 +546,7 @@ describe('Ticket Command', () => {
       const result = ticketCommand.parseAsync(['node', 'test', 'move', 'Feature A', 'in-progress']);
 
       await expect(result).resolves.not.toThrow();
-      expect(mockTicketManager.move).toHaveBeenCalledWith('Feature A', 'in-progress');
+      expect(mockTicketManager.move).toHaveBeenCalledWith('Feature A', 'in-progress', { force: undefined });
       expect(logger.success).toHaveBeenCalledWith("Moved ticket 'Feature A' to in-progress");
     });
 
@@ -308,6 +558,17 @@ describe('Ticket Command', () => {
       expect(process.exitCode).toBe(1);
     });
 
+    it('should accept custom workflow statuses', async () => {
+      mockTicketManager.getStatuses.mockResolvedValue(['next', 'in-progress', 'blocked', 'done']);
+      mockTicketManager.move.mockResolvedValue(undefined);
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'move', 'Feature A', 'blocked']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(mockTicketManager.move).toHaveBeenCalledWith('Feature A', 'blocked', { force: undefined });
+      expect(logger.success).toHaveBeenCalledWith("Moved ticket 'Feature A' to blocked");
+    });
+
     it('should handle move errors', async () => {
       mockTicketManager.move.mockRejectedValue(new Error('Ticket not found'));
 
@@ -319,6 +580,181 @@ describe('Ticket Command', () => {
     });
   });
 
+  describe('git integration', () => {
+    let mockGit: any;
+
+    beforeEach(() => {
+      mockGit = {
+        isEnabled: jest.fn().mockResolvedValue(true),
+        startBranch: jest.fn().mockResolvedValue({ branch: 'ticket/api', created: true }),
+        recordCommits: jest.fn().mockResolvedValue({ branch: 'ticket/api', range: 'a1b2c3d..e4f5a6b', count: 2 })
+      };
+      (TicketGitIntegration as jest.MockedClass<typeof TicketGitIntegration>).mockImplementation(() => mockGit);
+    });
+
+    it('should check out the ticket branch on start', async () => {
+      await ticketCommand.parseAsync(['node', 'test', 'start', 'api']);
+
+      expect(mockTicketManager.move).toHaveBeenCalledWith('api', 'in-progress', { force: undefined });
+      expect(mockGit.startBranch).toHaveBeenCalledWith('api');
+      expect(logger.info).toHaveBeenCalledWith('Created and checked out branch ticket/api');
+    });
+
+    it('should record the commit range on finish', async () => {
+      await ticketCommand.parseAsync(['node', 'test', 'finish', 'api']);
+
+      expect(mockGit.recordCommits).toHaveBeenCalledWith('api');
+      expect(logger.info).toHaveBeenCalledWith('Recorded 2 commit(s) on ticket/api: a1b2c3d..e4f5a6b');
+    });
+
+    it('should warn without failing when git reports an error', async () => {
+      mockGit.startBranch.mockRejectedValue(new Error('Not a git repository: /project'));
+
+      await ticketCommand.parseAsync(['node', 'test', 'start', 'api']);
+
+      expect(logger.success).toHaveBeenCalledWith("Started ticket 'api' (moved to in-progress)");
+      expect(logger.warn).toHaveBeenCalledWith('Git integration: Not a git repository: /project');
+      expect(process.exitCode).toBe(0);
+    });
+
+    it('should leave git alone when the integration is disabled', async () => {
+      mockGit.isEnabled.mockResolvedValue(false);
+
+      await ticketCommand.parseAsync(['node', 'test', 'start', 'api']);
+
+      expect(mockGit.startBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ticket dependencies', () => {
+    it('should report the blockers when the ticket manager refuses to start a ticket', async () => {
+      const blocked = new TicketError('start', 'api', 'blocked by schema (in-progress)', 'Finish the blocking tickets first, or use --force to start anyway');
+      mockTicketManager.move.mockRejectedValue(blocked);
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'start', 'api']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(mockTicketManager.move).toHaveBeenCalledWith('api', 'in-progress', { force: undefined });
+      expect(logger.error).toHaveBeenCalledWith('Failed to start ticket:', blocked);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should start a blocked ticket with --force', async () => {
+      mockTicketManager.move.mockResolvedValue(undefined);
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'start', 'api', '--force']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(mockTicketManager.move).toHaveBeenCalledWith('api', 'in-progress', { force: true });
+      expect(mockTicketManager.getOpenBlockers).not.toHaveBeenCalled();
+    });
+
+    it('should link tickets', async () => {
+      mockTicketManager.link.mockResolvedValue(undefined);
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'link', 'schema', '--blocks', 'api']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(mockTicketManager.link).toHaveBeenCalledWith('schema', 'api');
+      expect(logger.success).toHaveBeenCalledWith("Ticket 'schema' now blocks 'api'");
+    });
+
+    it('should render the dependency graph and report cycles', async () => {
+      mockTicketManager.getDependencyGraph.mockResolvedValue({
+        roots: [
+          {
+            name: 'ui',
+            status: 'next',
+            blockedBy: [
+              { name: 'api', status: 'in-progress', blockedBy: [{ name: 'schema', status: 'done', blockedBy: [] }] },
+              { name: 'gone', blockedBy: [], missing: true }
+            ]
+          }
+        ],
+        cycles: [['a', 'b', 'a']]
+      });
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'graph']);
+
+      await expect(result).resolves.not.toThrow();
+      const lines = (logger.info as jest.Mock).mock.calls.map(call => call[0]);
+      expect(lines).toEqual([
+        'ui (next)',
+        '├── api (in-progress)',
+        '│   └── schema (done)',
+        '└── gone (missing)'
+      ]);
+      expect(logger.warn).toHaveBeenCalledWith('Circular dependency detected: a → b → a');
+      expect(process.exitCode).toBe(1);
+    });
+  });
+
+  describe('ticket report', () => {
+    it('should summarize completed tickets per type', async () => {
+      mockTicketManager.report.mockResolvedValue({
+        since: '2026-10-01T00:00:00.000Z',
+        completed: 1,
+        byType: { feature: { completed: 1, averageCycleTimeMs: 90000000, averageInProgressMs: 7200000 } },
+        tickets: [{ name: 'login', type: 'feature', completedAt: '2026-10-03T00:00:00.000Z', cycleTimeMs: 90000000, inProgressMs: 7200000 }]
+      });
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'report', '--since', '2026-10-01']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(mockTicketManager.report).toHaveBeenCalledWith({ since: new Date('2026-10-01'), until: undefined });
+      expect(logger.info).toHaveBeenCalledWith('Completed tickets since 2026-10-01: 1');
+      expect(logger.info).toHaveBeenCalledWith('  feature: 1 completed, avg cycle time 1d 1h, avg in progress 2h 0m');
+      expect(logger.info).toHaveBeenCalledWith('  - login (feature) finished 2026-10-03, cycle time 1d 1h');
+    });
+
+    it('should include the whole day given to --until', async () => {
+      mockTicketManager.report.mockResolvedValue({ completed: 0, byType: {}, tickets: [] });
+
+      await ticketCommand.parseAsync(['node', 'test', 'report', '--until', '2026-10-31']);
+      await ticketCommand.parseAsync(['node', 'test', 'report', '--until', '2026-10-31T12:00:00Z']);
+
+      expect(mockTicketManager.report).toHaveBeenNthCalledWith(1, { since: undefined, until: new Date('2026-10-31T23:59:59.999Z') });
+      expect(mockTicketManager.report).toHaveBeenNthCalledWith(2, { since: undefined, until: new Date('2026-10-31T12:00:00Z') });
+    });
+
+    it('should reject invalid dates', async () => {
+      const result = ticketCommand.parseAsync(['node', 'test', 'report', '--since', 'last-week']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(mockTicketManager.report).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to build ticket report: Error: Invalid --since date: last-week. Use YYYY-MM-DD or an ISO timestamp'
+      );
+    });
+  });
+
+  describe('rename ticket', () => {
+    it('should rename a ticket and list the tickets whose references changed', async () => {
+      mockTicketManager.rename.mockResolvedValue({
+        name: 'oauth-login',
+        path: '/project/.zcc/tickets/next/oauth-login.md',
+        references: ['session-store', 'sso']
+      });
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'rename', 'ZCC-3', 'oauth-login']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(mockTicketManager.rename).toHaveBeenCalledWith('ZCC-3', 'oauth-login');
+      expect(logger.success).toHaveBeenCalledWith("Renamed ticket 'ZCC-3' to 'oauth-login'");
+      expect(logger.info).toHaveBeenCalledWith('Updated references in: session-store, sso');
+    });
+
+    it('should handle rename errors', async () => {
+      mockTicketManager.rename.mockRejectedValue(new Error("Ticket 'oauth-login' already exists"));
+
+      const result = ticketCommand.parseAsync(['node', 'test', 'rename', 'login', 'oauth-login']);
+
+      await expect(result).resolves.not.toThrow();
+      expect(logger.error).toHaveBeenCalledWith("Failed to rename ticket: Error: Ticket 'oauth-login' already exists");
+      expect(process.exitCode).toBe(1);
+    });
+  });
+
   describe('delete ticket', () => {
     it('should delete a ticket', async () => {
       mockTicketManager.delete.mockResolvedValue(undefined);
@@ -1,8 +1,14 @@
 import { Command } from 'commander';
 import * as path from 'path';
 import { HookManager } from '../lib/hooks/HookManager';
+import { HookValidator } from '../lib/hooks/HookValidator';
+import { createHookContext, createHookInput } from '../lib/hooks/HookInputs';
+import { mergeHookResults, toHookOutput } from '../lib/hooks/HookOutput';
+import { HookTrace, HookTracer } from '../lib/hooks/HookTracer';
+import { RECORDING_TTL_MS } from '../lib/hooks/builtin/PayloadRecorderHook';
+import { HOOK_EVENTS, HookConfig, HookEvent, HookInput, HookResult } from '../lib/hooks/types';
 import { logger } from '../lib/logger';
-import { handleError } from '../lib/errors';
+import { handleError, ValidationError } from '../lib/errors';
 import * as fs from 'fs/promises';
 
 const hookCommand = new Command('hook')
@@ -14,6 +20,9 @@ Examples:
   $ zcc hook enable acronym-expander # Enable a hook
   $ zcc hook disable test-on-save    # Disable a hook
   $ zcc hook remove my-hook          # Remove a hook
+  $ zcc hook run UserPromptSubmit    # Run native hooks (called by Claude Code)
+  $ zcc hook logs --since 1h         # Show the hooks that ran in the last hour
+  $ zcc hook test zcc-routing --prompt "mode: eng"  # Run a hook as Claude Code would
 `);
 
 // List hooks subcommand
@@ -184,6 +193,65 @@ hookCommand
     }
   });
 
+// Run native hooks subcommand, the command Claude Code runs for native hooks
+hookCommand
+  .command('run <event>')
+  .description('Run the native hooks of an event with Claude Code hook input from stdin')
+  .action(async (event: string) => {
+    try {
+      const hookEvent = parseHookEvent(event);
+      const data = await readHookInput();
+      const projectRoot = typeof data?.cwd === 'string' && data.cwd ? data.cwd : process.cwd();
+
+      let input: HookInput;
+      if (data) {
+        const validation = new HookValidator(projectRoot).validateHookInput(hookEvent, data);
+        if (!validation.valid) {
+          throw new ValidationError(
+            `Invalid ${hookEvent} hook input: ${validation.errors.join(', ')}`,
+            'stdin',
+            'Hook input must be the JSON object Claude Code passes to hooks'
+          );
+        }
+        input = data as unknown as HookInput;
+      } else {
+        // Run by hand without input
+        input = createHookInput({ event: hookEvent, projectRoot, timestamp: Date.now() });
+      }
+
+      const hookManager = new HookManager(projectRoot);
+      const results = await hookManager.runNativeHooks(
+        hookEvent,
+        createHookContext(hookEvent, input, projectRoot)
+      );
+
+      const merged = mergeHookResults(results);
+      if (merged.error) {
+        process.stderr.write(`${merged.error}\n`);
+      }
+
+      // Claude Code only reads JSON output when the hook exits with 0
+      const output = toHookOutput(hookEvent, merged);
+      if (output) {
+        process.stdout.write(`${JSON.stringify(output)}\n`);
+        return;
+      }
+
+      // Claude Code adds stdout to the context; stderr is shown to the user
+      if (merged.output) {
+        process.stdout.write(`${merged.output}\n`);
+      }
+      if (merged.shouldBlock) {
+        // Exit code 2 blocks the event in Claude Code
+        process.exitCode = 2;
+      } else if (!merged.success) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
 // List templates subcommand
 hookCommand
   .command('templates')
@@ -211,4 +279,309 @@ hookCommand
     }
   });
 
+// Show the hook log subcommand
+hookCommand
+  .command('logs')
+  .description('Show the hooks zcc ran, with their output')
+  .option('--hook <id>', 'Only show this hook')
+  .option('--since <time>', 'Only show hooks run since a date or a duration ago (e.g. 30m, 2h, 1d)')
+  .option('-n, --limit <count>', 'Number of most recent entries to show', '50')
+  .option('-f, --follow', 'Keep showing hooks as they run')
+  .action(async (options) => {
+    try {
+      const limit = parseInt(options.limit, 10);
+      if (isNaN(limit) || limit < 1) {
+        throw new ValidationError(`Invalid limit: ${options.limit}`, 'limit', 'Use a positive number');
+      }
+
+      const tracer = new HookTracer(process.cwd());
+      const filter = {
+        hook: options.hook,
+        since: options.since ? parseSince(options.since) : undefined
+      };
+
+      const traces = (await tracer.read(filter)).slice(-limit);
+      if (traces.length === 0 && !options.follow) {
+        logger.info('No hook executions logged. zcc logs the hooks it runs, such as native hooks.');
+        return;
+      }
+      traces.forEach(trace => console.log(formatTrace(trace)));
+
+      if (options.follow) {
+        await new Promise<void>(resolve => {
+          const stop = tracer.follow(filter, trace => console.log(formatTrace(trace)));
+          process.once('SIGINT', () => {
+            stop();
+            resolve();
+          });
+        });
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Test hook subcommand
+hookCommand
+  .command('test <id>')
+  .description('Run a hook with a Claude Code payload and show what Claude Code would get')
+  .option('--event <event>', 'Event of the payload (defaults to the hook event)')
+  .option('--payload <file>', 'JSON payload to send, such as a recorded fixture')
+  .option('--prompt <text>', 'Prompt to send to a UserPromptSubmit hook')
+  .option('--record', 'Record payloads from live sessions as fixtures and test the hook with each')
+  .action(async (id, options) => {
+    try {
+      const projectRoot = process.cwd();
+      const hookManager = new HookManager(projectRoot);
+
+      const hook = await hookManager.findHook(id);
+      const event = options.event ? parseHookEvent(options.event) : hook.event;
+      if (event !== hook.event) {
+        throw new ValidationError(`Hook ${id} runs on ${hook.event}, not ${event}`, 'event', `Use --event ${hook.event}`);
+      }
+      if (options.payload && options.prompt !== undefined) {
+        throw new ValidationError('Use either --payload or --prompt', 'payload', 'Put the prompt in the payload file');
+      }
+      if (options.prompt !== undefined && event !== 'UserPromptSubmit') {
+        throw new ValidationError(
+          `--prompt only applies to UserPromptSubmit hooks, and ${id} runs on ${event}`,
+          'prompt',
+          `Use --payload with a ${event} payload`
+        );
+      }
+
+      if (options.record) {
+        await recordAndTest(hookManager, hook);
+        return;
+      }
+
+      const input = options.payload
+        ? await readPayload(options.payload, event)
+        : createHookInput({
+            event,
+            projectRoot,
+            timestamp: Date.now(),
+            ...(options.prompt !== undefined && { prompt: options.prompt })
+          });
+      const { result } = await hookManager.testHook(id, input);
+
+      console.log(formatTestResult(hook, result));
+      if (!result.success) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+/**
+ * Record the payloads live sessions send for the hook's event and test the hook with
+ * each one, until Ctrl+C or the process is terminated
+ */
+async function recordAndTest(hookManager: HookManager, hook: HookConfig): Promise<void> {
+  const seen = new Set(await hookManager.listFixtures(hook.event));
+  const { dir, live } = await hookManager.startRecording(hook.event);
+
+  logger.info(`Recording ${hook.event} payloads to ${path.relative(process.cwd(), dir)}/. Press Ctrl+C to stop.`);
+  if (!live) {
+    logger.info(`Claude Code loads hooks when a session starts; start a new session to record ${hook.event} payloads.`);
+  }
+
+  await new Promise<void>(resolve => {
+    let testing = false;
+    let lastRenewal = Date.now();
+    const timer = setInterval(async () => {
+      if (testing) {
+        return;
+      }
+      testing = true;
+      try {
+        // Renew well before the recording expires; the recorder turns off once it has
+        if (Date.now() - lastRenewal > RECORDING_TTL_MS / 2) {
+          await hookManager.renewRecording(hook.event);
+          lastRenewal = Date.now();
+        }
+        for (const fixture of await hookManager.listFixtures(hook.event)) {
+          if (seen.has(fixture)) {
+            continue;
+          }
+          seen.add(fixture);
+          console.log(`\nRecorded ${path.relative(process.cwd(), fixture)}`);
+          const { result } = await hookManager.testHook(hook.id, await readPayload(fixture, hook.event));
+          console.log(formatTestResult(hook, result));
+        }
+      } catch (error) {
+        logger.error(`Could not test the recorded payload: ${error instanceof Error ? error.message : error}`);
+      } finally {
+        testing = false;
+      }
+    }, 1000);
+
+    const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+    const stop = () => {
+      signals.forEach(signal => process.off(signal, stop));
+      clearInterval(timer);
+      resolve();
+    };
+    signals.forEach(signal => process.once(signal, stop));
+  });
+
+  await hookManager.stopRecording(hook.event);
+  logger.success(`Stopped recording. Replay a fixture with: zcc hook test ${hook.id} --payload <file>`);
+}
+
+/**
+ * Read a payload file, taking the event from --event or the hook when it has none
+ */
+async function readPayload(file: string, event: HookEvent): Promise<HookInput> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (error) {
+    throw new ValidationError(
+      `Could not read payload ${file}: ${error instanceof Error ? error.message : error}`,
+      'payload',
+      'The payload must be a JSON file, like the fixtures `zcc hook test --record` saves'
+    );
+  }
+
+  const payload = typeof data === 'object' && data !== null && !Array.isArray(data)
+    ? { hook_event_name: event, ...data }
+    : data;
+  const validation = new HookValidator(process.cwd()).validateHookInput(event, payload);
+  if (!validation.valid) {
+    throw new ValidationError(
+      `Invalid payload ${file}: ${validation.errors.join(', ')}`,
+      'payload',
+      `Use a ${event} payload as Claude Code sends it`
+    );
+  }
+  validation.warnings.forEach(warning => logger.warn(warning));
+  return payload as HookInput;
+}
+
+/**
+ * Describe the result of a test run: how the hook exited, its output and the
+ * decision Claude Code would act on
+ */
+function formatTestResult(hook: HookConfig, result: HookResult): string {
+  if (result.skipped) {
+    // Stop hooks also skip payloads with stop_hook_active
+    const reason = hook.matcher
+      ? `its matcher ${hook.matcher.type}:${hook.matcher.pattern} does not match the payload`
+      : 'it does not run for this payload';
+    return `${hook.id}: skipped, ${reason}`;
+  }
+
+  const exitCode = result.exitCode ?? (result.shouldBlock ? 2 : result.success ? 0 : 1);
+  const duration = result.duration !== undefined ? ` in ${result.duration}ms` : '';
+  const lines = [`${hook.id} on ${hook.event}: exit ${exitCode}${duration}`];
+  lines.push(...formatOutput('stdout', result.output), ...formatOutput('stderr', result.error));
+
+  const decision = result.permissionDecision || result.decision || (result.shouldBlock ? 'block' : undefined);
+  lines.push(`Decision: ${decision || 'none'}${result.reason ? ` (${result.reason})` : ''}`);
+
+  const output = toHookOutput(hook.event, mergeHookResults([result]));
+  if (output) {
+    lines.push('Claude Code receives:', ...JSON.stringify(output, null, 2).split('\n').map(line => `    ${line}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Hook output under a heading, indented
+ */
+function formatOutput(name: string, output?: string): string[] {
+  if (!output) {
+    return [];
+  }
+  return [`  ${name}:`, ...output.replace(/\n+$/, '').split('\n').map(line => `    ${line}`)];
+}
+
+/**
+ * Check an event name given on the command line
+ */
+function parseHookEvent(event: string): HookEvent {
+  if (!HOOK_EVENTS.includes(event as HookEvent)) {
+    throw new ValidationError(
+      `Invalid hook event: ${event}`,
+      'event',
+      `Use one of: ${HOOK_EVENTS.join(', ')}`
+    );
+  }
+  return event as HookEvent;
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+/**
+ * Parse --since: a duration before now like `30m`, or a date
+ */
+function parseSince(value: string): Date {
+  const duration = value.match(/^(\d+)([smhd])$/);
+  if (duration) {
+    return new Date(Date.now() - parseInt(duration[1], 10) * DURATION_UNITS[duration[2]]);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(
+      `Invalid --since value: ${value}`,
+      'since',
+      'Use a duration like 30m, 2h or 1d, or a date like 2024-01-31'
+    );
+  }
+  return date;
+}
+
+/**
+ * Describe one hook execution: a summary line, then its output indented
+ */
+function formatTrace(trace: HookTrace): string {
+  const time = new Date(trace.time).toLocaleString();
+  const matcher = trace.matcher ? ` [${trace.matcher}]` : '';
+  if (!trace.matched) {
+    return `${time}  ${trace.event}  ${trace.hook}${matcher}  skipped: matcher did not match`;
+  }
+
+  const status = [
+    `exit ${trace.exitCode}`,
+    ...(trace.decision ? [trace.decision] : []),
+    ...(trace.duration !== undefined ? [`${trace.duration}ms`] : [])
+  ].join(', ');
+  return [
+    `${time}  ${trace.event}  ${trace.hook}${matcher}  ${status}`,
+    ...formatOutput('stdout', trace.stdout),
+    ...formatOutput('stderr', trace.stderr)
+  ].join('\n');
+}
+
+/**
+ * Read the JSON Claude Code writes to a hook's stdin; null when there is none
+ */
+async function readHookInput(): Promise<Record<string, unknown> | null> {
+  if (process.stdin.isTTY) {
+    return null;
+  }
+
+  let data = '';
+  process.stdin.setEncoding('utf-8');
+  for await (const chunk of process.stdin) {
+    data += chunk;
+  }
+  if (!data.trim()) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid hook input: ${error instanceof Error ? error.message : error}`,
+      'stdin',
+      'Hook input must be the JSON object Claude Code passes to hooks'
+    );
+  }
+}
+
 export { hookCommand };
\ No newline at end of file
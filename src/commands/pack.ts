@@ -1,9 +1,14 @@
 import { Command } from 'commander';
 import { StarterPackManager } from '../lib/StarterPackManager';
+import { PackBuilder } from '../lib/packs/PackBuilder';
+import { PackPublisher } from '../lib/sources/PackPublisher';
+import { PackSigner } from '../lib/security/PackSigner';
 import { logger } from '../lib/logger';
 import chalk from 'chalk';
-import { PackStructure } from '../lib/types/packs';
+import { PackCategory, PackMergeSummary, PackStructure } from '../lib/types/packs';
 import { isForce } from '../lib/context';
+import * as path from 'path';
+import { promises as fs } from 'fs';
 
 export const packCommand = new Command('pack')
   .description('Manage starter packs')
@@ -77,13 +82,29 @@ export const packCommand = new Command('pack')
   )
   .addCommand(
     new Command('install')
-      .argument('[name]', 'Pack name to install')
-      .description('Install a starter pack')
+      .argument('[name]', 'Pack name to install, optionally with a version range (name@^1.2.0)')
+      .description('Install a starter pack, or without a name the packs pinned in .zcc/packs.lock')
       .option('-f, --force', 'Force installation even if components exist')
       .action(async (name: string | undefined, options) => {
         try {
           const starterPackManager = new StarterPackManager(process.cwd());
+          const forceFlag = options.force || isForce();
           let packName = name;
+          if (!packName && await starterPackManager.hasLockfile()) {
+            logger.info('Installing packs from .zcc/packs.lock...');
+            const lockResult = await starterPackManager.installFromLockfile({ force: forceFlag });
+            for (const spec of lockResult.installed) {
+              logger.info(chalk.green(`✓ Installed ${spec}`));
+            }
+            if (lockResult.upToDate.length > 0) {
+              logger.info(`Already up to date: ${lockResult.upToDate.join(', ')}`);
+            }
+            if (!lockResult.success) {
+              logger.error(lockResult.errors.join('\n'));
+              process.exitCode = 1;
+            }
+            return;
+          }
           if (!packName) {
             const packs = await starterPackManager.listPacks();
             if (packs.length === 0) {
@@ -103,8 +124,7 @@ export const packCommand = new Command('pack')
           }
 
           logger.info(`Installing starter pack '${packName}'...`);
-          const forceFlag = options.force || isForce();
-          const result = await starterPackManager.installPack(packName, { force: forceFlag });
+          const result = await starterPackManager.installPack(packName!, { force: forceFlag });
 
           if (result.success) {
             logger.info(chalk.green(`✓ Successfully installed starter pack '${packName}'`));
@@ -152,7 +172,8 @@ export const packCommand = new Command('pack')
               removed.modes.length + 
               removed.workflows.length + 
               removed.agents.length + 
-              removed.hooks.length;
+              removed.hooks.length +
+              (removed.tickets?.length ?? 0);
             
             if (totalRemoved > 0) {
               logger.info('');
@@ -169,6 +190,9 @@ export const packCommand = new Command('pack')
               if (removed.hooks.length > 0) {
                 logger.info(`  ${chalk.magenta('Hooks:')} ${removed.hooks.join(', ')}`);
               }
+              if (removed.tickets?.length) {
+                logger.info(`  ${chalk.cyan('Ticket templates:')} ${removed.tickets.join(', ')}`);
+              }
             }
             
             // Show what was skipped
@@ -177,7 +201,8 @@ export const packCommand = new Command('pack')
               skipped.modes.length + 
               skipped.workflows.length + 
               skipped.agents.length + 
-              skipped.hooks.length;
+              skipped.hooks.length +
+              (skipped.tickets?.length ?? 0);
             
             if (totalSkipped > 0) {
               logger.info('');
@@ -194,6 +219,9 @@ export const packCommand = new Command('pack')
               if (skipped.hooks.length > 0) {
                 logger.info(`  ${chalk.magenta('Hooks:')} ${skipped.hooks.join(', ')}`);
               }
+              if (skipped.tickets?.length) {
+                logger.info(`  ${chalk.cyan('Ticket templates:')} ${skipped.tickets.join(', ')}`);
+              }
             }
           } else {
             logger.error(chalk.red(`✗ Failed to uninstall starter pack '${name}'`));
@@ -246,9 +274,12 @@ export const packCommand = new Command('pack')
 
           for (const p of targets) {
             logger.info(`Updating starter pack '${p}'...`);
-            const result = await starterPackManager.installPack(p, { force: true });
+            const result = await starterPackManager.installPack(p, { force: true, merge: true });
             if (result.success) {
               logger.info(chalk.green(`✓ Updated starter pack '${p}'`));
+              if (result.merge) {
+                showMergeSummary(result.merge);
+              }
             } else {
               logger.error(`Failed to update pack '${p}': ${result.errors.join(', ')}`);
               process.exitCode = 1;
@@ -259,8 +290,158 @@ export const packCommand = new Command('pack')
           process.exitCode = 1;
         }
       })
+  )
+  .addCommand(
+    new Command('create')
+      .argument('<name>', 'Name of the new pack')
+      .description('Scaffold a new starter pack directory')
+      .option('--dir <dir>', 'Directory to create the pack in', '.')
+      .option('--description <text>', 'Pack description')
+      .option('--author <name>', 'Pack author')
+      .option('-c, --category <category>', 'Pack category (frontend, backend, general, etc.)')
+      .action(async (name: string, options) => {
+        try {
+          const builder = new PackBuilder();
+          const packDir = await builder.create(path.resolve(options.dir), name, {
+            description: options.description,
+            author: options.author,
+            category: options.category as PackCategory | undefined,
+          });
+
+          logger.info(chalk.green(`✓ Created starter pack '${name}' in ${packDir}`));
+          logger.info('Add modes, workflows, agents and ticket templates, then run "zcc pack build".');
+        } catch (error) {
+          logger.error('Failed to create starter pack:', error);
+          process.exitCode = 1;
+        }
+      })
+  )
+  .addCommand(
+    new Command('build')
+      .argument('[dir]', 'Pack directory', '.')
+      .description('Sync manifest.json with the pack files, validate it and bundle the pack')
+      .option('-o, --out <dir>', 'Directory to write the bundle to', 'dist')
+      .option('--sign <keyfile>', 'Sign the pack with an ed25519 private key before bundling')
+      .action(async (dir: string, options) => {
+        try {
+          const builder = new PackBuilder();
+          const result = await builder.build(path.resolve(dir), path.resolve(options.out), {
+            signingKey: options.sign ? await fs.readFile(options.sign, 'utf-8') : undefined,
+          });
+
+          for (const component of result.added) {
+            logger.info(`  + ${component}`);
+          }
+          for (const component of result.removed) {
+            logger.info(`  - ${component}`);
+          }
+          for (const warning of result.warnings) {
+            logger.warn(warning);
+          }
+
+          if (!result.valid) {
+            logger.error(`Pack '${result.manifest.name}' is invalid:\n  ${result.errors.join('\n  ')}`);
+            process.exitCode = 1;
+            return;
+          }
+
+          logger.info(chalk.green(`✓ Built ${result.manifest.name}@${result.manifest.version}: ${result.archivePath}`));
+          logger.info(`  sha256: ${result.checksum}`);
+          if (result.keyId) {
+            logger.info(`  signed with key ${result.keyId}`);
+          }
+        } catch (error) {
+          logger.error('Failed to build starter pack:', error);
+          process.exitCode = 1;
+        }
+      })
+  )
+  .addCommand(
+    new Command('keygen')
+      .argument('<name>', 'Base name of the key files')
+      .description('Create an ed25519 key pair for signing packs')
+      .option('-o, --out <dir>', 'Directory to write the keys to', '.')
+      .action(async (name: string, options) => {
+        try {
+          const keyPair = PackSigner.generateKeyPair();
+          const privatePath = path.resolve(options.out, `${name}.key`);
+          const publicPath = path.resolve(options.out, `${name}.pub`);
+          await fs.mkdir(path.resolve(options.out), { recursive: true });
+          // Never overwrite a key: packs signed with it could no longer be re-signed
+          await fs.writeFile(privatePath, keyPair.privateKey, { mode: 0o600, flag: 'wx' });
+          await fs.writeFile(publicPath, keyPair.publicKey, { flag: 'wx' });
+
+          logger.info(chalk.green(`✓ Created signing key ${keyPair.keyId}`));
+          logger.info(`  private key: ${privatePath} (keep it secret)`);
+          logger.info(`  public key:  ${publicPath}`);
+          logger.info('Users trust it with: zcc source trust <source> --key <public key>');
+        } catch (error) {
+          logger.error('Failed to create signing key:', error);
+          process.exitCode = 1;
+        }
+      })
+  )
+  .addCommand(
+    new Command('sign')
+      .argument('[dir]', 'Pack directory', '.')
+      .description('Sign a pack with an ed25519 private key, writing signature.json')
+      .requiredOption('-k, --key <keyfile>', 'Private key created by "zcc pack keygen"')
+      .action(async (dir: string, options) => {
+        try {
+          const signature = await new PackSigner().sign(path.resolve(dir), await fs.readFile(options.key, 'utf-8'));
+          logger.info(chalk.green(`✓ Signed ${path.resolve(dir)} with key ${signature.keyId}`));
+        } catch (error) {
+          logger.error('Failed to sign starter pack:', error);
+          process.exitCode = 1;
+        }
+      })
+  )
+  .addCommand(
+    new Command('publish')
+      .argument('[dir]', 'Pack directory', '.')
+      .description('Build a pack and publish it to a local or http source')
+      .requiredOption('-s, --source <id>', 'Source to publish to')
+      .option('-o, --out <dir>', 'Directory to write the bundle to', 'dist')
+      .option('-f, --force', 'Replace the version if it is already published')
+      .option('--sign <keyfile>', 'Sign the pack with an ed25519 private key before bundling')
+      .action(async (dir: string, options) => {
+        try {
+          const publisher = new PackPublisher(process.cwd());
+          const result = await publisher.publish(path.resolve(dir), options.source, {
+            outDir: path.resolve(options.out),
+            signingKey: options.sign ? await fs.readFile(options.sign, 'utf-8') : undefined,
+            // Replacing a published version is never implied by non-interactive mode
+            force: options.force,
+          });
+
+          logger.info(chalk.green(`✓ Published ${result.name}@${result.version} to '${result.sourceId}'`));
+          logger.info(`  ${result.location}`);
+          logger.info(`  sha256: ${result.checksum}`);
+        } catch (error) {
+          logger.error('Failed to publish starter pack:', error);
+          process.exitCode = 1;
+        }
+      })
   );
 
+/**
+ * Report how locally modified files were handled by a pack update
+ */
+function showMergeSummary(merge: PackMergeSummary): void {
+  for (const file of merge.merged) {
+    logger.info(`  Merged local changes: ${file}`);
+  }
+  for (const file of merge.conflicted) {
+    logger.warn(chalk.yellow(`  Conflicts marked in: ${file}`));
+  }
+  for (const file of merge.untouched) {
+    logger.info(`  Kept local version: ${file}`);
+  }
+  if (merge.conflicted.length > 0) {
+    logger.warn('Resolve the conflict markers (<<<<<<< local ... >>>>>>>) in the files above.');
+  }
+}
+
 /**
  * Show packs in a summary format (compact listing)
  */
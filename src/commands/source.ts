@@ -1,8 +1,10 @@
 import { Command } from 'commander';
 import { SourceRegistry, SourceConfig } from '../lib/sources/SourceRegistry';
 import { TrustManager } from '../lib/security/TrustManager';
+import { getKeyId } from '../lib/security/PackSigner';
 import { shouldProceedWithoutPrompt } from '../lib/context';
 import * as path from 'path';
+import { existsSync, readFileSync } from 'fs';
 import * as chalk from 'chalk';
 import inquirer from 'inquirer';
 
@@ -44,6 +46,11 @@ export const sourceCommand = new Command('source')
                 console.log(`  Branch: ${config.config.branch || 'main'}`);
               } else if (config.type === 'local') {
                 console.log(`  Path: ${config.config.path}`);
+              } else if (config.type === 'http') {
+                console.log(`  URL: ${config.config.url}`);
+              } else if (config.type === 'git') {
+                console.log(`  URL: ${config.config.url}`);
+                console.log(`  Ref: ${config.config.ref || 'default branch'}`);
               }
               
               // Try to list packs from this source
@@ -72,13 +79,15 @@ export const sourceCommand = new Command('source')
     new Command('add')
       .description('Add a new pack source')
       .argument('<id>', 'Unique identifier for the source')
-      .option('-t, --type <type>', 'Source type (local, github, http)', 'github')
+      .option('-t, --type <type>', 'Source type (local, github, git, http)', 'github')
       .option('-o, --owner <owner>', 'GitHub repository owner (for github type)')
       .option('-r, --repo <repo>', 'GitHub repository name (for github type)')
       .option('-b, --branch <branch>', 'GitHub branch name', 'main')
       .option('-d, --directory <dir>', 'Directory containing packs', 'packs')
       .option('-p, --path <path>', 'Local path (for local type)')
-      .option('--token <token>', 'GitHub personal access token (for private repos)')
+      .option('-u, --url <url>', 'Registry URL (for http type) or repository URL (for git type)')
+      .option('--ref <ref>', 'Branch, tag or commit to check out (for git type)')
+      .option('--token <token>', 'GitHub personal access token, or bearer token for http registries')
       .option('--trust', 'Mark this source as trusted')
       .option('--priority <number>', 'Source priority (lower = higher priority)', '10')
       .action(async (id, options) => {
@@ -101,6 +110,16 @@ export const sourceCommand = new Command('source')
             process.exit(1);
           }
           
+          if (options.type === 'http' && !options.url) {
+            console.error(chalk.red('HTTP sources require --url option'));
+            process.exit(1);
+          }
+          
+          if (options.type === 'git' && !options.url) {
+            console.error(chalk.red('Git sources require --url option'));
+            process.exit(1);
+          }
+          
           // Build source configuration
           const config: SourceConfig = {
             id,
@@ -123,6 +142,19 @@ export const sourceCommand = new Command('source')
             config.config = {
               path: path.resolve(options.path),
             };
+          } else if (options.type === 'http') {
+            config.config = {
+              url: options.url,
+              token: options.token,
+              trustLevel: options.trust ? 'trusted' : 'untrusted',
+            };
+          } else if (options.type === 'git') {
+            config.config = {
+              url: options.url,
+              ref: options.ref,
+              directory: options.directory,
+              trustLevel: options.trust ? 'trusted' : 'untrusted',
+            };
           }
           
           // Show confirmation
@@ -137,6 +169,12 @@ export const sourceCommand = new Command('source')
               console.log(`  Directory: ${options.directory}`);
             } else if (options.type === 'local') {
               console.log(`  Path: ${config.config.path}`);
+            } else if (options.type === 'http') {
+              console.log(`  URL: ${options.url}`);
+            } else if (options.type === 'git') {
+              console.log(`  URL: ${options.url}`);
+              console.log(`  Ref: ${options.ref || 'default branch'}`);
+              console.log(`  Directory: ${options.directory}`);
             }
             
             console.log(`  Trust Level: ${options.trust ? 'trusted' : 'untrusted'}`);
@@ -280,6 +318,41 @@ export const sourceCommand = new Command('source')
         }
       })
   )
+  .addCommand(
+    new Command('sync')
+      .description('Download packs from remote sources into the cache for offline use')
+      .argument('[id]', 'Source to sync (defaults to all enabled remote sources)')
+      .action(async (id) => {
+        try {
+          const projectRoot = process.cwd();
+          const registry = new SourceRegistry(projectRoot);
+          await registry.initialize();
+
+          const results = await registry.syncSources(id ? [id] : undefined);
+          if (results.length === 0) {
+            console.log(chalk.yellow('No remote sources to sync'));
+            return;
+          }
+
+          let failed = false;
+          for (const result of results) {
+            const status = result.errors.length === 0 ? chalk.green('✓') : chalk.yellow('!');
+            console.log(`${status} ${chalk.bold(result.id)}: ${result.packs.length} pack(s) cached`);
+            for (const error of result.errors) {
+              console.log(chalk.red(`  ${error}`));
+            }
+            failed = failed || result.errors.length > 0;
+          }
+
+          if (failed) {
+            process.exit(1);
+          }
+        } catch (error: any) {
+          console.error(chalk.red(`Error syncing sources: ${error.message}`));
+          process.exit(1);
+        }
+      })
+  )
   .addCommand(
     new Command('trust')
       .description('Manage source trust settings')
@@ -287,15 +360,29 @@ export const sourceCommand = new Command('source')
       .option('--add', 'Add source to trusted list')
       .option('--remove', 'Remove source from trusted list')
       .option('--check', 'Check if source is trusted')
+      .option('--key <file>', 'Trust an author public key for packs from this source (with --remove: the key file or id)')
       .action(async (id, options) => {
         try {
           const projectRoot = process.cwd();
           const trustManager = new TrustManager(projectRoot);
           await trustManager.initialize();
           
-          if (options.check) {
+          if (options.key && options.remove) {
+            const keyId = existsSync(options.key) ? getKeyId(readFileSync(options.key, 'utf-8')) : options.key;
+            if (!await trustManager.removeTrustedKey(id, keyId)) {
+              console.error(chalk.red(`Key ${keyId} is not trusted for source '${id}'`));
+              process.exit(1);
+            }
+            console.log(chalk.green(`\n✓ Key ${keyId} is no longer trusted for source '${id}'`));
+          } else if (options.key) {
+            const key = await trustManager.addTrustedKey(id, readFileSync(options.key, 'utf-8'), path.basename(options.key));
+            console.log(chalk.green(`\n✓ Packs from '${id}' signed with key ${key.keyId} are now trusted`));
+          } else if (options.check) {
             const isTrusted = trustManager.isTrustedSource(id);
             console.log(`Source '${id}' is ${isTrusted ? chalk.green('trusted') : chalk.yellow('untrusted')}`);
+            for (const key of trustManager.getTrustedKeys(id)) {
+              console.log(`  Signing key: ${key.keyId}${key.description ? ` (${key.description})` : ''}`);
+            }
           } else if (options.add) {
             await trustManager.addTrustedSource(id, {
               type: 'manual',
@@ -307,7 +394,7 @@ export const sourceCommand = new Command('source')
             await trustManager.removeTrustedSource(id);
             console.log(chalk.green(`\n✓ Source '${id}' removed from trusted list`));
           } else {
-            console.error(chalk.red('Please specify --add, --remove, or --check'));
+            console.error(chalk.red('Please specify --add, --remove, --check or --key'));
             process.exit(1);
           }
         } catch (error: any) {
@@ -1,5 +1,20 @@
 import { Command } from 'commander';
-import { TicketManager, TicketStatus, TicketType, TicketCreationOptions } from '../lib/ticketManager';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  TicketManager,
+  TicketStatus,
+  TicketType,
+  TicketCreationOptions,
+  TicketInfo,
+  TicketQuery,
+  TicketSortField,
+  TicketDependencyNode
+} from '../lib/ticketManager';
+import { TicketExchange, TicketExportFormat, TicketImportEntry } from '../lib/ticketExchange';
+import { TicketBoard } from '../lib/ticketBoard';
+import { TicketGitIntegration } from '../lib/ticketGitIntegration';
+import { cliContext } from '../lib/context';
 import { logger } from '../lib/logger';
 import inquirer from 'inquirer';
 // Type guards for validation
@@ -26,6 +41,155 @@ function validateTicketType(type: string): TicketType {
   return type;
 }
 
+const SORT_FIELDS: TicketSortField[] = ['name', 'priority', 'created', 'updated', 'due'];
+
+function validateSortField(sort: string): TicketSortField {
+  if (!SORT_FIELDS.includes(sort as TicketSortField)) {
+    throw new Error(`Invalid sort field: ${sort}. Must be one of: ${SORT_FIELDS.join(', ')}`);
+  }
+  return sort as TicketSortField;
+}
+
+function validateStatus(status: string, statuses: TicketStatus[]): TicketStatus {
+  if (!statuses.includes(status)) {
+    throw new Error(`Invalid status: ${status}. Must be one of: ${statuses.join(', ')}`);
+  }
+  return status;
+}
+
+function validateDueDate(due: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(due) || isNaN(Date.parse(due))) {
+    throw new Error(`Invalid due date: ${due}. Must be in YYYY-MM-DD format`);
+  }
+  return due;
+}
+
+function parseTags(tags: string): string[] {
+  return tags.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag.length > 0);
+}
+
+/**
+ * Resolve the special assignee "me" to the current user
+ */
+function resolveAssignee(assignee: string): string {
+  if (assignee !== 'me') {
+    return assignee;
+  }
+  return process.env.ZCC_USER || process.env.USER || process.env.USERNAME || os.userInfo().username;
+}
+
+function formatTicketDetails(ticket: TicketInfo): string {
+  const details: string[] = [];
+  if (ticket.priority) details.push(`[${ticket.priority}]`);
+  if (ticket.type) details.push(ticket.type);
+  if (ticket.assignee) details.push(`@${ticket.assignee}`);
+  if (ticket.tags && ticket.tags.length > 0) details.push(ticket.tags.map(tag => `#${tag}`).join(' '));
+  if (ticket.due) details.push(`due ${ticket.due}`);
+  const label = ticket.id ? `${ticket.id} ${ticket.name}` : ticket.name;
+  return details.length > 0 ? `${label} ${details.join(' ')}` : label;
+}
+
+/**
+ * Print tickets grouped under their status, in the configured workflow order
+ */
+function printTicketsByStatus(tickets: TicketInfo[], statuses: TicketStatus[], detailed: boolean): void {
+  const ticketsByStatus: Record<string, string[]> = {};
+  statuses.forEach(status => {
+    ticketsByStatus[status] = [];
+  });
+
+  tickets.forEach(ticket => {
+    if (ticketsByStatus[ticket.status]) {
+      ticketsByStatus[ticket.status].push(detailed ? formatTicketDetails(ticket) : ticket.name);
+    }
+  });
+
+  Object.entries(ticketsByStatus).forEach(([status, names]) => {
+    if (names.length > 0) {
+      logger.info(`\n${status}:`);
+      names.forEach(name => {
+        logger.info(`  - ${name}`);
+      });
+    }
+  });
+}
+
+/**
+ * Format a duration in milliseconds as a compact "1d 4h" / "3h 12m" / "5m" string
+ */
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
+
+/**
+ * Parse a YYYY-MM-DD date or an ISO timestamp. With `endOfDay`, a date without a time
+ * means the last moment of that day (UTC) rather than its start.
+ */
+function parseDateOption(value: string, option: string, endOfDay = false): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${option} date: ${value}. Use YYYY-MM-DD or an ISO timestamp`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1);
+  }
+  return date;
+}
+
+const EXPORT_FORMATS: TicketExportFormat[] = ['json', 'csv', 'github'];
+
+function validateExportFormat(format: string): TicketExportFormat {
+  if (!EXPORT_FORMATS.includes(format as TicketExportFormat)) {
+    throw new Error(`Invalid format: ${format}. Must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  return format as TicketExportFormat;
+}
+
+/**
+ * Describe one planned import change; body changes are summarized rather than printed
+ */
+function formatImportEntry(entry: TicketImportEntry): string[] {
+  if (entry.action === 'create') {
+    const state = entry.changes.find(change => change.field === 'state')?.to;
+    return [`+ ${entry.id} (${state})`];
+  }
+
+  return [
+    `~ ${entry.id}`,
+    ...entry.changes.map(change => change.field === 'body'
+      ? '    body: changed'
+      : `    ${change.field}: ${change.from || '(none)'} → ${change.to || '(none)'}`)
+  ];
+}
+
+/**
+ * Render a dependency tree node and its blockers with box-drawing connectors
+ */
+function renderDependencyNode(node: TicketDependencyNode, prefix: string, isLast: boolean, isRoot: boolean): string[] {
+  let label = node.name;
+  if (node.missing) {
+    label += ' (missing)';
+  } else if (node.circular) {
+    label += ` (${node.status}) ↻ cycle`;
+  } else {
+    label += ` (${node.status})`;
+  }
+
+  const lines = [isRoot ? label : `${prefix}${isLast ? '└── ' : '├── '}${label}`];
+  const childPrefix = isRoot ? '' : `${prefix}${isLast ? '    ' : '│   '}`;
+  node.blockedBy.forEach((child, index) => {
+    lines.push(...renderDependencyNode(child, childPrefix, index === node.blockedBy.length - 1, false));
+  });
+  return lines;
+}
+
 const ticketCommand = new Command('ticket')
   .description('Manage tickets for persistent workspace');
 
@@ -39,6 +203,8 @@ ticketCommand
   .option('--priority <priority>', 'Priority (low, medium, high, critical)')
   .option('--assignee <assignee>', 'Assignee name')
   .option('--tags <tags>', 'Comma-separated tags')
+  .option('--due <date>', 'Due date (YYYY-MM-DD)')
+  .option('--template <name>', 'Ticket template to start from (see: zcc ticket templates)')
   .option('--interactive', 'Use interactive prompts to gather ticket information')
   .action(async (name: string, options: any) => {
     try {
@@ -46,8 +212,8 @@ ticketCommand
       
       let ticketOptions: TicketCreationOptions = {};
       
-      // If interactive mode is enabled or no type is specified, prompt for information
-      if (options.interactive || !options.type) {
+      // If interactive mode is enabled or neither type nor template is specified, prompt for information
+      if (options.interactive || (!options.type && !options.template)) {
         const answers = await inquirer.prompt([
           {
             type: 'list',
@@ -106,23 +272,35 @@ ticketCommand
           description: answers.description,
           priority: validatePriority(answers.priority),
           assignee: answers.assignee,
-          tags: answers.tags ? answers.tags.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag.length > 0) : []
+          tags: answers.tags ? parseTags(answers.tags) : []
         };
       } else {
         // Use command line options with validation
         ticketOptions = {
-          type: options.type ? validateTicketType(options.type) : 'task',
+          // A template may define its own default type
+          type: options.type ? validateTicketType(options.type) : (options.template ? undefined : 'task'),
           title: options.title,
           description: options.description,
           priority: options.priority ? validatePriority(options.priority) : 'medium',
           assignee: options.assignee,
-          tags: options.tags ? options.tags.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag.length > 0) : []
+          tags: options.tags ? parseTags(options.tags) : []
         };
       }
+
+      if (options.due) {
+        ticketOptions.due = validateDueDate(options.due);
+      }
+      if (options.template) {
+        ticketOptions.template = options.template;
+      }
       
       const ticketPath = await ticketManager.create(name, ticketOptions);
+      const created = await ticketManager.get(name);
       
-      logger.success(`Created ${ticketOptions.type || 'task'} ticket: ${ticketOptions.title || name}`);
+      logger.success(`Created ${ticketOptions.template || ticketOptions.type || 'task'} ticket: ${ticketOptions.title || name}`);
+      if (created?.id) {
+        logger.info(`ID: ${created.id}`);
+      }
       logger.info(`Location: ${ticketPath}`);
       
       if (ticketOptions.priority && ticketOptions.priority !== 'medium') {
@@ -145,38 +323,187 @@ ticketCommand
 ticketCommand
   .command('list')
   .description('List all tickets')
-  .action(async () => {
+  .option('--status <status>', 'Only show tickets with this status')
+  .option('--type <type>', 'Only show tickets of this type')
+  .option('--priority <priority>', 'Only show tickets with this priority')
+  .option('--assignee <assignee>', 'Only show tickets assigned to this person ("me" for yourself)')
+  .option('--tag <tags>', 'Only show tickets with these comma-separated tags')
+  .option('--sort <field>', `Sort by field (${SORT_FIELDS.join(', ')})`)
+  .action(async (options: any) => {
     try {
       const ticketManager = new TicketManager(process.cwd());
-      const tickets = await ticketManager.list();
+      const statuses = await ticketManager.getStatuses();
+      const useQuery = ['status', 'type', 'priority', 'assignee', 'tag', 'sort'].some(key => options[key] !== undefined);
+
+      let tickets: TicketInfo[];
+      if (useQuery) {
+        const query: TicketQuery = {};
+        if (options.status) query.status = validateStatus(options.status, statuses);
+        if (options.type) query.type = validateTicketType(options.type);
+        if (options.priority) query.priority = validatePriority(options.priority);
+        if (options.assignee) query.assignee = resolveAssignee(options.assignee);
+        if (options.tag) query.tags = parseTags(options.tag);
+        if (options.sort) query.sort = validateSortField(options.sort);
+        tickets = await ticketManager.query(query);
+      } else {
+        tickets = await ticketManager.list();
+      }
       
       if (tickets.length === 0) {
         logger.info('No tickets found.');
         return;
       }
 
-      const ticketsByStatus: Record<string, string[]> = {
-        'next': [],
-        'in-progress': [],
-        'done': []
-      };
+      printTicketsByStatus(tickets, statuses, useQuery);
+    } catch (error) {
+      logger.error(`Failed to list tickets: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
 
-      tickets.forEach(ticket => {
-        if (ticketsByStatus[ticket.status]) {
-          ticketsByStatus[ticket.status].push(ticket.name);
+// Board subcommand - interactive kanban, plain list when there is no terminal
+ticketCommand
+  .command('board')
+  .description('Interactive ticket board; arrow keys move tickets between status columns')
+  .option('--tag <tag>', 'Only show tickets with this tag')
+  .option('--priority <priority>', 'Only show tickets with this priority')
+  .action(async (options: any) => {
+    try {
+      const ticketManager = new TicketManager(process.cwd());
+      const priority = options.priority ? validatePriority(options.priority) : undefined;
+
+      if (cliContext.isNonInteractive() || !process.stdout.isTTY || !process.stdin.isTTY) {
+        const query: TicketQuery = { sort: 'priority' };
+        if (options.tag) query.tags = [options.tag];
+        if (priority) query.priority = priority;
+
+        const tickets = await ticketManager.query(query);
+        if (tickets.length === 0) {
+          logger.info('No tickets found.');
+          return;
         }
-      });
+        printTicketsByStatus(tickets, await ticketManager.getStatuses(), true);
+        return;
+      }
+
+      await new TicketBoard(ticketManager, { tag: options.tag, priority }).run();
+    } catch (error) {
+      logger.error(`Failed to show ticket board: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
+
+ticketCommand
+  .command('search <query>')
+  .description('Search ticket names, titles, tags and content, best matches first')
+  .option('--status <status>', 'Only search tickets with this status')
+  .option('--limit <n>', 'Maximum number of results', '20')
+  .option('--json', 'Output results as JSON')
+  .action(async (query: string, options: any) => {
+    try {
+      const ticketManager = new TicketManager(process.cwd());
+      const limit = parseInt(options.limit, 10);
+      if (isNaN(limit) || limit < 1) {
+        throw new Error(`Invalid limit: ${options.limit}. Must be a positive number`);
+      }
 
-      Object.entries(ticketsByStatus).forEach(([status, names]) => {
-        if (names.length > 0) {
-          logger.info(`\n${status}:`);
-          names.forEach(name => {
-            logger.info(`  - ${name}`);
-          });
+      const status = options.status
+        ? validateStatus(options.status, await ticketManager.getStatuses())
+        : undefined;
+      const results = await ticketManager.search(query, { status, limit });
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+
+      if (results.length === 0) {
+        logger.info(`No tickets matching '${query}'.`);
+        return;
+      }
+
+      results.forEach(result => {
+        logger.info(`${result.name} (${result.status}) score ${result.score}`);
+        if (result.snippet) {
+          logger.info(`    ${result.snippet}`);
         }
       });
     } catch (error) {
-      logger.error(`Failed to list tickets: ${error}`);
+      logger.error(`Failed to search tickets: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
+
+ticketCommand
+  .command('export')
+  .description('Export tickets as JSON, CSV or GitHub issue JSON')
+  .option('--format <format>', `Export format (${EXPORT_FORMATS.join(', ')})`, 'json')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action(async (options: any) => {
+    try {
+      const format = validateExportFormat(options.format);
+      const exchange = new TicketExchange(process.cwd());
+
+      if (options.output) {
+        const count = await exchange.exportToFile(format, path.resolve(process.cwd(), options.output));
+        logger.success(`Exported ${count} ticket(s) to ${options.output}`);
+        return;
+      }
+
+      process.stdout.write(await exchange.export(format));
+    } catch (error) {
+      logger.error(`Failed to export tickets: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
+
+ticketCommand
+  .command('import <file>')
+  .description('Import tickets from a JSON, CSV or GitHub issue export; existing ids are updated')
+  .option('--format <format>', `Input format (${EXPORT_FORMATS.join(', ')}); detected from the file by default`)
+  .option('--dry-run', 'Show what would change without writing tickets')
+  .action(async (file: string, options: any) => {
+    try {
+      const format = options.format ? validateExportFormat(options.format) : undefined;
+      const exchange = new TicketExchange(process.cwd());
+      const result = await exchange.importFile(path.resolve(process.cwd(), file), { format, dryRun: options.dryRun });
+
+      result.entries
+        .filter(entry => entry.action !== 'unchanged')
+        .forEach(entry => formatImportEntry(entry).forEach(line => logger.info(line)));
+
+      const count = (action: TicketImportEntry['action']) => result.entries.filter(entry => entry.action === action).length;
+      if (result.dryRun) {
+        logger.info(`Dry run: ${count('create')} to create, ${count('update')} to update, ${count('unchanged')} unchanged`);
+      } else {
+        logger.success(`Imported tickets: ${count('create')} created, ${count('update')} updated, ${count('unchanged')} unchanged`);
+      }
+    } catch (error) {
+      logger.error(`Failed to import tickets: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
+
+ticketCommand
+  .command('templates')
+  .description('List ticket templates available to "ticket create --template"')
+  .action(async () => {
+    try {
+      const ticketManager = new TicketManager(process.cwd());
+      const templates = await ticketManager.listTemplates();
+
+      logger.info('Ticket templates:');
+      templates.forEach(template => {
+        const description = template.description ? ` - ${template.description}` : '';
+        logger.info(`  ${template.name} (${template.source})${description}`);
+      });
+    } catch (error) {
+      logger.error(`Failed to list ticket templates: ${error}`);
       process.exitCode = 1;
       return;
     }
@@ -185,19 +512,21 @@ ticketCommand
 // Move subcommand - now accepts status as positional argument
 ticketCommand
   .command('move <name> <status>')
-  .description('Move a ticket to a different status (next, in-progress, done)')
-  .action(async (name: string, status: string) => {
+  .description('Move a ticket (by name or ID) to a different status (next, in-progress, done or a configured custom status)')
+  .option('-f, --force', 'Move the ticket to in-progress even if blocking tickets are not done')
+  .action(async (name: string, status: string, options: any) => {
     try {
       const ticketManager = new TicketManager(process.cwd());
       
-      // Validate status
-      if (!['next', 'in-progress', 'done'].includes(status)) {
-        logger.error(`Invalid status: ${status}. Must be one of: next, in-progress, done`);
+      // Validate status against the configured workflow
+      const statuses = await ticketManager.getStatuses();
+      if (!statuses.includes(status)) {
+        logger.error(`Invalid status: ${status}. Must be one of: ${statuses.join(', ')}`);
         process.exitCode = 1;
       return;
       }
       
-      await ticketManager.move(name, status as TicketStatus);
+      await ticketManager.move(name, status, { force: options.force });
       logger.success(`Moved ticket '${name}' to ${status}`);
     } catch (error) {
       logger.error(`Failed to move ticket: ${error}`);
@@ -209,14 +538,27 @@ ticketCommand
 // Start subcommand - convenience for moving to in-progress
 ticketCommand
   .command('start <name>')
-  .description('Move a ticket to in-progress status')
-  .action(async (name: string) => {
+  .description('Move a ticket (by name or ID) to in-progress status')
+  .option('-f, --force', 'Start the ticket even if blocking tickets are not done')
+  .action(async (name: string, options: any) => {
     try {
       const ticketManager = new TicketManager(process.cwd());
-      await ticketManager.move(name, 'in-progress');
+      // Refuses tickets with open blockers unless forced
+      await ticketManager.move(name, 'in-progress', { force: options.force });
       logger.success(`Started ticket '${name}' (moved to in-progress)`);
+
+      // Git problems are reported but do not undo the status change
+      const git = new TicketGitIntegration(process.cwd());
+      if (await git.isEnabled()) {
+        try {
+          const { branch, created } = await git.startBranch(name);
+          logger.info(`${created ? 'Created and checked out' : 'Checked out'} branch ${branch}`);
+        } catch (error) {
+          logger.warn(`Git integration: ${error instanceof Error ? error.message : error}`);
+        }
+      }
     } catch (error) {
-      logger.error(`Failed to start ticket: ${error}`);
+      logger.error('Failed to start ticket:', error);
       process.exitCode = 1;
       return;
     }
@@ -225,12 +567,24 @@ ticketCommand
 // Finish subcommand - convenience for moving to done
 ticketCommand
   .command('finish <name>')
-  .description('Move a ticket to done status')
+  .description('Move a ticket (by name or ID) to done status')
   .action(async (name: string) => {
     try {
       const ticketManager = new TicketManager(process.cwd());
       await ticketManager.move(name, 'done');
       logger.success(`Finished ticket '${name}' (moved to done)`);
+
+      const git = new TicketGitIntegration(process.cwd());
+      if (await git.isEnabled()) {
+        try {
+          const commits = await git.recordCommits(name);
+          if (commits) {
+            logger.info(`Recorded ${commits.count} commit(s) on ${commits.branch}: ${commits.range}`);
+          }
+        } catch (error) {
+          logger.warn(`Git integration: ${error instanceof Error ? error.message : error}`);
+        }
+      }
     } catch (error) {
       logger.error(`Failed to finish ticket: ${error}`);
       process.exitCode = 1;
@@ -238,10 +592,143 @@ ticketCommand
     }
   });
 
+// Link subcommand - record blocking relationships
+ticketCommand
+  .command('link <name>')
+  .description('Mark a ticket as blocking another ticket')
+  .requiredOption('--blocks <other>', 'Ticket that cannot start until this one is done')
+  .action(async (name: string, options: any) => {
+    try {
+      const ticketManager = new TicketManager(process.cwd());
+      await ticketManager.link(name, options.blocks);
+      logger.success(`Ticket '${name}' now blocks '${options.blocks}'`);
+    } catch (error) {
+      logger.error(`Failed to link tickets: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
+
+// Unlink subcommand
+ticketCommand
+  .command('unlink <name>')
+  .description('Remove a blocking relationship between tickets')
+  .requiredOption('--blocks <other>', 'Ticket that should no longer be blocked by this one')
+  .action(async (name: string, options: any) => {
+    try {
+      const ticketManager = new TicketManager(process.cwd());
+      await ticketManager.unlink(name, options.blocks);
+      logger.success(`Ticket '${name}' no longer blocks '${options.blocks}'`);
+    } catch (error) {
+      logger.error(`Failed to unlink tickets: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
+
+// Graph subcommand - print the dependency tree
+ticketCommand
+  .command('graph')
+  .description('Show ticket dependencies and detect cycles')
+  .action(async () => {
+    try {
+      const ticketManager = new TicketManager(process.cwd());
+      const graph = await ticketManager.getDependencyGraph();
+
+      if (graph.roots.length === 0) {
+        logger.info('No ticket dependencies found.');
+        return;
+      }
+
+      graph.roots.forEach(root => {
+        renderDependencyNode(root, '', true, true).forEach(line => logger.info(line));
+      });
+
+      if (graph.cycles.length > 0) {
+        graph.cycles.forEach(cycle => {
+          logger.warn(`Circular dependency detected: ${cycle.join(' → ')}`);
+        });
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      logger.error(`Failed to build ticket graph: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
+
+// Report subcommand - throughput and cycle time from the activity log
+ticketCommand
+  .command('report')
+  .description('Summarize completed tickets, cycle time and time in progress per type')
+  .option('--since <date>', 'Only include tickets finished on or after this date')
+  .option('--until <date>', 'Only include tickets finished on or before this date')
+  .option('--json', 'Output the report as JSON')
+  .action(async (options: any) => {
+    try {
+      const ticketManager = new TicketManager(process.cwd());
+      const report = await ticketManager.report({
+        since: options.since ? parseDateOption(options.since, '--since') : undefined,
+        until: options.until ? parseDateOption(options.until, '--until', true) : undefined
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      const window = options.since ? ` since ${options.since}` : '';
+      if (report.completed === 0) {
+        logger.info(`No tickets completed${window}.`);
+        return;
+      }
+
+      logger.info(`Completed tickets${window}: ${report.completed}`);
+      Object.entries(report.byType).forEach(([type, stats]) => {
+        if (!stats) return;
+        logger.info(
+          `  ${type}: ${stats.completed} completed, avg cycle time ${formatDuration(stats.averageCycleTimeMs)}, ` +
+          `avg in progress ${formatDuration(stats.averageInProgressMs)}`
+        );
+      });
+
+      logger.info('\nTickets:');
+      report.tickets.forEach(ticket => {
+        logger.info(
+          `  - ${ticket.name} (${ticket.type}) finished ${ticket.completedAt.slice(0, 10)}, ` +
+          `cycle time ${formatDuration(ticket.cycleTimeMs)}`
+        );
+      });
+    } catch (error) {
+      logger.error(`Failed to build ticket report: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
+
+// Rename subcommand - keeps the ticket ID and rewrites references in other tickets
+ticketCommand
+  .command('rename <name> <newName>')
+  .description('Rename a ticket (by name or ID) and update references to it in other tickets')
+  .action(async (name: string, newName: string) => {
+    try {
+      const ticketManager = new TicketManager(process.cwd());
+      const result = await ticketManager.rename(name, newName);
+      logger.success(`Renamed ticket '${name}' to '${result.name}'`);
+      if (result.references.length > 0) {
+        logger.info(`Updated references in: ${result.references.join(', ')}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to rename ticket: ${error}`);
+      process.exitCode = 1;
+      return;
+    }
+  });
+
 // Delete subcommand
 ticketCommand
   .command('delete <name>')
-  .description('Delete a ticket')
+  .description('Delete a ticket (by name or ID)')
   .action(async (name: string) => {
     try {
       const ticketManager = new TicketManager(process.cwd());
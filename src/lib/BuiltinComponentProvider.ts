@@ -126,7 +126,8 @@ export class BuiltinComponentProvider {
         { type: 'hook', key: 'hooks' },
         { type: 'command', key: 'commands' },
         { type: 'script', key: 'scripts' },
-        { type: 'template', key: 'templates' }
+        { type: 'template', key: 'templates' },
+        { type: 'ticket', key: 'tickets' }
       ];
 
       for (const { type, key } of componentTypes) {
@@ -172,7 +173,7 @@ export class BuiltinComponentProvider {
     }
 
     const components: BuiltinComponentInfo[] = [];
-    const componentTypeDirs = ['modes', 'workflows', 'agents', 'hooks', 'commands', 'scripts', 'templates'];
+    const componentTypeDirs = ['modes', 'workflows', 'agents', 'hooks', 'commands', 'scripts', 'templates', 'tickets'];
 
     for (const typeDir of componentTypeDirs) {
       const typePath = path.join(this.templatesPath, typeDir);
@@ -243,6 +244,7 @@ export class BuiltinComponentProvider {
       case 'workflow':
       case 'agent':
       case 'command':
+      case 'ticket':
         return ['.md'];
       case 'hook':
         return ['.json', '.yaml', '.yml'];
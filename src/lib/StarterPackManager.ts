@@ -5,16 +5,22 @@ import {
   PackValidationResult,
   PackDependencyResult,
   PackInstallationResult,
+  PackLockInstallResult,
+  PackResolution,
   ProjectType,
 } from "./types/packs";
-import { PackRegistry } from "./packs/PackRegistry";
+import { PackRegistry, parsePackDependency } from "./packs/PackRegistry";
+import { PackLockfile } from "./packs/PackLockfile";
 import { PackValidator } from "./packs/PackValidator";
 import { PackInstaller } from "./packs/PackInstaller";
-import { IPackSource } from "./packs/PackSource";
+import { IPackSource, loadPackVersion } from "./packs/PackSource";
 import { FileSystemAdapter } from "./adapters/FileSystemAdapter";
 import { NodeFileSystemAdapter } from "./adapters/NodeFileSystemAdapter";
 import { SourceRegistry } from "./sources/SourceRegistry";
 import { TrustManager } from "./security/TrustManager";
+import { PackScanFinding, formatFinding, isSevereFinding } from "./security/PackScanner";
+import { OfflineError, ZccError } from "./errors";
+import { isOffline } from "./context";
 import inquirer from 'inquirer';
 import * as chalk from 'chalk';
 
@@ -29,6 +35,7 @@ export class StarterPackManager {
   private fs: FileSystemAdapter;
   private sourceRegistry: SourceRegistry;
   private trustManager: TrustManager;
+  private lockfile: PackLockfile;
   private initialized: boolean = false;
 
   constructor(projectRoot: string, fs?: FileSystemAdapter) {
@@ -38,6 +45,7 @@ export class StarterPackManager {
     this.installer = new PackInstaller(projectRoot, this.fs);
     this.sourceRegistry = new SourceRegistry(projectRoot, this.fs);
     this.trustManager = new TrustManager(projectRoot, this.fs);
+    this.lockfile = new PackLockfile(projectRoot, this.fs);
   }
 
   /**
@@ -130,67 +138,21 @@ export class StarterPackManager {
   }
 
   /**
-   * Install a starter pack with iterative dependency resolution to prevent stack overflow
+   * Install a starter pack with iterative dependency resolution to prevent stack overflow.
+   * The pack may carry a version range (`essentials@^1.2.0`); installed packs are
+   * recorded in `.zcc/packs.lock`.
    */
   async installPack(
-    packName: string,
+    packSpec: string,
     options: PackInstallOptions = {}
   ): Promise<PackInstallationResult> {
     await this.initialize();
 
-    try {
-      // Check if pack is from an external source
-      const packInfo = await this.sourceRegistry.findPack(packName);
-
-      if (packInfo && packInfo.sourceId !== 'local') {
-        // Validate the external source
-        const source = packInfo.source;
-        const sourceValidation = await this.trustManager.validateSource(source);
-
-        if (!sourceValidation.valid) {
-          logger.error(`Source validation failed: ${sourceValidation.errors.join(', ')}`);
-          return {
-            success: false,
-            installed: { modes: [], workflows: [], agents: [], hooks: [] },
-            skipped: { modes: [], workflows: [], agents: [], hooks: [] },
-            errors: sourceValidation.errors,
-          };
-        }
-
-        // Load the pack for security validation
-        const pack = await source.loadPack(packName);
-        const packValidation = await this.trustManager.validatePack(pack, source);
-
-        if (packValidation.requiresConsent && !options.force) {
-          console.log(chalk.yellow('\nSecurity Warning:'));
-          packValidation.warnings.forEach(warning => {
-            console.log(chalk.yellow(`  • ${warning}`));
-          });
-
-          const { proceed } = await inquirer.prompt([
-            {
-              type: 'confirm',
-              name: 'proceed',
-              message: `Install pack '${packName}' from untrusted source '${packInfo.sourceId}'?`,
-              default: false,
-            },
-          ]);
-
-          if (!proceed) {
-            return {
-              success: false,
-              installed: { modes: [], workflows: [], agents: [], hooks: [] },
-              skipped: { modes: [], workflows: [], agents: [], hooks: [] },
-              errors: ['Installation cancelled by user'],
-            };
-          }
-        }
-
-        // Record the installation for audit
-        await this.trustManager.recordInstallation(source, pack, true);
-      }
+    const { name: packName, range } = parsePackDependency(packSpec);
 
-      return await this.installPackWithQueue(packName, options);
+    try {
+      // Trust checks run in the queue, on the source each pack is installed from
+      return await this.installPackWithQueue(packName, options, range);
     } catch (error) {
       logger.error(`Failed to install pack '${packName}': ${error}`);
 
@@ -209,21 +171,19 @@ export class StarterPackManager {
    */
   async installPackDirect(
     packName: string,
-    options: PackInstallOptions = {}
+    options: PackInstallOptions = {},
+    sourceName?: string,
+    version?: string
   ): Promise<PackInstallationResult> {
     await this.initialize();
 
     try {
       logger.debug(`Installing pack '${packName}' directly (no dependencies)`);
       
-      // Find the source that has the pack
-      const packSourceResult = await this.registry.findPackSource(packName);
-      if (!packSourceResult) {
-        throw new Error(`Pack '${packName}' not found in any source`);
-      }
+      const packSourceResult = await this.resolvePackSource(packName, sourceName);
 
       // Load the pack from the correct source
-      const packStructure = await packSourceResult.source.loadPack(packName);
+      const packStructure = await loadPackVersion(packSourceResult.source, packName, version);
 
       // Validate the pack using the correct source
       const validation = await this.validator.validatePackStructure(packStructure, packSourceResult.source);
@@ -238,7 +198,16 @@ export class StarterPackManager {
       }
 
       // Install the pack itself (no dependency processing)
-      return this.installer.installPack(packStructure, packSourceResult.source, options);
+      const result = await this.installer.installPack(packStructure, packSourceResult.source, options);
+
+      if (result.success && !options.dryRun) {
+        await this.lockfile.setPack(
+          packStructure,
+          packSourceResult.sourceName,
+          packSourceResult.source.getSourceInfo().commit
+        );
+      }
+      return result;
 
     } catch (error) {
       logger.error(`Failed to install pack '${packName}' directly: ${error}`);
@@ -252,19 +221,119 @@ export class StarterPackManager {
     }
   }
 
+  /**
+   * The requested source, or the first source that has the pack
+   */
+  private async resolvePackSource(
+    packName: string,
+    sourceName?: string
+  ): Promise<{ source: IPackSource; sourceName: string }> {
+    if (sourceName) {
+      const source = this.registry.getSource(sourceName);
+      if (!source) {
+        throw new Error(`Pack source '${sourceName}' is not registered`);
+      }
+      return { source, sourceName };
+    }
+
+    const found = await this.registry.findPackSource(packName);
+    if (!found) {
+      if (isOffline()) {
+        throw new OfflineError(`Pack '${packName}' is not available in the offline cache`);
+      }
+      throw new Error(`Pack '${packName}' not found in any source`);
+    }
+    return found;
+  }
+
+  /**
+   * Validate the source, signature and content of a pack from an external source and
+   * ask for consent when the source is untrusted. Returns the errors that stop the
+   * installation; packs from the built-in local source are not checked.
+   */
+  private async checkPackTrust(
+    pack: PackStructure,
+    packSource: { source: IPackSource; sourceName: string },
+    options: PackInstallOptions
+  ): Promise<string[]> {
+    if (packSource.sourceName === 'local') {
+      return [];
+    }
+    const packName = pack.manifest.name;
+
+    const sourceValidation = await this.trustManager.validateSource(packSource.source);
+    if (!sourceValidation.valid) {
+      logger.warn(`Source validation failed for '${packName}': ${sourceValidation.errors.join(', ')}`);
+      return sourceValidation.errors;
+    }
+
+    const packValidation = await this.trustManager.validatePack(pack, packSource.source);
+    if (!packValidation.valid) {
+      logger.warn(`Pack validation failed for '${packName}': ${packValidation.errors.join(', ')}`);
+      return packValidation.errors;
+    }
+
+    if (packValidation.requiresConsent && !options.force) {
+      console.log(chalk.yellow('\nSecurity Warning:'));
+      packValidation.warnings.forEach(warning => {
+        console.log(chalk.yellow(`  • ${warning}`));
+      });
+      this.showScanFindings(packValidation.findings);
+
+      const { proceed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'proceed',
+          message: `Install pack '${packName}' from untrusted source '${packSource.sourceName}'?`,
+          default: false,
+        },
+      ]);
+
+      if (!proceed) {
+        return ['Installation cancelled by user'];
+      }
+    } else {
+      this.showScanFindings(packValidation.findings);
+    }
+
+    // Record the installation for audit
+    await this.trustManager.recordInstallation(packSource.source, pack, true, packValidation.findings);
+    return [];
+  }
+
+  /**
+   * List content scan findings, most severe first, before the user decides on a pack
+   */
+  private showScanFindings(findings: PackScanFinding[] = []): void {
+    if (findings.length === 0) {
+      return;
+    }
+    console.log(chalk.yellow('\nContent scan:'));
+    for (const finding of findings) {
+      const line = `  • ${formatFinding(finding)}`;
+      console.log(isSevereFinding(finding) ? chalk.red(line) : chalk.yellow(line));
+      if (finding.snippet) {
+        console.log(chalk.gray(`      ${finding.snippet}`));
+      }
+    }
+  }
+
   /**
    * Install a pack using iterative queue-based dependency resolution
    * This prevents stack overflow from deep dependency chains
    */
   private async installPackWithQueue(
     rootPackName: string,
-    options: PackInstallOptions = {}
+    options: PackInstallOptions = {},
+    rootRange: string = '*'
   ): Promise<PackInstallationResult> {
     const MAX_RETRIES = 3;
     const installQueue: string[] = [rootPackName];
     const installedPacks = new Set<string>();
     const failedPacks = new Set<string>();
     const retryCount = new Map<string, number>();
+    // Versions chosen for each pack; the root resolution sees the whole graph, so it wins
+    const resolutions = new Map<string, PackResolution>();
     
     let rootResult: PackInstallationResult = {
       success: false,
@@ -289,7 +358,14 @@ export class StarterPackManager {
 
       try {
         // Check dependencies first
-        const dependencies = await this.registry.resolveDependencies(currentPack);
+        const dependencies = currentPack === rootPackName
+          ? await this.registry.resolveDependencies(currentPack, rootRange)
+          : await this.registry.resolveDependencies(currentPack);
+        for (const resolution of Object.values(dependencies.versions || {})) {
+          if (!resolutions.has(resolution.name)) {
+            resolutions.set(resolution.name, resolution);
+          }
+        }
         
         // Handle missing and circular dependencies
         if (dependencies.missing.length > 0 || dependencies.circular.length > 0) {
@@ -327,61 +403,30 @@ export class StarterPackManager {
           continue;
         }
 
-        // All dependencies satisfied, validate trust for external packs
-        const packInfo = await this.sourceRegistry.findPack(currentPack);
-        if (packInfo && packInfo.sourceId !== 'local') {
-          const sourceValidation = await this.trustManager.validateSource(packInfo.source);
-          if (!sourceValidation.valid) {
-            logger.warn(`Source validation failed for '${currentPack}': ${sourceValidation.errors.join(', ')}`);
-            failedPacks.add(currentPack);
-            if (currentPack === rootPackName) {
-              return {
-                success: false,
-                installed: { modes: [], workflows: [], agents: [], hooks: [] },
-                skipped: { modes: [], workflows: [], agents: [], hooks: [] },
-                errors: sourceValidation.errors,
-              };
-            }
-            continue;
-          }
-
-          const pack = await packInfo.source.loadPack(currentPack);
-          const packValidation = await this.trustManager.validatePack(pack, packInfo.source);
-
-          if (packValidation.requiresConsent && !options.force) {
-            console.log(chalk.yellow('\nSecurity Warning:'));
-            packValidation.warnings.forEach(warning => {
-              console.log(chalk.yellow(`  • ${warning}`));
-            });
-
-            const { proceed } = await inquirer.prompt([
-              {
-                type: 'confirm',
-                name: 'proceed',
-                message: `Install pack '${currentPack}' from untrusted source '${packInfo.sourceId}'?`,
-                default: false,
-              },
-            ]);
-
-            if (!proceed) {
-              failedPacks.add(currentPack);
-              if (currentPack === rootPackName) {
-                return {
-                  success: false,
-                  installed: { modes: [], workflows: [], agents: [], hooks: [] },
-                  skipped: { modes: [], workflows: [], agents: [], hooks: [] },
-                  errors: ['Installation cancelled by user'],
-                };
-              }
-              continue;
-            }
+        // All dependencies satisfied: check trust on the source and manifest that get installed
+        const resolution = resolutions.get(currentPack);
+        const sourceName = resolution?.source;
+        const version = resolution?.version;
+        const packSource = await this.resolvePackSource(currentPack, sourceName);
+        const trustErrors = await this.checkPackTrust(
+          await loadPackVersion(packSource.source, currentPack, version),
+          packSource,
+          options
+        );
+        if (trustErrors.length > 0) {
+          failedPacks.add(currentPack);
+          if (currentPack === rootPackName) {
+            return {
+              success: false,
+              installed: { modes: [], workflows: [], agents: [], hooks: [] },
+              skipped: { modes: [], workflows: [], agents: [], hooks: [] },
+              errors: trustErrors,
+            };
           }
-
-          await this.trustManager.recordInstallation(packInfo.source, pack, true);
+          continue;
         }
 
-        // After trust validation, install the pack
-        const installResult = await this.installPackDirect(currentPack, options);
+        const installResult = await this.installPackDirect(currentPack, options, sourceName, version);
         
         if (installResult.success) {
           logger.debug(`Successfully installed pack '${currentPack}'`);
@@ -453,6 +498,94 @@ export class StarterPackManager {
     return rootResult;
   }
 
+  /**
+   * Install exactly the packs pinned in `.zcc/packs.lock`. Packs already installed at
+   * their locked version are left alone; every other pack must be available at the
+   * locked version and checksum from its locked source.
+   */
+  async installFromLockfile(options: PackInstallOptions = {}): Promise<PackLockInstallResult> {
+    await this.initialize();
+
+    const lock = await this.lockfile.load();
+    if (!lock) {
+      throw new ZccError(
+        'No pack lockfile found',
+        'LOCKFILE_NOT_FOUND',
+        'Install a pack with "zcc pack install <name>" to create .zcc/packs.lock'
+      );
+    }
+
+    const installed = await this.installer.getInstalledPacks();
+    const result = { success: true, installed: [] as string[], upToDate: [] as string[], errors: [] as string[] };
+
+    for (const packName of this.lockfile.getInstallOrder(lock)) {
+      const entry = lock.packs[packName];
+      const spec = `${packName}@${entry.version}`;
+
+      if (installed[packName]?.version === entry.version && !options.force) {
+        result.upToDate.push(spec);
+        continue;
+      }
+
+      try {
+        const source = this.registry.getSource(entry.source);
+        if (!source) {
+          throw new Error(`source '${entry.source}' is not configured`);
+        }
+        if (entry.commit) {
+          if (!source.checkoutCommit) {
+            throw new Error(`source '${entry.source}' cannot check out commit ${entry.commit}`);
+          }
+          await source.checkoutCommit(entry.commit);
+        }
+
+        const pack = await this.registry.loadPack(packName, entry.source, entry.version);
+        if (pack.manifest.version !== entry.version) {
+          throw new Error(`source '${entry.source}' provides version ${pack.manifest.version}`);
+        }
+        const checksum = await this.lockfile.calculateChecksum(pack);
+        if (checksum !== entry.checksum) {
+          throw new Error(`checksum mismatch (locked ${entry.checksum}, got ${checksum})`);
+        }
+
+        if (entry.source !== 'local') {
+          const sourceValidation = await this.trustManager.validateSource(source);
+          if (!sourceValidation.valid) {
+            throw new Error(sourceValidation.errors.join(', '));
+          }
+          const packValidation = await this.trustManager.validatePack(pack, source);
+          if (!packValidation.valid) {
+            throw new Error(packValidation.errors.join(', '));
+          }
+        }
+
+        // Replacing a different installed version of the same pack is expected here
+        const installResult = await this.installPackDirect(
+          packName,
+          { ...options, force: options.force || Boolean(installed[packName]) },
+          entry.source,
+          entry.version
+        );
+        if (!installResult.success) {
+          throw new Error(installResult.errors.join(', '));
+        }
+        result.installed.push(spec);
+      } catch (error) {
+        result.success = false;
+        result.errors.push(`Cannot install ${spec} from packs.lock: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether the project has a `.zcc/packs.lock`
+   */
+  async hasLockfile(): Promise<boolean> {
+    return this.lockfile.exists();
+  }
+
   /**
    * Get installed packs
    */
@@ -466,7 +599,11 @@ export class StarterPackManager {
    */
   async uninstallPack(packName: string): Promise<PackInstallationResult> {
     await this.initialize();
-    return this.installer.uninstallPack(packName);
+    const result = await this.installer.uninstallPack(packName);
+    if (result.success) {
+      await this.lockfile.removePack(packName);
+    }
+    return result;
   }
 
   /**
@@ -180,6 +180,7 @@ export class ZccCore {
     agents: ComponentInfo[];
     commands: ComponentInfo[];
     templates: ComponentInfo[];
+    tickets: ComponentInfo[];
   }> {
     const result = {
       modes: await this.getComponentsByType('mode'),
@@ -189,6 +190,7 @@ export class ZccCore {
       agents: await this.getComponentsByType('agent'),
       commands: await this.getComponentsByType('command'),
       templates: await this.getComponentsByType('template'),
+      tickets: await this.getComponentsByType('ticket'),
     };
 
     return result;
@@ -205,6 +207,7 @@ export class ZccCore {
     agents: ComponentResolutionResult[];
     commands: ComponentResolutionResult[];
     templates: ComponentResolutionResult[];
+    tickets: ComponentResolutionResult[];
   }> {
     const result = {
       modes: await this.getComponentsByTypeWithSource('mode'),
@@ -214,6 +217,7 @@ export class ZccCore {
       agents: await this.getComponentsByTypeWithSource('agent'),
       commands: await this.getComponentsByTypeWithSource('command'),
       templates: await this.getComponentsByTypeWithSource('template'),
+      tickets: await this.getComponentsByTypeWithSource('ticket'),
     };
 
     return result;
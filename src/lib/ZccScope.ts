@@ -8,7 +8,7 @@ import { NodeFileSystemAdapter } from './adapters/NodeFileSystemAdapter';
 
 export interface ComponentInfo {
   name: string;
-  type: 'mode' | 'workflow' | 'script' | 'hook' | 'agent' | 'command' | 'template';
+  type: 'mode' | 'workflow' | 'script' | 'hook' | 'agent' | 'command' | 'template' | 'ticket';
   path: string;
   metadata?: any;
 }
@@ -144,7 +144,7 @@ export class ZccScope {
     }
 
     const components: ComponentInfo[] = [];
-    const componentTypes = ['modes', 'workflows', 'scripts', 'hooks', 'agents', 'commands', 'templates'];
+    const componentTypes = ['modes', 'workflows', 'scripts', 'hooks', 'agents', 'commands', 'templates', 'tickets'];
 
     for (const componentType of componentTypes) {
       const componentDir = this.joinPath(this.scopePath, componentType);
@@ -154,6 +154,11 @@ export class ZccScope {
           const files = this.fs.readdirSync(componentDir);
           
           for (const file of files) {
+            // Skip dotfiles such as .DS_Store; ticket templates are markdown only
+            if (file.startsWith('.') || (componentType === 'tickets' && this.fs.extname(file) !== '.md')) {
+              continue;
+            }
+
             const filePath = this.joinPath(componentDir, file);
             const stats = this.fs.statSync(filePath);
             
@@ -272,7 +277,7 @@ export class ZccScope {
     }
 
     // Create standard component directories
-    const componentDirs = ['modes', 'workflows', 'scripts', 'hooks', 'agents', 'commands', 'templates'];
+    const componentDirs = ['modes', 'workflows', 'scripts', 'hooks', 'agents', 'commands', 'templates', 'tickets'];
     
     for (const dir of componentDirs) {
       const dirPath = this.joinPath(this.scopePath, dir);
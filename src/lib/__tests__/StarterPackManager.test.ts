@@ -3,6 +3,7 @@ import { PackStructure } from "../types/packs";
 import { createTestZccProject } from "../testing";
 import { MemoryFileSystemAdapter } from "../adapters/MemoryFileSystemAdapter";
 import { PackagePaths } from "../packagePaths";
+import { LocalPackSource } from "../packs/PackSource";
 
 // Mock dependencies that don't need filesystem
 jest.mock("../logger");
@@ -697,6 +698,27 @@ describe("StarterPackManager", () => {
       expect(result.installed.workflows).toContain("review");
       expect(result.installed.agents).toContain("claude-code-research");
     });
+
+    it("should check trust on the source the resolver picked, not the first that has the pack", async () => {
+      const remotePack = { ...mockValidPack, manifest: { ...mockValidPack.manifest, version: "2.0.0" } };
+      const remoteSource = { loadPack: jest.fn(async () => remotePack), getSourceInfo: () => ({ type: 'http' }) } as any;
+      jest.spyOn(manager['registry'], 'resolveDependencies').mockResolvedValue({
+        resolved: [],
+        missing: [],
+        circular: [],
+        versions: { "test-pack": { name: "test-pack", version: "2.0.0", source: "team" } },
+      });
+      jest.spyOn(manager['registry'], 'getSource').mockImplementation(name => name === 'team' ? remoteSource : undefined);
+      jest.spyOn(manager['trustManager'], 'validateSource').mockResolvedValue({ valid: true, errors: [], warnings: [] } as any);
+      const validatePack = jest.spyOn(manager['trustManager'], 'validatePack')
+        .mockResolvedValue({ valid: false, errors: ["Pack 'test-pack' is not signed"], warnings: [] } as any);
+
+      const result = await manager.installPack("test-pack@^2.0.0");
+
+      expect(validatePack).toHaveBeenCalledWith(remotePack, remoteSource);
+      expect(result).toMatchObject({ success: false, errors: ["Pack 'test-pack' is not signed"] });
+      expect(manager['installer'].installPack).not.toHaveBeenCalled();
+    });
   });
 
   describe("installPackDirect", () => {
@@ -1344,4 +1366,143 @@ describe("StarterPackManager", () => {
       )).toBe(true);
     });
   });
+
+  describe("pack lockfile", () => {
+    const lockPath = `${mockProjectRoot}/.zcc/packs.lock`;
+    let installedVersions: string[];
+
+    const writeManifest = async (dir: string, name: string, version: string, dependencies: string[] = []) => {
+      await fs.writeFile(`${dir}/${name}/manifest.json`, JSON.stringify({
+        ...mockValidPack.manifest,
+        name,
+        version,
+        dependencies
+      }));
+      await fs.writeFile(`${dir}/${name}/modes/${name}.md`, `# ${name} ${version}`);
+    };
+
+    const createManager = () => {
+      const packManager = new StarterPackManager(mockProjectRoot, fs);
+      packManager.registerPackSource("team", new LocalPackSource("/team-packs", fs));
+      jest.spyOn(packManager['validator'], 'validatePackStructure').mockResolvedValue({ valid: true, errors: [], warnings: [] });
+      jest.spyOn(packManager['installer'], 'getInstalledPacks').mockResolvedValue({});
+      jest.spyOn(packManager['installer'], 'installPack').mockImplementation(async (packStructure: PackStructure) => {
+        installedVersions.push(`${packStructure.manifest.name}@${packStructure.manifest.version}`);
+        return {
+          success: true,
+          installed: { modes: [], workflows: [], agents: [], hooks: [] },
+          skipped: { modes: [], workflows: [], agents: [], hooks: [] },
+          errors: []
+        };
+      });
+      return packManager;
+    };
+
+    beforeEach(async () => {
+      installedVersions = [];
+      const templatesDir = PackagePaths.getTemplatesDir();
+      await writeManifest(templatesDir, "app", "1.0.0", ["base@^1.2.0"]);
+      await writeManifest(templatesDir, "base", "1.2.0");
+      await writeManifest("/team-packs", "base", "1.4.2");
+      manager = createManager();
+    });
+
+    it("should install the highest matching dependency version and lock it", async () => {
+      const result = await manager.installPack("app");
+
+      expect(result.success).toBe(true);
+      expect(installedVersions).toEqual(["base@1.4.2", "app@1.0.0"]);
+
+      const lock = JSON.parse(await fs.readFile(lockPath, 'utf-8') as string);
+      expect(lock.packs.app).toMatchObject({ version: "1.0.0", source: "local", dependencies: { base: "^1.2.0" } });
+      expect(lock.packs.base).toMatchObject({ version: "1.4.2", source: "team" });
+      expect(lock.packs.base.checksum).toMatch(/^sha256:/);
+    });
+
+    it("should honour a version range on the requested pack", async () => {
+      await manager.installPack("base@~1.2.0");
+
+      expect(installedVersions).toEqual(["base@1.2.0"]);
+    });
+
+    it("should reproduce the locked versions and sources", async () => {
+      await manager.installPack("app");
+      // A newer release elsewhere must not change what the lockfile installs
+      await writeManifest(PackagePaths.getTemplatesDir(), "base", "1.9.0");
+      installedVersions = [];
+
+      const result = await createManager().installFromLockfile();
+
+      expect(result).toEqual({ success: true, installed: ["base@1.4.2", "app@1.0.0"], upToDate: [], errors: [] });
+      expect(installedVersions).toEqual(["base@1.4.2", "app@1.0.0"]);
+    });
+
+    it("should skip packs already installed at their locked version", async () => {
+      await manager.installPack("app");
+      installedVersions = [];
+      const lockManager = createManager();
+      jest.spyOn(lockManager['installer'], 'getInstalledPacks').mockResolvedValue({ base: { version: "1.4.2" } });
+
+      const result = await lockManager.installFromLockfile();
+
+      expect(result.upToDate).toEqual(["base@1.4.2"]);
+      expect(installedVersions).toEqual(["app@1.0.0"]);
+    });
+
+    it("should refuse packs whose version or content no longer match the lockfile", async () => {
+      await manager.installPack("app");
+      await writeManifest("/team-packs", "base", "1.5.0");
+      await fs.writeFile(`${PackagePaths.getTemplatesDir()}/app/modes/app.md`, '# tampered');
+      installedVersions = [];
+
+      const result = await createManager().installFromLockfile();
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        "Cannot install base@1.4.2 from packs.lock: source 'team' provides version 1.5.0",
+        expect.stringContaining("Cannot install app@1.0.0 from packs.lock: checksum mismatch")
+      ]);
+      expect(installedVersions).toEqual([]);
+    });
+
+    it("should lock the commit of git sources and check it out again", async () => {
+      const gitSource = Object.assign(new LocalPackSource("/team-packs", fs), {
+        getSourceInfo: () => ({ name: "team", type: "local" as const, path: "/team-packs", commit: "4f2c9e1" }),
+        checkoutCommit: jest.fn().mockResolvedValue(undefined)
+      });
+      manager.registerPackSource("team", gitSource);
+      await manager.installPack("app");
+
+      const lock = JSON.parse(await fs.readFile(lockPath, 'utf-8') as string);
+      expect(lock.packs.base.commit).toBe("4f2c9e1");
+      expect(lock.packs.app.commit).toBeUndefined();
+
+      const lockManager = createManager();
+      lockManager.registerPackSource("team", gitSource);
+      const result = await lockManager.installFromLockfile();
+
+      expect(result.success).toBe(true);
+      expect(gitSource.checkoutCommit).toHaveBeenCalledWith("4f2c9e1");
+    });
+
+    it("should require a lockfile", async () => {
+      expect(await manager.hasLockfile()).toBe(false);
+      await expect(manager.installFromLockfile()).rejects.toThrow("No pack lockfile found");
+    });
+
+    it("should drop uninstalled packs from the lockfile", async () => {
+      await manager.installPack("app");
+      jest.spyOn(manager['installer'], 'uninstallPack').mockResolvedValue({
+        success: true,
+        installed: { modes: [], workflows: [], agents: [], hooks: [] },
+        skipped: { modes: [], workflows: [], agents: [], hooks: [] },
+        errors: []
+      });
+
+      await manager.uninstallPack("app");
+
+      const lock = JSON.parse(await fs.readFile(lockPath, 'utf-8') as string);
+      expect(Object.keys(lock.packs)).toEqual(["base"]);
+    });
+  });
 });
\ No newline at end of file
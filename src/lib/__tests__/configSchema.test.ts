@@ -2,6 +2,7 @@ import {
   ZccConfigValidator,
   HookConfigValidator,
   AcronymConfigValidator,
+  TicketWorkflowConfigValidator,
   ConfigSchemaRegistry
 } from '../configSchema';
 
@@ -84,6 +85,68 @@ describe('ConfigSchema Validation', () => {
     });
   });
 
+  describe('TicketWorkflowConfigValidator', () => {
+    const validator = new TicketWorkflowConfigValidator();
+
+    it('should validate custom statuses and transitions', () => {
+      const result = validator.validate({
+        statuses: ['next', 'in-progress', 'blocked', 'review', 'done'],
+        transitions: {
+          next: ['in-progress'],
+          'in-progress': ['blocked', 'review'],
+          review: ['done']
+        }
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should require the built-in statuses', () => {
+      const result = validator.validate({ statuses: ['todo', 'done'] });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Tickets.statuses must include: next, in-progress');
+    });
+
+    it('should reject statuses that are not safe directory names', () => {
+      const result = validator.validate({ statuses: ['next', 'in-progress', 'done', '../escape'] });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('"../escape"');
+    });
+
+    it('should reject duplicate statuses', () => {
+      const result = validator.validate({ statuses: ['next', 'in-progress', 'done', 'next'] });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Tickets.statuses contains duplicates: next');
+    });
+
+    it('should reject transitions to unknown statuses', () => {
+      const result = validator.validate({ transitions: { next: ['qa'], qa: ['done'] } });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Tickets.transitions.next references unknown status "qa"');
+      expect(result.errors).toContain('Tickets.transitions references unknown status "qa"');
+    });
+
+    it('should validate the ticket ID prefix', () => {
+      expect(validator.validate({ idPrefix: 'WEB2' }).valid).toBe(true);
+
+      const result = validator.validate({ idPrefix: 'web-' });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Tickets.idPrefix must contain only uppercase letters and digits, starting with a letter');
+    });
+
+    it('should be applied by ZccConfigValidator', () => {
+      const result = new ZccConfigValidator().validate({ tickets: { statuses: 'next' } });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Tickets.statuses must be an array of strings');
+    });
+  });
+
   describe('HookConfigValidator', () => {
     const validator = new HookConfigValidator();
 
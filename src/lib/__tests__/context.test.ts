@@ -1,4 +1,4 @@
-import { cliContext, isNonInteractive, isForce, shouldProceedWithoutPrompt, getNonInteractiveDefault } from '../context';
+import { cliContext, isNonInteractive, isForce, isOffline, shouldProceedWithoutPrompt, getNonInteractiveDefault } from '../context';
 
 describe('Context', () => {
   beforeEach(() => {
@@ -6,6 +6,7 @@ describe('Context', () => {
     cliContext.reset();
     // Clear environment variables
     delete process.env.ZCC_NON_INTERACTIVE;
+    delete process.env.ZCC_OFFLINE;
     delete process.env.CI;
   });
 
@@ -35,6 +36,15 @@ describe('Context', () => {
       expect(cliContext.isNonInteractive()).toBe(true);
     });
 
+    it('should enable offline mode from ZCC_OFFLINE', () => {
+      expect(isOffline()).toBe(false);
+
+      process.env.ZCC_OFFLINE = '1';
+      cliContext.initialize({});
+
+      expect(isOffline()).toBe(true);
+    });
+
     it('should handle CI environment', () => {
       process.env.CI = 'true';
       
@@ -238,6 +238,13 @@ describe('FuzzyMatcher', () => {
       const dsMatch = matches.find(m => m.name === 'data-scientist');
       expect(dsMatch?.score).toBeGreaterThan(60);
     });
+
+    it('should score plain names without metadata boosts', () => {
+      expect(FuzzyMatcher.scoreName('session-timeout', 'session-timeout')).toBe(100);
+      expect(FuzzyMatcher.scoreName('session', 'session-timeout')).toBe(80);
+      expect(FuzzyMatcher.scoreName('st', 'session-timeout')).toBe(70);
+      expect(FuzzyMatcher.scoreName('xyz', 'session-timeout')).toBe(0);
+    });
   });
 
   describe('match type determination', () => {
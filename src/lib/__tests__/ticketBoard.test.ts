@@ -0,0 +1,129 @@
+import { TicketBoard } from '../ticketBoard';
+import { TicketManager } from '../ticketManager';
+import { createTestZccProject } from '../testing/createTestFileSystem';
+import { MemoryFileSystemAdapter } from '../adapters/MemoryFileSystemAdapter';
+
+describe('TicketBoard', () => {
+  let fs: MemoryFileSystemAdapter;
+  let ticketManager: TicketManager;
+  let board: TicketBoard;
+
+  beforeEach(async () => {
+    process.env.NO_COLOR = '1';
+    fs = await createTestZccProject('/project');
+    ticketManager = new TicketManager('/project', fs);
+
+    await ticketManager.create('login', { type: 'feature', priority: 'high', tags: ['auth'], body: 'OAuth providers.' });
+    await ticketManager.create('typo', { type: 'bug', priority: 'low', tags: ['docs'] });
+    await ticketManager.create('cache', { priority: 'critical', status: 'in-progress' });
+
+    board = new TicketBoard(ticketManager);
+    await board.load();
+  });
+
+  afterEach(() => {
+    delete process.env.NO_COLOR;
+  });
+
+  it('should group tickets into status columns sorted by priority', () => {
+    expect(board.getColumns().map(column => [column.status, column.tickets.map(ticket => ticket.name)])).toEqual([
+      ['next', ['login', 'typo']],
+      ['in-progress', ['cache']],
+      ['done', []]
+    ]);
+    expect(board.getSelected()?.name).toBe('login');
+  });
+
+  it('should select tickets and switch columns', async () => {
+    await board.handleKey({ name: 'down' });
+    expect(board.getSelected()?.name).toBe('typo');
+
+    await board.handleKey({ name: 'down' });
+    expect(board.getSelected()?.name).toBe('typo');
+
+    await board.handleKey({ name: 'tab' });
+    expect(board.getSelected()?.name).toBe('cache');
+
+    await board.handleKey({ name: 'tab', shift: true });
+    await board.handleKey({ name: 'tab', shift: true });
+    expect(board.getSelected()).toBeUndefined();
+  });
+
+  it('should move the selected ticket between columns with the arrow keys', async () => {
+    await board.handleKey({ name: 'right' });
+
+    expect((await ticketManager.get('login')).status).toBe('in-progress');
+    expect(board.getSelected()?.name).toBe('login');
+    expect(board.getMessage()).toBe('Moved ZCC-1 to in-progress');
+
+    await board.handleKey({ name: 'left' });
+    expect((await ticketManager.get('login')).status).toBe('next');
+
+    // Nothing to the left of the first column
+    await board.handleKey({ name: 'left' });
+    expect((await ticketManager.get('login')).status).toBe('next');
+  });
+
+  it('should report transitions the workflow does not allow', async () => {
+    await fs.writeFile('/project/.zcc/config.yaml', ['tickets:', '  transitions:', '    next: [done]'].join('\n'));
+    board = new TicketBoard(new TicketManager('/project', fs));
+    await board.load();
+
+    await board.handleKey({ name: 'right' });
+
+    expect(board.getMessage()).toContain("Cannot move ticket 'login' from next to in-progress");
+    expect((await ticketManager.get('login')).status).toBe('next');
+  });
+
+  it('should refuse to start a ticket with open blockers', async () => {
+    await ticketManager.link('typo', 'login');
+
+    await board.handleKey({ name: 'right' });
+
+    expect(board.getMessage()).toContain("Failed to start ticket 'login': blocked by typo (next)");
+    expect((await ticketManager.get('login')).status).toBe('next');
+  });
+
+  it('should cycle tag and priority filters', async () => {
+    await board.handleKey({ name: 't' });
+    expect(board.getFilters()).toEqual({ tag: 'auth', priority: undefined });
+    expect(board.getColumns()[0].tickets.map(ticket => ticket.name)).toEqual(['login']);
+
+    await board.handleKey({ name: 't' });
+    await board.handleKey({ name: 't' });
+    expect(board.getFilters().tag).toBeUndefined();
+
+    await board.handleKey({ name: 'p' });
+    expect(board.getFilters().priority).toBe('critical');
+    expect(board.getColumns().map(column => column.tickets.length)).toEqual([0, 1, 0]);
+  });
+
+  it('should match tags regardless of case', async () => {
+    await ticketManager.create('signup', { tags: ['Auth'] });
+    board = new TicketBoard(ticketManager, { tag: 'AUTH' });
+    await board.load();
+
+    expect(board.getColumns()[0].tickets.map(ticket => ticket.name)).toEqual(['login', 'signup']);
+
+    await board.handleKey({ name: 't' });
+    expect(board.getFilters().tag).toBe('docs');
+  });
+
+  it('should render columns, a preview of the selected ticket and help', () => {
+    const lines = board.render(90, 24);
+
+    expect(lines[2]).toBe(`${'next (2)'.padEnd(30)}${'in-progress (1)'.padEnd(30)}${'done (0)'.padEnd(30)}`);
+    expect(lines[3]).toBe(`${'> ZCC-1 login'.padEnd(30)}> ZCC-3 cache`);
+    expect(lines[4]).toBe('  ZCC-2 typo');
+    expect(lines).toContain('[high] feature #auth');
+    expect(lines).toContain('OAuth providers.');
+    expect(lines[lines.length - 1]).toContain('q quit');
+  });
+
+  it('should close on q, escape and ctrl-c', async () => {
+    expect(await board.handleKey({ name: 'q' })).toBe(false);
+    expect(await board.handleKey({ name: 'escape' })).toBe(false);
+    expect(await board.handleKey({ name: 'c', ctrl: true })).toBe(false);
+    expect(await board.handleKey({ name: 'x' })).toBe(true);
+  });
+});
@@ -0,0 +1,221 @@
+import { TicketExchange } from '../ticketExchange';
+import { TicketManager } from '../ticketManager';
+import { createTestZccProject } from '../testing/createTestFileSystem';
+import { MemoryFileSystemAdapter } from '../adapters/MemoryFileSystemAdapter';
+
+describe('TicketExchange', () => {
+  let fs: MemoryFileSystemAdapter;
+  let projectRoot: string;
+  let ticketManager: TicketManager;
+  let exchange: TicketExchange;
+
+  beforeEach(async () => {
+    projectRoot = '/project';
+    fs = await createTestZccProject(projectRoot);
+    ticketManager = new TicketManager(projectRoot, fs);
+    exchange = new TicketExchange(projectRoot, fs);
+
+    await ticketManager.create('oauth-login', {
+      type: 'feature',
+      title: 'Support OAuth login',
+      priority: 'high',
+      assignee: 'alice',
+      tags: ['auth'],
+      body: 'Add GitHub and Google providers.'
+    });
+    await ticketManager.create('fix-typo', { type: 'bug', body: 'Fix "teh", in the README.\nSecond line.' });
+    await ticketManager.move('fix-typo', 'in-progress');
+  });
+
+  describe('export', () => {
+    it('should map tickets to issue-shaped records identified by ticket ID', async () => {
+      const records = JSON.parse(await exchange.export('json'));
+
+      expect(records).toContainEqual({
+        id: 'ZCC-1',
+        title: 'Support OAuth login',
+        body: 'Add GitHub and Google providers.',
+        labels: ['feature', 'priority:high', 'auth'],
+        assignee: 'alice',
+        state: 'next'
+      });
+      expect(records.find((r: any) => r.id === 'ZCC-2')).toMatchObject({ title: 'fix-typo', state: 'in-progress', labels: ['bug', 'priority:medium'] });
+    });
+
+    it('should quote CSV fields containing commas, quotes and newlines', async () => {
+      const csv = await exchange.export('csv');
+      const lines = csv.split('\n');
+
+      expect(lines[0]).toBe('id,title,state,assignee,labels,due,body');
+      expect(csv).toContain('ZCC-2,fix-typo,in-progress,,"bug,priority:medium",,"Fix ""teh"", in the README.\nSecond line."');
+    });
+
+    it('should map statuses to GitHub state with an id marker in the body', async () => {
+      const issues = JSON.parse(await exchange.export('github'));
+      const typo = issues.find((issue: any) => issue.title === 'fix-typo');
+
+      expect(typo.state).toBe('open');
+      expect(typo.labels).toContainEqual({ name: 'status:in-progress' });
+      expect(typo.body).toMatch(/<!-- zcc-id: ZCC-2 -->$/);
+      expect(issues.find((issue: any) => issue.title === 'Support OAuth login').assignees).toEqual([{ login: 'alice' }]);
+    });
+
+    it('should close GitHub issues for every finished status and read them back', async () => {
+      await fs.writeFile(fs.join(projectRoot, '.zcc', 'config.yaml'), 'tickets:\n  statuses: [next, in-progress, done, archived]');
+      ticketManager = new TicketManager(projectRoot, fs);
+      exchange = new TicketExchange(projectRoot, fs);
+      await ticketManager.create('old-idea', { status: 'archived' });
+
+      const exported = await exchange.export('github');
+      const issue = JSON.parse(exported).find((i: any) => i.title === 'old-idea');
+
+      expect(issue.state).toBe('closed');
+      expect(issue.labels).toContainEqual({ name: 'status:archived' });
+      expect((await exchange.import(exported)).entries.every(entry => entry.action === 'unchanged')).toBe(true);
+    });
+
+    it('should write exports to a file', async () => {
+      const count = await exchange.exportToFile('json', '/project/tickets.json');
+
+      expect(count).toBe(2);
+      expect(JSON.parse(fs.readFileSync('/project/tickets.json', 'utf8') as string)).toHaveLength(2);
+    });
+  });
+
+  describe('import', () => {
+    it('should report every ticket as unchanged when re-importing its own export', async () => {
+      for (const format of ['json', 'csv', 'github'] as const) {
+        const result = await exchange.import(await exchange.export(format), { format });
+
+        expect(result.entries.map(entry => entry.action)).toEqual(['unchanged', 'unchanged']);
+      }
+    });
+
+    it('should plan creates and updates without writing in dry-run mode', async () => {
+      const content = JSON.stringify([
+        { id: 'oauth-login', title: 'Support OAuth login', body: 'Add GitHub and Google providers.', labels: ['feature', 'priority:critical', 'auth'], assignee: 'bob', state: 'in-progress' },
+        { id: 'rate-limit', title: 'Rate limit the API', body: 'Per token.', labels: ['task'], state: 'next' }
+      ]);
+
+      const result = await exchange.import(content, { dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.entries[0]).toEqual({
+        id: 'oauth-login',
+        action: 'update',
+        changes: [
+          { field: 'state', from: 'next', to: 'in-progress' },
+          { field: 'priority', from: 'high', to: 'critical' },
+          { field: 'assignee', from: 'alice', to: 'bob' }
+        ]
+      });
+      expect(result.entries[1]).toMatchObject({ id: 'rate-limit', action: 'create' });
+      expect((await ticketManager.get('oauth-login')).assignee).toBe('alice');
+      expect((await ticketManager.list()).map(t => t.name)).not.toContain('rate-limit');
+    });
+
+    it('should create new tickets and update existing ones by id', async () => {
+      const content = JSON.stringify([
+        { id: 'oauth-login', title: 'OAuth login', body: 'Only GitHub for now.', labels: ['feature', 'auth', 'sso'], assignee: 'bob', state: 'in-progress' },
+        { id: 'rate-limit', title: 'Rate limit the API', body: 'Per token.', labels: ['task', 'priority:low'], state: 'done' }
+      ]);
+
+      await exchange.import(content);
+
+      const updated = await ticketManager.get('oauth-login');
+      expect(updated).toMatchObject({ status: 'in-progress', title: 'OAuth login', priority: 'high', assignee: 'bob', tags: ['auth', 'sso'] });
+      expect(await ticketManager.getBody('oauth-login')).toBe('# OAuth login\n\nOnly GitHub for now.');
+      expect(await ticketManager.getActivity('oauth-login')).toHaveLength(2);
+
+      const created = await ticketManager.get('rate-limit');
+      expect(created).toMatchObject({ status: 'done', type: 'task', priority: 'low', title: 'Rate limit the API' });
+      expect(await ticketManager.getBody('rate-limit')).toBe('# Rate limit the API\n\nPer token.');
+    });
+
+    it('should match tickets by ID and keep the IDs of new tickets', async () => {
+      const content = JSON.stringify([
+        { id: 'ZCC-1', title: 'Support OAuth login', body: 'Add GitHub and Google providers.', labels: ['feature', 'priority:high', 'auth'], assignee: 'bob', state: 'next' },
+        { id: 'ZCC-7', title: 'Rotate API keys', labels: ['task'], state: 'next' }
+      ]);
+
+      const result = await exchange.import(content);
+
+      expect(result.entries.map(entry => [entry.id, entry.action])).toEqual([['ZCC-1', 'update'], ['ZCC-7', 'create']]);
+      expect((await ticketManager.get('oauth-login')).assignee).toBe('bob');
+      expect(await ticketManager.get('ZCC-7')).toMatchObject({ name: 'rotate-api-keys', title: 'Rotate API keys' });
+    });
+
+    it('should reject new IDs whose title slug names an existing ticket', async () => {
+      const content = JSON.stringify([{ id: 'ZCC-9', title: 'Fix typo', state: 'next' }]);
+
+      await expect(exchange.import(content)).rejects.toThrow("'ZCC-9' would create ticket 'fix-typo', which already exists");
+    });
+
+    it('should import GitHub issues without an id marker using a slug of the title', async () => {
+      const content = JSON.stringify([
+        { number: 12, title: 'Crash on Startup!', body: 'Stack trace attached', labels: [{ name: 'bug' }], assignees: [{ login: 'carol' }], state: 'CLOSED' }
+      ]);
+
+      await exchange.import(content);
+
+      expect(await ticketManager.get('crash-on-startup')).toMatchObject({ status: 'done', type: 'bug', assignee: 'carol' });
+    });
+
+    it('should name new tickets after their ID when the title has no letters or digits', async () => {
+      await exchange.import(JSON.stringify([{ id: 'ZCC-9', title: '???', state: 'next' }]));
+
+      expect(await ticketManager.get('ZCC-9')).toMatchObject({ name: 'zcc-9', title: '???' });
+    });
+
+    it('should reject records that cannot name a ticket before writing', async () => {
+      const content = JSON.stringify([
+        { id: 'new-one', title: 'New one', state: 'next' },
+        { title: '!!!', state: 'next' }
+      ]);
+
+      await expect(exchange.import(content)).rejects.toThrow("Cannot import tickets: '!!!' needs an id with letters or digits to name its ticket");
+      expect((await ticketManager.list()).map(t => t.name)).not.toContain('new-one');
+    });
+
+    it('should parse CSV files by header name', async () => {
+      fs.writeFileSync('/project/issues.csv', 'title,labels,state\r\n"Write docs","task,docs",next\r\n');
+
+      const result = await exchange.importFile('/project/issues.csv');
+
+      expect(result.entries).toEqual([expect.objectContaining({ id: 'write-docs', action: 'create' })]);
+      expect((await ticketManager.get('write-docs')).tags).toEqual(['docs']);
+    });
+
+    it('should reject unknown states and duplicate ids before writing', async () => {
+      const content = JSON.stringify([
+        { id: 'new-one', title: 'New one', state: 'next' },
+        { id: 'new-one', title: 'New one again', state: 'next' },
+        { id: 'other', title: 'Other', state: 'later' }
+      ]);
+
+      await expect(exchange.import(content)).rejects.toThrow(
+        "Cannot import tickets: duplicate id 'new-one'; 'other' has unknown state 'later'"
+      );
+      expect((await ticketManager.list()).map(t => t.name)).not.toContain('new-one');
+    });
+
+    it('should reject state changes the workflow does not allow', async () => {
+      await fs.writeFile(
+        fs.join(projectRoot, '.zcc', 'config.yaml'),
+        ['tickets:', '  transitions:', '    next: [in-progress]'].join('\n')
+      );
+      exchange = new TicketExchange(projectRoot, fs);
+
+      await expect(exchange.import(JSON.stringify([{ id: 'oauth-login', title: 'Support OAuth login', state: 'done' }])))
+        .rejects.toThrow("'oauth-login' cannot move from next to done");
+    });
+
+    it('should reject malformed files', async () => {
+      await expect(exchange.import('{"title": "x"}')).rejects.toThrow('expected a JSON array');
+      await expect(exchange.import('[{"body": "no title"}]')).rejects.toThrow('entry 1 has no title');
+      await expect(exchange.import('[{"title": "x", "due": "next friday"}]')).rejects.toThrow("entry 1 has due date 'next friday', expected YYYY-MM-DD");
+      await expect(exchange.import('title\n"unterminated', { format: 'csv' })).rejects.toThrow('unterminated quoted CSV field');
+      await expect(exchange.importFile('/project/missing.json')).rejects.toThrow('Import file not found');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TicketGitIntegration } from '../ticketGitIntegration';
+import { TicketManager } from '../ticketManager';
+import { GitContextHook } from '../hooks/builtin/GitContextHook';
+
+describe('TicketGitIntegration', () => {
+  let tempDir: string;
+  let projectRoot: string;
+  let ticketManager: TicketManager;
+  let originalZccHome: string | undefined;
+
+  const git = (...args: string[]): string =>
+    execFileSync('git', args, { cwd: projectRoot, encoding: 'utf8' }).trim();
+
+  const commit = (file: string, message: string) => {
+    fs.writeFileSync(path.join(projectRoot, file), `${message}\n`);
+    git('add', file);
+    git('commit', '-q', '-m', message);
+  };
+
+  const writeConfig = (lines: string[]) => {
+    fs.writeFileSync(path.join(projectRoot, '.zcc', 'config.yaml'), lines.join('\n'));
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zcc-git-'));
+    projectRoot = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(projectRoot, '.zcc'), { recursive: true });
+
+    // Keep the developer's global zcc configuration out of the tests
+    originalZccHome = process.env.ZCC_HOME;
+    process.env.ZCC_HOME = path.join(tempDir, 'global');
+
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'dev@example.com');
+    git('config', 'user.name', 'Dev');
+    git('config', 'commit.gpgsign', 'false');
+    fs.writeFileSync(path.join(projectRoot, '.gitignore'), '.zcc/\n');
+    commit('README.md', 'initial commit');
+
+    writeConfig(['integrations:', '  git:', '    enabled: true']);
+    ticketManager = new TicketManager(projectRoot);
+  });
+
+  afterEach(() => {
+    if (originalZccHome === undefined) {
+      delete process.env.ZCC_HOME;
+    } else {
+      process.env.ZCC_HOME = originalZccHome;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should only be enabled through integrations.git', async () => {
+    expect(await new TicketGitIntegration(projectRoot).isEnabled()).toBe(true);
+
+    writeConfig(['integrations:', '  git:', '    branchPrefix: feature/']);
+    expect(await new TicketGitIntegration(projectRoot).isEnabled()).toBe(false);
+  });
+
+  it('should create and check out the ticket branch on start', async () => {
+    await ticketManager.create('auth-refresh');
+
+    const result = await new TicketGitIntegration(projectRoot).startBranch('auth-refresh');
+
+    expect(result).toEqual({ branch: 'ticket/auth-refresh', created: true });
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('ticket/auth-refresh');
+    expect((await ticketManager.get('auth-refresh')).branch).toBe('ticket/auth-refresh');
+  });
+
+  it('should check out an existing branch and honour the configured prefix', async () => {
+    writeConfig(['integrations:', '  git:', '    enabled: true', '    branchPrefix: work/']);
+    await ticketManager.create('auth-refresh');
+    git('branch', 'work/auth-refresh');
+
+    const result = await new TicketGitIntegration(projectRoot).startBranch('ZCC-1');
+
+    expect(result).toEqual({ branch: 'work/auth-refresh', created: false });
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('work/auth-refresh');
+  });
+
+  it('should record the commit range of the branch on finish', async () => {
+    await ticketManager.create('auth-refresh');
+    const integration = new TicketGitIntegration(projectRoot);
+    await integration.startBranch('auth-refresh');
+    commit('auth.ts', 'add token refresh');
+    commit('auth.test.ts', 'test token refresh');
+
+    const base = git('rev-parse', '--short', 'main');
+    const head = git('rev-parse', '--short', 'HEAD');
+    const result = await integration.recordCommits('auth-refresh');
+
+    expect(result).toEqual({ branch: 'ticket/auth-refresh', range: `${base}..${head}`, count: 2 });
+    expect((await ticketManager.get('auth-refresh')).commits).toBe(`${base}..${head}`);
+  });
+
+  it('should record nothing when the branch is missing or has no commits', async () => {
+    await ticketManager.create('auth-refresh');
+    const integration = new TicketGitIntegration(projectRoot);
+
+    expect(await integration.recordCommits('auth-refresh')).toBeNull();
+
+    await integration.startBranch('auth-refresh');
+    expect(await integration.recordCommits('auth-refresh')).toBeNull();
+  });
+
+  it('should fail clearly outside a git repository', async () => {
+    fs.rmSync(path.join(projectRoot, '.git'), { recursive: true, force: true });
+    await ticketManager.create('auth-refresh');
+
+    await expect(new TicketGitIntegration(projectRoot).startBranch('auth-refresh'))
+      .rejects.toThrow(`Not a git repository: ${projectRoot}`);
+  });
+
+  describe('git-context-loader hook', () => {
+    const runHook = async () => {
+      const result = await new GitContextHook().run({ event: 'UserPromptSubmit', projectRoot, timestamp: Date.now() });
+      return result.output || '';
+    };
+
+    it('should show the ticket the current branch belongs to', async () => {
+      await ticketManager.create('auth-refresh');
+      await ticketManager.move('auth-refresh', 'in-progress');
+      await new TicketGitIntegration(projectRoot).startBranch('auth-refresh');
+
+      const output = await runHook();
+
+      expect(output).toContain('Branch: ticket/auth-refresh');
+      expect(output).toContain('Ticket: auth-refresh (in-progress) - .zcc/tickets/in-progress/auth-refresh.md');
+    });
+
+    it('should only show the branch when no ticket matches', async () => {
+      const output = await runHook();
+
+      expect(output).toContain('Branch: main');
+      expect(output).not.toContain('Ticket:');
+    });
+  });
+});
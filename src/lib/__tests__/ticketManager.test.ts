@@ -72,6 +72,332 @@ describe('TicketManager', () => {
     });
   });
 
+  describe('frontmatter', () => {
+    it('should write metadata as YAML frontmatter on create', async () => {
+      const ticketPath = await ticketManager.create('auth-feature', {
+        type: 'feature',
+        priority: 'high',
+        assignee: 'alice',
+        tags: ['auth', 'security'],
+        due: '2026-11-01'
+      });
+      const content = await fs.readFile(ticketPath, 'utf8') as string;
+
+      expect(content.startsWith('---\n')).toBe(true);
+      expect(content).toContain('type: feature');
+      expect(content).toContain('priority: high');
+      expect(content).toContain('assignee: alice');
+      expect(content).toContain('due: \'2026-11-01\'');
+    });
+
+    it('should read metadata back with get', async () => {
+      await ticketManager.create('auth-feature', {
+        type: 'feature',
+        title: 'User Authentication',
+        priority: 'high',
+        assignee: 'alice',
+        tags: ['auth', 'security']
+      });
+
+      const ticket = await ticketManager.get('auth-feature');
+
+      expect(ticket).toMatchObject({
+        name: 'auth-feature',
+        status: 'next',
+        title: 'User Authentication',
+        type: 'feature',
+        priority: 'high',
+        assignee: 'alice',
+        tags: ['auth', 'security']
+      });
+      expect(ticket.created).toBeDefined();
+      expect(ticket.updated).toBe(ticket.created);
+    });
+
+    it('should fall back to body metadata for tickets without frontmatter', async () => {
+      await fs.writeFile(
+        fs.join(projectRoot, '.zcc', 'tickets', 'next', 'legacy.md'),
+        '# Legacy\n\n**Type:** Bug Fix  \n**Priority:** critical  \n**Assignee:** bob  \n**Tags:** api, db  \n\n---\nCreated: 2025-01-01T00:00:00.000Z\nType: bug'
+      );
+
+      const ticket = await ticketManager.get('legacy');
+
+      expect(ticket).toMatchObject({
+        title: 'Legacy',
+        type: 'bug',
+        priority: 'critical',
+        assignee: 'bob',
+        tags: ['api', 'db'],
+        created: '2025-01-01T00:00:00.000Z'
+      });
+    });
+
+    it('should ignore invalid frontmatter values', async () => {
+      await fs.writeFile(
+        fs.join(projectRoot, '.zcc', 'tickets', 'next', 'odd.md'),
+        '---\ntype: epic\npriority: urgent\ntags: one, two\ncreated: 2025-01-01\n---\n# Odd'
+      );
+
+      const ticket = await ticketManager.get('odd');
+
+      expect(ticket.type).toBeUndefined();
+      expect(ticket.priority).toBeUndefined();
+      expect(ticket.tags).toEqual(['one', 'two']);
+      expect(ticket.created).toBe('2025-01-01');
+    });
+
+    it('should preserve frontmatter when moving a ticket', async () => {
+      await ticketManager.create('moving', { priority: 'low', tags: ['ops'] });
+
+      await ticketManager.move('moving', 'in-progress');
+      const ticket = await ticketManager.get('moving');
+
+      expect(ticket.status).toBe('in-progress');
+      expect(ticket.priority).toBe('low');
+      expect(ticket.tags).toEqual(['ops']);
+    });
+
+    it('should keep frontmatter it does not own when rewriting a ticket', async () => {
+      const path = fs.join(projectRoot, '.zcc', 'tickets', 'next', 'custom.md');
+      await fs.writeFile(path, '---\nid: ZCC-7\nepic: payments\nestimate: 3\npriority: urgent\ntype: epic\n---\n# Custom');
+
+      await ticketManager.move('custom', 'in-progress');
+      await ticketManager.update('custom', { priority: 'high' });
+
+      const content = await fs.readFile(fs.join(projectRoot, '.zcc', 'tickets', 'in-progress', 'custom.md'), 'utf8') as string;
+      expect(content).toMatch(/^epic: payments$/m);
+      expect(content).toMatch(/^estimate: 3$/m);
+      expect(content).toMatch(/^type: epic$/m);
+      expect(content).toMatch(/^priority: high$/m);
+      expect(content).not.toContain('urgent');
+      expect((await ticketManager.get('custom')).extra).toEqual({ epic: 'payments', estimate: 3, type: 'epic' });
+    });
+  });
+
+  describe('body', () => {
+    it('should create a ticket with a custom body in the given status', async () => {
+      const ticketPath = await ticketManager.create('imported', { title: 'Imported issue', body: 'From the tracker.', status: 'done' });
+
+      expect(ticketPath).toBe('/project/.zcc/tickets/done/imported.md');
+      expect(await ticketManager.getBody('imported')).toBe('# Imported issue\n\nFrom the tracker.');
+      expect(await ticketManager.getActivity('imported')).toEqual([{ timestamp: expect.any(String), to: 'done' }]);
+    });
+
+    it('should reject unknown initial statuses', async () => {
+      await expect(ticketManager.create('imported', { status: 'later' })).rejects.toThrow('Invalid status: later');
+    });
+
+    it('should replace the body while keeping frontmatter and activity', async () => {
+      await ticketManager.create('rewrite', { type: 'bug', priority: 'high' });
+      await ticketManager.move('rewrite', 'in-progress');
+
+      await ticketManager.setBody('rewrite', '# Rewritten\n\nNew content.');
+
+      const content = fs.readFileSync('/project/.zcc/tickets/in-progress/rewrite.md', 'utf8') as string;
+      expect(content).toMatch(/^---\n/);
+      expect(content).toContain('# Rewritten\n\nNew content.\n\n## Activity\n');
+      expect(await ticketManager.get('rewrite')).toMatchObject({ title: 'Rewritten', priority: 'high' });
+      expect(await ticketManager.getActivity('rewrite')).toHaveLength(2);
+    });
+  });
+
+  describe('templates', () => {
+    const originalZccHome = process.env.ZCC_HOME;
+
+    beforeEach(() => {
+      process.env.ZCC_HOME = '/global/.zcc';
+      ticketManager = new TicketManager(projectRoot, fs);
+    });
+
+    afterEach(() => {
+      if (originalZccHome === undefined) {
+        delete process.env.ZCC_HOME;
+      } else {
+        process.env.ZCC_HOME = originalZccHome;
+      }
+    });
+
+    it('should create tickets from the built-in spike template', async () => {
+      const ticketPath = await ticketManager.create('queue-choice', { template: 'spike', description: 'Kafka or SQS?' });
+
+      const content = fs.readFileSync(ticketPath, 'utf8') as string;
+      expect(content).toContain('# queue-choice');
+      expect(content).toContain('## Question\nKafka or SQS?');
+      expect(content).not.toContain('{{');
+      expect(await ticketManager.get('queue-choice')).toMatchObject({ type: 'task', priority: 'medium', tags: ['spike'] });
+    });
+
+    it('should use fallback text for empty placeholders', async () => {
+      const ticketPath = await ticketManager.create('open-question', { template: 'spike' });
+
+      expect(fs.readFileSync(ticketPath, 'utf8')).toContain('## Question\nWhat do we need to learn');
+    });
+
+    it('should let project templates override global ones and the built-in type templates', async () => {
+      fs.mkdirSync('/global/.zcc/tickets', { recursive: true });
+      fs.writeFileSync('/global/.zcc/tickets/bug.md', '# {{title}}\n\nGlobal bug template');
+      fs.writeFileSync('/project/.zcc/tickets/bug.md', '---\npriority: high\n---\n# {{title}}\n\n## Repro\n{{description}}\n{{unknown}}');
+
+      const ticketPath = await ticketManager.create('crash', { type: 'bug', description: 'Open the app' });
+
+      const content = fs.readFileSync(ticketPath, 'utf8') as string;
+      expect(content).toContain('## Repro\nOpen the app\n{{unknown}}');
+      expect(content).not.toContain('Global bug template');
+      expect(await ticketManager.get('crash')).toMatchObject({ type: 'bug', priority: 'high' });
+    });
+
+    it('should fall back to global templates', async () => {
+      fs.mkdirSync('/global/.zcc/tickets', { recursive: true });
+      fs.writeFileSync('/global/.zcc/tickets/chore.md', '# {{title}}\n\nGlobal chore template');
+
+      const ticketPath = await ticketManager.create('bump-deps', { template: 'chore' });
+
+      expect(fs.readFileSync(ticketPath, 'utf8')).toContain('Global chore template');
+    });
+
+    it('should reject unknown templates', async () => {
+      await expect(ticketManager.create('x', { template: 'missing' })).rejects.toThrow("Ticket template 'missing' not found");
+    });
+
+    it('should list templates with the scope they resolve from', async () => {
+      fs.writeFileSync('/project/.zcc/tickets/feature.md', '---\ndescription: Team feature template\n---\n# {{title}}');
+
+      const templates = await ticketManager.listTemplates();
+
+      expect(templates).toContainEqual({ name: 'feature', source: 'project', description: 'Team feature template' });
+      expect(templates).toContainEqual({ name: 'bug', source: 'builtin' });
+      expect(templates).toContainEqual(expect.objectContaining({ name: 'spike', source: 'builtin' }));
+    });
+
+    it('should only list markdown files as templates', async () => {
+      await ticketManager.create('first');
+      fs.writeFileSync('/project/.zcc/tickets/.DS_Store', '');
+      fs.writeFileSync('/project/.zcc/tickets/notes.txt', 'not a template');
+
+      const names = (await ticketManager.listTemplates()).map(template => template.name);
+
+      expect(names).not.toContain('.DS_Store');
+      expect(names).not.toContain('.last-id');
+      expect(names).not.toContain('notes');
+    });
+
+    it('should not treat template files as tickets', async () => {
+      fs.writeFileSync('/project/.zcc/tickets/feature.md', '# {{title}}');
+
+      expect(await ticketManager.list()).toEqual([]);
+    });
+  });
+
+  describe('update', () => {
+    it('should update frontmatter and body metadata lines', async () => {
+      const ticketPath = await ticketManager.create('to-update', { priority: 'low' });
+
+      const ticket = await ticketManager.update('to-update', { priority: 'critical', assignee: 'carol' });
+      const content = await fs.readFile(ticketPath, 'utf8') as string;
+
+      expect(ticket.priority).toBe('critical');
+      expect(ticket.assignee).toBe('carol');
+      expect(content).toContain('**Priority:** critical');
+      expect(content).toContain('**Assignee:** carol');
+      expect(content).toContain('## Task Description');
+    });
+
+    it('should throw error if ticket not found', async () => {
+      await expect(ticketManager.update('nonexistent', { priority: 'high' })).rejects.toThrow("Ticket 'nonexistent' not found");
+    });
+  });
+
+  describe('query', () => {
+    beforeEach(async () => {
+      await ticketManager.create('login', { type: 'feature', priority: 'high', assignee: 'alice', tags: ['auth'] });
+      await ticketManager.create('logout', { type: 'bug', priority: 'low', assignee: 'bob', tags: ['auth', 'ui'] });
+      await ticketManager.create('billing', { type: 'task', priority: 'critical', tags: ['payments'], due: '2026-12-01' });
+      await ticketManager.create('cleanup', { type: 'refactor', due: '2026-11-01' });
+      await ticketManager.move('logout', 'in-progress');
+    });
+
+    it('should return all tickets with metadata when no filters are given', async () => {
+      const tickets = await ticketManager.query();
+
+      expect(tickets).toHaveLength(4);
+      expect(tickets.find(t => t.name === 'login')).toMatchObject({ priority: 'high', assignee: 'alice' });
+    });
+
+    it('should filter by priority, assignee, tag, type and status', async () => {
+      expect((await ticketManager.query({ priority: 'high' })).map(t => t.name)).toEqual(['login']);
+      expect((await ticketManager.query({ assignee: 'BOB' })).map(t => t.name)).toEqual(['logout']);
+      expect((await ticketManager.query({ tags: ['auth'] })).map(t => t.name).sort()).toEqual(['login', 'logout']);
+      expect((await ticketManager.query({ tags: ['auth', 'ui'] })).map(t => t.name)).toEqual(['logout']);
+      expect((await ticketManager.query({ type: 'refactor' })).map(t => t.name)).toEqual(['cleanup']);
+      expect((await ticketManager.query({ status: 'in-progress' })).map(t => t.name)).toEqual(['logout']);
+    });
+
+    it('should sort by priority with most urgent first', async () => {
+      const tickets = await ticketManager.query({ sort: 'priority' });
+
+      expect(tickets.map(t => t.name)).toEqual(['billing', 'login', 'cleanup', 'logout']);
+    });
+
+    it('should sort by due date with undated tickets last', async () => {
+      const tickets = await ticketManager.query({ sort: 'due' });
+
+      expect(tickets.map(t => t.name)).toEqual(['cleanup', 'billing', 'login', 'logout']);
+    });
+
+    it('should sort by updated with most recent first', async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await ticketManager.update('cleanup', { assignee: 'dave' });
+
+      const tickets = await ticketManager.query({ sort: 'updated' });
+
+      expect(tickets[0].name).toBe('cleanup');
+    });
+  });
+
+  describe('search', () => {
+    beforeEach(async () => {
+      await ticketManager.create('oauth-login', {
+        type: 'feature',
+        tags: ['auth'],
+        description: 'Support OAuth providers for login. Tokens are refreshed by the session service.'
+      });
+      await ticketManager.create('session-timeout', {
+        type: 'bug',
+        description: 'Users are logged out when the session token expires during an upload.'
+      });
+      await ticketManager.create('billing-export', { type: 'task', description: 'Export invoices as CSV.' });
+      await ticketManager.move('session-timeout', 'in-progress');
+    });
+
+    it('should rank name matches above body matches', async () => {
+      const results = await ticketManager.search('session');
+
+      expect(results.map(r => r.name)).toEqual(['session-timeout', 'oauth-login']);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+      expect(results[1].snippet).toContain('session service');
+    });
+
+    it('should require every term to appear when the name does not match', async () => {
+      expect((await ticketManager.search('token upload')).map(r => r.name)).toEqual(['session-timeout']);
+      expect(await ticketManager.search('token invoices')).toEqual([]);
+    });
+
+    it('should match tags and fuzzy names', async () => {
+      expect((await ticketManager.search('auth')).map(r => r.name)).toContain('oauth-login');
+      expect((await ticketManager.search('billing')).map(r => r.name)).toEqual(['billing-export']);
+    });
+
+    it('should filter by status and limit results', async () => {
+      expect((await ticketManager.search('session', { status: 'next' })).map(r => r.name)).toEqual(['oauth-login']);
+      expect(await ticketManager.search('session', { limit: 1 })).toHaveLength(1);
+    });
+
+    it('should not match the activity log or empty queries', async () => {
+      expect(await ticketManager.search('moved')).toEqual([]);
+      expect(await ticketManager.search('   ')).toEqual([]);
+    });
+  });
+
   describe('list', () => {
     beforeEach(async () => {
       await ticketManager.create('feature-1');
@@ -140,6 +466,407 @@ describe('TicketManager', () => {
     });
   });
 
+  describe('custom workflow', () => {
+    beforeEach(async () => {
+      await fs.writeFile(
+        fs.join(projectRoot, '.zcc', 'config.yaml'),
+        [
+          'tickets:',
+          '  statuses: [next, in-progress, blocked, review, done, archived]',
+          '  transitions:',
+          '    next: [in-progress, archived]',
+          '    in-progress: [blocked, review]',
+          '    blocked: [in-progress]',
+          '    review: [in-progress, done]',
+          '    done: [archived]'
+        ].join('\n')
+      );
+      ticketManager = new TicketManager(projectRoot, fs);
+    });
+
+    it('should expose configured statuses in order', async () => {
+      expect(await ticketManager.getStatuses()).toEqual(['next', 'in-progress', 'blocked', 'review', 'done', 'archived']);
+    });
+
+    it('should create directories for custom statuses', async () => {
+      await ticketManager.list();
+
+      expect(await fs.exists(fs.join(projectRoot, '.zcc', 'tickets', 'review'))).toBe(true);
+      expect(await fs.exists(fs.join(projectRoot, '.zcc', 'tickets', 'archived'))).toBe(true);
+    });
+
+    it('should move tickets through allowed transitions', async () => {
+      await ticketManager.create('flow');
+
+      await ticketManager.move('flow', 'in-progress');
+      await ticketManager.move('flow', 'review');
+      await ticketManager.move('flow', 'done');
+
+      expect(await ticketManager.list()).toEqual([{ name: 'flow', status: 'done' }]);
+    });
+
+    it('should reject transitions that are not allowed', async () => {
+      await ticketManager.create('flow');
+
+      await expect(ticketManager.move('flow', 'done')).rejects.toThrow(
+        "Cannot move ticket 'flow' from next to done. Allowed: in-progress, archived"
+      );
+    });
+
+    it('should reject unknown statuses', async () => {
+      await ticketManager.create('flow');
+
+      await expect(ticketManager.move('flow', 'qa')).rejects.toThrow('Invalid status: qa');
+    });
+
+    it('should find and list tickets in custom status directories', async () => {
+      await fs.writeFile(fs.join(projectRoot, '.zcc', 'tickets', 'blocked', 'stuck.md'), '# Stuck');
+
+      expect(await ticketManager.list()).toContainEqual({ name: 'stuck', status: 'blocked' });
+      expect((await ticketManager.get('stuck')).status).toBe('blocked');
+    });
+
+    it('should treat statuses after done as finished blockers', async () => {
+      await ticketManager.create('schema');
+      await ticketManager.create('api');
+      await ticketManager.link('schema', 'api');
+
+      await ticketManager.move('schema', 'in-progress');
+      await ticketManager.move('schema', 'review');
+      expect((await ticketManager.getOpenBlockers('api')).map(t => t.name)).toEqual(['schema']);
+
+      await ticketManager.move('schema', 'done');
+      await ticketManager.move('schema', 'archived');
+      expect(await ticketManager.getOpenBlockers('api')).toEqual([]);
+    });
+
+    it('should report tickets in statuses after done as completed when they were finished', async () => {
+      await ticketManager.create('flow');
+      await ticketManager.move('flow', 'in-progress');
+      await ticketManager.move('flow', 'review');
+      await ticketManager.move('flow', 'done');
+      await ticketManager.move('flow', 'archived');
+
+      const report = await ticketManager.report();
+      const activity = await ticketManager.getActivity('flow');
+
+      expect(report.tickets.map(t => t.name)).toEqual(['flow']);
+      expect(report.tickets[0].completedAt).toBe(activity.find(entry => entry.to === 'done')!.timestamp);
+    });
+
+    it('should reject workflows missing required statuses', async () => {
+      await fs.writeFile(fs.join(projectRoot, '.zcc', 'config.yaml'), 'tickets:\n  statuses: [todo, done]');
+      ticketManager = new TicketManager(projectRoot, fs);
+
+      await expect(ticketManager.list()).rejects.toThrow('Tickets.statuses must include: next, in-progress');
+    });
+  });
+
+  describe('dependencies', () => {
+    beforeEach(async () => {
+      await ticketManager.create('schema');
+      await ticketManager.create('api');
+      await ticketManager.create('ui');
+    });
+
+    it('should store blockers in the blocked ticket metadata', async () => {
+      await ticketManager.link('schema', 'api');
+
+      const ticket = await ticketManager.get('api');
+      expect(ticket.blockedBy).toEqual(['schema']);
+    });
+
+    it('should report open blockers until they are done', async () => {
+      await ticketManager.link('schema', 'api');
+
+      expect((await ticketManager.getOpenBlockers('api')).map(t => t.name)).toEqual(['schema']);
+
+      await ticketManager.move('schema', 'done');
+      expect(await ticketManager.getOpenBlockers('api')).toEqual([]);
+    });
+
+    it('should refuse to move a blocked ticket to in-progress unless forced', async () => {
+      await ticketManager.link('schema', 'api');
+
+      await expect(ticketManager.move('api', 'in-progress')).rejects.toThrow(
+        "Failed to start ticket 'api': blocked by schema (next)"
+      );
+
+      await ticketManager.move('api', 'in-progress', { force: true });
+      expect((await ticketManager.get('api')).status).toBe('in-progress');
+    });
+
+    it('should ignore blockers that no longer exist', async () => {
+      await ticketManager.link('schema', 'api');
+      await ticketManager.delete('schema');
+
+      expect(await ticketManager.getOpenBlockers('api')).toEqual([]);
+    });
+
+    it('should reject invalid links', async () => {
+      await ticketManager.link('schema', 'api');
+
+      await expect(ticketManager.link('api', 'api')).rejects.toThrow("Ticket 'api' cannot block itself");
+      await expect(ticketManager.link('missing', 'api')).rejects.toThrow("Ticket 'missing' not found");
+      await expect(ticketManager.link('schema', 'api')).rejects.toThrow("Ticket 'schema' already blocks 'api'");
+    });
+
+    it('should refuse links that create a cycle', async () => {
+      await ticketManager.link('schema', 'api');
+      await ticketManager.link('api', 'ui');
+
+      await expect(ticketManager.link('ui', 'schema')).rejects.toThrow(
+        "Linking 'ui' to block 'schema' would create a dependency cycle"
+      );
+    });
+
+    it('should remove links with unlink', async () => {
+      await ticketManager.link('schema', 'api');
+      await ticketManager.unlink('schema', 'api');
+
+      expect((await ticketManager.get('api')).blockedBy).toBeUndefined();
+      await expect(ticketManager.unlink('schema', 'api')).rejects.toThrow("Ticket 'schema' does not block 'api'");
+    });
+
+    it('should build a dependency tree rooted at unblocking tickets', async () => {
+      await ticketManager.link('schema', 'api');
+      await ticketManager.link('api', 'ui');
+
+      const graph = await ticketManager.getDependencyGraph();
+
+      expect(graph.cycles).toEqual([]);
+      expect(graph.roots).toEqual([
+        {
+          name: 'ui',
+          status: 'next',
+          blockedBy: [
+            { name: 'api', status: 'next', blockedBy: [{ name: 'schema', status: 'next', blockedBy: [] }] }
+          ]
+        }
+      ]);
+    });
+
+    it('should detect cycles from hand-edited tickets', async () => {
+      await ticketManager.update('schema', { blockedBy: ['ui'] });
+      await ticketManager.update('api', { blockedBy: ['schema'] });
+      await ticketManager.update('ui', { blockedBy: ['api', 'gone'] });
+
+      const graph = await ticketManager.getDependencyGraph();
+
+      expect(graph.cycles).toHaveLength(1);
+      expect(graph.cycles[0]).toHaveLength(4);
+      expect(graph.roots).toHaveLength(1);
+      expect(JSON.stringify(graph.roots)).toContain('"missing":true');
+    });
+  });
+
+  describe('activity', () => {
+    const writeTicket = async (status: string, name: string, type: string, activity: string[]) => {
+      await fs.writeFile(
+        fs.join(projectRoot, '.zcc', 'tickets', status, `${name}.md`),
+        ['---', `type: ${type}`, 'created: 2026-10-01T09:00:00.000Z', '---', '', `# ${name}`, '', '## Activity', ...activity, ''].join('\n')
+      );
+    };
+
+    it('should record creation and transitions in an Activity section', async () => {
+      await ticketManager.create('tracked');
+      await ticketManager.move('tracked', 'in-progress');
+      await ticketManager.move('tracked', 'done');
+
+      const activity = await ticketManager.getActivity('tracked');
+      expect(activity.map(entry => [entry.from, entry.to])).toEqual([
+        [undefined, 'next'],
+        ['next', 'in-progress'],
+        ['in-progress', 'done']
+      ]);
+
+      const content = await fs.readFile(fs.join(projectRoot, '.zcc', 'tickets', 'done', 'tracked.md'), 'utf8') as string;
+      expect(content.match(/## Activity/g)).toHaveLength(1);
+      expect(content).toMatch(/^- \S+ moved in-progress → done$/m);
+    });
+
+    it('should start legacy tickets from their creation date', async () => {
+      await fs.writeFile(
+        fs.join(projectRoot, '.zcc', 'tickets', 'next', 'old.md'),
+        '# Old\n\n---\nCreated: 2025-01-01T00:00:00.000Z\nType: task'
+      );
+
+      expect(await ticketManager.getActivity('old')).toEqual([{ timestamp: '2025-01-01T00:00:00.000Z', to: 'next' }]);
+    });
+
+    it('should compute time spent in progress across repeated starts', async () => {
+      await writeTicket('done', 'bounce', 'bug', [
+        '- 2026-10-01T09:00:00.000Z created in next',
+        '- 2026-10-02T09:00:00.000Z moved next → in-progress',
+        '- 2026-10-02T13:00:00.000Z moved in-progress → next',
+        '- 2026-10-03T09:00:00.000Z moved next → in-progress',
+        '- 2026-10-03T11:00:00.000Z moved in-progress → done'
+      ]);
+
+      expect(await ticketManager.getTimeInStatus('bounce')).toBe(6 * 3600000);
+    });
+
+    it('should count time up to now for tickets still in progress', async () => {
+      await writeTicket('in-progress', 'ongoing', 'task', [
+        '- 2026-10-01T09:00:00.000Z created in next',
+        '- 2026-10-01T10:00:00.000Z moved next → in-progress'
+      ]);
+
+      const now = new Date('2026-10-01T12:30:00.000Z');
+      expect(await ticketManager.getTimeInStatus('ongoing', 'in-progress', now)).toBe(2.5 * 3600000);
+    });
+
+    it('should report throughput and cycle time per type', async () => {
+      await writeTicket('done', 'feat-a', 'feature', [
+        '- 2026-10-01T09:00:00.000Z created in next',
+        '- 2026-10-02T00:00:00.000Z moved next → in-progress',
+        '- 2026-10-04T00:00:00.000Z moved in-progress → done'
+      ]);
+      await writeTicket('done', 'feat-b', 'feature', [
+        '- 2026-10-05T00:00:00.000Z moved next → in-progress',
+        '- 2026-10-09T00:00:00.000Z moved in-progress → done'
+      ]);
+      await writeTicket('done', 'old-bug', 'bug', [
+        '- 2026-09-01T00:00:00.000Z moved next → in-progress',
+        '- 2026-09-02T00:00:00.000Z moved in-progress → done'
+      ]);
+      await writeTicket('in-progress', 'open', 'feature', [
+        '- 2026-10-05T00:00:00.000Z moved next → in-progress'
+      ]);
+
+      const report = await ticketManager.report({ since: new Date('2026-10-01') });
+
+      expect(report.completed).toBe(2);
+      expect(report.tickets.map(t => t.name)).toEqual(['feat-a', 'feat-b']);
+      expect(report.byType.feature).toEqual({
+        completed: 2,
+        averageCycleTimeMs: 3 * 86400000,
+        averageInProgressMs: 3 * 86400000
+      });
+      expect(report.byType.bug).toBeUndefined();
+    });
+  });
+
+  describe('ids', () => {
+    it('should assign sequential IDs on create', async () => {
+      await ticketManager.create('first');
+      await ticketManager.create('second');
+
+      expect((await ticketManager.get('first')).id).toBe('ZCC-1');
+      expect((await ticketManager.get('second')).id).toBe('ZCC-2');
+    });
+
+    it('should never reuse the IDs of deleted tickets', async () => {
+      await ticketManager.create('first');
+      await ticketManager.create('second');
+      await ticketManager.delete('second');
+      await ticketManager.create('third');
+
+      expect((await ticketManager.get('third')).id).toBe('ZCC-3');
+    });
+
+    it('should keep the sequence outside the ticket templates', async () => {
+      await fs.writeFile(fs.join(projectRoot, '.zcc', 'tickets', '.last-id'), '7\n');
+
+      await ticketManager.create('first');
+
+      expect((await ticketManager.get('first')).id).toBe('ZCC-8');
+      expect(JSON.parse(await fs.readFile(fs.join(projectRoot, '.zcc', 'ticket-ids.json'), 'utf8') as string)).toEqual({ ZCC: 8 });
+      expect(await fs.exists(fs.join(projectRoot, '.zcc', 'tickets', '.last-id'))).toBe(false);
+    });
+
+    it('should accept an ID wherever a ticket name is accepted', async () => {
+      await ticketManager.create('first');
+      await ticketManager.create('blocker');
+
+      await ticketManager.move('ZCC-1', 'in-progress');
+      await ticketManager.link('ZCC-2', 'zcc-1');
+
+      const ticket = await ticketManager.get('ZCC-1');
+      expect(ticket).toMatchObject({ name: 'first', status: 'in-progress', blockedBy: ['blocker'] });
+
+      await ticketManager.delete('ZCC-2');
+      expect((await ticketManager.list()).map(t => t.name)).toEqual(['first']);
+      await expect(ticketManager.move('ZCC-9', 'done')).rejects.toThrow("Ticket 'ZCC-9' not found");
+    });
+
+    it('should use the configured ID prefix', async () => {
+      await fs.writeFile(fs.join(projectRoot, '.zcc', 'config.yaml'), ['tickets:', '  idPrefix: WEB'].join('\n'));
+      ticketManager = new TicketManager(projectRoot, fs);
+
+      await ticketManager.create('first');
+
+      expect((await ticketManager.get('WEB-1')).name).toBe('first');
+    });
+
+    it('should keep an explicit ID and continue numbering after it', async () => {
+      await ticketManager.create('imported', { id: 'ZCC-40' });
+      await ticketManager.create('next-one');
+
+      expect((await ticketManager.get('ZCC-40')).name).toBe('imported');
+      expect((await ticketManager.get('next-one')).id).toBe('ZCC-41');
+      await expect(ticketManager.create('again', { id: 'ZCC-40' })).rejects.toThrow("Ticket ID 'ZCC-40' is already in use");
+      await expect(ticketManager.create('bad', { id: 'not an id' })).rejects.toThrow('Invalid ticket ID: not an id');
+    });
+
+    it('should address tickets created before IDs by name only', async () => {
+      const legacyPath = fs.join(projectRoot, '.zcc', 'tickets', 'next', 'legacy.md');
+      await fs.writeFile(legacyPath, '# legacy\n');
+
+      const ticket = await ticketManager.get('legacy');
+      expect(ticket.id).toBeUndefined();
+
+      await ticketManager.create('fresh');
+      expect((await ticketManager.get('fresh')).id).toBe('ZCC-1');
+    });
+  });
+
+  describe('rename', () => {
+    it('should rename a ticket keeping its ID, status and history', async () => {
+      await ticketManager.create('login');
+      await ticketManager.move('login', 'in-progress');
+
+      const result = await ticketManager.rename('ZCC-1', 'oauth-login');
+
+      expect(result).toEqual({
+        name: 'oauth-login',
+        path: fs.join(projectRoot, '.zcc', 'tickets', 'in-progress', 'oauth-login.md'),
+        references: []
+      });
+      expect(await fs.exists(fs.join(projectRoot, '.zcc', 'tickets', 'in-progress', 'login.md'))).toBe(false);
+      expect(await ticketManager.get('ZCC-1')).toMatchObject({ name: 'oauth-login', status: 'in-progress', title: 'oauth-login' });
+      expect(await ticketManager.getActivity('oauth-login')).toHaveLength(2);
+    });
+
+    it('should rewrite references in other tickets', async () => {
+      await ticketManager.create('login');
+      await ticketManager.create('session-store', {
+        body: 'Ticket: login\nSee .zcc/tickets/next/login.md and the login page.'
+      });
+      await ticketManager.create('sso');
+      await ticketManager.link('login', 'sso');
+      await ticketManager.create('unrelated', { body: 'Ticket: login-page stays as it is.' });
+
+      const result = await ticketManager.rename('login', 'oauth-login');
+
+      expect(result.references.sort()).toEqual(['session-store', 'sso']);
+      expect(await ticketManager.getBody('session-store')).toBe(
+        '# session-store\n\nTicket: oauth-login\nSee .zcc/tickets/next/oauth-login.md and the login page.'
+      );
+      expect((await ticketManager.get('sso')).blockedBy).toEqual(['oauth-login']);
+      expect(await ticketManager.getBody('unrelated')).toBe('# unrelated\n\nTicket: login-page stays as it is.');
+    });
+
+    it('should refuse to overwrite an existing ticket', async () => {
+      await ticketManager.create('login');
+      await ticketManager.create('oauth-login');
+
+      await expect(ticketManager.rename('login', 'oauth-login')).rejects.toThrow("Ticket 'oauth-login' already exists");
+      await expect(ticketManager.rename('login', 'login')).rejects.toThrow("Ticket 'login' is already named 'login'");
+      await expect(ticketManager.rename('missing', 'other')).rejects.toThrow("Ticket 'missing' not found");
+    });
+  });
+
   describe('delete', () => {
     it('should delete a ticket', async () => {
       const ticketPath = await ticketManager.create('test-feature');
@@ -26,6 +26,7 @@ export interface FileSystemAdapter {
   // File operations
   readFile(path: string, encoding?: BufferEncoding): Promise<string | Buffer>;
   writeFile(path: string, data: string | Buffer, options?: { encoding?: BufferEncoding }): Promise<void>;
+  appendFile(path: string, data: string | Buffer): Promise<void>;
   unlink(path: string): Promise<void>;
   
   // Path operations
@@ -6,6 +6,7 @@ export interface HttpRequestOptions {
   timeout?: number;
   headers?: Record<string, string>;
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  body?: string | Buffer;
 }
 
 export interface HttpResponse {
@@ -14,6 +15,8 @@ export interface HttpResponse {
   headers: Record<string, string>;
   data: string;
   url: string;
+  // Raw response bytes, for binary content such as pack archives
+  body?: Buffer;
 }
 
 export class HttpError extends Error {
@@ -29,4 +32,55 @@ export class HttpError extends Error {
 
 export interface HttpAdapter {
   request(url: string, options?: HttpRequestOptions): Promise<HttpResponse>;
-}
\ No newline at end of file
+}
+
+/**
+ * HttpAdapter backed by the global fetch. Like the mock adapter, 4xx and 5xx responses
+ * are thrown as HttpError with the response attached.
+ */
+export class FetchHttpAdapter implements HttpAdapter {
+  async request(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    const timeout = options.timeout || 30000;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    let fetched: Awaited<ReturnType<typeof fetch>>;
+    let body: Buffer;
+    try {
+      fetched = await fetch(url, {
+        method: options.method || 'GET',
+        headers: options.headers,
+        body: options.body,
+        signal: controller.signal,
+      });
+      body = Buffer.from(await fetched.arrayBuffer());
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new HttpError(`Request timeout after ${timeout}ms`, 0);
+      }
+      throw new HttpError(`Request to ${url} failed: ${error instanceof Error ? error.message : error}`, 0);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const headers: Record<string, string> = {};
+    fetched.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    const response: HttpResponse = {
+      status: fetched.status,
+      statusText: fetched.statusText,
+      headers,
+      data: body.toString('utf-8'),
+      url,
+      body,
+    };
+
+    if (fetched.status >= 400) {
+      throw new HttpError(`HTTP ${fetched.status}: ${fetched.statusText}`, fetched.status, response);
+    }
+
+    return response;
+  }
+}
@@ -115,6 +115,10 @@ export class MemoryFileSystemAdapter implements FileSystemAdapter {
     this.vol.writeFileSync(filePath, data, options);
   }
 
+  async appendFile(filePath: string, data: string | Buffer): Promise<void> {
+    this.vol.appendFileSync(filePath, data);
+  }
+
   async unlink(path: string): Promise<void> {
     this.vol.unlinkSync(path);
   }
@@ -43,6 +43,10 @@ export class NodeFileSystemAdapter implements FileSystemAdapter {
     await fs.writeFile(filePath, data, options);
   }
 
+  async appendFile(filePath: string, data: string | Buffer): Promise<void> {
+    await fs.appendFile(filePath, data);
+  }
+
   async unlink(path: string): Promise<void> {
     await fs.unlink(path);
   }
@@ -10,6 +10,9 @@
 // Core interface
 export { FileSystemAdapter } from './FileSystemAdapter';
 
+// HTTP adapter
+export { HttpAdapter, HttpRequestOptions, HttpResponse, HttpError, FetchHttpAdapter } from './HttpAdapter';
+
 // Node.js file system adapter
 export { NodeFileSystemAdapter } from './NodeFileSystemAdapter';
 
@@ -1,4 +1,4 @@
-import { HookEvent } from './hooks/types';
+import { HOOK_EVENTS, HookEvent } from './hooks/types';
 import { ValidationError } from './errors';
 
 /**
@@ -67,6 +67,33 @@ export interface AcronymConfig {
   };
 }
 
+/**
+ * Schema for the ticket workflow (custom statuses and allowed transitions)
+ */
+export interface TicketWorkflowConfig {
+  statuses?: string[];
+  transitions?: Record<string, string[]>;
+  // Prefix of the stable ticket IDs assigned on creation, e.g. `ZCC` for `ZCC-42`
+  idPrefix?: string;
+}
+
+/**
+ * Schema for the opt-in git integration of `ticket start` and `ticket finish`
+ */
+export interface GitIntegrationConfig {
+  enabled?: boolean;
+  // Prefix of ticket branches; defaults to `ticket/`
+  branchPrefix?: string;
+  // Branch that ticket branches are compared against; defaults to main or master
+  baseBranch?: string;
+}
+
+/**
+ * Statuses every ticket workflow must contain; `ticket create`, `start` and
+ * `finish` move tickets into these
+ */
+export const REQUIRED_TICKET_STATUSES: readonly string[] = ['next', 'in-progress', 'done'];
+
 /**
  * Unified ZCC configuration interface (replaces both ZccConfig and ZccScopeConfig)
  */
@@ -78,6 +105,7 @@ export interface ZccConfig {
   
   // Integration settings
   integrations?: {
+    git?: GitIntegrationConfig;
     [key: string]: any;
   };
   
@@ -92,6 +120,9 @@ export interface ZccConfig {
     modes?: string[];
     workflows?: string[];
   };
+
+  // Ticket workflow settings
+  tickets?: TicketWorkflowConfig;
 }
 
 /**
@@ -139,16 +170,7 @@ class ValidationUtils {
  * Validator for Hook Event types
  */
 class HookEventValidator implements Validator {
-  private validEvents: readonly HookEvent[] = [
-    'UserPromptSubmit',
-    'PreToolUse',
-    'PostToolUse',
-    'SessionStart',
-    'Stop',
-    'SubagentStop',
-    'PreCompact',
-    'Notification'
-  ];
+  private validEvents: readonly HookEvent[] = HOOK_EVENTS;
 
   validate(value: unknown): ValidationResult {
     const result: ValidationResult = { valid: true, errors: [], warnings: [] };
@@ -414,10 +436,133 @@ export class AcronymConfigValidator implements Validator {
   }
 }
 
+/**
+ * Validator for the ticket workflow configuration
+ */
+export class TicketWorkflowConfigValidator implements Validator {
+  validate(value: unknown): ValidationResult {
+    const result: ValidationResult = { valid: true, errors: [], warnings: [] };
+
+    if (!ValidationUtils.isObject(value)) {
+      result.valid = false;
+      result.errors.push('Tickets settings must be an object');
+      return result;
+    }
+
+    const workflow = value as Record<string, unknown>;
+    let statuses: string[] = [...REQUIRED_TICKET_STATUSES];
+
+    // Validate statuses (optional)
+    if (workflow.statuses !== undefined) {
+      if (!ValidationUtils.isStringArray(workflow.statuses)) {
+        result.valid = false;
+        result.errors.push('Tickets.statuses must be an array of strings');
+        return result;
+      }
+
+      statuses = workflow.statuses;
+      for (const status of statuses) {
+        // Statuses become directory names under .zcc/tickets
+        if (!/^[a-z0-9][a-z0-9_-]*$/.test(status)) {
+          result.valid = false;
+          result.errors.push(`Tickets.statuses entry "${status}" must contain only lowercase letters, digits, hyphens and underscores`);
+        }
+      }
+
+      const duplicates = statuses.filter((status, index) => statuses.indexOf(status) !== index);
+      if (duplicates.length > 0) {
+        result.valid = false;
+        result.errors.push(`Tickets.statuses contains duplicates: ${[...new Set(duplicates)].join(', ')}`);
+      }
+
+      const missing = REQUIRED_TICKET_STATUSES.filter(status => !statuses.includes(status));
+      if (missing.length > 0) {
+        result.valid = false;
+        result.errors.push(`Tickets.statuses must include: ${missing.join(', ')}`);
+      }
+    }
+
+    // Validate ID prefix (optional)
+    if (workflow.idPrefix !== undefined) {
+      if (typeof workflow.idPrefix !== 'string' || !/^[A-Z][A-Z0-9]*$/.test(workflow.idPrefix)) {
+        result.valid = false;
+        result.errors.push('Tickets.idPrefix must contain only uppercase letters and digits, starting with a letter');
+      }
+    }
+
+    // Validate transitions (optional)
+    if (workflow.transitions !== undefined) {
+      if (!ValidationUtils.isObject(workflow.transitions)) {
+        result.valid = false;
+        result.errors.push('Tickets.transitions must be an object');
+        return result;
+      }
+
+      for (const [from, targets] of Object.entries(workflow.transitions)) {
+        if (!statuses.includes(from)) {
+          result.valid = false;
+          result.errors.push(`Tickets.transitions references unknown status "${from}"`);
+        }
+
+        if (!ValidationUtils.isStringArray(targets)) {
+          result.valid = false;
+          result.errors.push(`Tickets.transitions.${from} must be an array of strings`);
+          continue;
+        }
+
+        for (const to of targets) {
+          if (!statuses.includes(to)) {
+            result.valid = false;
+            result.errors.push(`Tickets.transitions.${from} references unknown status "${to}"`);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Validator for the git integration settings
+ */
+export class GitIntegrationConfigValidator implements Validator {
+  validate(value: unknown): ValidationResult {
+    const result: ValidationResult = { valid: true, errors: [], warnings: [] };
+
+    if (!ValidationUtils.isObject(value)) {
+      result.valid = false;
+      result.errors.push('Integrations.git must be an object');
+      return result;
+    }
+
+    const git = value as Record<string, unknown>;
+
+    if (git.enabled !== undefined && !ValidationUtils.isBoolean(git.enabled)) {
+      result.valid = false;
+      result.errors.push('Integrations.git.enabled must be a boolean');
+    }
+
+    // Branch names may not contain spaces or the characters git rejects in refs
+    for (const key of ['branchPrefix', 'baseBranch'] as const) {
+      const name = git[key];
+      if (name !== undefined && (!ValidationUtils.isString(name) || /[\s~^:?*\[\\]|\.\./.test(name))) {
+        result.valid = false;
+        result.errors.push(`Integrations.git.${key} must be a valid git branch name`);
+      }
+    }
+
+    return result;
+  }
+}
+
 /**
  * Validator for Main ZCC Configuration
  */
 export class ZccConfigValidator implements Validator {
+  private ticketWorkflowValidator = new TicketWorkflowConfigValidator();
+  private gitIntegrationValidator = new GitIntegrationConfigValidator();
+
   validate(value: unknown): ValidationResult {
     const result: ValidationResult = { valid: true, errors: [], warnings: [] };
 
@@ -448,9 +593,20 @@ export class ZccConfigValidator implements Validator {
     }
 
     // Validate integrations (optional)
-    if (config.integrations !== undefined && !ValidationUtils.isObject(config.integrations)) {
-      result.valid = false;
-      result.errors.push('Integrations must be an object');
+    if (config.integrations !== undefined) {
+      if (!ValidationUtils.isObject(config.integrations)) {
+        result.valid = false;
+        result.errors.push('Integrations must be an object');
+      } else {
+        const git = (config.integrations as Record<string, unknown>).git;
+        if (git !== undefined) {
+          const gitResult = this.gitIntegrationValidator.validate(git);
+          if (!gitResult.valid) {
+            result.valid = false;
+            result.errors.push(...gitResult.errors);
+          }
+        }
+      }
     }
 
     // Validate UI settings (optional)
@@ -493,6 +649,15 @@ export class ZccConfigValidator implements Validator {
       }
     }
 
+    // Validate ticket workflow (optional)
+    if (config.tickets !== undefined) {
+      const ticketsResult = this.ticketWorkflowValidator.validate(config.tickets);
+      if (!ticketsResult.valid) {
+        result.valid = false;
+        result.errors.push(...ticketsResult.errors);
+      }
+    }
+
     return result;
   }
 
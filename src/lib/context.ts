@@ -8,6 +8,8 @@ export interface ZccCliContext {
   force: boolean;
   verbose: boolean;
   debug: boolean;
+  // Answer pack and source queries only from the local cache
+  offline: boolean;
   projectRoot: string;
 }
 
@@ -24,6 +26,7 @@ class CliContextManager {
       force: false,
       verbose: false,
       debug: false,
+      offline: false,
       projectRoot: process.cwd()
     };
   }
@@ -54,6 +57,11 @@ class CliContextManager {
       this.context.nonInteractive = true;
     }
 
+    const zccOffline = process.env.ZCC_OFFLINE;
+    if (zccOffline && ['true', '1', 'TRUE', 'True'].includes(zccOffline)) {
+      this.context.offline = true;
+    }
+
     // In non-interactive mode, force should be implicit for overwrite prompts ONLY if not explicitly set
     if (this.context.nonInteractive && options.force === undefined) {
       this.context.force = true;
@@ -102,6 +110,13 @@ class CliContextManager {
     return this.context.debug;
   }
 
+  /**
+   * Check if offline mode is enabled
+   */
+  public isOffline(): boolean {
+    return this.context.offline;
+  }
+
   /**
    * Get project root
    */
@@ -118,6 +133,7 @@ class CliContextManager {
       force: false,
       verbose: false,
       debug: false,
+      offline: false,
       projectRoot: process.cwd()
     };
   }
@@ -135,6 +151,7 @@ export const isNonInteractive = () => cliContext.isNonInteractive();
 export const isForce = () => cliContext.isForce();
 export const isVerbose = () => cliContext.isVerbose();
 export const isDebug = () => cliContext.isDebug();
+export const isOffline = () => cliContext.isOffline();
 export const getProjectRoot = () => cliContext.getProjectRoot();
 export const getContext = () => cliContext.getContext();
 
@@ -95,6 +95,17 @@ export class PackError extends ZccError {
   }
 }
 
+export class OfflineError extends ZccError {
+  constructor(message: string) {
+    super(
+      message,
+      "NOT_CACHED",
+      'Run "zcc source sync" while online to cache packs from remote sources'
+    );
+    this.name = "OfflineError";
+  }
+}
+
 /**
  * User-friendly error handler that provides helpful messages
  */
@@ -143,40 +143,54 @@ export class FuzzyMatcher {
   }
 
   /**
-   * Calculate the fuzzy match score for a query against a component name
+   * Score a query against a name or title (0-100) using exact, prefix,
+   * substring, acronym, word and character matching.
+   * Both arguments are expected to be normalized to the same case.
    */
-  private static calculateScore(
-    query: string,
-    componentName: string,
-    component: ComponentInfo,
-    includeMetadata: boolean
-  ): number {
+  static scoreName(query: string, name: string): number {
     // Exact match (highest priority)
-    if (query === componentName) {
+    if (query === name) {
       return this.SCORES.EXACT;
     }
 
     let score = 0;
 
     // Check for various match types
-    if (componentName.startsWith(query)) {
+    if (name.startsWith(query)) {
       score = Math.max(score, this.SCORES.START_WITH);
-    } else if (componentName.includes(query)) {
+    } else if (name.includes(query)) {
       score = Math.max(score, this.SCORES.SUBSTRING);
     }
 
     // Acronym matching (e.g., 'apm' -> 'autonomous-project-manager')
-    const acronymScore = this.calculateAcronymScore(query, componentName);
+    const acronymScore = this.calculateAcronymScore(query, name);
     score = Math.max(score, acronymScore);
 
     // Word boundary matching
-    const wordScore = this.calculateWordScore(query, componentName);
+    const wordScore = this.calculateWordScore(query, name);
     score = Math.max(score, wordScore);
 
     // Character-level partial matching
-    const charScore = this.calculateCharacterScore(query, componentName);
+    const charScore = this.calculateCharacterScore(query, name);
     score = Math.max(score, charScore);
 
+    return score;
+  }
+
+  /**
+   * Calculate the fuzzy match score for a query against a component name
+   */
+  private static calculateScore(
+    query: string,
+    componentName: string,
+    component: ComponentInfo,
+    includeMetadata: boolean
+  ): number {
+    let score = this.scoreName(query, componentName);
+    if (score === this.SCORES.EXACT) {
+      return score;
+    }
+
     // Boost score based on metadata if available and enabled
     if (includeMetadata && component.metadata) {
       const metadataBoost = this.calculateMetadataScore(query, component.metadata);
@@ -36,6 +36,17 @@ export abstract class Hook {
    */
   abstract shouldRun(context: HookContext): boolean;
 
+  /**
+   * Match an exact matcher (`manual`, or alternatives like `startup|resume`) against
+   * the value Claude Code matches the event by. Without a matcher or value it matches.
+   */
+  protected matchesEventValue(value?: string): boolean {
+    if (!this.config.matcher || value === undefined) {
+      return true;
+    }
+    return this.config.matcher.pattern.split('|').map(part => part.trim()).includes(value);
+  }
+
   /**
    * Execute the hook command
    */
@@ -1,5 +1,7 @@
 import { ScriptExecutor, ScriptContext, ScriptResult } from '../ScriptExecutor';
-import { HookConfig, HookContext, HookResult } from './types';
+import { HookConfig, HookContext, HookInput, HookOutput, HookResult } from './types';
+import { createHookContext, createHookInput } from './HookInputs';
+import { applyHookOutput, parseHookOutput, validateHookOutput } from './HookOutput';
 import { logger } from '../logger';
 import * as path from 'path';
 
@@ -44,7 +46,7 @@ export class HookExecutor {
       );
 
       // Convert ScriptResult to HookResult
-      const hookResult = this.convertScriptResultToHookResult(scriptResult, context);
+      const hookResult = this.convertScriptResultToHookResult(scriptResult, context, config);
       
       const duration = Date.now() - startTime;
       logger.debug(`Hook ${config.name} completed in ${duration}ms`);
@@ -139,12 +141,8 @@ export class HookExecutor {
       env.HOOK_PROMPT = context.prompt;
     }
 
-    // Prepare stdin data based on hook event and context
-    let stdin: string | undefined;
-    if (context.event === 'UserPromptSubmit' && context.prompt) {
-      // For UserPromptSubmit hooks, pass the prompt as JSON via stdin
-      stdin = JSON.stringify({ prompt: context.prompt });
-    }
+    // Pass the event payload as JSON via stdin, as Claude Code does
+    const stdin = JSON.stringify(createHookInput(context));
 
     return {
       source,
@@ -158,7 +156,11 @@ export class HookExecutor {
   /**
    * Convert ScriptResult to HookResult
    */
-  private convertScriptResultToHookResult(scriptResult: ScriptResult, context: HookContext): HookResult {
+  private convertScriptResultToHookResult(
+    scriptResult: ScriptResult,
+    context: HookContext,
+    config: HookConfig
+  ): HookResult {
     const hookResult: HookResult = {
       success: scriptResult.success,
       output: scriptResult.stdout,
@@ -172,6 +174,22 @@ export class HookExecutor {
       hookResult.success = true; // Blocking is a valid outcome
     }
 
+    // Like Claude Code, only read JSON output from hooks that exit with 0
+    const output = scriptResult.exitCode === 0 ? parseHookOutput(scriptResult.stdout) : undefined;
+    if (output !== undefined) {
+      const validation = validateHookOutput(context.event, output);
+      validation.warnings.forEach(warning => logger.warn(`Hook ${config.name}: ${warning}`));
+      if (!validation.valid) {
+        return {
+          ...hookResult,
+          output: undefined,
+          success: false,
+          error: `Invalid hook output: ${validation.errors.join(', ')}`
+        };
+      }
+      return applyHookOutput(context.event, { ...hookResult, output: undefined }, output as HookOutput);
+    }
+
     // For UserPromptSubmit hooks, check if prompt was modified
     if (context.event === 'UserPromptSubmit' && scriptResult.stdout.trim()) {
       hookResult.modifiedPrompt = scriptResult.stdout.trim();
@@ -186,15 +204,17 @@ export class HookExecutor {
   }
 
   /**
-   * Test hook execution with dry run
+   * Test hook execution with a prompt or a full Claude Code payload
    */
-  async testHook(config: HookConfig, testInput: string = 'test'): Promise<HookResult> {
-    const testContext: HookContext = {
-      event: config.event,
-      projectRoot: this.projectRoot,
-      prompt: testInput,
-      timestamp: Date.now()
-    };
+  async testHook(config: HookConfig, testInput: string | HookInput = 'test'): Promise<HookResult> {
+    const testContext: HookContext = typeof testInput === 'string'
+      ? {
+          event: config.event,
+          projectRoot: this.projectRoot,
+          prompt: testInput,
+          timestamp: Date.now()
+        }
+      : createHookContext(config.event, testInput, this.projectRoot);
 
     return this.executeHook(config, testContext);
   }
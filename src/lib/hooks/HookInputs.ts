@@ -0,0 +1,59 @@
+import { HookContext, HookEvent, HookInput } from './types';
+
+/**
+ * Build the hook context from the payload Claude Code sent for an event
+ */
+export function createHookContext(event: HookEvent, input: HookInput, projectRoot: string): HookContext {
+  return {
+    event,
+    projectRoot,
+    ...('prompt' in input && typeof input.prompt === 'string' && { prompt: input.prompt }),
+    ...('tool_name' in input && input.tool_name && { tool: input.tool_name }),
+    ...('tool_input' in input && input.tool_input !== undefined && { toolArgs: input.tool_input }),
+    ...(input.session_id && { sessionId: input.session_id }),
+    timestamp: Date.now(),
+    input,
+  };
+}
+
+/**
+ * The payload Claude Code would send for a context: its own input when it came from
+ * Claude Code, otherwise one built from the context with defaults for the rest
+ */
+export function createHookInput(context: HookContext): HookInput {
+  if (context.input) {
+    return context.input;
+  }
+
+  const base = {
+    session_id: context.sessionId || '',
+    transcript_path: '',
+    cwd: context.projectRoot,
+  };
+
+  switch (context.event) {
+    case 'UserPromptSubmit':
+      return { ...base, hook_event_name: context.event, prompt: context.prompt || '' };
+    case 'PreToolUse':
+      return { ...base, hook_event_name: context.event, tool_name: context.tool || '', tool_input: context.toolArgs || {} };
+    case 'PostToolUse':
+      return {
+        ...base,
+        hook_event_name: context.event,
+        tool_name: context.tool || '',
+        tool_input: context.toolArgs || {},
+        tool_response: {},
+      };
+    case 'SessionStart':
+      return { ...base, hook_event_name: context.event, source: 'startup' };
+    case 'Stop':
+    case 'SubagentStop':
+      return { ...base, hook_event_name: context.event, stop_hook_active: false };
+    case 'PreCompact':
+      return { ...base, hook_event_name: context.event, trigger: 'manual', custom_instructions: '' };
+    case 'Notification':
+      return { ...base, hook_event_name: context.event, message: '' };
+    case 'SessionEnd':
+      return { ...base, hook_event_name: context.event, reason: 'other' };
+  }
+}
@@ -1,13 +1,23 @@
 import { HookRegistry } from "./HookRegistry";
-import { HookConfig, HookDefinition, HookEvent } from "./types";
+import { HookConfig, HookContext, HookDefinition, HookEvent, HookInput, HookResult, MATCHER_EVENTS } from "./types";
 import { logger } from "../logger";
 import { HookConfigLoader } from "./HookConfigLoader";
-import { ZccRoutingHook } from "./builtin/ZccRoutingHook";
+import { LEGACY_NATIVE_HOOK_COMMAND, nativeHookCommand } from "./NativeHook";
 import { PackagePaths } from "../packagePaths";
 import { HookValidator } from "./HookValidator";
 import { ValidationError } from "../errors";
 import { PermissionGenerator } from "./PermissionGenerator";
 import { HookFileManager } from "./HookFileManager";
+import { HookTracer } from "./HookTracer";
+import { createHookContext } from "./HookInputs";
+import {
+  RECORDING_TTL_MS,
+  RecordingOwner,
+  fixturesDir,
+  isRecording,
+  recordingPath,
+} from "./builtin/PayloadRecorderHook";
+import { currentProcessOwner } from "../utils/process";
 import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
 import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
 
@@ -32,7 +42,8 @@ export class HookManager {
     this.hooksDir = this.fs.join(this.zccDir, "hooks");
     this.definitionsDir = this.fs.join(this.hooksDir, "definitions");
 
-    this.registry = new HookRegistry();
+    this.registry = new HookRegistry(this.fs);
+    this.registry.setTracer(new HookTracer(projectRoot, this.fs));
     this.configLoader = new HookConfigLoader(this.definitionsDir, this.fs);
     this.validator = new HookValidator(projectRoot);
     this.permissionGenerator = new PermissionGenerator(this.claudeDir);
@@ -77,51 +88,160 @@ export class HookManager {
    */
   private async loadHookDefinitions(): Promise<void> {
     try {
-      const definitions = await this.configLoader.loadAll();
-
-      for (const definition of definitions) {
-        for (const hookConfig of definition.hooks) {
-          this.registry.addHook(hookConfig);
-        }
-      }
-
+      const definitions = await this.registerHookDefinitions();
       logger.info(`Loaded ${definitions.length} hook definitions`);
     } catch (error: any) {
       logger.warn(`No hook definitions found: ${error.message}`);
     }
   }
 
+  private async registerHookDefinitions(): Promise<HookDefinition[]> {
+    const definitions = await this.configLoader.loadAll();
+
+    for (const definition of definitions) {
+      for (const hookConfig of definition.hooks) {
+        this.registry.addHook(hookConfig);
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Run the enabled native hooks of an event in-process, for `zcc hook run`.
+   * Nothing is written to stdout, which Claude Code reads as the hook output.
+   */
+  async runNativeHooks(event: HookEvent, context: HookContext): Promise<HookResult[]> {
+    await this.registerHookDefinitions();
+
+    // A recorder whose `zcc hook test --record` died without stopping it
+    if (await this.findExistingHook(`record-${event}`) && !await isRecording(this.fs, this.projectRoot, event)) {
+      logger.debug(`Removing the abandoned ${event} payload recorder`);
+      await this.stopRecording(event);
+    }
+
+    return this.registry.executeNativeHooks(event, context);
+  }
+
+  /**
+   * Find a configured hook by id
+   */
+  async findHook(id: string): Promise<HookConfig> {
+    await this.registerHookDefinitions();
+
+    const hook = await this.findExistingHook(id);
+    if (!hook) {
+      throw new ValidationError(`Hook not found: ${id}`, "id", 'Run "zcc hook list" to see the configured hooks');
+    }
+    return hook;
+  }
+
+  /**
+   * Run one hook with a payload for its event, as Claude Code would run it
+   */
+  async testHook(id: string, input: HookInput): Promise<{ hook: HookConfig; result: HookResult }> {
+    const hook = await this.findHook(id);
+    if (!hook.enabled) {
+      throw new ValidationError(`Hook ${id} is disabled`, "id", `Enable it with "zcc hook enable ${id}"`);
+    }
+    if (input.hook_event_name !== hook.event) {
+      throw new ValidationError(
+        `Hook ${id} runs on ${hook.event}, not ${input.hook_event_name}`,
+        "event",
+        `Test it with a ${hook.event} payload`
+      );
+    }
+
+    // Recorded payloads keep the cwd of the session they came from; run in this project
+    const context = createHookContext(hook.event, input, this.projectRoot);
+    const result = await this.registry.executeHook(id, context);
+    return { hook, result: result as HookResult };
+  }
+
+  /**
+   * Record the payloads Claude Code sends for an event as test fixtures, until
+   * stopRecording. The recording belongs to this process and lasts RECORDING_TTL_MS
+   * unless renewed with renewRecording. `live` is false when Claude Code does not run
+   * `zcc hook run` for the event yet, so only sessions started from now on are recorded.
+   */
+  async startRecording(event: HookEvent): Promise<{ dir: string; live: boolean }> {
+    await this.registerHookDefinitions();
+    const live = this.registry
+      .getHooksForEvent(event)
+      .some((hook) => hook.enabled && hook.config.native);
+
+    const recorderConfig: HookConfig = {
+      id: `record-${event}`,
+      name: `Record ${event} Payloads`,
+      description: "Saves hook payloads as fixtures for zcc hook test",
+      event,
+      enabled: true,
+      native: "payload-recorder",
+      command: nativeHookCommand(event),
+      priority: 1000, // Record the payload before other hooks see it
+    };
+    await this.renewRecording(event);
+    await this.addHook(recorderConfig);
+    await this.fileManager.saveHookDefinition(recorderConfig);
+
+    return { dir: fixturesDir(this.fs, this.projectRoot, event), live };
+  }
+
+  /**
+   * Extend the recording of an event by RECORDING_TTL_MS from now
+   */
+  async renewRecording(event: HookEvent): Promise<void> {
+    const owner: RecordingOwner = {
+      ...currentProcessOwner(),
+      expiresAt: new Date(Date.now() + RECORDING_TTL_MS).toISOString(),
+    };
+    await this.fs.writeFile(recordingPath(this.fs, this.projectRoot, event), JSON.stringify(owner, null, 2));
+  }
+
+  async stopRecording(event: HookEvent): Promise<void> {
+    await this.registerHookDefinitions();
+    await this.removeHook(`record-${event}`);
+
+    const ownerPath = recordingPath(this.fs, this.projectRoot, event);
+    if (await this.fs.exists(ownerPath)) {
+      await this.fs.unlink(ownerPath);
+    }
+  }
+
+  /**
+   * Paths of the recorded fixtures of an event, oldest first
+   */
+  async listFixtures(event: HookEvent): Promise<string[]> {
+    const dir = fixturesDir(this.fs, this.projectRoot, event);
+    if (!(await this.fs.exists(dir))) {
+      return [];
+    }
+    const files = await this.fs.readdir(dir);
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) => this.fs.join(dir, file));
+  }
+
   /**
    * Generate built-in hooks (like the routing hook)
    */
   private async generateBuiltinHooks(): Promise<void> {
-    // Generate the ZCC routing hook
-    const routingHook = new ZccRoutingHook(this.projectRoot);
-    await routingHook.generate();
+    // The routing hook runs in-process; remove the bash script earlier versions generated
+    const legacyScriptPath = this.fs.join(this.hooksDir, "scripts", "zcc-routing.sh");
+    if (await this.fs.exists(legacyScriptPath)) {
+      await this.fs.unlink(legacyScriptPath);
+    }
 
-    // Add it to the registry
     const routingConfig: HookConfig = {
       id: "zcc-routing",
       name: "ZCC Routing Hook",
       description: "Routes modes, workflows, and tickets based on user prompts",
       event: "UserPromptSubmit",
       enabled: true,
-      // Store command as relative to project root for portability
-      command: (() => {
-        const scriptPath = this.fs.join(this.hooksDir, "scripts", "zcc-routing.sh");
-        let relativePath = scriptPath;
-        if (scriptPath.startsWith(this.projectRoot)) {
-          relativePath = scriptPath.slice(this.projectRoot.length);
-          if (relativePath.startsWith('/')) {
-            relativePath = relativePath.slice(1);
-          }
-        }
-        return "./" + relativePath.replace(/\\/g, "/");
-      })(),
+      native: "zcc-routing",
+      command: nativeHookCommand("UserPromptSubmit"),
       priority: 100, // High priority to run first
-      requirements: {
-        commands: ["jq", "grep", "sed", "cat", "echo", "ls", "basename"],
-      },
     };
 
     this.registry.addHook(routingConfig);
@@ -213,7 +333,14 @@ export class HookManager {
 
       // Determine the matcher pattern
       let matcher = "*";
-      if (event === "PreToolUse" || event === "PostToolUse") {
+      const matchValues = MATCHER_EVENTS[event];
+      if (Array.isArray(matchValues)) {
+        // SessionStart sources and PreCompact triggers, e.g. "auto" or "startup|resume".
+        // Native hooks share one entry per event and apply their matchers in-process.
+        if (!hook.config.native && hook.config.matcher?.type === "exact" && hook.config.matcher.pattern) {
+          matcher = hook.config.matcher.pattern;
+        }
+      } else if (matchValues === "tool") {
         // For tool hooks, use the specific tool name
         if (
           hook.config.matcher &&
@@ -257,7 +384,7 @@ export class HookManager {
         
         // Merge hooks into existing settings, preserving existing hooks within the same event
         const existingHooks = existingSettings.hooks || {};
-        mergedHooks = { ...existingHooks };
+        mergedHooks = await this.withoutMissingScripts(existingHooks);
 
         // For each event, merge hooks instead of replacing
         for (const [event, newHooksList] of Object.entries(hooksConfig)) {
@@ -307,6 +434,31 @@ export class HookManager {
   }
 
 
+  /**
+   * Drop settings entries that run hook scripts which no longer exist, such as the
+   * scripts of hooks that became native, and the native hook command of earlier versions
+   */
+  private async withoutMissingScripts(hooks: Record<string, any[]>): Promise<Record<string, any[]>> {
+    const result: Record<string, any[]> = {};
+    for (const [event, entries] of Object.entries(hooks)) {
+      result[event] = [];
+      for (const entry of entries) {
+        const command: string | undefined = entry.hooks?.[0]?.command;
+        if (command?.startsWith("./.zcc/hooks/scripts/") &&
+            !await this.fs.exists(this.fs.join(this.projectRoot, command.slice(2)))) {
+          logger.debug(`Removing hook for missing script: ${command}`);
+          continue;
+        }
+        if (command?.startsWith(`${LEGACY_NATIVE_HOOK_COMMAND} `)) {
+          logger.debug(`Replacing legacy native hook command: ${command}`);
+          continue;
+        }
+        result[event].push(entry);
+      }
+    }
+    return result;
+  }
+
   /**
    * Add a new hook
    */
@@ -363,8 +515,10 @@ export class HookManager {
       // Handle script-based hooks
       let command = template.command;
 
-      // Check if template expects a script file
-      if (template.command === "${HOOK_SCRIPT}") {
+      if (template.native) {
+        // Native hooks have no script; they run through zcc itself
+        command = nativeHookCommand(template.event);
+      } else if (template.command === "${HOOK_SCRIPT}") {
         // Look for corresponding .sh file
         const scriptTemplatePath = this.fs.join(
           PackagePaths.getTemplatesDir(),
@@ -455,26 +609,28 @@ export class HookManager {
         );
       }
 
-      // Optional: Test hook execution (dry run)
-      try {
-        logger.debug(`Testing hook: ${hookConfig.name}`);
-        const testResult = await this.validator.testHook(
-          hookConfig,
-          "test input"
-        );
-        if (!testResult.success && testResult.exitCode !== 2) {
-          // Exit code 2 is blocking, which is valid
-          logger.warn(
-            `Hook test failed for ${hookConfig.name}: ${
-              testResult.error || "Unknown error"
-            }`
+      // Optional: Test hook execution (dry run); native hooks have no script to run
+      if (!hookConfig.native) {
+        try {
+          logger.debug(`Testing hook: ${hookConfig.name}`);
+          const testResult = await this.validator.testHook(
+            hookConfig,
+            "test input"
           );
-          logger.warn("Hook created but may not function correctly");
-        } else {
-          logger.debug(`Hook test passed for ${hookConfig.name}`);
+          if (!testResult.success && testResult.exitCode !== 2) {
+            // Exit code 2 is blocking, which is valid
+            logger.warn(
+              `Hook test failed for ${hookConfig.name}: ${
+                testResult.error || "Unknown error"
+              }`
+            );
+            logger.warn("Hook created but may not function correctly");
+          } else {
+            logger.debug(`Hook test passed for ${hookConfig.name}`);
+          }
+        } catch (error: any) {
+          logger.warn(`Could not test hook ${hookConfig.name}: ${error.message}`);
         }
-      } catch (error: any) {
-        logger.warn(`Could not test hook ${hookConfig.name}: ${error.message}`);
       }
 
       await this.addHook(hookConfig);
@@ -0,0 +1,196 @@
+import { HookEvent, HookOutput, HookResult, PERMISSION_DECISIONS, PermissionDecision } from './types';
+import type { ValidationResult } from './HookValidator';
+
+// Events whose hooks Claude Code lets add context and block
+const CONTEXT_EVENTS: HookEvent[] = ['UserPromptSubmit', 'SessionStart', 'PostToolUse'];
+const BLOCKING_EVENTS: HookEvent[] = ['UserPromptSubmit', 'PreToolUse', 'PostToolUse', 'Stop', 'SubagentStop'];
+// Events whose plain stdout Claude Code adds to the context
+const STDOUT_CONTEXT_EVENTS: HookEvent[] = ['UserPromptSubmit', 'SessionStart'];
+
+/**
+ * Read the JSON output of a hook from its stdout. Plain text output, including JSON
+ * that is not an object, gives undefined.
+ */
+export function parseHookOutput(stdout: string): unknown {
+  const text = stdout.trim();
+  if (!text.startsWith('{')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Validate JSON hook output for an event. Fields Claude Code ignores for the event
+ * are warnings.
+ */
+export function validateHookOutput(event: HookEvent, output: unknown): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (typeof output !== 'object' || output === null || Array.isArray(output)) {
+    return { valid: false, errors: ['Hook output must be a JSON object'], warnings };
+  }
+
+  const data = output as Record<string, unknown>;
+  if (data.decision !== undefined) {
+    if (data.decision !== 'block' && data.decision !== 'approve') {
+      errors.push(`Invalid decision: ${String(data.decision)}. Use block or approve`);
+    } else if (data.decision === 'approve' && event !== 'PreToolUse') {
+      warnings.push(`Claude Code ignores decision 'approve' for ${event} hooks`);
+    } else if (data.decision === 'block' && !BLOCKING_EVENTS.includes(event)) {
+      warnings.push(`${event} hooks cannot block`);
+    }
+  }
+  if (data.reason !== undefined && typeof data.reason !== 'string') {
+    errors.push('reason must be a string');
+  }
+  if (data.decision === 'block' && (event === 'Stop' || event === 'SubagentStop') && !data.reason) {
+    errors.push(`${event} hooks that block need a reason, which tells Claude how to continue`);
+  }
+
+  const specific = data.hookSpecificOutput;
+  if (specific === undefined) {
+    return { valid: errors.length === 0, errors, warnings };
+  }
+  if (typeof specific !== 'object' || specific === null || Array.isArray(specific)) {
+    errors.push('hookSpecificOutput must be an object');
+    return { valid: false, errors, warnings };
+  }
+
+  const fields = specific as Record<string, unknown>;
+  if (fields.hookEventName !== event) {
+    errors.push(`hookSpecificOutput.hookEventName must be ${event}`);
+  }
+  if (fields.additionalContext !== undefined) {
+    if (typeof fields.additionalContext !== 'string') {
+      errors.push('additionalContext must be a string');
+    } else if (!CONTEXT_EVENTS.includes(event)) {
+      warnings.push(`Claude Code ignores additionalContext for ${event} hooks`);
+    }
+  }
+  if (fields.permissionDecision !== undefined) {
+    if (!PERMISSION_DECISIONS.includes(fields.permissionDecision as PermissionDecision)) {
+      errors.push(`Invalid permissionDecision: ${String(fields.permissionDecision)}. Use one of: ${PERMISSION_DECISIONS.join(', ')}`);
+    } else if (event !== 'PreToolUse') {
+      warnings.push(`Claude Code ignores permissionDecision for ${event} hooks`);
+    }
+  }
+  if (fields.permissionDecisionReason !== undefined && typeof fields.permissionDecisionReason !== 'string') {
+    errors.push('permissionDecisionReason must be a string');
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Apply valid JSON output to the result of a hook. For PreToolUse, the older
+ * `decision` maps to a permission decision, as it does in Claude Code.
+ */
+export function applyHookOutput(event: HookEvent, result: HookResult, output: HookOutput): HookResult {
+  const specific = output.hookSpecificOutput;
+  const applied: HookResult = {
+    ...result,
+    ...(output.decision && { decision: output.decision }),
+    ...(output.reason && { reason: output.reason }),
+    ...(specific?.additionalContext && CONTEXT_EVENTS.includes(event) && { additionalContext: specific.additionalContext }),
+  };
+
+  if (event === 'PreToolUse') {
+    const permissionDecision = specific?.permissionDecision
+      || (output.decision === 'block' ? 'deny' : output.decision === 'approve' ? 'allow' : undefined);
+    if (permissionDecision) {
+      applied.permissionDecision = permissionDecision;
+      applied.reason = specific?.permissionDecisionReason || output.reason;
+      applied.shouldBlock = permissionDecision === 'deny';
+    }
+  } else if (output.decision === 'block' && BLOCKING_EVENTS.includes(event)) {
+    applied.shouldBlock = true;
+  }
+
+  return applied;
+}
+
+/**
+ * Merge the results of the hooks of one event, given in the order they ran (highest
+ * priority first):
+ * - a block from any hook wins over approvals
+ * - the most restrictive permission decision wins (deny, then ask, then allow)
+ * - the reason comes from the first hook that made the winning decision
+ * - output and additional context are concatenated in order
+ * - the prompt is the last one a hook modified, since each hook sees the previous one's
+ */
+export function mergeHookResults(results: HookResult[]): HookResult {
+  const decision = results.some(result => result.decision === 'block') ? 'block'
+    : results.some(result => result.decision === 'approve') ? 'approve'
+    : undefined;
+  const permissionDecision = [...PERMISSION_DECISIONS].reverse()
+    .find(value => results.some(result => result.permissionDecision === value));
+  const decidedBy = permissionDecision
+    ? results.find(result => result.permissionDecision === permissionDecision)
+    : results.find(result => decision && result.decision === decision);
+  const modifiedPrompt = results.map(result => result.modifiedPrompt).filter(Boolean).pop();
+
+  const join = (values: (string | undefined)[], separator: string): string | undefined => {
+    const present = values.map(value => value?.replace(/\n+$/, '')).filter((value): value is string => !!value);
+    return present.length > 0 ? present.join(separator) : undefined;
+  };
+  const output = join(results.map(result => result.output), '\n\n');
+  const error = join(results.map(result => result.error), '\n');
+  const additionalContext = join(results.map(result => result.additionalContext), '\n\n');
+
+  return {
+    success: results.every(result => result.success),
+    duration: results.reduce((total, result) => total + (result.duration || 0), 0),
+    shouldBlock: results.some(result => result.shouldBlock),
+    ...(output && { output }),
+    ...(error && { error }),
+    ...(modifiedPrompt && { modifiedPrompt }),
+    ...(decision && { decision }),
+    ...(permissionDecision && { permissionDecision }),
+    ...(decidedBy?.reason && { reason: decidedBy.reason }),
+    ...(additionalContext && { additionalContext }),
+  };
+}
+
+/**
+ * The JSON output for Claude Code of a merged result, or undefined when no hook
+ * used JSON output and plain stdout and exit codes say it all. Claude Code ignores
+ * JSON from a hook that exits with 2, so a block by exit code becomes a `block`
+ * decision, with the hook's stderr as the reason. Plain output of events that add
+ * stdout to the context joins the additional context.
+ */
+export function toHookOutput(event: HookEvent, result: HookResult): HookOutput | undefined {
+  if (!result.decision && !result.permissionDecision && !result.additionalContext) {
+    return undefined;
+  }
+
+  const reason = result.reason || (result.shouldBlock ? result.error : undefined);
+
+  if (event === 'PreToolUse') {
+    const permissionDecision = result.shouldBlock ? 'deny' : result.permissionDecision;
+    return {
+      hookSpecificOutput: {
+        hookEventName: event,
+        ...(permissionDecision && { permissionDecision }),
+        ...(reason && { permissionDecisionReason: reason }),
+      },
+    };
+  }
+
+  const additionalContext = [
+    STDOUT_CONTEXT_EVENTS.includes(event) ? result.output : undefined,
+    result.additionalContext,
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    ...(result.shouldBlock && { decision: 'block' as const }),
+    ...(result.shouldBlock && reason && { reason }),
+    ...(additionalContext && CONTEXT_EVENTS.includes(event) && {
+      hookSpecificOutput: { hookEventName: event, additionalContext },
+    }),
+  };
+}
@@ -5,7 +5,18 @@ import { PreToolUseHook } from './PreToolUseHook';
 import { PostToolUseHook } from './PostToolUseHook';
 import { SessionStartHook } from './SessionStartHook';
 import { NotificationHook } from './NotificationHook';
+import { StopHook } from './StopHook';
+import { PreCompactHook } from './PreCompactHook';
+import { SessionEndHook } from './SessionEndHook';
+import { NativeHook, nativeHookCommand } from './NativeHook';
+import { HookTrace, HookTracer } from './HookTracer';
+import { ZccRoutingHook } from './builtin/ZccRoutingHook';
+import { AcronymExpanderHook } from './builtin/AcronymExpanderHook';
+import { GitContextHook } from './builtin/GitContextHook';
+import { ProjectOverviewHook } from './builtin/ProjectOverviewHook';
+import { PayloadRecorderHook } from './builtin/PayloadRecorderHook';
 import { logger } from '../logger';
+import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
 
 export interface HookFactoryDefinition {
   event: HookEvent;
@@ -17,10 +28,13 @@ export class HookRegistry {
   private hooks: Map<HookEvent, Hook[]> = new Map();
   private hookFactories: Map<HookEvent, typeof Hook> = new Map();
   private factoryDefinitions: Map<HookEvent, HookFactoryDefinition> = new Map();
+  private nativeHooks: Map<string, NativeHook> = new Map();
+  private tracer?: HookTracer;
 
-  constructor() {
+  constructor(fs?: FileSystemAdapter) {
     // Register default hook factories
     this.registerDefaultFactories();
+    this.registerDefaultNativeHooks(fs);
   }
 
   /**
@@ -32,7 +46,43 @@ export class HookRegistry {
     this.registerHookFactory('PostToolUse', PostToolUseHook, 'Executes after tool usage');
     this.registerHookFactory('SessionStart', SessionStartHook, 'Handles session start events');
     this.registerHookFactory('Notification', NotificationHook, 'Handles notification events');
-    // Stop, SubagentStop, PreCompact can use base Hook class
+    this.registerHookFactory('Stop', StopHook, 'Executes when Claude finishes responding');
+    this.registerHookFactory('SubagentStop', StopHook, 'Executes when a subagent finishes');
+    this.registerHookFactory('PreCompact', PreCompactHook, 'Executes before the context is compacted');
+    this.registerHookFactory('SessionEnd', SessionEndHook, 'Handles session end events');
+  }
+
+  /**
+   * Register the built-in native hooks
+   */
+  private registerDefaultNativeHooks(fs?: FileSystemAdapter): void {
+    this.registerNativeHook(new ZccRoutingHook(fs));
+    this.registerNativeHook(new AcronymExpanderHook(fs));
+    this.registerNativeHook(new GitContextHook(fs));
+    this.registerNativeHook(new ProjectOverviewHook(fs));
+    this.registerNativeHook(new PayloadRecorderHook(fs));
+  }
+
+  /**
+   * Register a native hook that definitions can refer to with `native: <id>`
+   */
+  registerNativeHook(hook: NativeHook): void {
+    this.nativeHooks.set(hook.id, hook);
+  }
+
+  getNativeHook(id: string): NativeHook | undefined {
+    return this.nativeHooks.get(id);
+  }
+
+  getNativeHooks(): NativeHook[] {
+    return Array.from(this.nativeHooks.values());
+  }
+
+  /**
+   * Record every hook execution with this tracer
+   */
+  setTracer(tracer: HookTracer): void {
+    this.tracer = tracer;
   }
 
   /**
@@ -79,6 +129,11 @@ export class HookRegistry {
    * Now uses factory registry for dynamic hook creation
    */
   addHook(config: HookConfig): void {
+    // Native hooks all run through the same command, whatever older definitions saved
+    if (config.native) {
+      config = { ...config, command: nativeHookCommand(config.event) };
+    }
+
     // Check if hook with same ID already exists
     const eventHooks = this.hooks.get(config.event) || [];
     const existingHookIndex = eventHooks.findIndex(h => h.id === config.id);
@@ -127,17 +182,60 @@ export class HookRegistry {
    * Execute all hooks for an event
    */
   async executeHooks(event: HookEvent, context: HookContext): Promise<HookResult[]> {
-    const hooks = this.getHooksForEvent(event);
+    return this.runHooks(this.getHooksForEvent(event), event, context);
+  }
+
+  /**
+   * Execute one hook by id, as it would run for its event; undefined if there is none
+   */
+  async executeHook(id: string, context: HookContext): Promise<HookResult | undefined> {
+    const hook = this.getHooksForEvent(context.event).find(h => h.id === id);
+    if (!hook) {
+      return undefined;
+    }
+    const [result] = await this.runHooks([hook], context.event, context);
+    return result;
+  }
+
+  /**
+   * Execute the native hooks for an event in-process, as `zcc hook run` does
+   */
+  async executeNativeHooks(event: HookEvent, context: HookContext): Promise<HookResult[]> {
+    return this.runHooks(this.getHooksForEvent(event).filter(hook => hook.config.native), event, context);
+  }
+
+  private async runHooks(hooks: Hook[], event: HookEvent, context: HookContext): Promise<HookResult[]> {
     const results: HookResult[] = [];
+    const traces: HookTrace[] = [];
 
     for (const hook of hooks) {
       if (!hook.enabled) {
         continue;
       }
 
+      const matcher = hook.config.matcher && `${hook.config.matcher.type}:${hook.config.matcher.pattern}`;
+      const trace = { time: new Date().toISOString(), event, hook: hook.id, ...(matcher && { matcher }) };
       try {
-        const result = await hook.execute(context);
+        if (!hook.shouldRun(context)) {
+          traces.push({ ...trace, matched: false });
+          results.push({ success: true, skipped: true });
+          continue;
+        }
+
+        const result = hook.config.native
+          ? await this.runNativeHook(hook, context)
+          : await hook.execute(context);
         results.push(result);
+        traces.push({
+          ...trace,
+          matched: true,
+          duration: result.duration,
+          // Native hooks have no exit code; use the one `zcc hook run` exits with
+          exitCode: result.exitCode ?? (result.shouldBlock ? 2 : result.success ? 0 : 1),
+          stdout: result.output ?? result.additionalContext,
+          stderr: result.error,
+          ...((result.permissionDecision || result.decision) && { decision: result.permissionDecision || result.decision }),
+        });
 
         // If hook blocks execution, stop processing
         if (result.shouldBlock) {
@@ -155,12 +253,24 @@ export class HookRegistry {
           success: false,
           error: error.message
         });
+        traces.push({ ...trace, matched: true, exitCode: 1, stderr: error.message });
       }
     }
 
+    await this.tracer?.record(traces);
     return results;
   }
 
+  private async runNativeHook(hook: Hook, context: HookContext): Promise<HookResult> {
+    const nativeHook = this.nativeHooks.get(hook.config.native as string);
+    if (!nativeHook) {
+      return { success: false, error: `Unknown native hook: ${hook.config.native}` };
+    }
+    const startTime = Date.now();
+    const result = await nativeHook.run(context);
+    return { ...result, duration: Date.now() - startTime };
+  }
+
   /**
    * Load hooks from configuration
    */
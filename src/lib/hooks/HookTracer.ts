@@ -0,0 +1,186 @@
+import { HookEvent } from './types';
+import { logger } from '../logger';
+import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
+
+/**
+ * One hook execution, as a line of the hook log
+ */
+export interface HookTrace {
+  time: string;
+  event: HookEvent;
+  hook: string;
+  // `type:pattern` of the hook's matcher, if it has one
+  matcher?: string;
+  // False when the matcher did not match and the hook was skipped
+  matched: boolean;
+  duration?: number;
+  exitCode?: number;
+  // From JSON output: block/approve, or the permission decision of PreToolUse hooks
+  decision?: string;
+  stdout?: string;
+  stderr?: string;
+}
+
+export interface HookTraceFilter {
+  hook?: string;
+  since?: Date;
+}
+
+export interface HookTracerOptions {
+  maxFileSize: number;
+  maxFiles: number;
+  maxOutputLength: number;
+}
+
+const DEFAULT_OPTIONS: HookTracerOptions = {
+  maxFileSize: 512 * 1024,
+  maxFiles: 5,
+  maxOutputLength: 2000,
+};
+
+/**
+ * Records hook executions in `.zcc/logs/hooks/hooks.jsonl`. When the log outgrows
+ * its size limit it rotates to `hooks.1.jsonl`, `hooks.2.jsonl` and so on, keeping
+ * `maxFiles` files in total.
+ */
+export class HookTracer {
+  private fs: FileSystemAdapter;
+  private logDir: string;
+  private options: HookTracerOptions;
+
+  constructor(projectRoot: string, fs?: FileSystemAdapter, options: Partial<HookTracerOptions> = {}) {
+    this.fs = fs || new NodeFileSystemAdapter();
+    this.logDir = this.fs.join(projectRoot, '.zcc', 'logs', 'hooks');
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getLogPath(index = 0): string {
+    return this.fs.join(this.logDir, index === 0 ? 'hooks.jsonl' : `hooks.${index}.jsonl`);
+  }
+
+  /**
+   * Cut hook output down to what the log keeps
+   */
+  truncate(output: string | undefined): string | undefined {
+    if (!output) {
+      return undefined;
+    }
+    const { maxOutputLength } = this.options;
+    if (output.length <= maxOutputLength) {
+      return output;
+    }
+    return `${output.slice(0, maxOutputLength)}… (${output.length - maxOutputLength} more characters)`;
+  }
+
+  /**
+   * Append traces to the log. Appending in one write keeps the lines of hooks that
+   * run at the same time apart. Tracing never fails a hook, so errors are only logged.
+   */
+  async record(traces: HookTrace[]): Promise<void> {
+    if (traces.length === 0) {
+      return;
+    }
+
+    try {
+      const lines = traces
+        .map(trace => JSON.stringify({ ...trace, stdout: this.truncate(trace.stdout), stderr: this.truncate(trace.stderr) }))
+        .join('\n') + '\n';
+
+      await this.fs.mkdir(this.logDir, { recursive: true });
+      const logPath = this.getLogPath();
+      const size = await this.fs.exists(logPath) ? (await this.fs.stat(logPath)).size : 0;
+      if (size > 0 && size + Buffer.byteLength(lines) > this.options.maxFileSize) {
+        await this.rotate();
+      }
+      await this.fs.appendFile(logPath, lines);
+    } catch (error: any) {
+      logger.debug(`Could not write the hook log: ${error.message}`);
+    }
+  }
+
+  /**
+   * Read the traces matching a filter, oldest first
+   */
+  async read(filter: HookTraceFilter = {}): Promise<HookTrace[]> {
+    const traces: HookTrace[] = [];
+    for (let index = this.options.maxFiles - 1; index >= 0; index--) {
+      const logPath = this.getLogPath(index);
+      if (await this.fs.exists(logPath)) {
+        traces.push(...this.parse(await this.fs.readFile(logPath, 'utf-8') as string));
+      }
+    }
+    return traces.filter(trace => this.matches(trace, filter));
+  }
+
+  /**
+   * Call `onTrace` for each trace matching the filter that is recorded from now on,
+   * checking the log every `interval` milliseconds. Returns a function that stops.
+   */
+  follow(filter: HookTraceFilter, onTrace: (trace: HookTrace) => void, interval = 1000): () => void {
+    const logPath = this.getLogPath();
+    let seen: number | undefined;
+    let reading = false;
+
+    const poll = async () => {
+      if (reading) {
+        return;
+      }
+      reading = true;
+      try {
+        const content = await this.fs.exists(logPath) ? await this.fs.readFile(logPath, 'utf-8') as string : '';
+        // The log rotated when it got shorter; everything in the new file is new
+        const start = seen === undefined ? content.length : content.length < seen ? 0 : seen;
+        seen = content.length;
+        this.parse(content.slice(start))
+          .filter(trace => this.matches(trace, filter))
+          .forEach(onTrace);
+      } catch (error: any) {
+        logger.debug(`Could not read the hook log: ${error.message}`);
+      } finally {
+        reading = false;
+      }
+    };
+
+    void poll();
+    const timer = setInterval(poll, interval);
+    return () => clearInterval(timer);
+  }
+
+  private async rotate(): Promise<void> {
+    const oldest = this.getLogPath(this.options.maxFiles - 1);
+    if (await this.fs.exists(oldest)) {
+      await this.fs.unlink(oldest);
+    }
+    // FileSystemAdapter has no rename, so move each file by copying it
+    for (let index = this.options.maxFiles - 2; index >= 0; index--) {
+      const logPath = this.getLogPath(index);
+      if (await this.fs.exists(logPath)) {
+        await this.fs.copyFile(logPath, this.getLogPath(index + 1));
+        await this.fs.unlink(logPath);
+      }
+    }
+  }
+
+  private parse(content: string): HookTrace[] {
+    const traces: HookTrace[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        traces.push(JSON.parse(line));
+      } catch {
+        // A line cut off by a crash; skip it
+      }
+    }
+    return traces;
+  }
+
+  private matches(trace: HookTrace, filter: HookTraceFilter): boolean {
+    if (filter.hook && trace.hook !== filter.hook) {
+      return false;
+    }
+    return !filter.since || new Date(trace.time).getTime() >= filter.since.getTime();
+  }
+}
@@ -2,7 +2,19 @@ import { spawn } from 'child_process';
 import { HookExecutor } from './HookExecutor';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { HookConfig, HookContext, HookResult } from './types';
+import {
+  HOOK_EVENTS,
+  HookConfig,
+  HookContext,
+  HookEvent,
+  HookInput,
+  HookResult,
+  MATCHER_EVENTS,
+  PRE_COMPACT_TRIGGERS,
+  SESSION_END_REASONS,
+  SESSION_START_SOURCES,
+} from './types';
+import { createHookContext } from './HookInputs';
 import { logger } from '../logger';
 
 export interface ValidationResult {
@@ -143,18 +155,20 @@ export class HookValidator {
   }
 
   /**
-   * Test a hook with sample input (dry run)
+   * Test a hook with a sample prompt or a full Claude Code payload (dry run)
    */
-  async testHook(hook: HookConfig, testInput: string = ''): Promise<HookResult> {
+  async testHook(hook: HookConfig, testInput: string | HookInput = ''): Promise<HookResult> {
     logger.debug(`Testing hook: ${hook.name} (${hook.id})`);
 
-    const context: HookContext = {
-      event: hook.event,
-      projectRoot: this.projectRoot,
-      prompt: testInput,
-      timestamp: Date.now(),
-      sessionId: 'test-session'
-    };
+    const context: HookContext = typeof testInput === 'string'
+      ? {
+          event: hook.event,
+          projectRoot: this.projectRoot,
+          prompt: testInput,
+          timestamp: Date.now(),
+          sessionId: 'test-session'
+        }
+      : createHookContext(hook.event, testInput, this.projectRoot);
 
     try {
       const result = await this.executeHookDryRun(hook, context);
@@ -202,9 +216,8 @@ export class HookValidator {
     }
 
     // Validate event type
-    const validEvents = ['UserPromptSubmit', 'PreToolUse', 'PostToolUse', 'SessionStart', 'Stop', 'SubagentStop', 'PreCompact', 'Notification'];
-    if (hook.event && !validEvents.includes(hook.event)) {
-      result.errors.push(`Invalid event type: ${hook.event}. Valid events: ${validEvents.join(', ')}`);
+    if (hook.event && !HOOK_EVENTS.includes(hook.event)) {
+      result.errors.push(`Invalid event type: ${hook.event}. Valid events: ${HOOK_EVENTS.join(', ')}`);
       result.valid = false;
     }
 
@@ -219,39 +232,155 @@ export class HookValidator {
       result.valid = false;
     }
 
-    // Validate matcher
-    if (hook.matcher) {
-      // For PreToolUse and PostToolUse events, Claude Code expects tool names as strings
-      if ((hook.event === 'PreToolUse' || hook.event === 'PostToolUse') && 
-          hook.matcher.type === 'tool' && hook.matcher.pattern) {
-        // This is valid - Claude Code will use the pattern as the tool name
-      } else {
-        const validMatcherTypes = ['regex', 'exact', 'fuzzy', 'tool', 'keyword'];
-        if (!validMatcherTypes.includes(hook.matcher.type)) {
-          result.errors.push(`Invalid matcher type: ${hook.matcher.type}. Valid types: ${validMatcherTypes.join(', ')}`);
-          result.valid = false;
-        }
+    this.validateMatcher(hook, result);
 
-        if (!hook.matcher.pattern || hook.matcher.pattern.trim().length === 0) {
-          result.errors.push('Matcher pattern is required when matcher is specified');
-          result.valid = false;
-        }
+    return result;
+  }
 
-        // Validate regex pattern
-        if (hook.matcher.type === 'regex') {
-          try {
-            new RegExp(hook.matcher.pattern);
-          } catch (error) {
-            result.errors.push(`Invalid regex pattern: ${hook.matcher.pattern}`);
-            result.valid = false;
-          }
-        }
+  /**
+   * Validate the payload Claude Code sent a hook on stdin for an event
+   */
+  validateHookInput(event: HookEvent, input: unknown): ValidationResult {
+    const result: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: []
+    };
+    const fail = (error: string) => {
+      result.errors.push(error);
+      result.valid = false;
+    };
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      fail('Hook input must be a JSON object');
+      return result;
+    }
+    const payload = input as Record<string, unknown>;
+
+    if (payload.hook_event_name !== undefined && payload.hook_event_name !== event) {
+      fail(`Input is for ${payload.hook_event_name}, not ${event}`);
+    }
+    for (const field of ['session_id', 'transcript_path', 'cwd']) {
+      if (payload[field] !== undefined && typeof payload[field] !== 'string') {
+        fail(`${field} must be a string`);
       }
     }
 
+    const requireString = (field: string) => {
+      if (typeof payload[field] !== 'string') {
+        fail(`${event} input needs a string ${field}`);
+      }
+    };
+    // Unknown values only warn, so hooks keep working when Claude Code adds new ones
+    const expectOneOf = (field: string, values: readonly string[]) => {
+      if (typeof payload[field] !== 'string') {
+        fail(`${event} input needs ${field}: one of ${values.join(', ')}`);
+      } else if (!values.includes(payload[field] as string)) {
+        result.warnings.push(`Unknown ${field} '${payload[field]}'. Known values: ${values.join(', ')}`);
+      }
+    };
+
+    switch (event) {
+      case 'UserPromptSubmit':
+        requireString('prompt');
+        break;
+      case 'PreToolUse':
+      case 'PostToolUse':
+        requireString('tool_name');
+        if (!payload.tool_input || typeof payload.tool_input !== 'object') {
+          fail(`${event} input needs a tool_input object`);
+        }
+        if (event === 'PostToolUse' && payload.tool_response === undefined) {
+          fail('PostToolUse input needs a tool_response');
+        }
+        break;
+      case 'SessionStart':
+        expectOneOf('source', SESSION_START_SOURCES);
+        break;
+      case 'Stop':
+      case 'SubagentStop':
+        if (typeof payload.stop_hook_active !== 'boolean') {
+          fail(`${event} input needs a boolean stop_hook_active`);
+        }
+        break;
+      case 'PreCompact':
+        expectOneOf('trigger', PRE_COMPACT_TRIGGERS);
+        if (payload.custom_instructions !== undefined && typeof payload.custom_instructions !== 'string') {
+          fail('custom_instructions must be a string');
+        }
+        break;
+      case 'Notification':
+        requireString('message');
+        break;
+      case 'SessionEnd':
+        expectOneOf('reason', SESSION_END_REASONS);
+        break;
+    }
+
     return result;
   }
 
+  /**
+   * Check a matcher against what the event can match on in Claude Code
+   */
+  private validateMatcher(hook: HookConfig, result: ValidationResult): void {
+    const matchValues = MATCHER_EVENTS[hook.event];
+
+    if (!hook.matcher) {
+      // Without a tool matcher the hook is left out of the Claude Code settings
+      if (matchValues === 'tool') {
+        result.errors.push(`${hook.event} hooks need a tool matcher, e.g. { "type": "tool", "pattern": "Write" }`);
+        result.valid = false;
+      }
+      return;
+    }
+
+    // For PreToolUse and PostToolUse events, Claude Code expects tool names as strings
+    if (matchValues === 'tool' && hook.matcher.type === 'tool' && hook.matcher.pattern) {
+      return;
+    }
+
+    if (Array.isArray(matchValues)) {
+      if (hook.matcher.type !== 'exact') {
+        result.errors.push(`${hook.event} hooks match with an exact matcher on: ${matchValues.join(', ')}`);
+        result.valid = false;
+        return;
+      }
+      const unknown = (hook.matcher.pattern || '').split('|').map(part => part.trim())
+        .filter(part => !matchValues.includes(part));
+      if (unknown.length > 0) {
+        result.errors.push(`Invalid ${hook.event} matcher: ${unknown.join(', ') || '(empty)'}. Valid values: ${matchValues.join(', ')}`);
+        result.valid = false;
+      }
+      return;
+    }
+
+    if (hook.event !== 'UserPromptSubmit' && !matchValues) {
+      result.warnings.push(`Claude Code runs ${hook.event} hooks for every event; the matcher only applies when zcc runs the hook`);
+    }
+
+    const validMatcherTypes = ['regex', 'exact', 'fuzzy', 'tool', 'keyword'];
+    if (!validMatcherTypes.includes(hook.matcher.type)) {
+      result.errors.push(`Invalid matcher type: ${hook.matcher.type}. Valid types: ${validMatcherTypes.join(', ')}`);
+      result.valid = false;
+    }
+
+    if (!hook.matcher.pattern || hook.matcher.pattern.trim().length === 0) {
+      result.errors.push('Matcher pattern is required when matcher is specified');
+      result.valid = false;
+    }
+
+    // Validate regex pattern
+    if (hook.matcher.type === 'regex') {
+      try {
+        new RegExp(hook.matcher.pattern);
+      } catch (error) {
+        result.errors.push(`Invalid regex pattern: ${hook.matcher.pattern}`);
+        result.valid = false;
+      }
+    }
+  }
+
   /**
    * Check if a command is available in the system
    */
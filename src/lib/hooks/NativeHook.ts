@@ -0,0 +1,26 @@
+import { HookContext, HookEvent, HookResult } from './types';
+
+/**
+ * Command Claude Code runs for native hooks. Every native hook of an event shares it,
+ * so they all run in one Node process. `--no-install` keeps npx to the zcc installed
+ * for the project instead of fetching an unrelated `zcc` package from npm.
+ */
+export const NATIVE_HOOK_COMMAND = 'npx --no-install zcc hook run';
+
+// The command earlier versions wrote to settings
+export const LEGACY_NATIVE_HOOK_COMMAND = 'npx zcc hook run';
+
+export function nativeHookCommand(event: HookEvent): string {
+  return `${NATIVE_HOOK_COMMAND} ${event}`;
+}
+
+/**
+ * A hook implemented in TypeScript and run in-process by `zcc hook run`, instead of
+ * a script. Hook definitions refer to it by id with their `native` field.
+ */
+export interface NativeHook {
+  readonly id: string;
+  // The event it is written for; hooks that work for any event leave it out
+  readonly event?: HookEvent;
+  run(context: HookContext): Promise<HookResult>;
+}
@@ -0,0 +1,9 @@
+import { Hook } from './Hook';
+import { HookContext } from './types';
+
+export class PreCompactHook extends Hook {
+  shouldRun(context: HookContext): boolean {
+    // The matcher selects the trigger: manual (/compact) or auto (full context window)
+    return this.matchesEventValue(context.input?.hook_event_name === 'PreCompact' ? context.input.trigger : undefined);
+  }
+}
\ No newline at end of file
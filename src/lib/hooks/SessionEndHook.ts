@@ -0,0 +1,9 @@
+import { Hook } from './Hook';
+import { HookContext } from './types';
+
+export class SessionEndHook extends Hook {
+  shouldRun(_context: HookContext): boolean {
+    // Claude Code runs SessionEnd hooks for every reason; they can't match
+    return true;
+  }
+}
\ No newline at end of file
@@ -3,9 +3,9 @@ import { HookContext, HookResult } from './types';
 import { HookExecutor } from './HookExecutor';
 
 export class SessionStartHook extends Hook {
-  shouldRun(_context: HookContext): boolean {
-    // SessionStart hooks always run unless disabled
-    return true;
+  shouldRun(context: HookContext): boolean {
+    // The matcher selects sources: startup, resume, clear or compact
+    return this.matchesEventValue(context.input?.hook_event_name === 'SessionStart' ? context.input.source : undefined);
   }
 
   async execute(context: HookContext): Promise<HookResult> {
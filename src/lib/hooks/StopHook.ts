@@ -0,0 +1,17 @@
+import { Hook } from './Hook';
+import { HookContext } from './types';
+
+/**
+ * Stop and SubagentStop hooks
+ */
+export class StopHook extends Hook {
+  shouldRun(context: HookContext): boolean {
+    // A Stop hook that keeps Claude going would otherwise run again when Claude stops
+    // next, and could loop forever
+    const input = context.input;
+    if (input && (input.hook_event_name === 'Stop' || input.hook_event_name === 'SubagentStop')) {
+      return !input.stop_hook_active;
+    }
+    return true;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { AcronymExpanderHook } from '../builtin/AcronymExpanderHook';
+import { createTestFileSystem } from '../../testing';
+
+describe('AcronymExpanderHook', () => {
+  const expand = async (prompt: string, config?: object): Promise<string | undefined> => {
+    const fs = await createTestFileSystem(config ? { '/project/.zcc/acronyms.json': JSON.stringify(config) } : {});
+    const result = await new AcronymExpanderHook(fs).run({
+      event: 'UserPromptSubmit',
+      projectRoot: '/project',
+      prompt,
+      timestamp: Date.now()
+    });
+    return result.output;
+  };
+
+  it('should list the acronyms used in the prompt', async () => {
+    const config = { acronyms: { API: 'Application Programming Interface', PR: 'Pull Request', CI: 'Continuous Integration' } };
+
+    expect(await expand('Document the api before opening the PR', config))
+      .toBe('## Acronym Expansions\nAPI → Application Programming Interface, PR → Pull Request\n');
+  });
+
+  it('should follow the case and whole word settings', async () => {
+    const acronyms = { API: 'Application Programming Interface' };
+
+    expect(await expand('check the rapid api', { acronyms, settings: { caseSensitive: true } })).toBeUndefined();
+    expect(await expand('RAPIDLY', { acronyms })).toBeUndefined();
+    expect(await expand('RAPIDLY', { acronyms, settings: { wholeWordOnly: false } }))
+      .toBe('## Acronym Expansions\nAPI → Application Programming Interface\n');
+  });
+
+  it('should use the mode acronyms until acronyms are configured', async () => {
+    expect(await expand('Switch to apm')).toBe('## Acronym Expansions\napm → autonomous-project-manager\n');
+  });
+});
@@ -0,0 +1,65 @@
+import { SessionStartHook } from '../SessionStartHook';
+import { PreCompactHook } from '../PreCompactHook';
+import { StopHook } from '../StopHook';
+import { HookRegistry } from '../HookRegistry';
+import { createHookContext, createHookInput } from '../HookInputs';
+import { HookConfig, HookEvent, HookInput } from '../types';
+
+describe('event hooks', () => {
+  const config = (event: HookEvent, pattern?: string): HookConfig => ({
+    id: 'hook',
+    name: 'Hook',
+    event,
+    enabled: true,
+    command: './hook.sh',
+    ...(pattern && { matcher: { type: 'exact' as const, pattern } })
+  });
+
+  const context = (input: object) =>
+    createHookContext((input as HookInput).hook_event_name, { session_id: 's1', transcript_path: '', cwd: '/project', ...input } as HookInput, '/project');
+
+  it('should match SessionStart sources', () => {
+    const hook = new SessionStartHook(config('SessionStart', 'resume|compact'));
+
+    expect(hook.shouldRun(context({ hook_event_name: 'SessionStart', source: 'compact' }))).toBe(true);
+    expect(hook.shouldRun(context({ hook_event_name: 'SessionStart', source: 'startup' }))).toBe(false);
+    expect(new SessionStartHook(config('SessionStart')).shouldRun(context({ hook_event_name: 'SessionStart', source: 'startup' }))).toBe(true);
+  });
+
+  it('should match PreCompact triggers', () => {
+    const hook = new PreCompactHook(config('PreCompact', 'auto'));
+
+    expect(hook.shouldRun(context({ hook_event_name: 'PreCompact', trigger: 'auto', custom_instructions: '' }))).toBe(true);
+    expect(hook.shouldRun(context({ hook_event_name: 'PreCompact', trigger: 'manual', custom_instructions: '' }))).toBe(false);
+  });
+
+  it('should not run Stop hooks again while Claude continues because of one', () => {
+    const hook = new StopHook(config('SubagentStop'));
+
+    expect(hook.shouldRun(context({ hook_event_name: 'SubagentStop', stop_hook_active: false }))).toBe(true);
+    expect(hook.shouldRun(context({ hook_event_name: 'SubagentStop', stop_hook_active: true }))).toBe(false);
+  });
+
+  it('should register a hook class for every event', () => {
+    const registry = new HookRegistry();
+
+    expect(registry.getFactoryDefinitions().map(definition => definition.event).sort()).toEqual([
+      'Notification', 'PostToolUse', 'PreCompact', 'PreToolUse', 'SessionEnd',
+      'SessionStart', 'Stop', 'SubagentStop', 'UserPromptSubmit'
+    ]);
+  });
+
+  it('should build the payload Claude Code sends from a context', () => {
+    expect(createHookInput({ event: 'PreCompact', projectRoot: '/project', sessionId: 's1', timestamp: 0 })).toEqual({
+      session_id: 's1',
+      transcript_path: '',
+      cwd: '/project',
+      hook_event_name: 'PreCompact',
+      trigger: 'manual',
+      custom_instructions: ''
+    });
+
+    const input = { session_id: 's1', transcript_path: '/t', cwd: '/project', hook_event_name: 'SessionEnd', reason: 'logout' } as const;
+    expect(createHookInput(createHookContext('SessionEnd', input, '/project'))).toBe(input);
+  });
+});
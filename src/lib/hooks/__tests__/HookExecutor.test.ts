@@ -0,0 +1,103 @@
+import { HookExecutor } from '../HookExecutor';
+import { HookConfig, HookContext } from '../types';
+import { ScriptResult } from '../../ScriptExecutor';
+
+describe('HookExecutor', () => {
+  const config: HookConfig = {
+    id: 'guard',
+    name: 'Guard',
+    event: 'PreToolUse',
+    enabled: true,
+    command: './.zcc/hooks/scripts/guard.sh',
+    matcher: { type: 'tool', pattern: 'Write' }
+  };
+  const context: HookContext = {
+    event: 'PreToolUse',
+    projectRoot: '/project',
+    tool: 'Write',
+    toolArgs: { file_path: '.env' },
+    timestamp: Date.now()
+  };
+
+  let executor: HookExecutor;
+
+  const execute = (result: Partial<ScriptResult>, hookContext: HookContext = context) => {
+    jest.spyOn(executor.getScriptExecutor(), 'execute').mockResolvedValue({
+      success: true,
+      exitCode: 0,
+      stdout: '',
+      stderr: '',
+      duration: 1,
+      ...result
+    });
+    return executor.executeHook(config, hookContext);
+  };
+
+  beforeEach(() => {
+    executor = new HookExecutor('/project');
+  });
+
+  it('should pass the event payload on stdin', async () => {
+    const spy = jest.spyOn(executor.getScriptExecutor(), 'execute').mockResolvedValue({
+      success: true, exitCode: 0, stdout: '', stderr: '', duration: 1
+    });
+
+    await executor.executeHook(config, context);
+
+    expect(JSON.parse(spy.mock.calls[0][1].stdin as string)).toMatchObject({
+      hook_event_name: 'PreToolUse',
+      tool_name: 'Write',
+      tool_input: { file_path: '.env' }
+    });
+  });
+
+  it('should test hooks with a prompt or a full payload', async () => {
+    const spy = jest.spyOn(executor.getScriptExecutor(), 'execute').mockResolvedValue({
+      success: true, exitCode: 0, stdout: '', stderr: '', duration: 1
+    });
+    const stdin = (call: number) => JSON.parse(spy.mock.calls[call][1].stdin as string);
+    const promptHook: HookConfig = { ...config, event: 'UserPromptSubmit', matcher: undefined };
+
+    await executor.testHook(promptHook, 'mode: eng');
+    await executor.testHook(config, {
+      session_id: 's1',
+      transcript_path: '/t.jsonl',
+      cwd: '/project',
+      hook_event_name: 'PreToolUse',
+      tool_name: 'Edit',
+      tool_input: { file_path: 'a.ts' }
+    });
+
+    expect(stdin(0)).toMatchObject({ hook_event_name: 'UserPromptSubmit', prompt: 'mode: eng' });
+    expect(stdin(1)).toMatchObject({ session_id: 's1', tool_name: 'Edit', tool_input: { file_path: 'a.ts' } });
+    expect(spy.mock.calls[1][1].env.HOOK_TOOL).toBe('Edit');
+  });
+
+  it('should read decisions from JSON output', async () => {
+    const result = await execute({
+      stdout: JSON.stringify({
+        hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'deny', permissionDecisionReason: 'Protected file' }
+      })
+    });
+
+    expect(result).toMatchObject({ success: true, permissionDecision: 'deny', reason: 'Protected file', shouldBlock: true });
+    expect(result.output).toBeUndefined();
+  });
+
+  it('should fail on invalid JSON output', async () => {
+    const result = await execute({ stdout: '{"decision": "maybe"}' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid hook output: Invalid decision: maybe. Use block or approve');
+  });
+
+  it('should keep plain output and ignore JSON from hooks that exit with 2', async () => {
+    const prompt = { event: 'UserPromptSubmit' as const, projectRoot: '/project', prompt: 'hi', timestamp: 0 };
+
+    expect(await execute({ stdout: 'Sprint 12\n' }, prompt)).toMatchObject({ output: 'Sprint 12\n', modifiedPrompt: 'Sprint 12' });
+
+    const blocked = await execute({ success: false, exitCode: 2, stdout: '{"decision": "approve"}', stderr: 'No' }, prompt);
+    expect(blocked).toMatchObject({ success: true, shouldBlock: true, error: 'No' });
+    expect(blocked.decision).toBeUndefined();
+  });
+});
@@ -18,12 +18,6 @@ jest.mock('../PermissionGenerator', () => ({
   }
 }));
 
-jest.mock('../builtin/ZccRoutingHook', () => ({
-  ZccRoutingHook: class {
-    generate = jest.fn().mockResolvedValue(undefined);
-  }
-}));
-
 jest.mock('../../packagePaths', () => ({
   PackagePaths: {
     getTemplatesDir: () => '/templates'
@@ -69,6 +63,8 @@ describe('HookManager', () => {
       const routingDef = JSON.parse(await fs.readFile('/project/.zcc/hooks/definitions/zcc-routing.json', 'utf-8') as string);
       expect(routingDef.hooks[0].id).toBe('zcc-routing');
       expect(routingDef.hooks[0].event).toBe('UserPromptSubmit');
+      expect(routingDef.hooks[0].native).toBe('zcc-routing');
+      expect(routingDef.hooks[0].command).toBe('npx --no-install zcc hook run UserPromptSubmit');
     });
 
     it('should generate Claude settings', async () => {
@@ -312,6 +308,267 @@ describe('HookManager', () => {
     });
   });
 
+  describe('native hooks', () => {
+    const nativeDefinition = (id: string, enabled = true, priority = 50) => JSON.stringify({
+      version: '1.0.0',
+      hooks: [{ id, name: id, event: 'UserPromptSubmit', enabled, native: id, priority }]
+    });
+
+    it('should run all native hooks of an event through one settings entry', async () => {
+      const fs = await createTestFileSystem({
+        '/project/.zcc/hooks/definitions/acronym-expander.json': nativeDefinition('acronym-expander')
+      });
+
+      const hookManager = new HookManager(projectRoot, fs);
+      await hookManager.initialize();
+
+      const settings = JSON.parse(await fs.readFile('/project/.claude/settings.local.json', 'utf-8') as string);
+      expect(settings.hooks.UserPromptSubmit).toEqual([{
+        matcher: '*',
+        hooks: [{ type: 'command', command: 'npx --no-install zcc hook run UserPromptSubmit', timeout: 30 }]
+      }]);
+    });
+
+    it('should replace the generated routing script', async () => {
+      const fs = await createTestFileSystem({
+        '/project/.zcc/hooks/scripts/zcc-routing.sh': '#!/bin/bash\n',
+        '/project/.claude/settings.local.json': JSON.stringify({
+          hooks: {
+            UserPromptSubmit: [
+              { matcher: '*', hooks: [{ type: 'command', command: './.zcc/hooks/scripts/zcc-routing.sh', timeout: 30 }] },
+              { matcher: '*', hooks: [{ type: 'command', command: 'echo custom', timeout: 30 }] }
+            ]
+          }
+        })
+      });
+
+      const hookManager = new HookManager(projectRoot, fs);
+      await hookManager.initialize();
+
+      expect(await fs.exists('/project/.zcc/hooks/scripts/zcc-routing.sh')).toBe(false);
+      const settings = JSON.parse(await fs.readFile('/project/.claude/settings.local.json', 'utf-8') as string);
+      expect(settings.hooks.UserPromptSubmit.map((entry: any) => entry.hooks[0].command)).toEqual([
+        'echo custom',
+        'npx --no-install zcc hook run UserPromptSubmit'
+      ]);
+    });
+
+    it('should replace the native hook command of earlier versions', async () => {
+      const fs = await createTestFileSystem({
+        '/project/.zcc/hooks/definitions/acronyms.json': JSON.stringify({
+          version: '1.0.0',
+          hooks: [{ id: 'acronyms', name: 'Acronyms', event: 'UserPromptSubmit', enabled: true, native: 'acronym-expander', command: 'npx zcc hook run UserPromptSubmit' }]
+        }),
+        '/project/.claude/settings.local.json': JSON.stringify({
+          hooks: {
+            UserPromptSubmit: [{ matcher: '*', hooks: [{ type: 'command', command: 'npx zcc hook run UserPromptSubmit', timeout: 30 }] }]
+          }
+        })
+      });
+
+      const hookManager = new HookManager(projectRoot, fs);
+      await hookManager.initialize();
+
+      const settings = JSON.parse(await fs.readFile('/project/.claude/settings.local.json', 'utf-8') as string);
+      expect(settings.hooks.UserPromptSubmit.map((entry: any) => entry.hooks[0].command)).toEqual([
+        'npx --no-install zcc hook run UserPromptSubmit'
+      ]);
+    });
+
+    it('should create native hooks from templates without a script', async () => {
+      const fs = await createTestFileSystem({
+        '/templates/hooks/acronym-expander.json': JSON.stringify({
+          id: 'acronym-expander',
+          name: 'Acronym Expander',
+          event: 'UserPromptSubmit',
+          enabled: true,
+          native: 'acronym-expander'
+        })
+      });
+
+      const hookManager = new HookManager(projectRoot, fs);
+      await hookManager.initialize();
+      await hookManager.createHookFromTemplate('acronym-expander', { id: 'acronyms' });
+
+      const definition = JSON.parse(await fs.readFile('/project/.zcc/hooks/definitions/acronyms.json', 'utf-8') as string);
+      expect(definition.hooks[0]).toMatchObject({
+        id: 'acronyms',
+        native: 'acronym-expander',
+        command: 'npx --no-install zcc hook run UserPromptSubmit'
+      });
+      expect(await fs.exists('/project/.zcc/hooks/scripts/acronym-expander.sh')).toBe(false);
+    });
+
+    it('should run the enabled native hooks in-process by priority', async () => {
+      const fs = await createTestFileSystem({
+        '/project/.zcc/modes/engineer.md': '# Engineer\n',
+        '/project/.zcc/acronyms.json': JSON.stringify({ acronyms: { API: 'Application Programming Interface' } }),
+        '/project/.zcc/hooks/definitions/acronym-expander.json': nativeDefinition('acronym-expander', true, 90),
+        '/project/.zcc/hooks/definitions/zcc-routing.json': nativeDefinition('zcc-routing', true, 100),
+        '/project/.zcc/hooks/definitions/disabled.json': nativeDefinition('git-context-loader', false),
+        '/project/.zcc/hooks/definitions/script.json': JSON.stringify({
+          version: '1.0.0',
+          hooks: [{ id: 'script', name: 'Script', event: 'UserPromptSubmit', enabled: true, command: './script.sh', priority: 200 }]
+        })
+      });
+
+      const hookManager = new HookManager(projectRoot, fs);
+      const results = await hookManager.runNativeHooks('UserPromptSubmit', {
+        event: 'UserPromptSubmit',
+        projectRoot,
+        prompt: 'Mode: eng, document the API',
+        timestamp: Date.now()
+      });
+
+      expect(results.map(result => result.output)).toEqual([
+        '## Mode: engineer\n# Engineer\n\n',
+        '## Acronym Expansions\nAPI → Application Programming Interface\n'
+      ]);
+    });
+
+    it('should report definitions that name an unknown native hook', async () => {
+      const fs = await createTestFileSystem({
+        '/project/.zcc/hooks/definitions/missing.json': nativeDefinition('missing')
+      });
+
+      const results = await new HookManager(projectRoot, fs).runNativeHooks('UserPromptSubmit', {
+        event: 'UserPromptSubmit',
+        projectRoot,
+        prompt: 'hello',
+        timestamp: Date.now()
+      });
+
+      expect(results).toEqual([{ success: false, error: 'Unknown native hook: missing' }]);
+    });
+  });
+
+  describe('testing hooks', () => {
+    const payload = (prompt: string) => ({
+      session_id: 's1',
+      transcript_path: '/sessions/s1.jsonl',
+      cwd: '/elsewhere',
+      hook_event_name: 'UserPromptSubmit' as const,
+      prompt
+    });
+
+    const createManager = async () => {
+      const fs = await createTestFileSystem({
+        '/project/.zcc/acronyms.json': JSON.stringify({ acronyms: { API: 'Application Programming Interface' } }),
+        '/project/.zcc/hooks/definitions/acronym-expander.json': JSON.stringify({
+          version: '1.0.0',
+          hooks: [
+            { id: 'acronym-expander', name: 'Acronyms', event: 'UserPromptSubmit', enabled: true, native: 'acronym-expander' },
+            {
+              id: 'api-only',
+              name: 'API only',
+              event: 'UserPromptSubmit',
+              enabled: true,
+              native: 'acronym-expander',
+              matcher: { type: 'keyword', pattern: '+api' }
+            },
+            { id: 'off', name: 'Off', event: 'UserPromptSubmit', enabled: false, native: 'acronym-expander' }
+          ]
+        })
+      });
+      return { fs, hookManager: new HookManager(projectRoot, fs) };
+    };
+
+    it('should run one hook in this project with a payload', async () => {
+      const { hookManager } = await createManager();
+
+      const { hook, result } = await hookManager.testHook('acronym-expander', payload('Document the API'));
+
+      expect(hook.id).toBe('acronym-expander');
+      expect(result).toMatchObject({ success: true, output: '## Acronym Expansions\nAPI → Application Programming Interface\n' });
+    });
+
+    it('should report when the matcher skips the hook', async () => {
+      const { hookManager } = await createManager();
+
+      expect((await hookManager.testHook('api-only', payload('hello'))).result).toEqual({ success: true, skipped: true });
+    });
+
+    it('should reject unknown and disabled hooks and payloads of other events', async () => {
+      const { hookManager } = await createManager();
+
+      await expect(hookManager.testHook('nope', payload('x'))).rejects.toThrow('Hook not found: nope');
+      await expect(hookManager.testHook('off', payload('x'))).rejects.toThrow('Hook off is disabled');
+      await expect(hookManager.testHook('acronym-expander', {
+        session_id: 's1', transcript_path: '', cwd: '/project', hook_event_name: 'Stop', stop_hook_active: false
+      })).rejects.toThrow('Hook acronym-expander runs on UserPromptSubmit, not Stop');
+    });
+
+    it('should record live payloads as fixtures until recording stops', async () => {
+      const { fs, hookManager } = await createManager();
+
+      const { dir, live } = await hookManager.startRecording('UserPromptSubmit');
+      expect(dir).toBe('/project/.zcc/hooks/fixtures/UserPromptSubmit');
+      expect(live).toBe(true);
+      expect(await fs.exists('/project/.zcc/hooks/definitions/record-UserPromptSubmit.json')).toBe(true);
+
+      // What `zcc hook run` does when Claude Code sends a prompt
+      await new HookManager(projectRoot, fs).runNativeHooks('UserPromptSubmit', {
+        event: 'UserPromptSubmit',
+        projectRoot,
+        prompt: 'Document the API',
+        timestamp: Date.now(),
+        input: payload('Document the API')
+      });
+
+      const fixtures = await hookManager.listFixtures('UserPromptSubmit');
+      expect(fixtures).toHaveLength(1);
+      expect(JSON.parse(await fs.readFile(fixtures[0], 'utf-8') as string)).toEqual(payload('Document the API'));
+
+      await hookManager.stopRecording('UserPromptSubmit');
+      expect(await fs.exists('/project/.zcc/hooks/definitions/record-UserPromptSubmit.json')).toBe(false);
+      expect(await fs.exists('/project/.zcc/hooks/recordings/UserPromptSubmit.json')).toBe(false);
+    });
+
+    it('should remove a recorder that has expired', async () => {
+      const { fs, hookManager } = await createManager();
+      await hookManager.startRecording('UserPromptSubmit');
+      const ownerPath = '/project/.zcc/hooks/recordings/UserPromptSubmit.json';
+      await fs.writeFile(ownerPath, JSON.stringify({ ...JSON.parse(await fs.readFile(ownerPath, 'utf-8') as string), expiresAt: '2020-01-01T00:00:00.000Z' }));
+
+      await new HookManager(projectRoot, fs).runNativeHooks('UserPromptSubmit', {
+        event: 'UserPromptSubmit',
+        projectRoot,
+        prompt: 'Document the API',
+        timestamp: Date.now(),
+        input: payload('Document the API')
+      });
+
+      expect(await hookManager.listFixtures('UserPromptSubmit')).toEqual([]);
+      expect(await fs.exists('/project/.zcc/hooks/definitions/record-UserPromptSubmit.json')).toBe(false);
+      expect(await fs.exists(ownerPath)).toBe(false);
+    });
+
+    it('should not record once the owning process is gone', async () => {
+      const { fs, hookManager } = await createManager();
+      await hookManager.startRecording('UserPromptSubmit');
+      const kill = jest.spyOn(process, 'kill').mockImplementation(() => {
+        throw Object.assign(new Error('kill ESRCH'), { code: 'ESRCH' });
+      });
+
+      try {
+        const { result } = await hookManager.testHook('record-UserPromptSubmit', payload('hello'));
+        expect(result).toMatchObject({ success: true, skipped: true });
+      } finally {
+        kill.mockRestore();
+      }
+      expect(await fs.exists('/project/.zcc/hooks/fixtures/UserPromptSubmit')).toBe(false);
+    });
+
+    it('should tell when Claude Code does not run zcc for the event yet', async () => {
+      const { fs, hookManager } = await createManager();
+
+      expect((await hookManager.startRecording('PreCompact')).live).toBe(false);
+
+      const settings = JSON.parse(await fs.readFile('/project/.claude/settings.local.json', 'utf-8') as string);
+      expect(settings.hooks.PreCompact[0].hooks[0].command).toBe('npx --no-install zcc hook run PreCompact');
+    });
+  });
+
   describe('listTemplates', () => {
     it('should list available JSON templates', async () => {
       const fs = await createTestFileSystem({
@@ -670,6 +927,42 @@ describe('HookManager', () => {
       expect(toolHook).toBeDefined();
     });
 
+    it('should pass SessionStart sources and PreCompact triggers on as matchers', async () => {
+      const fs = await createTestFileSystem({
+        '/project/.zcc/hooks/definitions/lifecycle.json': JSON.stringify({
+          version: '1.0.0',
+          hooks: [
+            {
+              id: 'resume-hook',
+              name: 'Resume Hook',
+              event: 'SessionStart',
+              enabled: true,
+              command: 'echo resumed',
+              matcher: { type: 'exact', pattern: 'resume|compact' }
+            },
+            {
+              id: 'compact-hook',
+              name: 'Compact Hook',
+              event: 'PreCompact',
+              enabled: true,
+              command: 'echo compacting',
+              matcher: { type: 'exact', pattern: 'auto' }
+            },
+            { id: 'end-hook', name: 'End Hook', event: 'SessionEnd', enabled: true, command: 'echo bye' }
+          ]
+        })
+      });
+
+      const hookManager = new HookManager(projectRoot, fs);
+      await hookManager.initialize();
+
+      const settings = JSON.parse(await fs.readFile('/project/.claude/settings.local.json', 'utf-8') as string);
+
+      expect(settings.hooks.SessionStart.find((h: any) => h.hooks[0].command === 'echo resumed').matcher).toBe('resume|compact');
+      expect(settings.hooks.PreCompact[0].matcher).toBe('auto');
+      expect(settings.hooks.SessionEnd[0].matcher).toBe('*');
+    });
+
     it('should skip disabled hooks', async () => {
       const fs = await createTestFileSystem({
         '/project/.zcc/hooks/definitions/disabled-hook.json': JSON.stringify({
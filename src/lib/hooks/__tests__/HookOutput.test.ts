@@ -0,0 +1,157 @@
+import {
+  applyHookOutput,
+  mergeHookResults,
+  parseHookOutput,
+  toHookOutput,
+  validateHookOutput
+} from '../HookOutput';
+import { HookResult } from '../types';
+
+describe('HookOutput', () => {
+  describe('parseHookOutput', () => {
+    it('should read JSON objects and leave plain text alone', () => {
+      expect(parseHookOutput('  {"decision": "block"}\n')).toEqual({ decision: 'block' });
+      expect(parseHookOutput('## Git Status\n')).toBeUndefined();
+      expect(parseHookOutput('{ not json')).toBeUndefined();
+      expect(parseHookOutput('["a"]')).toBeUndefined();
+    });
+  });
+
+  describe('validateHookOutput', () => {
+    it('should accept the output Claude Code understands', () => {
+      expect(validateHookOutput('PreToolUse', {
+        hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'ask', permissionDecisionReason: 'Touches prod' }
+      })).toEqual({ valid: true, errors: [], warnings: [] });
+      expect(validateHookOutput('UserPromptSubmit', {
+        decision: 'block',
+        reason: 'Contains a secret',
+        hookSpecificOutput: { hookEventName: 'UserPromptSubmit', additionalContext: 'Sprint 12' }
+      }).valid).toBe(true);
+    });
+
+    it('should reject malformed output', () => {
+      expect(validateHookOutput('PreToolUse', {
+        decision: 'maybe',
+        reason: 42,
+        hookSpecificOutput: { hookEventName: 'PostToolUse', permissionDecision: 'never' }
+      }).errors).toEqual([
+        'Invalid decision: maybe. Use block or approve',
+        'reason must be a string',
+        'hookSpecificOutput.hookEventName must be PreToolUse',
+        'Invalid permissionDecision: never. Use one of: allow, ask, deny'
+      ]);
+      expect(validateHookOutput('Stop', { decision: 'block' }).errors)
+        .toEqual(['Stop hooks that block need a reason, which tells Claude how to continue']);
+      expect(validateHookOutput('Stop', 'done').errors).toEqual(['Hook output must be a JSON object']);
+    });
+
+    it('should warn about fields Claude Code ignores for the event', () => {
+      const result = validateHookOutput('Notification', {
+        decision: 'block',
+        hookSpecificOutput: { hookEventName: 'Notification', additionalContext: 'x', permissionDecision: 'allow' }
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual([
+        'Notification hooks cannot block',
+        'Claude Code ignores additionalContext for Notification hooks',
+        'Claude Code ignores permissionDecision for Notification hooks'
+      ]);
+    });
+  });
+
+  describe('applyHookOutput', () => {
+    const result: HookResult = { success: true, exitCode: 0 };
+
+    it('should block on a block decision', () => {
+      expect(applyHookOutput('UserPromptSubmit', result, {
+        decision: 'block',
+        reason: 'No secrets',
+        hookSpecificOutput: { hookEventName: 'UserPromptSubmit', additionalContext: 'ctx' }
+      })).toEqual({ ...result, decision: 'block', reason: 'No secrets', additionalContext: 'ctx', shouldBlock: true });
+    });
+
+    it('should map PreToolUse decisions to permission decisions', () => {
+      expect(applyHookOutput('PreToolUse', result, { decision: 'approve', reason: 'Safe' }))
+        .toMatchObject({ permissionDecision: 'allow', reason: 'Safe', shouldBlock: false });
+      expect(applyHookOutput('PreToolUse', result, {
+        decision: 'approve',
+        hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'deny', permissionDecisionReason: 'Protected file' }
+      })).toMatchObject({ permissionDecision: 'deny', reason: 'Protected file', shouldBlock: true });
+    });
+
+    it('should ignore what Claude Code ignores', () => {
+      expect(applyHookOutput('SessionEnd', result, {
+        decision: 'block',
+        hookSpecificOutput: { hookEventName: 'SessionEnd', additionalContext: 'x' }
+      })).toEqual({ ...result, decision: 'block' });
+    });
+  });
+
+  describe('mergeHookResults', () => {
+    it('should let the most restrictive permission decision win', () => {
+      const merged = mergeHookResults([
+        { success: true, permissionDecision: 'allow', reason: 'Formatter' },
+        { success: true, permissionDecision: 'ask', reason: 'Large file' },
+        { success: true, permissionDecision: 'ask', reason: 'Second opinion' },
+      ]);
+
+      expect(merged.permissionDecision).toBe('ask');
+      expect(merged.reason).toBe('Large file');
+    });
+
+    it('should let a block win over approvals', () => {
+      const merged = mergeHookResults([
+        { success: true, decision: 'approve', reason: 'Fine' },
+        { success: true, decision: 'block', reason: 'Not fine', shouldBlock: true },
+      ]);
+
+      expect(merged).toMatchObject({ decision: 'block', reason: 'Not fine', shouldBlock: true });
+    });
+
+    it('should concatenate output and context in order', () => {
+      expect(mergeHookResults([
+        { success: true, output: '## Git Status\n', additionalContext: 'first', duration: 5 },
+        { success: false, error: 'jq missing', duration: 3 },
+        { success: true, output: '## Acronyms\n', additionalContext: 'second', modifiedPrompt: 'p1' },
+      ])).toEqual({
+        success: false,
+        duration: 8,
+        shouldBlock: false,
+        output: '## Git Status\n\n## Acronyms',
+        error: 'jq missing',
+        modifiedPrompt: 'p1',
+        additionalContext: 'first\n\nsecond'
+      });
+    });
+  });
+
+  describe('toHookOutput', () => {
+    it('should leave plain results to stdout and exit codes', () => {
+      expect(toHookOutput('UserPromptSubmit', { success: true, output: 'context' })).toBeUndefined();
+      expect(toHookOutput('UserPromptSubmit', { success: true, shouldBlock: true, error: 'no' })).toBeUndefined();
+    });
+
+    it('should add plain output to the context of events that read stdout', () => {
+      expect(toHookOutput('SessionStart', { success: true, output: '## Git Status', additionalContext: 'Sprint 12' })).toEqual({
+        hookSpecificOutput: { hookEventName: 'SessionStart', additionalContext: '## Git Status\n\nSprint 12' }
+      });
+      expect(toHookOutput('PostToolUse', { success: true, output: 'formatted', additionalContext: 'Tests pass' })).toEqual({
+        hookSpecificOutput: { hookEventName: 'PostToolUse', additionalContext: 'Tests pass' }
+      });
+    });
+
+    it('should turn blocks by exit code into decisions', () => {
+      expect(toHookOutput('UserPromptSubmit', { success: true, shouldBlock: true, error: 'Secret found', additionalContext: 'ctx' }))
+        .toEqual({
+          decision: 'block',
+          reason: 'Secret found',
+          hookSpecificOutput: { hookEventName: 'UserPromptSubmit', additionalContext: 'ctx' }
+        });
+      expect(toHookOutput('PreToolUse', { success: true, shouldBlock: true, permissionDecision: 'allow', error: 'Protected' }))
+        .toEqual({
+          hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'deny', permissionDecisionReason: 'Protected' }
+        });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { HookTrace, HookTracer } from '../HookTracer';
+import { HookRegistry } from '../HookRegistry';
+import { createTestFileSystem } from '../../testing';
+import { MemoryFileSystemAdapter } from '../../adapters/MemoryFileSystemAdapter';
+
+describe('HookTracer', () => {
+  const logPath = '/project/.zcc/logs/hooks/hooks.jsonl';
+  let fs: MemoryFileSystemAdapter;
+
+  const trace = (hook: string, time = '2026-01-01T10:00:00.000Z'): HookTrace => ({
+    time,
+    event: 'UserPromptSubmit',
+    hook,
+    matched: true,
+    duration: 3,
+    exitCode: 0
+  });
+
+  beforeEach(async () => {
+    fs = await createTestFileSystem({});
+  });
+
+  it('should append traces as JSON lines and read them back', async () => {
+    const tracer = new HookTracer('/project', fs);
+
+    await tracer.record([trace('a')]);
+    await tracer.record([trace('b'), trace('c')]);
+
+    expect((await fs.readFile(logPath, 'utf-8') as string).split('\n')).toHaveLength(4);
+    expect((await tracer.read()).map(t => t.hook)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep the traces of hooks recording at the same time', async () => {
+    const first = new HookTracer('/project', fs);
+    const second = new HookTracer('/project', fs);
+
+    await Promise.all([first.record([trace('a')]), second.record([trace('b')]), first.record([trace('c')])]);
+
+    expect((await first.read()).map(t => t.hook).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should truncate long output', async () => {
+    const tracer = new HookTracer('/project', fs, { maxOutputLength: 5 });
+
+    await tracer.record([{ ...trace('a'), stdout: 'abcdefgh', stderr: 'oops' }]);
+
+    expect(await tracer.read()).toEqual([{ ...trace('a'), stdout: 'abcde… (3 more characters)', stderr: 'oops' }]);
+  });
+
+  it('should rotate the log and keep a limited number of files', async () => {
+    const tracer = new HookTracer('/project', fs, { maxFileSize: 150, maxFiles: 3 });
+
+    for (const hook of ['a', 'b', 'c', 'd', 'e']) {
+      await tracer.record([trace(hook)]);
+    }
+
+    expect(await fs.exists('/project/.zcc/logs/hooks/hooks.2.jsonl')).toBe(true);
+    expect(await fs.exists('/project/.zcc/logs/hooks/hooks.3.jsonl')).toBe(false);
+    expect((await tracer.read()).map(t => t.hook)).toEqual(['c', 'd', 'e']);
+  });
+
+  it('should filter by hook and time', async () => {
+    const tracer = new HookTracer('/project', fs);
+    await tracer.record([
+      trace('a', '2026-01-01T10:00:00.000Z'),
+      trace('b', '2026-01-01T11:00:00.000Z'),
+      trace('a', '2026-01-01T12:00:00.000Z')
+    ]);
+
+    expect((await tracer.read({ hook: 'a' })).map(t => t.time)).toEqual(['2026-01-01T10:00:00.000Z', '2026-01-01T12:00:00.000Z']);
+    expect((await tracer.read({ since: new Date('2026-01-01T11:00:00.000Z') })).map(t => t.hook)).toEqual(['b', 'a']);
+  });
+
+  it('should skip lines it cannot parse', async () => {
+    await fs.mkdir('/project/.zcc/logs/hooks', { recursive: true });
+    await fs.writeFile(logPath, `${JSON.stringify(trace('a'))}\n{"time": "2026-01\n`);
+
+    expect((await new HookTracer('/project', fs).read()).map(t => t.hook)).toEqual(['a']);
+  });
+
+  it('should follow new traces only', async () => {
+    const tracer = new HookTracer('/project', fs);
+    await tracer.record([trace('old')]);
+
+    const followed: string[] = [];
+    const stop = tracer.follow({ hook: 'new' }, t => followed.push(t.hook), 10);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await tracer.record([trace('new'), trace('other')]);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    stop();
+
+    expect(followed).toEqual(['new']);
+  });
+
+  it('should not fail hooks when the log cannot be written', async () => {
+    jest.spyOn(fs, 'appendFile').mockRejectedValue(new Error('EACCES'));
+
+    await expect(new HookTracer('/project', fs).record([trace('a')])).resolves.toBeUndefined();
+  });
+
+  describe('with HookRegistry', () => {
+    it('should trace the native hooks that ran and the ones their matcher skipped', async () => {
+      const registry = new HookRegistry(fs);
+      const tracer = new HookTracer('/project', fs);
+      registry.setTracer(tracer);
+      registry.registerNativeHook({
+        id: 'echo',
+        event: 'SessionStart',
+        run: async () => ({ success: true, output: 'hello' })
+      });
+      registry.addHook({ id: 'on-resume', name: 'On Resume', event: 'SessionStart', enabled: true, command: '', native: 'echo', matcher: { type: 'exact', pattern: 'resume' } });
+      registry.addHook({ id: 'always', name: 'Always', event: 'SessionStart', enabled: true, command: '', native: 'echo' });
+      registry.addHook({ id: 'missing', name: 'Missing', event: 'SessionStart', enabled: true, command: '', native: 'nope' });
+
+      await registry.executeNativeHooks('SessionStart', {
+        event: 'SessionStart',
+        projectRoot: '/project',
+        timestamp: Date.now(),
+        input: { session_id: 's', transcript_path: '', cwd: '/project', hook_event_name: 'SessionStart', source: 'startup' }
+      });
+
+      const traces = await tracer.read();
+      expect(traces.map(({ time, duration, ...rest }) => rest)).toEqual([
+        { event: 'SessionStart', hook: 'on-resume', matcher: 'exact:resume', matched: false },
+        { event: 'SessionStart', hook: 'always', matched: true, exitCode: 0, stdout: 'hello' },
+        { event: 'SessionStart', hook: 'missing', matched: true, exitCode: 1, stderr: 'Unknown native hook: nope' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HookValidator } from '../HookValidator';
+import { HookConfig, HookEvent, HookMatcher } from '../types';
+
+describe('HookValidator', () => {
+  const validator = new HookValidator('/project');
+
+  const base = { session_id: 's1', transcript_path: '/tmp/t.jsonl', cwd: '/project' };
+
+  describe('validateHookInput', () => {
+    it.each<[HookEvent, object]>([
+      ['UserPromptSubmit', { prompt: 'hello' }],
+      ['PreToolUse', { tool_name: 'Write', tool_input: { file_path: 'a.ts' } }],
+      ['PostToolUse', { tool_name: 'Write', tool_input: {}, tool_response: { success: true } }],
+      ['SessionStart', { source: 'resume' }],
+      ['Stop', { stop_hook_active: false }],
+      ['SubagentStop', { stop_hook_active: true }],
+      ['PreCompact', { trigger: 'auto', custom_instructions: '' }],
+      ['Notification', { message: 'Claude needs your permission to use Bash' }],
+      ['SessionEnd', { reason: 'prompt_input_exit' }],
+    ])('should accept %s input', (event, fields) => {
+      expect(validator.validateHookInput(event, { ...base, hook_event_name: event, ...fields }))
+        .toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it.each<[HookEvent, object, string]>([
+      ['UserPromptSubmit', {}, 'UserPromptSubmit input needs a string prompt'],
+      ['PreToolUse', { tool_name: 'Write' }, 'PreToolUse input needs a tool_input object'],
+      ['PostToolUse', { tool_name: 'Write', tool_input: {} }, 'PostToolUse input needs a tool_response'],
+      ['Stop', { stop_hook_active: 'no' }, 'Stop input needs a boolean stop_hook_active'],
+      ['PreCompact', {}, 'PreCompact input needs trigger: one of manual, auto'],
+      ['SessionEnd', {}, 'SessionEnd input needs reason: one of clear, logout, prompt_input_exit, other'],
+    ])('should reject incomplete %s input', (event, fields, error) => {
+      const result = validator.validateHookInput(event, { ...base, ...fields });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([error]);
+    });
+
+    it('should reject input for another event', () => {
+      expect(validator.validateHookInput('Stop', { ...base, hook_event_name: 'SubagentStop', stop_hook_active: false }).errors)
+        .toEqual(['Input is for SubagentStop, not Stop']);
+      expect(validator.validateHookInput('Stop', [] as unknown).errors).toEqual(['Hook input must be a JSON object']);
+    });
+
+    it('should only warn about values Claude Code may add later', () => {
+      const result = validator.validateHookInput('SessionStart', { ...base, source: 'fork' });
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual(["Unknown source 'fork'. Known values: startup, resume, clear, compact"]);
+    });
+  });
+
+  describe('validateHookConfig', () => {
+    const config = (event: HookEvent, matcher?: HookMatcher): HookConfig => ({
+      id: 'hook',
+      name: 'Hook',
+      event,
+      enabled: true,
+      command: './hook.sh',
+      ...(matcher && { matcher })
+    });
+
+    it('should accept every event', () => {
+      expect(validator.validateHookConfig(config('SessionEnd')).valid).toBe(true);
+      expect(validator.validateHookConfig(config('Unknown' as HookEvent)).errors[0]).toMatch(/^Invalid event type: Unknown/);
+    });
+
+    it('should require tool matchers for tool events', () => {
+      expect(validator.validateHookConfig(config('PreToolUse')).errors)
+        .toEqual(['PreToolUse hooks need a tool matcher, e.g. { "type": "tool", "pattern": "Write" }']);
+      expect(validator.validateHookConfig(config('PostToolUse', { type: 'tool', pattern: 'Edit' })).valid).toBe(true);
+    });
+
+    it('should check PreCompact triggers and SessionStart sources', () => {
+      expect(validator.validateHookConfig(config('PreCompact', { type: 'exact', pattern: 'auto' })).valid).toBe(true);
+      expect(validator.validateHookConfig(config('SessionStart', { type: 'exact', pattern: 'startup|resume' })).valid).toBe(true);
+
+      expect(validator.validateHookConfig(config('PreCompact', { type: 'exact', pattern: 'auto|later' })).errors)
+        .toEqual(['Invalid PreCompact matcher: later. Valid values: manual, auto']);
+      expect(validator.validateHookConfig(config('SessionStart', { type: 'regex', pattern: 'start.*' })).errors)
+        .toEqual(['SessionStart hooks match with an exact matcher on: startup, resume, clear, compact']);
+    });
+
+    it('should warn that Claude Code ignores matchers of other events', () => {
+      const result = validator.validateHookConfig(config('Stop', { type: 'keyword', pattern: 'done' }));
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual(['Claude Code runs Stop hooks for every event; the matcher only applies when zcc runs the hook']);
+    });
+  });
+
+  describe('templates', () => {
+    const templatesDir = path.join(__dirname, '../../../../templates/hooks');
+    const templates = fs.readdirSync(templatesDir).filter(file => file.endsWith('.json'));
+
+    it('should include a template for every event without a built-in hook', () => {
+      const events = templates.map(file => JSON.parse(fs.readFileSync(path.join(templatesDir, file), 'utf-8')).event);
+
+      expect(new Set(events)).toEqual(new Set(['SessionStart', 'Stop', 'SubagentStop', 'PreCompact', 'Notification', 'SessionEnd']));
+    });
+
+    it.each(templates)('should validate %s and its script', file => {
+      const template = JSON.parse(fs.readFileSync(path.join(templatesDir, file), 'utf-8'));
+      const script = fs.readFileSync(path.join(templatesDir, file.replace(/\.json$/, '.sh')), 'utf-8');
+
+      expect(validator.validateHookConfig({ ...template, command: './hook.sh' }).errors).toEqual([]);
+      expect(validator.validateScript(script).errors).toEqual([]);
+      // Text from the payload or the project goes to osascript as an argument, not as source
+      expect(script).not.toMatch(/osascript -e "/);
+      if (script.includes('jq ')) {
+        expect(template.requirements.commands).toContain('jq');
+      }
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { ProjectOverviewHook } from '../builtin/ProjectOverviewHook';
+import { HookRegistry } from '../HookRegistry';
+import { HookTracer } from '../HookTracer';
+import { createTestFileSystem } from '../../testing';
+
+describe('ProjectOverviewHook', () => {
+  const context = { event: 'SessionStart' as const, projectRoot: '/project', timestamp: Date.now() };
+
+  it('should list tickets in progress and count the others', async () => {
+    const fs = await createTestFileSystem({
+      '/project/.zcc/tickets/in-progress/auth.md': '# auth',
+      '/project/.zcc/tickets/in-progress/api.md': '# api',
+      '/project/.zcc/tickets/next/docs.md': '# docs',
+      '/project/.zcc/tickets/done/setup.md': '# setup',
+      '/project/.zcc/tickets/done/ci.md': '# ci'
+    });
+
+    const result = await new ProjectOverviewHook(fs).run(context);
+
+    expect(result.output).toBe([
+      '## Project Overview', '', '### Tickets Status', '',
+      '#### In Progress', '- api', '- auth', '',
+      '#### Next', '1 tickets', '',
+      '#### Done', '2 tickets'
+    ].join('\n'));
+  });
+
+  it('should work without tickets and show up in the hook log', async () => {
+    const fs = await createTestFileSystem({});
+    const registry = new HookRegistry(fs);
+    const tracer = new HookTracer('/project', fs);
+    registry.setTracer(tracer);
+    registry.addHook({ id: 'project-overview', name: 'Project Overview', event: 'SessionStart', enabled: true, command: '', native: 'project-overview' });
+
+    const [result] = await registry.executeNativeHooks('SessionStart', context);
+
+    expect(result.output).toContain('No tickets in progress');
+    expect((await tracer.read()).map(trace => trace.hook)).toEqual(['project-overview']);
+  });
+});
@@ -0,0 +1,131 @@
+import { ZccRoutingHook } from '../builtin/ZccRoutingHook';
+import { createTestFileSystem } from '../../testing';
+import { MemoryFileSystemAdapter } from '../../adapters/MemoryFileSystemAdapter';
+
+describe('ZccRoutingHook', () => {
+  const projectRoot = '/project';
+  let fs: MemoryFileSystemAdapter;
+  let hook: ZccRoutingHook;
+
+  const route = async (prompt: string): Promise<string> => {
+    const result = await hook.run({ event: 'UserPromptSubmit', projectRoot, prompt, timestamp: Date.now() });
+    return result.output || '';
+  };
+
+  beforeEach(async () => {
+    fs = await createTestFileSystem({
+      '/project/.zcc/modes/engineer.md': '# Engineer',
+      '/project/.zcc/modes/architect.md': '# Architect',
+      '/project/.zcc/modes/autonomous-project-manager.md': '# APM',
+      '/project/.zcc/modes/reviewer.md': '# Reviewer',
+      '/project/.zcc/modes/security-reviewer.md': '# Security Reviewer',
+      '/project/.zcc/workflows/tdd.md': '# TDD',
+      '/project/.zcc/tickets/next/fix-login.md': '---\nid: ZCC-7\n---\n# Fix login',
+      '/project/.zcc/tickets/in-progress/add-search.md': '# Add search',
+      '/project/.zcc/tickets/review/polish-ui.md': '# Polish UI'
+    });
+    hook = new ZccRoutingHook(fs);
+  });
+
+  describe('modes and workflows', () => {
+    it('should load an exactly matching mode', async () => {
+      expect(await route('Mode: Engineer, fix the build')).toBe('## Mode: engineer\n# Engineer\n');
+    });
+
+    it('should load the mode from a .zcc path', async () => {
+      expect(await route('Read .zcc/modes/architect.md first')).toBe('## Mode: architect\n# Architect\n');
+    });
+
+    it('should list every mode a request could mean', async () => {
+      const output = await route('mode: a');
+
+      expect(output).toContain('## Multiple Mode Matches Found for: a');
+      expect(output).toContain('### Mode: architect\n# Architect');
+      expect(output).toContain('### Mode: autonomous-project-manager\n# APM');
+      expect(output).not.toContain('engineer');
+    });
+
+    it.each([
+      ['apm', ['autonomous-project-manager']],
+      ['arch', ['architect']],
+      ['review', ['reviewer']],
+      ['viewer', ['reviewer', 'security-reviewer']],
+      ['xyz', []],
+    ])('should match %s by prefix, substring or abbreviation', (query, expected) => {
+      const names = ['architect', 'autonomous-project-manager', 'engineer', 'reviewer', 'security-reviewer'];
+      expect(hook.findMatches(query, names)).toEqual(expected);
+    });
+
+    it('should list the available modes when nothing matches', async () => {
+      expect(await route('Mode: painter')).toBe([
+        '## No Mode Match Found',
+        'Could not find a mode matching: painter',
+        'Available modes in .zcc/modes/:',
+        '  - architect',
+        '  - autonomous-project-manager',
+        '  - engineer',
+        '  - reviewer',
+        '  - security-reviewer',
+        '',
+      ].join('\n'));
+    });
+
+    it('should fall back to the default mode from the configuration', async () => {
+      await fs.writeFile('/project/.zcc/config.json', JSON.stringify({ defaultMode: 'architect' }));
+
+      expect(await route('Workflow: tdd')).toBe('## Mode: architect (default)\n# Architect\n\n## Workflow: tdd\n# TDD\n');
+    });
+
+    it('should add nothing to unrelated prompts', async () => {
+      expect(await route('Please refactor the authentication module')).toBe('');
+    });
+  });
+
+  describe('tickets', () => {
+    it.each([
+      ['Ticket: fix-login', 'next/fix-login'],
+      ['ticket: in-progress/add-search', 'in-progress/add-search'],
+      ['Ticket: polish-ui', 'review/polish-ui'],
+      ['Ticket: zcc-7', 'next/fix-login'],
+      ['See .zcc/tickets/in-progress/add-search', 'in-progress/add-search'],
+    ])('should load the ticket for %s', async (prompt, ticketPath) => {
+      const output = await route(prompt);
+
+      expect(output).toContain(`## Ticket: ${ticketPath}\n`);
+      expect(output).toContain('### Ticket Content\n');
+    });
+
+    it('should list the tickets when none matches', async () => {
+      const output = await route('Ticket: unknown');
+
+      expect(output).toContain('## No Ticket Match Found');
+      expect(output).toContain('  in-progress:\n    - add-search.md');
+      expect(output).toContain('  review:\n    - polish-ui.md');
+    });
+
+    it.each([
+      'I need to create a new ticket for the login feature',
+      'Can you list all tickets?',
+      'CREATE A NEW TICKET',
+    ])('should show the ticket reference for: %s', async prompt => {
+      const output = await route(prompt);
+
+      expect(output).toContain('## Ticket System - Quick Reference');
+      expect(output).toContain('npx zcc ticket create');
+    });
+
+    it.each([
+      'The support ticket system is broken',
+      'I got a parking ticket',
+    ])('should only mention the ticket system for: %s', async prompt => {
+      expect(await route(prompt)).toContain('## Ticket System Available');
+    });
+
+    it.each([
+      'Check the ticker symbol',
+      'Show me all ticekts',
+    ])('should not detect tickets in: %s', async prompt => {
+      expect(await route(prompt)).not.toContain('Ticket System');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { FileSystemAdapter } from '../../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../../adapters/NodeFileSystemAdapter';
+import { NativeHook } from '../NativeHook';
+import { HookContext, HookEvent, HookResult } from '../types';
+
+interface AcronymConfig {
+  acronyms?: Record<string, string>;
+  settings?: {
+    caseSensitive?: boolean;
+    wholeWordOnly?: boolean;
+  };
+}
+
+// Used until `zcc acronym add` creates .zcc/acronyms.json
+const DEFAULT_ACRONYMS: Record<string, string> = {
+  apm: 'autonomous-project-manager',
+  eng: 'engineer',
+  arch: 'architect',
+  rev: 'reviewer',
+  debt: 'ai-debt-maintainer',
+};
+
+/**
+ * Lists the expansions of the acronyms from .zcc/acronyms.json used in a prompt
+ */
+export class AcronymExpanderHook implements NativeHook {
+  readonly id = 'acronym-expander';
+  readonly event: HookEvent = 'UserPromptSubmit';
+  private fs: FileSystemAdapter;
+
+  constructor(fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
+  }
+
+  async run(context: HookContext): Promise<HookResult> {
+    const prompt = context.prompt;
+    if (!prompt) {
+      return { success: true };
+    }
+
+    const config = await this.loadConfig(this.fs.join(context.projectRoot, '.zcc', 'acronyms.json'));
+    const caseSensitive = config.settings?.caseSensitive === true;
+    const wholeWord = config.settings?.wholeWordOnly !== false;
+
+    const detected = Object.entries(config.acronyms || {})
+      .filter(([acronym]) => {
+        const escaped = acronym.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(wholeWord ? `\\b${escaped}\\b` : escaped, caseSensitive ? '' : 'i').test(prompt);
+      })
+      .map(([acronym, expansion]) => `${acronym} → ${expansion}`);
+
+    if (detected.length === 0) {
+      return { success: true };
+    }
+    return { success: true, output: ['## Acronym Expansions', detected.join(', '), ''].join('\n') };
+  }
+
+  private async loadConfig(configPath: string): Promise<AcronymConfig> {
+    if (!await this.fs.exists(configPath)) {
+      return { acronyms: DEFAULT_ACRONYMS };
+    }
+    try {
+      return JSON.parse(await this.fs.readFile(configPath, 'utf-8') as string);
+    } catch {
+      return {};
+    }
+  }
+}
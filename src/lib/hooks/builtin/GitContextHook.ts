@@ -0,0 +1,86 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { FileSystemAdapter } from '../../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../../adapters/NodeFileSystemAdapter';
+import { NativeHook } from '../NativeHook';
+import { HookContext, HookEvent, HookResult } from '../types';
+
+const execFileAsync = promisify(execFile);
+
+// Only the first changed files are listed, to keep the context short
+const MAX_STATUS_LINES = 10;
+
+/**
+ * Adds the git status, the current branch and the ticket the branch belongs to:
+ * the ticket that recorded the branch (zcc ticket start with integrations.git
+ * enabled), or ticket/<name>
+ */
+export class GitContextHook implements NativeHook {
+  readonly id = 'git-context-loader';
+  readonly event: HookEvent = 'UserPromptSubmit';
+  private fs: FileSystemAdapter;
+
+  constructor(fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
+  }
+
+  async run(context: HookContext): Promise<HookResult> {
+    const lines = ['## Git Status'];
+
+    let status: string;
+    try {
+      status = await this.git(context.projectRoot, ['status', '-s']);
+    } catch {
+      lines.push('Not a git repository');
+      return { success: true, output: lines.join('\n') };
+    }
+    lines.push(...status.split('\n').filter(Boolean).slice(0, MAX_STATUS_LINES));
+
+    const branch = await this.git(context.projectRoot, ['rev-parse', '--abbrev-ref', 'HEAD']).catch(() => '');
+    if (branch && branch !== 'HEAD') {
+      lines.push(`Branch: ${branch}`);
+      const ticket = await this.findBranchTicket(context.projectRoot, branch);
+      if (ticket) {
+        lines.push(`Ticket: ${ticket.name} (${ticket.status}) - .zcc/tickets/${ticket.status}/${ticket.name}.md`);
+      }
+    }
+
+    return { success: true, output: lines.join('\n') };
+  }
+
+  private async findBranchTicket(projectRoot: string, branch: string): Promise<{ name: string; status: string } | null> {
+    const ticketsDir = this.fs.join(projectRoot, '.zcc', 'tickets');
+    if (!await this.fs.exists(ticketsDir)) {
+      return null;
+    }
+
+    const tickets: Array<{ name: string; status: string; file: string }> = [];
+    for (const status of (await this.fs.readdir(ticketsDir)).sort()) {
+      const statusDir = this.fs.join(ticketsDir, status);
+      if (!(await this.fs.stat(statusDir)).isDirectory()) {
+        continue;
+      }
+      for (const file of (await this.fs.readdir(statusDir)).sort()) {
+        if (file.endsWith('.md')) {
+          tickets.push({ name: file.slice(0, -'.md'.length), status, file: this.fs.join(statusDir, file) });
+        }
+      }
+    }
+
+    for (const ticket of tickets) {
+      const content = await this.fs.readFile(ticket.file, 'utf-8') as string;
+      if (content.split(/\r?\n/).includes(`branch: ${branch}`)) {
+        return ticket;
+      }
+    }
+    if (branch.startsWith('ticket/')) {
+      return tickets.find(ticket => ticket.name === branch.slice('ticket/'.length)) || null;
+    }
+    return null;
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd });
+    return stdout.trimEnd();
+  }
+}
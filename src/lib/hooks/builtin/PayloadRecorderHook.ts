@@ -0,0 +1,74 @@
+import { FileSystemAdapter } from '../../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../../adapters/NodeFileSystemAdapter';
+import { NativeHook } from '../NativeHook';
+import { createHookInput } from '../HookInputs';
+import { HookContext, HookEvent, HookResult } from '../types';
+import { ProcessOwner, isOwnerRunning } from '../../utils/process';
+
+/**
+ * The `zcc hook test --record` process a recorder belongs to. The recorder turns
+ * itself off once that process is gone or has not renewed the recording in time.
+ */
+export interface RecordingOwner extends ProcessOwner {
+  expiresAt: string;
+}
+
+// How long a recording lasts unless its owner renews it
+export const RECORDING_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Directory the payloads of an event are recorded to, as fixtures for `zcc hook test`
+ */
+export function fixturesDir(fs: FileSystemAdapter, projectRoot: string, event: HookEvent): string {
+  return fs.join(projectRoot, '.zcc', 'hooks', 'fixtures', event);
+}
+
+/**
+ * File naming the owner of the recording of an event
+ */
+export function recordingPath(fs: FileSystemAdapter, projectRoot: string, event: HookEvent): string {
+  return fs.join(projectRoot, '.zcc', 'hooks', 'recordings', `${event}.json`);
+}
+
+/**
+ * Whether the recording of an event still has a running owner and has not expired
+ */
+export async function isRecording(fs: FileSystemAdapter, projectRoot: string, event: HookEvent): Promise<boolean> {
+  const ownerPath = recordingPath(fs, projectRoot, event);
+  if (!await fs.exists(ownerPath)) {
+    return false;
+  }
+  try {
+    const owner: RecordingOwner = JSON.parse(await fs.readFile(ownerPath, 'utf-8') as string);
+    return new Date(owner.expiresAt).getTime() > Date.now() && isOwnerRunning(owner);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Saves the payload Claude Code sends for an event to .zcc/hooks/fixtures/<event>/.
+ * `zcc hook test --record` adds it to the event while recording; without a live
+ * recording it does nothing.
+ */
+export class PayloadRecorderHook implements NativeHook {
+  readonly id = 'payload-recorder';
+  private fs: FileSystemAdapter;
+
+  constructor(fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
+  }
+
+  async run(context: HookContext): Promise<HookResult> {
+    if (!await isRecording(this.fs, context.projectRoot, context.event)) {
+      return { success: true, skipped: true };
+    }
+
+    const dir = fixturesDir(this.fs, context.projectRoot, context.event);
+    const fixturePath = this.fs.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+
+    await this.fs.mkdir(dir, { recursive: true });
+    await this.fs.writeFile(fixturePath, JSON.stringify(createHookInput(context), null, 2) + '\n');
+    return { success: true };
+  }
+}
@@ -0,0 +1,52 @@
+import { FileSystemAdapter } from '../../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../../adapters/NodeFileSystemAdapter';
+import { NativeHook } from '../NativeHook';
+import { HookContext, HookEvent, HookResult } from '../types';
+
+/**
+ * Summarizes the project's tickets when a session starts: the tickets in progress
+ * by name, and how many are next and done
+ */
+export class ProjectOverviewHook implements NativeHook {
+  readonly id = 'project-overview';
+  readonly event: HookEvent = 'SessionStart';
+  private fs: FileSystemAdapter;
+
+  constructor(fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
+  }
+
+  async run(context: HookContext): Promise<HookResult> {
+    const ticketsDir = this.fs.join(context.projectRoot, '.zcc', 'tickets');
+    const inProgress = await this.ticketNames(this.fs.join(ticketsDir, 'in-progress'));
+    const next = await this.ticketNames(this.fs.join(ticketsDir, 'next'));
+    const done = await this.ticketNames(this.fs.join(ticketsDir, 'done'));
+
+    const lines = [
+      '## Project Overview',
+      '',
+      '### Tickets Status',
+      '',
+      '#### In Progress',
+      ...(inProgress.length > 0 ? inProgress.map(name => `- ${name}`) : ['No tickets in progress']),
+      '',
+      '#### Next',
+      `${next.length} tickets`,
+      '',
+      '#### Done',
+      `${done.length} tickets`,
+    ];
+
+    return { success: true, output: lines.join('\n') };
+  }
+
+  private async ticketNames(statusDir: string): Promise<string[]> {
+    if (!await this.fs.exists(statusDir)) {
+      return [];
+    }
+    return (await this.fs.readdir(statusDir))
+      .filter(file => file.endsWith('.md'))
+      .sort()
+      .map(file => file.slice(0, -'.md'.length));
+  }
+}
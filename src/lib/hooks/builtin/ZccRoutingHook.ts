@@ -1,361 +1,292 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import { logger } from '../../logger';
+import { FileSystemAdapter } from '../../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../../adapters/NodeFileSystemAdapter';
+import { NativeHook } from '../NativeHook';
+import { HookContext, HookEvent, HookResult } from '../types';
 
-export class ZccRoutingHook {
-  private scriptPath: string;
+const TICKET_HELP = [
+  '### Working with Tickets',
+  '',
+  '- **Tickets are markdown files stored in .zcc/tickets/{status}/ directories**',
+  '- **File locations**: .zcc/tickets/next/, .zcc/tickets/in-progress/, .zcc/tickets/done/',
+  '- **To read ticket content: Use Read tool with full file path like .zcc/tickets/next/ticket-name.md**',
+  '- **To edit tickets: Use Edit tool directly on the .md files**',
+  '- **Important: There is NO CLI command to read ticket content - always use Read tool**',
+  '- **CLI commands only manage ticket lifecycle (create/move/list/delete)**',
+  '- Example file paths:',
+  '  - .zcc/tickets/next/fix-login-bug.md',
+  '  - .zcc/tickets/in-progress/add-feature.md',
+  '  - .zcc/tickets/done/completed-task.md',
+  '',
+];
 
-  constructor(projectRoot: string) {
-    this.scriptPath = path.join(projectRoot, '.zcc', 'hooks', 'scripts', 'zcc-routing.sh');
+// Prompts that are clearly about using tickets get the full reference
+const TICKET_INTENT = /create.*ticket|new.*ticket|list.*tickets|work.*with.*tickets|move.*ticket|use.*ticket.*create|ticket.*command/i;
+
+type RoutedKind = 'Mode' | 'Workflow';
+
+/**
+ * Routes modes, workflows and tickets: `Mode: <name>`, `Workflow: <name>` and
+ * `Ticket: <name>` requests (or .zcc paths) in a prompt load the matching file into
+ * the context, falling back to the configured default mode.
+ */
+export class ZccRoutingHook implements NativeHook {
+  readonly id = 'zcc-routing';
+  readonly event: HookEvent = 'UserPromptSubmit';
+  private fs: FileSystemAdapter;
+
+  constructor(fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
   }
 
-  async generate(): Promise<void> {
-    const scriptContent = this.getScriptContent();
-    
-    // Ensure directory exists
-    await fs.mkdir(path.dirname(this.scriptPath), { recursive: true });
-    
-    // Write the script
-    await fs.writeFile(this.scriptPath, scriptContent, { mode: 0o755 });
-    
-    logger.info('Generated ZCC routing hook');
+  async run(context: HookContext): Promise<HookResult> {
+    const prompt = context.prompt;
+    if (!prompt) {
+      return { success: true };
+    }
+
+    const zccDir = this.fs.join(context.projectRoot, '.zcc');
+    const modeRequest = firstMatch(prompt, /[Mm]ode:\s*([A-Za-z0-9_-]*)/) ||
+      firstMatch(prompt, /\.zcc\/modes\/([A-Za-z0-9_-]*)\.md/);
+    const workflowRequest = firstMatch(prompt, /[Ww]orkflow:\s*([A-Za-z0-9_-]*)/) ||
+      firstMatch(prompt, /\.zcc\/workflows\/([A-Za-z0-9_-]*)\.md/);
+    const ticketRequest = firstMatch(prompt, /[Tt]icket:\s*([A-Za-z0-9_/-]*)/) ||
+      firstMatch(prompt, /\.zcc\/tickets\/([A-Za-z0-9_/-]*)/);
+
+    const lines: string[] = [];
+
+    if (modeRequest) {
+      lines.push(...await this.route('Mode', this.fs.join(zccDir, 'modes'), modeRequest));
+    } else {
+      const defaultMode = await this.getDefaultMode(zccDir);
+      const modePath = defaultMode && this.fs.join(zccDir, 'modes', `${defaultMode}.md`);
+      if (modePath && await this.fs.exists(modePath)) {
+        lines.push(`## Mode: ${defaultMode} (default)`, await this.read(modePath), '');
+      }
+    }
+
+    if (workflowRequest) {
+      lines.push(...await this.route('Workflow', this.fs.join(zccDir, 'workflows'), workflowRequest));
+    }
+
+    if (ticketRequest) {
+      lines.push(...await this.routeTicket(this.fs.join(zccDir, 'tickets'), ticketRequest));
+    } else if (TICKET_INTENT.test(prompt)) {
+      lines.push(
+        '## Ticket System - Quick Reference',
+        '',
+        '### Available Commands',
+        '```bash',
+        '# Create a new ticket',
+        'npx zcc ticket create "ticket-name"',
+        '',
+        '# List all tickets',
+        'npx zcc ticket list',
+        '',
+        '# Move ticket to different status',
+        'npx zcc ticket move ticket-name --to in-progress  # or: next, done',
+        '',
+        '# Delete a ticket',
+        'npx zcc ticket delete ticket-name',
+        '```',
+        '',
+        ...TICKET_HELP,
+      );
+    } else if (/ticket/i.test(prompt) && !/^\s*ticket\s*:/im.test(prompt)) {
+      lines.push(
+        '## Ticket System Available',
+        '',
+        'ZCC includes a ticket system for task management.',
+        'Use `npx zcc ticket --help` for more information.',
+        '',
+      );
+    }
+
+    // The prompt itself is not repeated; Claude Code appends it
+    return { success: true, output: lines.join('\n') };
   }
 
-  private getScriptContent(): string {
-    return `#!/bin/bash
+  /**
+   * Find the modes or workflows matching a request: an exact match, else every name
+   * starting with it, else every name containing it, else names it abbreviates
+   */
+  findMatches(query: string, names: string[]): string[] {
+    const lowerQuery = query.toLowerCase();
+    const exact = names.find(name => name.toLowerCase() === lowerQuery);
+    if (exact) {
+      return [exact];
+    }
 
-# ZCC Protocol Routing Hook
-# This hook processes user prompts to inject mode, workflow, and ticket context
+    const stages: Array<(name: string) => boolean> = [
+      name => name.startsWith(lowerQuery),
+      name => name.includes(lowerQuery),
+      name => name.includes('-') && name.split('-').filter(Boolean).map(part => part[0]).join('') === lowerQuery,
+    ];
+    for (const matches of stages) {
+      const found = names.filter(name => matches(name.toLowerCase()));
+      if (found.length > 0) {
+        return found;
+      }
+    }
+    return [];
+  }
 
-# Read JSON input from stdin
-JSON_INPUT=$(cat)
+  private async route(kind: RoutedKind, dir: string, request: string): Promise<string[]> {
+    const names = await this.listMarkdown(dir);
+    const matches = this.findMatches(request, names);
+    const lines: string[] = [];
 
-# Extract the prompt field from JSON
-PROMPT=$(echo "$JSON_INPUT" | jq -r '.prompt // empty')
+    if (matches.length === 0) {
+      const dirLabel = `.zcc/${kind.toLowerCase()}s`;
+      lines.push(
+        `## No ${kind} Match Found`,
+        `Could not find a ${kind.toLowerCase()} matching: ${request}`,
+        `Available ${kind.toLowerCase()}s in ${dirLabel}/:`,
+      );
+      if (!await this.fs.exists(dir)) {
+        lines.push(`  (none - ${dirLabel} directory not found)`);
+      } else if (names.length === 0) {
+        lines.push('  (none)');
+      } else {
+        lines.push(...names.map(name => `  - ${name}`));
+      }
+    } else if (matches.length === 1) {
+      lines.push(`## ${kind}: ${matches[0]}`, await this.read(this.fs.join(dir, `${matches[0]}.md`)));
+    } else {
+      lines.push(`## Multiple ${kind} Matches Found for: ${request}`);
+      for (const match of matches) {
+        lines.push('', `### ${kind}: ${match}`, await this.read(this.fs.join(dir, `${match}.md`)), '', '---');
+      }
+      lines.push('', `Claude will select the most appropriate ${kind.toLowerCase()} based on context.`);
+    }
 
-# If no prompt field, exit without output
-if [ -z "$PROMPT" ]; then
-  exit 0
-fi
+    lines.push('');
+    return lines;
+  }
 
-# Extract mode/workflow/ticket request
-MODE_REQUEST=$(echo "$PROMPT" | grep -o '[Mm]ode:[[:space:]]*[A-Za-z0-9_-]*' | sed 's/[Mm]ode:[[:space:]]*//' || true)
-WORKFLOW_REQUEST=$(echo "$PROMPT" | grep -o '[Ww]orkflow:[[:space:]]*[A-Za-z0-9_-]*' | sed 's/[Ww]orkflow:[[:space:]]*//' || true)
-TICKET_REQUEST=$(echo "$PROMPT" | grep -o '[Tt]icket:[[:space:]]*[A-Za-z0-9_/-]*' | sed 's/[Tt]icket:[[:space:]]*//' || true)
+  private async routeTicket(ticketsDir: string, request: string): Promise<string[]> {
+    const statuses = await this.listStatuses(ticketsDir);
+    const ticketPath = await this.findTicket(ticketsDir, statuses, request);
 
-# Extract .zcc paths from prompt
-ZCC_MODE_PATH=$(echo "$PROMPT" | grep -o '\\.zcc/modes/[A-Za-z0-9_-]*\\.md' | sed 's|\\.zcc/modes/||; s|\\.md||' | head -1 || true)
-ZCC_WORKFLOW_PATH=$(echo "$PROMPT" | grep -o '\\.zcc/workflows/[A-Za-z0-9_-]*\\.md' | sed 's|\\.zcc/workflows/||; s|\\.md||' | head -1 || true)
-ZCC_TICKET_PATH=$(echo "$PROMPT" | grep -o '\\.zcc/tickets/[A-Za-z0-9_/-]*' | sed 's|\\.zcc/tickets/||' | head -1 || true)
+    if (!ticketPath) {
+      const lines = [
+        '## No Ticket Match Found',
+        `Could not find a ticket matching: ${request}`,
+        'Available tickets:',
+      ];
+      for (const status of statuses) {
+        lines.push(`  ${status}:`);
+        const files = (await this.fs.readdir(this.fs.join(ticketsDir, status))).sort();
+        lines.push(...files.map(file => `    - ${file}`));
+      }
+      lines.push('');
+      return lines;
+    }
 
-# Use path-based detection if no explicit request
-if [ -z "$MODE_REQUEST" ] && [ -n "$ZCC_MODE_PATH" ]; then
-    MODE_REQUEST="$ZCC_MODE_PATH"
-fi
-if [ -z "$WORKFLOW_REQUEST" ] && [ -n "$ZCC_WORKFLOW_PATH" ]; then
-    WORKFLOW_REQUEST="$ZCC_WORKFLOW_PATH"
-fi
-if [ -z "$TICKET_REQUEST" ] && [ -n "$ZCC_TICKET_PATH" ]; then
-    TICKET_REQUEST="$ZCC_TICKET_PATH"
-fi
+    const lines = [
+      `## Ticket: ${ticketPath}`,
+      '',
+      '### Ticket Commands',
+      '```bash',
+      '# Create a new ticket',
+      'npx zcc ticket create "ticket-name"',
+      '',
+      '# Move ticket to different status',
+      `npx zcc ticket move ${request} --to in-progress  # or: next, done`,
+      '',
+      '# Delete a ticket',
+      `npx zcc ticket delete ${request}`,
+      '',
+      '# List all tickets',
+      'npx zcc ticket list',
+      '```',
+      '',
+      ...TICKET_HELP,
+    ];
 
-# Read default mode from config if no mode specified
-DEFAULT_MODE=""
-if [ -z "$MODE_REQUEST" ] && [ -f ".zcc/config.json" ]; then
-    DEFAULT_MODE=$(grep '"defaultMode"' .zcc/config.json | sed 's/.*"defaultMode"[[:space:]]*:[[:space:]]*"\\([^"]*\\)".*/\\1/' || true)
-fi
+    const file = await this.ticketFile(ticketsDir, ticketPath);
+    if (file) {
+      lines.push('### Ticket Content', await this.read(file));
+    } else {
+      lines.push('### Error', 'Ticket file not found at expected location.');
+    }
+    lines.push('');
+    return lines;
+  }
 
-# Function to find fuzzy matches
-find_matches() {
-    local query="$1"
-    local type="$2"  # "mode" or "workflow"
-    local matches=()
-    
-    # Get all available items
-    if [ "$type" = "mode" ]; then
-        if [ -d ".zcc/modes" ]; then
-            items=($(ls .zcc/modes/*.md 2>/dev/null | xargs -n1 basename | sed 's/.md//' || true))
-        else
-            items=()
-        fi
-    else
-        if [ -d ".zcc/workflows" ]; then
-            items=($(ls .zcc/workflows/*.md 2>/dev/null | xargs -n1 basename | sed 's/.md//' || true))
-        else
-            items=()
-        fi
-    fi
-    
-    # Return early if no items
-    if [ \${#items[@]} -eq 0 ]; then
-        echo ""
-        return
-    fi
-    
-    # Convert query to lowercase
-    query_lower=$(echo "$query" | tr '[:upper:]' '[:lower:]')
-    
-    # Stage 1: Exact match (case-insensitive)
-    for item in "\${items[@]}"; do
-        item_lower=$(echo "$item" | tr '[:upper:]' '[:lower:]')
-        if [ "$item_lower" = "$query_lower" ]; then
-            matches+=("$item")
-            echo "\${matches[@]}"
-            return
-        fi
-    done
-    
-    # Stage 2: Prefix match
-    for item in "\${items[@]}"; do
-        item_lower=$(echo "$item" | tr '[:upper:]' '[:lower:]')
-        case "$item_lower" in
-            "$query_lower"*)
-                matches+=("$item")
-                ;;
-        esac
-    done
-    
-    # Stage 3: Substring match
-    if [ \${#matches[@]} -eq 0 ]; then
-        for item in "\${items[@]}"; do
-            item_lower=$(echo "$item" | tr '[:upper:]' '[:lower:]')
-            case "$item_lower" in
-                *"$query_lower"*)
-                    matches+=("$item")
-                    ;;
-            esac
-        done
-    fi
-    
-    # Stage 4: Common abbreviations
-    if [ \${#matches[@]} -eq 0 ]; then
-        for item in "\${items[@]}"; do
-            item_lower=$(echo "$item" | tr '[:upper:]' '[:lower:]')
-            
-            # Extract abbreviation from hyphenated names
-            if echo "$item_lower" | grep -q '-'; then
-                abbrev=$(echo "$item_lower" | sed 's/\\([a-z]\\)[a-z]*-*/\\1/g')
-                if [ "$abbrev" = "$query_lower" ]; then
-                    matches+=("$item")
-                fi
-            fi
-            
-            # First 3-4 letters abbreviation
-            if [ \${#query_lower} -ge 3 ] && [ \${#query_lower} -le 4 ]; then
-                if echo "$item_lower" | grep -q "^$query_lower"; then
-                    matches+=("$item")
-                fi
-            fi
-        done
-    fi
-    
-    echo "\${matches[@]}"
-}
+  /**
+   * Resolve a ticket request to `<status>/<name>`: a path with its status, a name in
+   * any status directory, or the stable ticket id (e.g. ZCC-42) in the frontmatter
+   */
+  private async findTicket(ticketsDir: string, statuses: string[], request: string): Promise<string | null> {
+    for (const status of statuses) {
+      const candidate = request.startsWith(`${status}/`) ? request : `${status}/${request}`;
+      if (await this.ticketFile(ticketsDir, candidate)) {
+        return candidate;
+      }
+    }
 
-# Process mode request or use default
-if [ -n "$MODE_REQUEST" ]; then
-    # Explicit mode requested
-    MATCHES=($(find_matches "$MODE_REQUEST" "mode"))
-    
-    if [ \${#MATCHES[@]} -eq 0 ]; then
-        echo "## No Mode Match Found"
-        echo "Could not find a mode matching: $MODE_REQUEST"
-        echo "Available modes in .zcc/modes/:"
-        if [ -d ".zcc/modes" ]; then
-            ls .zcc/modes/*.md 2>/dev/null | xargs -n1 basename | sed 's/.md//' | sed 's/^/  - /' || echo "  (none)"
-        else
-            echo "  (none - .zcc/modes directory not found)"
-        fi
-    elif [ \${#MATCHES[@]} -eq 1 ]; then
-        echo "## Mode: \${MATCHES[0]}"
-        cat ".zcc/modes/\${MATCHES[0]}.md"
-    else
-        echo "## Multiple Mode Matches Found for: $MODE_REQUEST"
-        for match in "\${MATCHES[@]}"; do
-            echo ""
-            echo "### Mode: $match"
-            cat ".zcc/modes/$match.md"
-            echo ""
-            echo "---"
-        done
-        echo ""
-        echo "Claude will select the most appropriate mode based on context."
-    fi
-    echo ""
-elif [ -n "$DEFAULT_MODE" ]; then
-    # No explicit mode requested, but default mode is configured
-    if [ -f ".zcc/modes/$DEFAULT_MODE.md" ]; then
-        echo "## Mode: $DEFAULT_MODE (default)"
-        cat ".zcc/modes/$DEFAULT_MODE.md"
-        echo ""
-    fi
-fi
+    const idLine = `id: ${request.toUpperCase()}`;
+    for (const status of statuses) {
+      for (const file of await this.listMarkdown(this.fs.join(ticketsDir, status))) {
+        const content = await this.read(this.fs.join(ticketsDir, status, `${file}.md`));
+        if (content.split(/\r?\n/).includes(idLine)) {
+          return `${status}/${file}`;
+        }
+      }
+    }
+    return null;
+  }
+
+  private async ticketFile(ticketsDir: string, ticketPath: string): Promise<string | null> {
+    for (const file of [`${ticketPath}.md`, ticketPath]) {
+      const fullPath = this.fs.join(ticketsDir, ...file.split('/'));
+      if (await this.fs.exists(fullPath) && !(await this.fs.stat(fullPath)).isDirectory()) {
+        return fullPath;
+      }
+    }
+    return null;
+  }
 
-# Process workflow request
-if [ -n "$WORKFLOW_REQUEST" ]; then
-    MATCHES=($(find_matches "$WORKFLOW_REQUEST" "workflow"))
-    
-    if [ \${#MATCHES[@]} -eq 0 ]; then
-        echo "## No Workflow Match Found"
-        echo "Could not find a workflow matching: $WORKFLOW_REQUEST"
-        echo "Available workflows in .zcc/workflows/:"
-        if [ -d ".zcc/workflows" ]; then
-            ls .zcc/workflows/*.md 2>/dev/null | xargs -n1 basename | sed 's/.md//' | sed 's/^/  - /' || echo "  (none)"
-        else
-            echo "  (none - .zcc/workflows directory not found)"
-        fi
-    elif [ \${#MATCHES[@]} -eq 1 ]; then
-        echo "## Workflow: \${MATCHES[0]}"
-        cat ".zcc/workflows/\${MATCHES[0]}.md"
-    else
-        echo "## Multiple Workflow Matches Found for: $WORKFLOW_REQUEST"
-        for match in "\${MATCHES[@]}"; do
-            echo ""
-            echo "### Workflow: $match"
-            cat ".zcc/workflows/$match.md"
-            echo ""
-            echo "---"
-        done
-        echo ""
-        echo "Claude will select the most appropriate workflow based on context."
-    fi
-    echo ""
-fi
+  /**
+   * Status directories, including any custom workflow statuses
+   */
+  private async listStatuses(ticketsDir: string): Promise<string[]> {
+    if (!await this.fs.exists(ticketsDir)) {
+      return [];
+    }
+    const statuses: string[] = [];
+    for (const entry of (await this.fs.readdir(ticketsDir)).sort()) {
+      if ((await this.fs.stat(this.fs.join(ticketsDir, entry))).isDirectory()) {
+        statuses.push(entry);
+      }
+    }
+    return statuses;
+  }
 
-# Process ticket request
-if [ -n "$TICKET_REQUEST" ]; then
-    # Function to find ticket in any status directory
-    find_ticket() {
-        local ticket="$1"
-        local statuses=("next" "in-progress" "done")
-        
-        for status in "\${statuses[@]}"; do
-            # Check if ticket is already a path with status
-            if echo "$ticket" | grep -q "^$status/"; then
-                if [ -f ".zcc/tickets/$ticket.md" ] || [ -f ".zcc/tickets/$ticket" ]; then
-                    echo "$ticket"
-                    return
-                fi
-            else
-                # Search in each status directory
-                if [ -f ".zcc/tickets/$status/$ticket.md" ]; then
-                    echo "$status/$ticket"
-                    return
-                elif [ -f ".zcc/tickets/$status/$ticket" ]; then
-                    echo "$status/$ticket"
-                    return
-                fi
-            fi
-        done
-        
-        echo ""
+  private async listMarkdown(dir: string): Promise<string[]> {
+    if (!await this.fs.exists(dir)) {
+      return [];
     }
-    
-    TICKET_PATH=$(find_ticket "$TICKET_REQUEST")
-    
-    if [ -z "$TICKET_PATH" ]; then
-        echo "## No Ticket Match Found"
-        echo "Could not find a ticket matching: $TICKET_REQUEST"
-        echo "Available tickets:"
-        for status in next in-progress done; do
-            if [ -d ".zcc/tickets/$status" ]; then
-                echo "  $status:"
-                ls ".zcc/tickets/$status" 2>/dev/null | sed 's/^/    - /' || true
-            fi
-        done
-    else
-        echo "## Ticket: $TICKET_PATH"
-        echo ""
-        echo "### Ticket Commands"
-        printf '%s\\n' '\`\`\`bash'
-        echo "# Create a new ticket"
-        echo "npx zcc ticket create \\"ticket-name\\""
-        echo ""
-        echo "# Move ticket to different status"
-        echo "npx zcc ticket move $TICKET_REQUEST --to in-progress  # or: next, done"
-        echo ""
-        echo "# Delete a ticket"
-        echo "npx zcc ticket delete $TICKET_REQUEST"
-        echo ""
-        echo "# List all tickets"
-        echo "npx zcc ticket list"
-        printf '%s\\n' '\`\`\`'
-        echo ""
-        echo "### Working with Tickets"
-        echo ""
-        echo "- **Tickets are markdown files stored in .zcc/tickets/{status}/ directories**"
-        echo "- **File locations**: .zcc/tickets/next/, .zcc/tickets/in-progress/, .zcc/tickets/done/"
-        echo "- **To read ticket content: Use Read tool with full file path like .zcc/tickets/next/ticket-name.md**"
-        echo "- **To edit tickets: Use Edit tool directly on the .md files**"
-        echo "- **Important: There is NO CLI command to read ticket content - always use Read tool**"
-        echo "- **CLI commands only manage ticket lifecycle (create/move/list/delete)**"
-        echo "- Example file paths:"
-        echo "  - .zcc/tickets/next/fix-login-bug.md"
-        echo "  - .zcc/tickets/in-progress/add-feature.md"
-        echo "  - .zcc/tickets/done/completed-task.md"
-        echo ""
-        
-        # Output ticket content
-        if [ -f ".zcc/tickets/$TICKET_PATH.md" ]; then
-            echo "### Ticket Content"
-            cat ".zcc/tickets/$TICKET_PATH.md"
-        elif [ -f ".zcc/tickets/$TICKET_PATH" ]; then
-            echo "### Ticket Content"
-            cat ".zcc/tickets/$TICKET_PATH"
-        else
-            echo "### Error"
-            echo "Ticket file not found at expected location."
-        fi
-    fi
-    echo ""
-fi
+    return (await this.fs.readdir(dir))
+      .filter(file => file.endsWith('.md'))
+      .map(file => file.slice(0, -'.md'.length))
+      .sort();
+  }
 
-# Ticket Detection Logic
-# If no explicit ticket request, check for ticket-related keywords
-if [ -z "$TICKET_REQUEST" ]; then
-    # High-confidence patterns (case-insensitive)
-    if echo "$PROMPT" | grep -qi '\\(create.*ticket\\|new.*ticket\\|list.*tickets\\|work.*with.*tickets\\|move.*ticket\\|use.*ticket.*create\\|ticket.*command\\)'; then
-        echo "## Ticket System - Quick Reference"
-        echo ""
-        echo "### Available Commands"
-        printf '%s\\n' '\`\`\`bash'
-        echo "# Create a new ticket"
-        echo "npx zcc ticket create \\"ticket-name\\""
-        echo ""
-        echo "# List all tickets"
-        echo "npx zcc ticket list"
-        echo ""
-        echo "# Move ticket to different status"
-        echo "npx zcc ticket move ticket-name --to in-progress  # or: next, done"
-        echo ""
-        echo "# Delete a ticket"
-        echo "npx zcc ticket delete ticket-name"
-        printf '%s\\n' '\`\`\`'
-        echo ""
-        echo "### Working with Tickets"
-        echo ""
-        echo "- **Tickets are markdown files stored in .zcc/tickets/{status}/ directories**"
-        echo "- **File locations**: .zcc/tickets/next/, .zcc/tickets/in-progress/, .zcc/tickets/done/"
-        echo "- **To read ticket content: Use Read tool with full file path like .zcc/tickets/next/ticket-name.md**"
-        echo "- **To edit tickets: Use Edit tool directly on the .md files**"
-        echo "- **Important: There is NO CLI command to read ticket content - always use Read tool**"
-        echo "- **CLI commands only manage ticket lifecycle (create/move/list/delete)**"
-        echo "- Example file paths:"
-        echo "  - .zcc/tickets/next/fix-login-bug.md"
-        echo "  - .zcc/tickets/in-progress/add-feature.md"
-        echo "  - .zcc/tickets/done/completed-task.md"
-        echo ""
-    # Low-confidence patterns (case-insensitive) - exclude explicit ticket: requests
-    elif echo "$PROMPT" | grep -qi 'ticket' && ! echo "$PROMPT" | grep -qi '^[[:space:]]*ticket[[:space:]]*:'; then
-        echo "## Ticket System Available"
-        echo ""
-        echo "ZCC includes a ticket system for task management."
-        echo "Use \\\`npx zcc ticket --help\\\` for more information."
-        echo ""
-    fi
-fi
+  private async getDefaultMode(zccDir: string): Promise<string | undefined> {
+    try {
+      const config = JSON.parse(await this.read(this.fs.join(zccDir, 'config.json')));
+      return typeof config.defaultMode === 'string' ? config.defaultMode : undefined;
+    } catch {
+      return undefined;
+    }
+  }
 
-# Don't output the prompt - Claude Code will append it automatically
-`;
+  private async read(file: string): Promise<string> {
+    return await this.fs.readFile(file, 'utf-8') as string;
   }
-}
\ No newline at end of file
+}
+
+function firstMatch(text: string, pattern: RegExp): string {
+  return pattern.exec(text)?.[1] || '';
+}
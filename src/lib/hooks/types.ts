@@ -6,7 +6,110 @@ export type HookEvent =
   | 'Stop'
   | 'SubagentStop'
   | 'PreCompact'
-  | 'Notification';
+  | 'Notification'
+  | 'SessionEnd';
+
+export const HOOK_EVENTS: HookEvent[] = [
+  'UserPromptSubmit',
+  'PreToolUse',
+  'PostToolUse',
+  'SessionStart',
+  'Stop',
+  'SubagentStop',
+  'PreCompact',
+  'Notification',
+  'SessionEnd',
+];
+
+export const SESSION_START_SOURCES = ['startup', 'resume', 'clear', 'compact'] as const;
+export const PRE_COMPACT_TRIGGERS = ['manual', 'auto'] as const;
+export const SESSION_END_REASONS = ['clear', 'logout', 'prompt_input_exit', 'other'] as const;
+
+export type SessionStartSource = typeof SESSION_START_SOURCES[number];
+export type PreCompactTrigger = typeof PRE_COMPACT_TRIGGERS[number];
+export type SessionEndReason = typeof SESSION_END_REASONS[number];
+
+/**
+ * Values Claude Code matches the `matcher` of these events against: the tool name for
+ * tool events, the session source for SessionStart and the trigger for PreCompact.
+ * Claude Code runs hooks of the other events for every occurrence.
+ */
+export const MATCHER_EVENTS: Partial<Record<HookEvent, readonly string[] | 'tool'>> = {
+  PreToolUse: 'tool',
+  PostToolUse: 'tool',
+  SessionStart: SESSION_START_SOURCES,
+  PreCompact: PRE_COMPACT_TRIGGERS,
+};
+
+/**
+ * Fields Claude Code sends to every hook on stdin
+ */
+interface BaseHookInput<E extends HookEvent> {
+  session_id: string;
+  transcript_path: string;
+  cwd: string;
+  hook_event_name: E;
+  permission_mode?: string;
+}
+
+export interface UserPromptSubmitInput extends BaseHookInput<'UserPromptSubmit'> {
+  prompt: string;
+}
+
+export interface PreToolUseInput extends BaseHookInput<'PreToolUse'> {
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+}
+
+export interface PostToolUseInput extends BaseHookInput<'PostToolUse'> {
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_response: unknown;
+}
+
+export interface SessionStartInput extends BaseHookInput<'SessionStart'> {
+  source: SessionStartSource;
+}
+
+export interface StopInput extends BaseHookInput<'Stop'> {
+  // True when Claude is already continuing because of a Stop hook
+  stop_hook_active: boolean;
+}
+
+export interface SubagentStopInput extends BaseHookInput<'SubagentStop'> {
+  stop_hook_active: boolean;
+}
+
+export interface PreCompactInput extends BaseHookInput<'PreCompact'> {
+  trigger: PreCompactTrigger;
+  // What the user passed to /compact; empty for automatic compaction
+  custom_instructions: string;
+}
+
+export interface NotificationInput extends BaseHookInput<'Notification'> {
+  message: string;
+}
+
+export interface SessionEndInput extends BaseHookInput<'SessionEnd'> {
+  reason: SessionEndReason;
+}
+
+export interface HookInputs {
+  UserPromptSubmit: UserPromptSubmitInput;
+  PreToolUse: PreToolUseInput;
+  PostToolUse: PostToolUseInput;
+  SessionStart: SessionStartInput;
+  Stop: StopInput;
+  SubagentStop: SubagentStopInput;
+  PreCompact: PreCompactInput;
+  Notification: NotificationInput;
+  SessionEnd: SessionEndInput;
+}
+
+/**
+ * JSON Claude Code writes to a hook's stdin for an event
+ */
+export type HookInput<E extends HookEvent = HookEvent> = HookInputs[E];
 
 export interface HookMatcher {
   type: 'regex' | 'exact' | 'fuzzy' | 'tool' | 'keyword';
@@ -28,6 +131,8 @@ export interface HookConfig {
   enabled: boolean;
   matcher?: HookMatcher;
   command: string;
+  // Id of a native hook registered in HookRegistry; it runs in-process through `zcc hook run`
+  native?: string;
   args?: string[];
   env?: Record<string, string>;
   timeout?: number;
@@ -44,6 +149,30 @@ export interface HookContext {
   toolArgs?: any;
   sessionId?: string;
   timestamp: number;
+  // The full payload of the event, when it came from Claude Code
+  input?: HookInput;
+}
+
+export type HookDecision = 'block' | 'approve';
+
+// Least to most restrictive; when hooks disagree the most restrictive wins
+export const PERMISSION_DECISIONS = ['allow', 'ask', 'deny'] as const;
+export type PermissionDecision = typeof PERMISSION_DECISIONS[number];
+
+/**
+ * Claude Code's JSON hook output. A hook that exits with 0 may print it to stdout
+ * instead of plain text.
+ */
+export interface HookOutput {
+  decision?: HookDecision;
+  reason?: string;
+  hookSpecificOutput?: {
+    hookEventName: HookEvent;
+    additionalContext?: string;
+    // PreToolUse only
+    permissionDecision?: PermissionDecision;
+    permissionDecisionReason?: string;
+  };
 }
 
 export interface HookResult {
@@ -54,6 +183,13 @@ export interface HookResult {
   duration?: number;
   shouldBlock?: boolean;
   modifiedPrompt?: string;
+  // The matcher did not match, so the hook did not run
+  skipped?: boolean;
+  // From the hook's JSON output
+  decision?: HookDecision;
+  reason?: string;
+  additionalContext?: string;
+  permissionDecision?: PermissionDecision;
 }
 
 export interface HookDefinition {
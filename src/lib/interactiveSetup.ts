@@ -235,6 +235,9 @@ export class InteractiveSetup {
       if (installed.hooks.length > 0) {
         logger.info(`Hooks: ${installed.hooks.join(', ')}`);
       }
+      if (installed.tickets?.length) {
+        logger.info(`Ticket templates: ${installed.tickets.join(', ')}`);
+      }
     }
 
     // Save configuration
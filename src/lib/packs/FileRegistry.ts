@@ -28,12 +28,15 @@ export interface FileRegistryData {
 
 export class FileRegistry {
   private registryPath: string;
+  private baseDir: string;
   private fs: FileSystemAdapter;
   private data: FileRegistryData | null = null;
 
   constructor(projectRoot: string, fs?: FileSystemAdapter) {
     this.fs = fs || new NodeFileSystemAdapter();
     this.registryPath = this.fs.join(projectRoot, '.zcc', 'file-registry.json');
+    // Installed content keyed by checksum, the base for three-way merges on update
+    this.baseDir = this.fs.join(projectRoot, '.zcc', 'file-base');
   }
 
   /**
@@ -129,36 +132,32 @@ export class FileRegistry {
       );
     }
 
-    const content = await this.fs.readFile(filePath);
-    const hash = createHash('sha256');
-    
-    // Handle both string and Buffer
-    if (typeof content === 'string') {
-      hash.update(content, 'utf8');
-    } else {
-      hash.update(content);
-    }
-    
-    return `sha256:${hash.digest('hex')}`;
+    return this.checksumContent(await this.fs.readFile(filePath));
   }
 
   /**
-   * Register a file installation
+   * Register a file installation. The pack's version of the file is kept as the base
+   * for later merges; it defaults to the file's current content.
    */
   async registerFile(
     targetPath: string,
     packName: string,
-    originalPath: string
+    originalPath: string,
+    baseContent?: string | Buffer
   ): Promise<void> {
     const data = await this.load();
     const checksum = await this.calculateChecksum(targetPath);
+    const baseChecksum = baseContent === undefined ? checksum : this.checksumContent(baseContent);
+    const previousChecksum = data.files[targetPath]?.checksum;
+
+    await this.storeBase(baseChecksum, baseContent ?? await this.fs.readFile(targetPath));
 
     data.files[targetPath] = {
       pack: packName,
       originalPath,
-      checksum,
+      checksum: baseChecksum,
       installedAt: new Date().toISOString(),
-      modified: false
+      modified: checksum !== baseChecksum
     };
 
     // Update pack files list
@@ -174,6 +173,85 @@ export class FileRegistry {
     }
 
     await this.save();
+
+    // An update replaces the base the file was installed with
+    if (previousChecksum && previousChecksum !== baseChecksum) {
+      await this.pruneBases();
+    }
+  }
+
+  /**
+   * Content the pack installed for a file, or null when it was registered
+   * before base content was kept
+   */
+  async getBaseContent(targetPath: string): Promise<string | null> {
+    const fileInfo = await this.getFileInfo(targetPath);
+    if (!fileInfo) {
+      return null;
+    }
+
+    const basePath = this.fs.join(this.baseDir, fileInfo.checksum.replace(/^sha256:/, ''));
+    if (!await this.fs.exists(basePath)) {
+      return null;
+    }
+    return await this.fs.readFile(basePath, 'utf-8') as string;
+  }
+
+  /**
+   * Delete the bases of files the pack no longer ships, once an update has installed
+   * the rest. The files stay registered to the pack, so uninstalling it still removes
+   * them, but they have nothing left to merge with.
+   */
+  async pruneDroppedBases(packName: string, shippedFiles: string[]): Promise<void> {
+    const packFiles = await this.getPackFiles(packName);
+    const dropped = packFiles.filter(file => !shippedFiles.includes(file));
+    if (dropped.length > 0) {
+      await this.pruneBases(dropped);
+    }
+  }
+
+  /**
+   * Delete the bases no file owned by a pack refers to, ignoring the given files.
+   * Bases are shared by checksum, so one is only deleted when no owner is left.
+   */
+  private async pruneBases(ignoredFiles: string[] = []): Promise<void> {
+    if (!await this.fs.exists(this.baseDir)) {
+      return;
+    }
+
+    const data = await this.load();
+    const inUse = new Set(
+      Object.entries(data.files)
+        .filter(([path, info]) => info.pack && !ignoredFiles.includes(path))
+        .map(([, info]) => info.checksum.replace(/^sha256:/, ''))
+    );
+
+    for (const name of await this.fs.readdir(this.baseDir)) {
+      if (!inUse.has(name)) {
+        await this.fs.unlink(this.fs.join(this.baseDir, name));
+      }
+    }
+  }
+
+  private async storeBase(checksum: string, content: string | Buffer): Promise<void> {
+    const basePath = this.fs.join(this.baseDir, checksum.replace(/^sha256:/, ''));
+    if (!await this.fs.exists(basePath)) {
+      await this.fs.mkdir(this.baseDir, { recursive: true });
+      await this.fs.writeFile(basePath, content);
+    }
+  }
+
+  private checksumContent(content: string | Buffer): string {
+    const hash = createHash('sha256');
+    
+    // Handle both string and Buffer
+    if (typeof content === 'string') {
+      hash.update(content, 'utf8');
+    } else {
+      hash.update(content);
+    }
+    
+    return `sha256:${hash.digest('hex')}`;
   }
 
   /**
@@ -198,6 +276,7 @@ export class FileRegistry {
     delete data.files[targetPath];
     
     await this.save();
+    await this.pruneBases();
   }
 
   /**
@@ -315,10 +394,12 @@ export class FileRegistry {
     delete data.packs[packName];
     
     await this.save();
+    await this.pruneBases();
   }
 
   /**
-   * Unregister a pack but preserve modified files
+   * Unregister a pack but preserve modified files. The preserved files belong to no
+   * pack any more, so their bases are deleted with the others.
    */
   async unregisterPackPreservingModified(packName: string): Promise<void> {
     const data = await this.load();
@@ -339,6 +420,7 @@ export class FileRegistry {
     delete data.packs[packName];
     
     await this.save();
+    await this.pruneBases();
   }
 
   /**
@@ -0,0 +1,276 @@
+/**
+ * PackBuilder supports pack authors: `create` scaffolds a new pack directory and `build`
+ * keeps its manifest in sync with the files on disk and bundles it for distribution.
+ *
+ * Bundles are gzipped tarballs laid out as `<name>-<version>/packs/<name>/...`, the layout
+ * `RemotePackSource.extractPackContent` expects when it extracts a single pack.
+ */
+
+import { createHash } from 'crypto';
+import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
+import {
+  PackBuildOptions,
+  PackBuildResult,
+  PackComponent,
+  PackComponents,
+  PackCreateOptions,
+  PackManifest,
+} from '../types/packs';
+import { ZccError } from '../errors';
+import { PackValidator } from './PackValidator';
+import { PackSigner } from '../security/PackSigner';
+
+// Component types listed in the manifest, each a directory of markdown files
+const BUILD_COMPONENT_TYPES = ['modes', 'workflows', 'agents', 'tickets'] as const;
+
+const PACK_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+export class PackBuilder {
+  private fs: FileSystemAdapter;
+  private validator: PackValidator;
+
+  constructor(fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
+    this.validator = new PackValidator(this.fs);
+  }
+
+  /**
+   * Scaffold a pack in `<parentDir>/<name>` with a valid manifest, an example mode and an
+   * example workflow. Returns the pack directory.
+   */
+  async create(parentDir: string, name: string, options: PackCreateOptions = {}): Promise<string> {
+    if (!PACK_NAME_PATTERN.test(name)) {
+      throw new ZccError(
+        `Invalid pack name: ${name}`,
+        'INVALID_PACK_NAME',
+        'Use lowercase letters, numbers and hyphens, starting with a letter'
+      );
+    }
+
+    const packDir = this.fs.join(parentDir, name);
+    if (await this.fs.exists(packDir)) {
+      throw new ZccError(
+        `Directory already exists: ${packDir}`,
+        'PACK_EXISTS',
+        'Choose another name or remove the directory'
+      );
+    }
+
+    const author = options.author || 'unknown';
+    const manifest: PackManifest = {
+      name,
+      version: '0.1.0',
+      description: options.description || `Starter pack providing ${name} modes and workflows`,
+      author,
+      tags: [],
+      category: options.category || 'general',
+      components: {
+        modes: [{ name: 'example-mode', required: true }],
+        workflows: [{ name: 'example-workflow', required: true }],
+        agents: [],
+      },
+    };
+
+    const validation = await this.validator.validateManifest(manifest);
+    if (!validation.valid) {
+      throw new ZccError(
+        `Cannot create pack '${name}': ${validation.errors.join(', ')}`,
+        'INVALID_PACK_MANIFEST'
+      );
+    }
+
+    await this.fs.mkdir(this.fs.join(packDir, 'modes'), { recursive: true });
+    await this.fs.mkdir(this.fs.join(packDir, 'workflows'), { recursive: true });
+    await this.writeManifest(packDir, manifest);
+    await this.fs.writeFile(
+      this.fs.join(packDir, 'modes', 'example-mode.md'),
+      componentTemplate('example-mode', 'Example mode. Describe how Claude should behave while it is active.', author, 'Example Mode')
+    );
+    await this.fs.writeFile(
+      this.fs.join(packDir, 'workflows', 'example-workflow.md'),
+      componentTemplate('example-workflow', 'Example workflow. Describe the steps Claude should follow.', author, 'Example Workflow')
+    );
+    await this.fs.writeFile(
+      this.fs.join(packDir, 'README.md'),
+      `# ${name}\n\n${manifest.description}\n\n` +
+      'Add modes, workflows, agents and ticket templates as markdown files in their directories,\n' +
+      'then run `zcc pack build` to update manifest.json and create a distributable bundle.\n'
+    );
+
+    return packDir;
+  }
+
+  /**
+   * Regenerate the manifest's component lists from the pack directory, validate it and,
+   * when valid, sign it if asked and write `<name>-<version>.tgz` to `outDir`
+   */
+  async build(packDir: string, outDir: string, options: PackBuildOptions = {}): Promise<PackBuildResult> {
+    const manifestPath = this.fs.join(packDir, 'manifest.json');
+    if (!await this.fs.exists(manifestPath)) {
+      throw new ZccError(
+        `No manifest.json found in ${packDir}`,
+        'PACK_MANIFEST_NOT_FOUND',
+        'Run zcc pack build from a pack directory, or create one with: zcc pack create <name>'
+      );
+    }
+
+    let current: PackManifest;
+    try {
+      current = JSON.parse(await this.fs.readFile(manifestPath, 'utf-8') as string);
+    } catch (error) {
+      throw new ZccError(
+        `Invalid manifest.json in ${packDir}: ${error instanceof Error ? error.message : error}`,
+        'INVALID_PACK_MANIFEST'
+      );
+    }
+
+    const added: string[] = [];
+    const removed: string[] = [];
+    const components: Record<string, readonly PackComponent[]> = { ...current.components };
+
+    for (const componentType of BUILD_COMPONENT_TYPES) {
+      const names = await this.listComponentNames(this.fs.join(packDir, componentType));
+      const existing = current.components?.[componentType] || [];
+
+      // Keep authored entries (and their order) for files that still exist
+      const kept = existing.filter(component => names.includes(component.name));
+      const fresh = names
+        .filter(name => !existing.some(component => component.name === name))
+        .map(name => ({ name, required: true }));
+
+      removed.push(...existing.filter(component => !kept.includes(component)).map(c => `${componentType}/${c.name}`));
+      added.push(...fresh.map(component => `${componentType}/${component.name}`));
+
+      if (kept.length > 0 || fresh.length > 0 || current.components?.[componentType]) {
+        components[componentType] = [...kept, ...fresh];
+      }
+    }
+
+    const manifest: PackManifest = { ...current, components: components as PackComponents };
+    if (added.length > 0 || removed.length > 0) {
+      await this.writeManifest(packDir, manifest);
+    }
+
+    const validation = await this.validator.validateManifest(manifest);
+    const warnings = [...validation.warnings];
+    for (const hook of manifest.hooks || []) {
+      if (!await this.fs.exists(this.fs.join(packDir, 'hooks', 'definitions', `${hook.name}.json`))) {
+        warnings.push(`Hook '${hook.name}' has no definition at hooks/definitions/${hook.name}.json`);
+      }
+    }
+
+    const result = {
+      manifest,
+      valid: validation.valid,
+      errors: validation.errors,
+      warnings,
+      added,
+      removed,
+    };
+    if (!validation.valid) {
+      return result;
+    }
+
+    // Sign after the manifest sync, so the signature covers what is bundled
+    const signer = new PackSigner(this.fs);
+    let keyId: string | undefined;
+    if (options.signingKey) {
+      keyId = (await signer.sign(packDir, options.signingKey)).keyId;
+    } else {
+      const signature = await signer.readSignature(packDir);
+      if (signature && signature.digest !== await signer.digest(packDir)) {
+        warnings.push('signature.json no longer matches the pack files; sign the pack again');
+      } else {
+        keyId = signature?.keyId;
+      }
+    }
+
+    const files = await this.listPackFiles(packDir);
+    const archive = await this.createArchive(packDir, manifest, files);
+    const archivePath = this.fs.join(outDir, `${manifest.name}-${manifest.version}.tgz`);
+    await this.fs.mkdir(outDir, { recursive: true });
+    await this.fs.writeFile(archivePath, archive);
+
+    return {
+      ...result,
+      archivePath,
+      checksum: createHash('sha256').update(archive).digest('hex'),
+      files,
+      keyId,
+    };
+  }
+
+  private async writeManifest(packDir: string, manifest: PackManifest): Promise<void> {
+    await this.fs.writeFile(this.fs.join(packDir, 'manifest.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+  }
+
+  private async listComponentNames(dir: string): Promise<string[]> {
+    if (!await this.fs.exists(dir)) {
+      return [];
+    }
+    return (await this.fs.readdir(dir))
+      .filter(file => file.endsWith('.md') && !file.startsWith('.'))
+      .map(file => file.slice(0, -'.md'.length))
+      .sort();
+  }
+
+  /**
+   * Files to bundle, relative to the pack directory. Dotfiles and earlier bundles are left out.
+   */
+  private async listPackFiles(dir: string, prefix = ''): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of (await this.fs.readdir(dir)).sort()) {
+      if (entry.startsWith('.') || entry.endsWith('.tgz')) {
+        continue;
+      }
+      const fullPath = this.fs.join(dir, entry);
+      const relativePath = prefix ? `${prefix}/${entry}` : entry;
+      if ((await this.fs.stat(fullPath)).isDirectory()) {
+        files.push(...await this.listPackFiles(fullPath, relativePath));
+      } else {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+
+  private async createArchive(packDir: string, manifest: PackManifest, files: string[]): Promise<Buffer> {
+    const tar = await import('tar');
+
+    const stream = tar.c(
+      {
+        gzip: true,
+        portable: true,
+        cwd: packDir,
+        prefix: `${manifest.name}-${manifest.version}/packs/${manifest.name}`,
+      },
+      files
+    );
+
+    const chunks: Buffer[] = [];
+    await new Promise<void>((resolve, reject) => {
+      stream
+        .on('data', (chunk: Buffer) => chunks.push(Buffer.from(chunk)))
+        .on('end', resolve)
+        .on('error', reject);
+    });
+    return Buffer.concat(chunks);
+  }
+}
+
+function componentTemplate(name: string, description: string, author: string, title: string): string {
+  return `---
+name: ${name}
+description: ${description}
+author: ${author}
+version: 0.1.0
+tags: []
+dependencies: []
+---
+
+# ${title}
+
+${description}
+`;
+}
@@ -11,6 +11,8 @@ import {
   // PackConflictResolution, // TODO: unused for now
   ProjectPackManifest,
   PackHook,
+  PackComponentType,
+  PackTransactionOperation,
 } from "../types/packs";
 import { logger } from "../logger";
 import { ZccError } from "../errors";
@@ -20,6 +22,21 @@ import { ToolDependencyChecker, ToolDependency } from "./ToolDependencyChecker";
 import { HookManager } from "../hooks/HookManager";
 import { isVerbose } from "../context";
 import { FileRegistry } from "./FileRegistry";
+import { mergeThreeWay } from "../utils/merge";
+import { isUnsignedEntry } from "../security/PackSigner";
+import { PackTransaction, recoverPackTransaction } from "./PackTransaction";
+
+/**
+ * Collects what happened to existing files during a merging update
+ */
+interface MergeTracker {
+  // Label for the pack side of conflict markers, e.g. `essentials@1.2.0`
+  readonly label: string;
+  readonly merged: string[];
+  readonly conflicted: string[];
+  readonly overwritten: string[];
+  readonly untouched: string[];
+}
 
 export class PackInstaller {
   private directoryManager: DirectoryManager;
@@ -27,12 +44,15 @@ export class PackInstaller {
   private zccDir: string;
   private claudeDir: string;
   private fs: FileSystemAdapter;
+  // The project filesystem; `fs` is the open transaction while one is running
+  private projectFs: FileSystemAdapter;
   private toolChecker: ToolDependencyChecker;
   private hookManager: HookManager;
   private fileRegistry: FileRegistry;
 
   constructor(projectRoot: string, fs?: FileSystemAdapter) {
     this.fs = fs || new NodeFileSystemAdapter();
+    this.projectFs = this.fs;
     this.projectRoot = projectRoot;
     this.directoryManager = new DirectoryManager(projectRoot);
     this.zccDir = this.fs.join(projectRoot, '.zcc');
@@ -73,21 +93,46 @@ export class PackInstaller {
     // Check tool dependencies and provide installation guidance
     await this.checkAndReportToolDependencies(manifest, options);
 
+    if (options.dryRun) {
+      return this.installPackFiles(packStructure, source, options);
+    }
+
+    // Stage every change so a failure part way leaves the project untouched
+    return this.runInTransaction('install', manifest.name, () =>
+      this.installPackFiles(packStructure, source, options)
+    );
+  }
+
+  /**
+   * Install components, scripts, configuration and hooks, and record the pack
+   */
+  private async installPackFiles(
+    packStructure: PackStructure,
+    source: IPackSource,
+    options: PackInstallOptions
+  ): Promise<PackInstallationResult> {
+    const { manifest } = packStructure;
+
     // Track installation results
-    const installed = { modes: [] as string[], workflows: [] as string[], agents: [] as string[], hooks: [] as string[] };
-    const skipped = { modes: [] as string[], workflows: [] as string[], agents: [] as string[], hooks: [] as string[] };
+    const installed = { modes: [] as string[], workflows: [] as string[], agents: [] as string[], hooks: [] as string[], tickets: [] as string[] };
+    const skipped = { modes: [] as string[], workflows: [] as string[], agents: [] as string[], hooks: [] as string[], tickets: [] as string[] };
     const errors: string[] = [];
+    const tracker: MergeTracker | undefined = options.merge
+      ? { label: `${manifest.name}@${manifest.version}`, merged: [], conflicted: [], overwritten: [], untouched: [] }
+      : undefined;
 
     try {
       // Install components by type
-      await this.installComponents('modes', manifest, source, installed, skipped, errors, options);
-      await this.installComponents('workflows', manifest, source, installed, skipped, errors, options);
-      await this.installComponents('agents', manifest, source, installed, skipped, errors, options);
-      await this.installComponents('hooks', manifest, source, installed, skipped, errors, options);
+      await this.installComponents('modes', manifest, source, installed, skipped, errors, options, tracker);
+      await this.installComponents('workflows', manifest, source, installed, skipped, errors, options, tracker);
+      await this.installComponents('agents', manifest, source, installed, skipped, errors, options, tracker);
+      await this.installComponents('hooks', manifest, source, installed, skipped, errors, options, tracker);
+      await this.installComponents('tickets', manifest, source, installed, skipped, errors, options, tracker);
 
-      // Install scripts from the pack
+      // Install scripts from the pack, then drop the merge bases of files an update left out
       if (!options.dryRun) {
-        await this.installScripts(packStructure, errors, options);
+        await this.installScripts(packStructure, errors, options, tracker);
+        await this.fileRegistry.pruneDroppedBases(manifest.name, await this.packTargetPaths(packStructure));
       }
 
       // Install configuration and hooks
@@ -131,6 +176,14 @@ export class PackInstaller {
         skipped: skipped as PackInstallationResult['skipped'],
         errors: errors as readonly string[],
         postInstallMessage: manifest.postInstall?.message,
+        ...(tracker ? {
+          merge: {
+            merged: tracker.merged,
+            conflicted: tracker.conflicted,
+            overwritten: tracker.overwritten,
+            untouched: tracker.untouched,
+          },
+        } : {}),
       };
 
     } catch (error) {
@@ -159,12 +212,72 @@ export class PackInstaller {
   async uninstallPack(packName: string): Promise<PackInstallationResult> {
     logger.info(`Uninstalling starter pack '${packName}'`);
 
+    // Stage the removal so a failure part way leaves the pack fully installed
+    return this.runInTransaction('uninstall', packName, () => this.uninstallPackFiles(packName));
+  }
+
+  /**
+   * Run a pack operation against a transaction, committing it when the operation
+   * succeeds and rolling it back otherwise. A transaction an earlier, interrupted
+   * run left behind is recovered first.
+   */
+  private async runInTransaction(
+    operation: PackTransactionOperation,
+    packName: string,
+    run: () => Promise<PackInstallationResult>
+  ): Promise<PackInstallationResult> {
+    await recoverPackTransaction(this.projectRoot, this.projectFs);
+    const transaction = await PackTransaction.begin(this.projectRoot, operation, packName, this.projectFs);
+
+    let result: PackInstallationResult;
+    this.useFileSystem(transaction);
+    try {
+      result = await run();
+    } catch (error) {
+      this.useFileSystem(this.projectFs);
+      await transaction.rollback();
+      throw error;
+    }
+    this.useFileSystem(this.projectFs);
+
+    if (!result.success) {
+      await transaction.rollback();
+      logger.warn(`Rolled back ${operation} of pack '${packName}'; no changes were made`);
+      return result;
+    }
+
+    try {
+      await transaction.commit();
+    } catch (error) {
+      logger.error(`Failed to apply ${operation} of pack '${packName}', restored previous files: ${error}`);
+      return {
+        ...result,
+        success: false,
+        errors: [...result.errors, `Failed to apply ${operation}: ${error}`],
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Point the installer and the helpers that write files at a filesystem
+   */
+  private useFileSystem(fs: FileSystemAdapter): void {
+    this.fs = fs;
+    this.hookManager = new HookManager(this.projectRoot, fs);
+    this.fileRegistry = new FileRegistry(this.projectRoot, fs);
+  }
+
+  /**
+   * Remove a pack's files and configuration
+   */
+  private async uninstallPackFiles(packName: string): Promise<PackInstallationResult> {
     // Check if pack is registered in FileRegistry
     const packFiles = await this.fileRegistry.getPackFiles(packName);
     
     // Track removal results
-    const removed = { modes: [] as string[], workflows: [] as string[], agents: [] as string[], hooks: [] as string[] };
-    const skipped = { modes: [] as string[], workflows: [] as string[], agents: [] as string[], hooks: [] as string[] };
+    const removed = { modes: [] as string[], workflows: [] as string[], agents: [] as string[], hooks: [] as string[], tickets: [] as string[] };
+    const skipped = { modes: [] as string[], workflows: [] as string[], agents: [] as string[], hooks: [] as string[], tickets: [] as string[] };
     const errors: string[] = [];
 
     // If FileRegistry has files, use that for removal
@@ -199,7 +312,7 @@ export class PackInstaller {
     errors.push("Pack manifest not available for safe uninstallation");
     
     // Skip all potential components for safety in scanning mode
-    const componentTypes = ['modes', 'workflows', 'agents', 'hooks'] as const;
+    const componentTypes = ['modes', 'workflows', 'agents', 'hooks', 'tickets'] as const;
     for (const componentType of componentTypes) {
       const componentDir = componentType === 'agents' 
         ? this.fs.join(this.claudeDir, 'agents')
@@ -338,7 +451,7 @@ export class PackInstaller {
     errors: string[]
   ): Promise<PackInstallationResult> {
     try {
-      const componentTypes = ['modes', 'workflows', 'agents', 'hooks'] as const;
+      const componentTypes = ['modes', 'workflows', 'agents', 'hooks', 'tickets'] as const;
       
       for (const componentType of componentTypes) {
         const components = manifest.components[componentType];
@@ -411,13 +524,14 @@ export class PackInstaller {
    * Install components of a specific type
    */
   private async installComponents(
-    componentType: 'modes' | 'workflows' | 'agents' | 'hooks',
+    componentType: PackComponentType,
     manifest: PackStructure['manifest'],
     source: IPackSource,
     installed: PackInstallationResult['installed'],
     skipped: PackInstallationResult['skipped'],
     errors: string[],
-    options: PackInstallOptions
+    options: PackInstallOptions,
+    tracker?: MergeTracker
   ): Promise<void> {
     const components = manifest.components[componentType];
     if (!components || components.length === 0) {
@@ -439,7 +553,8 @@ export class PackInstaller {
           component.name,
           manifest.name,
           source,
-          options
+          options,
+          tracker
         );
 
         if (success) {
@@ -459,26 +574,22 @@ export class PackInstaller {
    * Install a single component
    */
   private async installComponent(
-    componentType: 'modes' | 'workflows' | 'agents' | 'hooks',
+    componentType: PackComponentType,
     componentName: string,
     packName: string,
     source: IPackSource,
-    options: PackInstallOptions
+    options: PackInstallOptions,
+    tracker?: MergeTracker
   ): Promise<boolean> {
     try {
+      if (componentName.split('/').some(isUnsignedEntry)) {
+        throw new Error('dotfiles are not covered by pack signatures');
+      }
+
       // Get the component path from the pack source
       const sourcePath = await source.getComponentPath(packName, componentType, componentName);
       
-      let targetPath: string;
-      const extension = componentType === 'hooks' ? '.json' : '.md';
-      
-      if (componentType === 'agents') {
-        // Agents go to .claude directory
-        targetPath = this.fs.join(this.claudeDir, 'agents', `${componentName}${extension}`);
-      } else {
-        // Other components go to .zcc directory
-        targetPath = this.fs.join(this.zccDir, componentType, `${componentName}${extension}`);
-      }
+      const targetPath = this.componentTargetPath(componentType, componentName);
 
       // Check if file is already registered to another pack
       const existingInfo = await this.fileRegistry.getFileInfo(targetPath);
@@ -492,12 +603,9 @@ export class PackInstaller {
         return true;
       }
 
-      // Copy the component file
+      // Copy the component file and register it in the FileRegistry
       await this.fs.mkdir(this.fs.dirname(targetPath), { recursive: true });
-      await this.fs.copyFile(sourcePath, targetPath);
-
-      // Register the file in the FileRegistry
-      await this.fileRegistry.registerFile(targetPath, packName, sourcePath);
+      await this.copyPackFile(sourcePath, targetPath, packName, tracker);
 
       return true;
     } catch (error) {
@@ -508,6 +616,95 @@ export class PackInstaller {
     }
   }
 
+  /**
+   * Where a component is installed in the project
+   */
+  private componentTargetPath(componentType: PackComponentType, componentName: string): string {
+    const extension = componentType === 'hooks' ? '.json' : '.md';
+
+    if (componentType === 'agents') {
+      // Agents go to .claude directory
+      return this.fs.join(this.claudeDir, 'agents', `${componentName}${extension}`);
+    }
+    // Other components go to .zcc directory
+    return this.fs.join(this.zccDir, componentType, `${componentName}${extension}`);
+  }
+
+  /**
+   * Project paths of every component and script the pack ships
+   */
+  private async packTargetPaths(packStructure: PackStructure): Promise<string[]> {
+    const componentTypes: PackComponentType[] = ['modes', 'workflows', 'agents', 'hooks', 'tickets'];
+    const paths = componentTypes.flatMap(componentType =>
+      (packStructure.manifest.components[componentType] || []).map(component =>
+        this.componentTargetPath(componentType, component.name)
+      )
+    );
+
+    const scriptsSourcePath = this.fs.join(packStructure.path, 'scripts');
+    if (await this.fs.exists(scriptsSourcePath)) {
+      for (const script of await this.fs.readdir(scriptsSourcePath)) {
+        if (!(await this.fs.stat(this.fs.join(scriptsSourcePath, script))).isDirectory()) {
+          paths.push(this.fs.join(this.zccDir, 'scripts', script));
+        }
+      }
+    }
+
+    return paths;
+  }
+
+  /**
+   * Copy a pack file into the project and register it. During a merging update, files
+   * the user edited since the pack installed them are merged with the new pack version:
+   * clean merges are written, overlapping edits get conflict markers, and files that
+   * cannot be merged (no recorded base) are left as they are.
+   */
+  private async copyPackFile(
+    sourcePath: string,
+    targetPath: string,
+    packName: string,
+    tracker?: MergeTracker
+  ): Promise<void> {
+    const existingInfo = tracker ? await this.fileRegistry.getFileInfo(targetPath) : null;
+    if (!tracker || !existingInfo || existingInfo.pack !== packName || !await this.fs.exists(targetPath)) {
+      await this.fs.copyFile(sourcePath, targetPath);
+      await this.fileRegistry.registerFile(targetPath, packName, sourcePath);
+      return;
+    }
+
+    const relativePath = targetPath.startsWith(`${this.projectRoot}/`)
+      ? targetPath.slice(this.projectRoot.length + 1)
+      : targetPath;
+    const upstream = await this.fs.readFile(sourcePath, 'utf-8') as string;
+    const current = await this.fs.readFile(targetPath, 'utf-8') as string;
+    const base = await this.fileRegistry.getBaseContent(targetPath);
+
+    if (current === upstream) {
+      // Already matches the new version; just record it as the new base
+      await this.fileRegistry.registerFile(targetPath, packName, sourcePath);
+      return;
+    }
+
+    const modified = base === null ? await this.fileRegistry.isFileModified(targetPath) : current !== base;
+    if (!modified) {
+      await this.fs.copyFile(sourcePath, targetPath);
+      await this.fileRegistry.registerFile(targetPath, packName, sourcePath);
+      tracker.overwritten.push(relativePath);
+      return;
+    }
+
+    if (base === null || base === upstream) {
+      // Nothing to merge against, or no upstream change to bring in
+      tracker.untouched.push(relativePath);
+      return;
+    }
+
+    const result = mergeThreeWay(base, current, upstream, { ours: 'local', theirs: tracker.label });
+    await this.fs.writeFile(targetPath, result.content);
+    await this.fileRegistry.registerFile(targetPath, packName, sourcePath, upstream);
+    (result.conflicts > 0 ? tracker.conflicted : tracker.merged).push(relativePath);
+  }
+
   /**
    * Install pack configuration
    */
@@ -547,7 +744,8 @@ export class PackInstaller {
   private async installScripts(
     packStructure: PackStructure,
     errors: string[],
-    options: PackInstallOptions = {}
+    options: PackInstallOptions = {},
+    tracker?: MergeTracker
   ): Promise<void> {
     try {
       const scriptsSourcePath = this.fs.join(packStructure.path, 'scripts');
@@ -568,6 +766,12 @@ export class PackInstaller {
       for (const script of scripts) {
         const sourcePath = this.fs.join(scriptsSourcePath, script);
         const targetPath = this.fs.join(scriptsTargetPath, script);
+
+        // Pack signatures do not cover these, so a signed pack cannot vouch for them
+        if (isUnsignedEntry(script)) {
+          errors.push(`Refusing to install script '${script}': dotfiles and .tgz files are not covered by pack signatures`);
+          continue;
+        }
         
         try {
           // Check if it's a file (not a directory)
@@ -580,17 +784,14 @@ export class PackInstaller {
               continue;
             }
             
-            // Copy the script file
-            await this.fs.copyFile(sourcePath, targetPath);
+            // Copy the script file and register it in the FileRegistry
+            await this.copyPackFile(sourcePath, targetPath, packStructure.manifest.name, tracker);
             
             // Make it executable if it's a shell script
             if (script.endsWith('.sh')) {
               await this.fs.chmod(targetPath, 0o755);
             }
             
-            // Register in FileRegistry
-            await this.fileRegistry.registerFile(targetPath, packStructure.manifest.name, sourcePath);
-            
             logger.debug(`Installed script: ${script}`);
           }
         } catch (error) {
@@ -781,7 +982,7 @@ export class PackInstaller {
    */
   private async checkConflicts(manifest: PackStructure['manifest']): Promise<string[]> {
     const conflicts: string[] = [];
-    const componentTypes = ['modes', 'workflows', 'agents', 'hooks'] as const;
+    const componentTypes = ['modes', 'workflows', 'agents', 'hooks', 'tickets'] as const;
     const allTargetPaths: string[] = [];
 
     // Collect all target paths for this pack
@@ -824,7 +1025,8 @@ export class PackInstaller {
       const componentType = pathParts.includes('agents') ? 'agent' :
                           pathParts.includes('modes') ? 'mode' :
                           pathParts.includes('workflows') ? 'workflow' :
-                          pathParts.includes('hooks') ? 'hook' : 'component';
+                          pathParts.includes('hooks') ? 'hook' :
+                          pathParts.includes('tickets') ? 'ticket' : 'component';
       conflicts.push(`${componentType} '${componentName}' already exists`);
     }
 
@@ -897,6 +1099,7 @@ export class PackInstaller {
       this.fs.join(this.zccDir, 'modes'),
       this.fs.join(this.zccDir, 'workflows'),
       this.fs.join(this.zccDir, 'hooks'),
+      this.fs.join(this.zccDir, 'tickets'),
       this.fs.join(this.zccDir, 'packs'),
       this.fs.join(this.claudeDir, 'agents'),
     ];
@@ -1109,11 +1312,12 @@ export class PackInstaller {
   /**
    * Get component type from file path
    */
-  private getComponentTypeFromPath(filePath: string): 'modes' | 'workflows' | 'agents' | 'hooks' | null {
+  private getComponentTypeFromPath(filePath: string): PackComponentType | null {
     if (filePath.includes('/modes/')) return 'modes';
     if (filePath.includes('/workflows/')) return 'workflows';
     if (filePath.includes('/agents/')) return 'agents';
     if (filePath.includes('/hooks/')) return 'hooks';
+    if (filePath.includes('/tickets/')) return 'tickets';
     if (filePath.includes('/scripts/')) return null; // Scripts are not in the component types
     return null;
   }
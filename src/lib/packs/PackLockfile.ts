@@ -0,0 +1,180 @@
+/**
+ * PackLockfile pins installed packs to exact versions, sources and content checksums
+ * in `.zcc/packs.lock`, so every machine can reproduce the same installation
+ */
+
+import { createHash } from 'crypto';
+import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
+import { PackLock, PackLockEntry, PackStructure } from '../types/packs';
+import { ZccError } from '../errors';
+import { getPackDependencies } from './PackRegistry';
+
+export const PACK_LOCKFILE_VERSION = 1;
+
+export class PackLockfile {
+  private lockPath: string;
+  private fs: FileSystemAdapter;
+
+  constructor(projectRoot: string, fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
+    this.lockPath = this.fs.join(projectRoot, '.zcc', 'packs.lock');
+  }
+
+  getPath(): string {
+    return this.lockPath;
+  }
+
+  async exists(): Promise<boolean> {
+    return this.fs.exists(this.lockPath);
+  }
+
+  /**
+   * Load the lockfile, or null when the project has none
+   */
+  async load(): Promise<PackLock | null> {
+    if (!await this.fs.exists(this.lockPath)) {
+      return null;
+    }
+
+    let lock: PackLock;
+    try {
+      lock = JSON.parse(await this.fs.readFile(this.lockPath, 'utf-8') as string);
+    } catch (error) {
+      throw new ZccError(
+        `Invalid pack lockfile: ${error instanceof Error ? error.message : error}`,
+        'INVALID_LOCKFILE',
+        `Fix or delete ${this.lockPath} and reinstall your packs to recreate it`
+      );
+    }
+
+    if (lock.lockfileVersion !== PACK_LOCKFILE_VERSION || typeof lock.packs !== 'object' || lock.packs === null) {
+      throw new ZccError(
+        `Unsupported pack lockfile version: ${lock.lockfileVersion}`,
+        'INVALID_LOCKFILE',
+        `This version of zcc reads lockfile version ${PACK_LOCKFILE_VERSION}`
+      );
+    }
+
+    return lock;
+  }
+
+  /**
+   * Write the lockfile with packs sorted by name for stable diffs
+   */
+  async save(lock: PackLock): Promise<void> {
+    const packs: Record<string, PackLockEntry> = {};
+    for (const name of Object.keys(lock.packs).sort()) {
+      packs[name] = lock.packs[name];
+    }
+
+    await this.fs.mkdir(this.fs.dirname(this.lockPath), { recursive: true });
+    await this.fs.writeFile(
+      this.lockPath,
+      `${JSON.stringify({ lockfileVersion: PACK_LOCKFILE_VERSION, packs }, null, 2)}\n`
+    );
+  }
+
+  /**
+   * Record the installed version of a pack, and the commit for git sources
+   */
+  async setPack(
+    packStructure: PackStructure,
+    source: string,
+    commit?: string
+  ): Promise<PackLockEntry> {
+    const { manifest } = packStructure;
+    const dependencies: Record<string, string> = {};
+    for (const dependency of getPackDependencies(manifest)) {
+      dependencies[dependency.name] = dependency.range;
+    }
+
+    const entry: PackLockEntry = {
+      version: manifest.version,
+      source,
+      checksum: await this.calculateChecksum(packStructure),
+      ...(commit ? { commit } : {}),
+      ...(Object.keys(dependencies).length > 0 ? { dependencies } : {}),
+    };
+
+    const lock = await this.load() || { lockfileVersion: PACK_LOCKFILE_VERSION, packs: {} };
+    lock.packs[manifest.name] = entry;
+    await this.save(lock);
+    return entry;
+  }
+
+  /**
+   * Drop a pack from the lockfile; a missing lockfile is left alone
+   */
+  async removePack(packName: string): Promise<void> {
+    const lock = await this.load();
+    if (!lock || !lock.packs[packName]) {
+      return;
+    }
+
+    delete lock.packs[packName];
+    await this.save(lock);
+  }
+
+  /**
+   * Locked packs ordered so that dependencies come before the packs needing them
+   */
+  getInstallOrder(lock: PackLock): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (name: string) => {
+      if (visited.has(name) || !lock.packs[name]) {
+        return;
+      }
+      visited.add(name);
+      for (const dependency of Object.keys(lock.packs[name].dependencies || {}).sort()) {
+        visit(dependency);
+      }
+      order.push(name);
+    };
+
+    for (const name of Object.keys(lock.packs).sort()) {
+      visit(name);
+    }
+    return order;
+  }
+
+  /**
+   * SHA-256 over every file in the pack, keyed by path relative to the pack root.
+   * Dotfiles are skipped; remote sources keep their cache metadata in them.
+   */
+  async calculateChecksum(packStructure: PackStructure): Promise<string> {
+    const hash = createHash('sha256');
+
+    for (const relativePath of await this.listFiles(packStructure.path)) {
+      const content = await this.fs.readFile(this.fs.join(packStructure.path, relativePath));
+      hash.update(`${relativePath}\0`);
+      hash.update(typeof content === 'string' ? Buffer.from(content, 'utf8') : content);
+      hash.update('\0');
+    }
+
+    return `sha256:${hash.digest('hex')}`;
+  }
+
+  private async listFiles(dir: string, prefix = ''): Promise<string[]> {
+    if (!await this.fs.exists(dir)) {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of (await this.fs.readdir(dir)).sort()) {
+      if (entry.startsWith('.')) {
+        continue;
+      }
+      const fullPath = this.fs.join(dir, entry);
+      const relativePath = prefix ? `${prefix}/${entry}` : entry;
+      if ((await this.fs.stat(fullPath)).isDirectory()) {
+        files.push(...await this.listFiles(fullPath, relativePath));
+      } else {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+}
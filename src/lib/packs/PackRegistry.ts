@@ -3,16 +3,48 @@
  */
 
 import {
+  PackManifest,
   PackStructure,
+  PackDependency,
   PackDependencyResult,
+  PackResolution,
 } from "../types/packs";
 import { logger } from "../logger";
-import { ZccError } from "../errors";
+import { OfflineError, ZccError } from "../errors";
+import { isOffline } from "../context";
+import { compareVersions, satisfies } from "../utils/semver";
 import { PackagePaths } from "../packagePaths";
-import { IPackSource, LocalPackSource } from "./PackSource";
+import { IPackSource, LocalPackSource, loadPackVersion } from "./PackSource";
 import { FileSystemAdapter } from "../adapters/FileSystemAdapter";
 import { NodeFileSystemAdapter } from "../adapters/NodeFileSystemAdapter";
 
+/**
+ * Split a dependency entry such as `essentials@^1.2.0` into name and range.
+ * Entries without a range accept any version.
+ */
+export function parsePackDependency(spec: string): PackDependency {
+  const at = spec.lastIndexOf('@');
+  if (at <= 0) {
+    return { name: spec.trim(), range: '*' };
+  }
+  return { name: spec.slice(0, at).trim(), range: spec.slice(at + 1).trim() || '*' };
+}
+
+/**
+ * Pack dependencies of a manifest. Some manifests use `dependencies` for an object
+ * of tool requirements instead, which holds no pack dependencies.
+ */
+export function getPackDependencies(manifest: PackManifest): PackDependency[] {
+  return Array.isArray(manifest.dependencies) ? manifest.dependencies.map(parsePackDependency) : [];
+}
+
+/**
+ * Format a dependency back into its `name@range` form, omitting `*`
+ */
+export function formatPackDependency(dependency: PackDependency): string {
+  return dependency.range === '*' ? dependency.name : `${dependency.name}@${dependency.range}`;
+}
+
 export class PackRegistry {
   private sources: Map<string, IPackSource>;
   private packCache: Map<string, PackStructure>;
@@ -106,11 +138,12 @@ export class PackRegistry {
   }
 
   /**
-   * Load a specific pack by name, searching all sources
+   * Load a specific pack by name, searching all sources. A version is loaded from sources
+   * that publish several; other sources provide the one they have.
    */
-  async loadPack(packName: string, preferredSource?: string): Promise<PackStructure> {
+  async loadPack(packName: string, preferredSource?: string, version?: string): Promise<PackStructure> {
     // Check cache first
-    const cacheKey = preferredSource ? `${preferredSource}:${packName}` : packName;
+    const cacheKey = `${preferredSource ? `${preferredSource}:` : ''}${packName}${version ? `@${version}` : ''}`;
     if (this.packCache.has(cacheKey)) {
       return this.packCache.get(cacheKey)!;
     }
@@ -131,7 +164,7 @@ export class PackRegistry {
         const hasPackResult = await source.hasPack(packName);
         
         if (hasPackResult) {
-          const pack = await source.loadPack(packName);
+          const pack = await loadPackVersion(source, packName, version);
           
           // Cache the result
           this.packCache.set(cacheKey, pack);
@@ -145,6 +178,12 @@ export class PackRegistry {
       }
     }
 
+    if (isOffline()) {
+      throw lastError instanceof OfflineError
+        ? lastError
+        : new OfflineError(`Pack '${packName}' is not available in the offline cache`);
+    }
+
     throw new ZccError(
       `Pack '${packName}' not found in any registered source`,
       'PACK_NOT_FOUND',
@@ -192,19 +231,80 @@ export class PackRegistry {
   }
 
   /**
-   * Resolve pack dependencies in installation order using iterative approach to prevent stack overflow
+   * Find the highest version of a pack satisfying every given range across all sources.
+   * When several sources provide the same version, the first registered wins.
    */
-  async resolveDependencies(packName: string): Promise<PackDependencyResult> {
+  async resolvePackVersion(packName: string, ranges: string | readonly string[] = '*'): Promise<PackResolution | null> {
+    const required = typeof ranges === 'string' ? [ranges] : ranges;
+    let best: PackResolution | null = null;
+
+    for (const [sourceName, source] of this.sources) {
+      try {
+        if (!(await source.hasPack(packName))) {
+          continue;
+        }
+        const versions = source.listVersions
+          ? await source.listVersions(packName)
+          : [(await this.loadPack(packName, sourceName)).manifest.version];
+        for (const version of versions) {
+          if (required.every(range => satisfies(version, range)) && (!best || compareVersions(version, best.version) > 0)) {
+            best = { name: packName, version, source: sourceName };
+          }
+        }
+      } catch (error) {
+        logger.debug(`Error resolving '${packName}@${required.join(' ')}' in source '${sourceName}': ${error}`);
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Resolve pack dependencies in installation order using iterative approach to prevent stack overflow.
+   * Each pack resolves to the highest version satisfying the ranges that require it. When a range
+   * rules out a version chosen earlier, resolution restarts with that range as a constraint;
+   * ranges no version can satisfy together are reported as missing.
+   */
+  async resolveDependencies(packName: string, range: string = '*'): Promise<PackDependencyResult> {
+    const constraints = new Map<string, string[]>();
+
+    for (;;) {
+      const { result, conflict } = await this.resolveWithConstraints(packName, range, constraints);
+      if (!conflict) {
+        return result;
+      }
+      logger.debug(`Retrying resolution of '${packName}' with ${formatPackDependency(conflict)}`);
+      constraints.set(conflict.name, [...(constraints.get(conflict.name) || []), conflict.range]);
+    }
+  }
+
+  /**
+   * One resolution pass. Returns early with the first range that conflicts with
+   * a version already chosen and is not yet among the constraints.
+   */
+  private async resolveWithConstraints(
+    packName: string,
+    range: string,
+    constraints: ReadonlyMap<string, readonly string[]>
+  ): Promise<{ result: PackDependencyResult; conflict?: PackDependency }> {
     const resolved: string[] = [];
     const missing: string[] = [];
     const circular: string[] = [];
+    const versions: Record<string, PackResolution> = {};
     const visited = new Set<string>();
     const visiting = new Set<string>();
+    let conflict: PackDependency | undefined;
     
     // Use iterative approach with explicit recursion tracking
     const MAX_DEPTH = 50;
     
-    const visit = async (currentPackName: string, path: string[] = []): Promise<void> => {
+    const visit = async (dependency: PackDependency, path: string[] = []): Promise<void> => {
+      const currentPackName = dependency.name;
+      const spec = formatPackDependency(dependency);
+      if (conflict) {
+        return;
+      }
+
       // Prevent excessive depth
       if (path.length > MAX_DEPTH) {
         logger.error(`Maximum dependency depth (${MAX_DEPTH}) exceeded for pack '${currentPackName}'`);
@@ -219,15 +319,26 @@ export class PackRegistry {
         return;
       }
 
-      // Skip if already processed
+      // Skip if already processed, as long as the chosen version fits this range too
       if (visited.has(currentPackName)) {
+        const chosen = versions[currentPackName];
+        if (chosen && !satisfies(chosen.version, dependency.range)) {
+          if (!(constraints.get(currentPackName) || []).includes(dependency.range)) {
+            conflict = dependency;
+            return;
+          }
+          missing.push(spec);
+          logger.warn(`Version conflict: ${path[path.length - 1]} requires ${spec} but ${currentPackName}@${chosen.version} was resolved`);
+        }
         return;
       }
 
-      // Check if pack exists
-      if (!(await this.hasPack(currentPackName))) {
-        missing.push(currentPackName);
-        logger.warn(`Missing dependency: ${currentPackName}`);
+      // Find the best version matching this range and the constraints found so far
+      const ranges = [dependency.range, ...(constraints.get(currentPackName) || [])];
+      const resolution = await this.resolvePackVersion(currentPackName, ranges);
+      if (!resolution) {
+        missing.push(spec);
+        logger.warn(`Missing dependency: ${spec}`);
         return;
       }
 
@@ -235,12 +346,13 @@ export class PackRegistry {
       
       try {
         // Load the pack to get its dependencies
-        const pack = await this.loadPack(currentPackName);
-        const dependencies = pack.manifest.dependencies || [];
+        const pack = await this.loadPack(currentPackName, resolution.source, resolution.version);
+        const dependencies = getPackDependencies(pack.manifest);
+        versions[currentPackName] = resolution;
 
         // Process each dependency
-        for (const dependency of dependencies) {
-          await visit(dependency, [...path, currentPackName]);
+        for (const child of dependencies) {
+          await visit(child, [...path, currentPackName]);
         }
 
         // Mark as processed and add to resolution order
@@ -248,7 +360,7 @@ export class PackRegistry {
         visited.add(currentPackName);
         resolved.push(currentPackName);
 
-        logger.debug(`Resolved dependencies for '${currentPackName}'`);
+        logger.debug(`Resolved dependencies for '${currentPackName}@${resolution.version}' from '${resolution.source}'`);
       } catch (error) {
         visiting.delete(currentPackName);
         missing.push(currentPackName);
@@ -257,7 +369,7 @@ export class PackRegistry {
     };
 
     // Start dependency resolution
-    await visit(packName);
+    await visit({ name: packName, range });
 
     // Remove the main pack from resolved list since we only want its dependencies
     const mainPackIndex = resolved.indexOf(packName);
@@ -266,9 +378,13 @@ export class PackRegistry {
     }
 
     return {
-      resolved,
-      missing,
-      circular,
+      result: {
+        resolved,
+        missing,
+        circular,
+        versions,
+      },
+      conflict,
     };
   }
 
@@ -7,6 +7,7 @@ import { NodeFileSystemAdapter } from "../adapters/NodeFileSystemAdapter";
 import {
   PackManifest,
   PackStructure,
+  PackComponentType,
   LocalPackSource as LocalPackSourceInterface,
 } from "../types/packs";
 import { logger } from "../logger";
@@ -17,9 +18,23 @@ import { ZccError } from "../errors";
  */
 export interface IPackSource {
   /**
-   * Load a pack manifest and structure from the source
+   * Load a pack manifest and structure from the source. With `refresh`, sources that
+   * cache packs fetch them again instead of using a copy that has not expired yet; with
+   * `version`, sources that publish several versions load that one.
    */
-  loadPack(name: string): Promise<PackStructure>;
+  loadPack(name: string, options?: { refresh?: boolean; version?: string }): Promise<PackStructure>;
+
+  /**
+   * Versions of a pack the source can load, for sources that publish several.
+   * Other sources provide the version their `loadPack` returns.
+   */
+  listVersions?(name: string): Promise<string[]>;
+
+  /**
+   * Read packs as of a commit, such as one recorded in the pack lockfile, for sources
+   * that read packs from version control
+   */
+  checkoutCommit?(commit: string): Promise<void>;
 
   /**
    * List available packs from this source
@@ -41,7 +56,7 @@ export interface IPackSource {
    */
   getComponentPath(
     packName: string,
-    componentType: 'modes' | 'workflows' | 'agents' | 'hooks',
+    componentType: PackComponentType,
     componentName: string
   ): Promise<string>;
 
@@ -50,11 +65,19 @@ export interface IPackSource {
    */
   hasComponent(
     packName: string,
-    componentType: 'modes' | 'workflows' | 'agents' | 'hooks',
+    componentType: PackComponentType,
     componentName: string
   ): Promise<boolean>;
 }
 
+/**
+ * Load a version of a pack from a source that publishes several, or whatever the
+ * source provides otherwise
+ */
+export function loadPackVersion(source: IPackSource, name: string, version?: string): Promise<PackStructure> {
+  return version && source.listVersions ? source.loadPack(name, { version }) : source.loadPack(name);
+}
+
 /**
  * Local file system pack source implementation
  */
@@ -184,7 +207,7 @@ export class LocalPackSource implements IPackSource {
    */
   async hasComponent(
     packName: string,
-    componentType: 'modes' | 'workflows' | 'agents' | 'hooks',
+    componentType: PackComponentType,
     componentName: string
   ): Promise<boolean> {
     try {
@@ -207,7 +230,7 @@ export class LocalPackSource implements IPackSource {
    */
   async getComponentPath(
     packName: string,
-    componentType: 'modes' | 'workflows' | 'agents' | 'hooks',
+    componentType: PackComponentType,
     componentName: string
   ): Promise<string> {
     const packStructure = await this.loadPack(packName);
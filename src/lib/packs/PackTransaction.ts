@@ -0,0 +1,582 @@
+/**
+ * PackTransaction makes pack installs and uninstalls all-or-nothing.
+ *
+ * It is a FileSystemAdapter over the project: writes, copies and deletes are staged in
+ * `.zcc/transaction/` and only reads see them until `commit()` applies them together.
+ * Before applying, commit backs up every file it will replace and records the plan in
+ * `.zcc/transaction/journal.json`, so a run that dies midway can be finished or rolled
+ * back by `PackTransaction.recover()` on the next zcc invocation. Next to the journal,
+ * `lock.json` names the process that owns the transaction; recovery leaves it alone
+ * while that process is alive.
+ */
+
+import { Stats } from 'fs';
+import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
+import {
+  PackTransactionChange,
+  PackTransactionJournal,
+  PackTransactionLock,
+  PackTransactionOperation,
+  PackTransactionRecovery,
+} from '../types/packs';
+import { ZccError } from '../errors';
+import { logger } from '../logger';
+import { currentProcessOwner, isOwnerRunning } from '../utils/process';
+
+export const PACK_TRANSACTION_JOURNAL_VERSION = 1;
+
+interface StagedChange {
+  action: PackTransactionChange['action'];
+  staged?: string;
+  mode?: number;
+}
+
+export class PackTransaction implements FileSystemAdapter {
+  private base: FileSystemAdapter;
+  private transactionDir: string;
+  private operation: PackTransactionOperation;
+  private packName: string;
+  private startedAt = new Date().toISOString();
+  private changes = new Map<string, StagedChange>();
+  private createdDirs: string[] = [];
+  private stagedCount = 0;
+  private finished = false;
+
+  private constructor(
+    base: FileSystemAdapter,
+    transactionDir: string,
+    operation: PackTransactionOperation,
+    packName: string
+  ) {
+    this.base = base;
+    this.transactionDir = transactionDir;
+    this.operation = operation;
+    this.packName = packName;
+  }
+
+  static getDirectory(projectRoot: string, fs: FileSystemAdapter): string {
+    return fs.join(projectRoot, '.zcc', 'transaction');
+  }
+
+  /**
+   * Start staging changes for a pack operation
+   */
+  static async begin(
+    projectRoot: string,
+    operation: PackTransactionOperation,
+    packName: string,
+    fs: FileSystemAdapter
+  ): Promise<PackTransaction> {
+    const transactionDir = PackTransaction.getDirectory(projectRoot, fs);
+    if (await fs.exists(fs.join(transactionDir, 'journal.json'))) {
+      throw new ZccError(
+        `Another pack transaction is pending in ${transactionDir}`,
+        'TRANSACTION_PENDING',
+        'Wait for the other zcc command to finish, or run zcc again to recover an interrupted one'
+      );
+    }
+
+    // Leftovers without a journal never touched the project
+    await fs.rmdir(transactionDir);
+    await fs.mkdir(fs.join(transactionDir, 'staged'), { recursive: true });
+
+    const lock: PackTransactionLock = { ...currentProcessOwner(), startedAt: new Date().toISOString() };
+    await fs.writeFile(fs.join(transactionDir, 'lock.json'), JSON.stringify(lock, null, 2));
+
+    const transaction = new PackTransaction(fs, transactionDir, operation, packName);
+    await transaction.writeJournal('staging', []);
+    return transaction;
+  }
+
+  /**
+   * Finish or undo a transaction an interrupted run left behind. Transactions that never
+   * started committing, or were already rolling back, are rolled back; committing ones
+   * are finished unless `rollback` is set, in which case the backed-up files are restored.
+   * A transaction whose owner is still running is left alone and null is returned.
+   */
+  static async recover(
+    projectRoot: string,
+    fs: FileSystemAdapter = new NodeFileSystemAdapter(),
+    options: { rollback?: boolean } = {}
+  ): Promise<PackTransactionRecovery | null> {
+    const transactionDir = PackTransaction.getDirectory(projectRoot, fs);
+    const journalPath = fs.join(transactionDir, 'journal.json');
+    if (!await fs.exists(journalPath)) {
+      return null;
+    }
+
+    const owner = await PackTransaction.readLock(fs, transactionDir);
+    if (owner && isOwnerRunning(owner)) {
+      logger.debug(`Pack transaction in ${transactionDir} is owned by running process ${owner.pid} on ${owner.host}`);
+      return null;
+    }
+
+    let journal: PackTransactionJournal;
+    try {
+      journal = JSON.parse(await fs.readFile(journalPath, 'utf-8') as string);
+    } catch (error) {
+      throw new ZccError(
+        `Unreadable pack transaction journal: ${error instanceof Error ? error.message : error}`,
+        'INVALID_TRANSACTION_JOURNAL',
+        `Check the pack files in your project, then delete ${transactionDir}`
+      );
+    }
+
+    if (journal.journalVersion !== PACK_TRANSACTION_JOURNAL_VERSION) {
+      throw new ZccError(
+        `Unsupported pack transaction journal version: ${journal.journalVersion}`,
+        'INVALID_TRANSACTION_JOURNAL',
+        `Check the pack files in your project, then delete ${transactionDir}`
+      );
+    }
+
+    let action: PackTransactionRecovery['action'] = 'rolled-back';
+    if (journal.state === 'committing' && !options.rollback) {
+      await PackTransaction.apply(fs, journal.changes);
+      action = 'resumed';
+    } else if (journal.state !== 'staging') {
+      await PackTransaction.restore(fs, journal.changes, journal.createdDirs);
+    } else {
+      await PackTransaction.removeCreatedDirs(fs, journal.createdDirs);
+    }
+
+    await fs.rmdir(transactionDir);
+    return { operation: journal.operation, pack: journal.pack, action };
+  }
+
+  /**
+   * Apply every staged change to the project
+   */
+  async commit(): Promise<void> {
+    this.assertActive();
+
+    // Back up everything about to be replaced before the journal says we are committing
+    const backupDir = this.base.join(this.transactionDir, 'backup');
+    await this.base.mkdir(backupDir, { recursive: true });
+
+    const changes: PackTransactionChange[] = [];
+    for (const [path, change] of this.changes) {
+      let backup: string | null = null;
+      if (change.action !== 'rmdir' && await this.isBaseFile(path)) {
+        backup = this.base.join(backupDir, String(changes.length + 1));
+        await this.base.copyFile(path, backup);
+      }
+      changes.push({ path, ...change, backup });
+    }
+
+    await this.writeJournal('committing', changes);
+    this.finished = true;
+
+    try {
+      await PackTransaction.apply(this.base, changes);
+    } catch (error) {
+      logger.debug(`Pack transaction commit failed, restoring backups: ${error}`);
+      // If restoring fails too, the journal is left for recovery to finish the rollback
+      await this.writeJournal('rolling-back', changes);
+      await PackTransaction.restore(this.base, changes, this.createdDirs);
+      await this.base.rmdir(this.transactionDir);
+      throw error;
+    }
+
+    await this.base.rmdir(this.transactionDir);
+  }
+
+  /**
+   * Discard every staged change; the project is left as it was
+   */
+  async rollback(): Promise<void> {
+    this.assertActive();
+    this.finished = true;
+
+    await PackTransaction.removeCreatedDirs(this.base, this.createdDirs);
+    await this.base.rmdir(this.transactionDir);
+  }
+
+  // Directory operations
+
+  async mkdir(path: string, options?: { recursive?: boolean }): Promise<void> {
+    this.clearRemovedDirs(path);
+    const created = await this.missingDirs(path);
+    await this.base.mkdir(path, options);
+
+    if (created.length > 0) {
+      this.createdDirs.push(...created);
+      await this.writeJournal('staging', []);
+    }
+  }
+
+  async rmdir(path: string): Promise<void> {
+    if (!await this.exists(path)) {
+      return;
+    }
+
+    for (const entry of await this.readdir(path)) {
+      const entryPath = this.base.join(path, entry);
+      if ((await this.stat(entryPath)).isDirectory()) {
+        await this.rmdir(entryPath);
+      } else {
+        await this.unlink(entryPath);
+      }
+    }
+    this.changes.set(this.key(path), { action: 'rmdir' });
+  }
+
+  // File operations
+
+  async readFile(path: string, encoding?: BufferEncoding): Promise<string | Buffer> {
+    return this.base.readFile(this.readPath(path, 'open'), encoding);
+  }
+
+  async writeFile(path: string, data: string | Buffer, options?: { encoding?: BufferEncoding }): Promise<void> {
+    const staged = this.stage(path);
+    await this.base.writeFile(staged, data, options);
+  }
+
+  async appendFile(path: string, data: string | Buffer): Promise<void> {
+    const existing = await this.exists(path) ? await this.readFile(path) as Buffer : Buffer.alloc(0);
+    await this.writeFile(path, Buffer.concat([existing, Buffer.from(data)]));
+  }
+
+  async unlink(path: string): Promise<void> {
+    if (!await this.exists(path)) {
+      throw notFound('unlink', path);
+    }
+    this.changes.set(this.key(path), { action: 'delete' });
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const change = this.lookup(path);
+    if (change) {
+      return change.action === 'write';
+    }
+    return this.hasStagedEntries(path) || this.base.exists(path);
+  }
+
+  async stat(path: string): Promise<Stats> {
+    return this.base.stat(this.readPath(path, 'stat'));
+  }
+
+  async readdir(path: string): Promise<string[]> {
+    this.readPath(path, 'scandir');
+    const entries = this.hasStagedEntries(path) && !await this.base.exists(path)
+      ? []
+      : await this.base.readdir(path);
+    return this.mergeEntries(path, entries);
+  }
+
+  async copyFile(src: string, dest: string): Promise<void> {
+    await this.writeFile(dest, await this.readFile(src));
+  }
+
+  async chmod(path: string, mode: number): Promise<void> {
+    if (this.lookup(path)?.action !== 'write') {
+      await this.writeFile(path, await this.readFile(path));
+    }
+    this.changes.get(this.key(path))!.mode = mode;
+  }
+
+  // Path utilities
+
+  join(...paths: string[]): string {
+    return this.base.join(...paths);
+  }
+
+  resolve(...paths: string[]): string {
+    return this.base.resolve(...paths);
+  }
+
+  dirname(path: string): string {
+    return this.base.dirname(path);
+  }
+
+  basename(path: string, ext?: string): string {
+    return this.base.basename(path, ext);
+  }
+
+  extname(path: string): string {
+    return this.base.extname(path);
+  }
+
+  isAbsolute(path: string): boolean {
+    return this.base.isAbsolute(path);
+  }
+
+  // Synchronous versions
+
+  mkdirSync(path: string, options?: { recursive?: boolean }): void {
+    this.clearRemovedDirs(path);
+    const created: string[] = [];
+    for (let dir = this.key(path); !this.base.existsSync(dir); dir = this.base.dirname(dir)) {
+      created.push(dir);
+    }
+    this.base.mkdirSync(path, options);
+    this.createdDirs.push(...created);
+  }
+
+  readFileSync(path: string, encoding?: BufferEncoding): string | Buffer {
+    return this.base.readFileSync(this.readPath(path, 'open'), encoding);
+  }
+
+  writeFileSync(path: string, data: string | Buffer, options?: { encoding?: BufferEncoding }): void {
+    this.base.writeFileSync(this.stage(path), data, options);
+  }
+
+  existsSync(path: string): boolean {
+    const change = this.lookup(path);
+    if (change) {
+      return change.action === 'write';
+    }
+    return this.hasStagedEntries(path) || this.base.existsSync(path);
+  }
+
+  statSync(path: string): Stats {
+    return this.base.statSync(this.readPath(path, 'stat'));
+  }
+
+  readdirSync(path: string): string[] {
+    this.readPath(path, 'scandir');
+    const entries = this.hasStagedEntries(path) && !this.base.existsSync(path)
+      ? []
+      : this.base.readdirSync(path);
+    return this.mergeEntries(path, entries);
+  }
+
+  // Ownership
+
+  private static async readLock(fs: FileSystemAdapter, transactionDir: string): Promise<PackTransactionLock | null> {
+    const lockPath = fs.join(transactionDir, 'lock.json');
+    if (!await fs.exists(lockPath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(await fs.readFile(lockPath, 'utf-8') as string);
+    } catch {
+      // The owner died while writing it, before any journal mattered
+      return null;
+    }
+  }
+
+  // Applying and undoing changes
+
+  private static async apply(fs: FileSystemAdapter, changes: readonly PackTransactionChange[]): Promise<void> {
+    for (const change of changes) {
+      if (change.action === 'write') {
+        await fs.mkdir(fs.dirname(change.path), { recursive: true });
+        await fs.copyFile(change.staged!, change.path);
+        if (change.mode !== undefined) {
+          await fs.chmod(change.path, change.mode);
+        }
+      } else if (change.action === 'delete') {
+        if (await fs.exists(change.path)) {
+          await fs.unlink(change.path);
+        }
+      } else if (await fs.exists(change.path) && (await fs.readdir(change.path)).length === 0) {
+        await fs.rmdir(change.path);
+      }
+    }
+  }
+
+  private static async restore(
+    fs: FileSystemAdapter,
+    changes: readonly PackTransactionChange[],
+    createdDirs: readonly string[]
+  ): Promise<void> {
+    // Restore as much as possible before reporting what could not be restored
+    const failed: string[] = [];
+    for (const change of [...changes].reverse()) {
+      try {
+        if (change.action === 'rmdir') {
+          await fs.mkdir(change.path, { recursive: true });
+        } else if (change.backup) {
+          await fs.mkdir(fs.dirname(change.path), { recursive: true });
+          await fs.copyFile(change.backup, change.path);
+        } else if (await fs.exists(change.path) && !(await fs.stat(change.path)).isDirectory()) {
+          await fs.unlink(change.path);
+        }
+      } catch (error) {
+        failed.push(`${change.path}: ${error}`);
+      }
+    }
+
+    if (failed.length > 0) {
+      throw new ZccError(
+        `Could not restore ${failed.length} file(s): ${failed.join('; ')}`,
+        'TRANSACTION_RESTORE_FAILED',
+        'Fix the cause and run zcc again; the rollback is retried from .zcc/transaction/journal.json'
+      );
+    }
+    await PackTransaction.removeCreatedDirs(fs, createdDirs);
+  }
+
+  private static async removeCreatedDirs(fs: FileSystemAdapter, createdDirs: readonly string[]): Promise<void> {
+    // Deepest first, and only while empty: something else may have put files there
+    for (const dir of [...createdDirs].sort((a, b) => b.length - a.length)) {
+      if (await fs.exists(dir) && (await fs.readdir(dir)).length === 0) {
+        await fs.rmdir(dir);
+      }
+    }
+  }
+
+  // Staging
+
+  private async writeJournal(
+    state: PackTransactionJournal['state'],
+    changes: readonly PackTransactionChange[]
+  ): Promise<void> {
+    const journal: PackTransactionJournal = {
+      journalVersion: PACK_TRANSACTION_JOURNAL_VERSION,
+      operation: this.operation,
+      pack: this.packName,
+      state,
+      startedAt: this.startedAt,
+      createdDirs: this.createdDirs,
+      changes,
+    };
+    await this.base.writeFile(
+      this.base.join(this.transactionDir, 'journal.json'),
+      JSON.stringify(journal, null, 2)
+    );
+  }
+
+  private assertActive(): void {
+    if (this.finished) {
+      throw new ZccError(
+        `Pack transaction for '${this.packName}' has already finished`,
+        'TRANSACTION_FINISHED'
+      );
+    }
+  }
+
+  private key(path: string): string {
+    return this.base.resolve(path);
+  }
+
+  /**
+   * Staged change for a path, treating everything under a removed directory as deleted
+   */
+  private lookup(path: string): StagedChange | undefined {
+    const key = this.key(path);
+    const change = this.changes.get(key);
+    if (change) {
+      return change;
+    }
+
+    for (let dir = this.base.dirname(key); dir !== this.base.dirname(dir); dir = this.base.dirname(dir)) {
+      if (this.changes.get(dir)?.action === 'rmdir') {
+        return { action: 'delete' };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Where to read a path from: its staged copy, or the project file itself
+   */
+  private readPath(path: string, operation: string): string {
+    const change = this.lookup(path);
+    if (change?.action === 'write') {
+      return change.staged!;
+    }
+    if (change) {
+      throw notFound(operation, path);
+    }
+    return path;
+  }
+
+  /**
+   * Reserve the staged copy for a path and record the write
+   */
+  private stage(path: string): string {
+    const key = this.key(path);
+    const existing = this.changes.get(key);
+    const staged = existing?.action === 'write'
+      ? existing.staged!
+      : this.base.join(this.transactionDir, 'staged', String(++this.stagedCount));
+
+    this.clearRemovedDirs(this.base.dirname(key));
+    this.changes.set(key, { action: 'write', staged, mode: existing?.mode });
+    return staged;
+  }
+
+  private clearRemovedDirs(path: string): void {
+    for (let dir = this.key(path); dir !== this.base.dirname(dir); dir = this.base.dirname(dir)) {
+      if (this.changes.get(dir)?.action === 'rmdir') {
+        this.changes.delete(dir);
+      }
+    }
+  }
+
+  private async missingDirs(path: string): Promise<string[]> {
+    const missing: string[] = [];
+    for (let dir = this.key(path); !await this.base.exists(dir); dir = this.base.dirname(dir)) {
+      missing.push(dir);
+    }
+    return missing;
+  }
+
+  private async isBaseFile(path: string): Promise<boolean> {
+    return await this.base.exists(path) && !(await this.base.stat(path)).isDirectory();
+  }
+
+  private hasStagedEntries(path: string): boolean {
+    const prefix = `${this.key(path)}/`;
+    for (const [key, change] of this.changes) {
+      if (change.action === 'write' && key.startsWith(prefix)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Directory listing with staged files added and staged deletions removed
+   */
+  private mergeEntries(path: string, entries: string[]): string[] {
+    const merged = new Set(entries);
+    const prefix = `${this.key(path)}/`;
+
+    for (const [key, change] of this.changes) {
+      if (!key.startsWith(prefix)) {
+        continue;
+      }
+      const [name, ...rest] = key.slice(prefix.length).split('/');
+      if (change.action === 'write') {
+        merged.add(name);
+      } else if (rest.length === 0 && !this.hasStagedEntries(key)) {
+        merged.delete(name);
+      }
+    }
+    return [...merged];
+  }
+}
+
+function notFound(operation: string, path: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`ENOENT: no such file or directory, ${operation} '${path}'`);
+  error.code = 'ENOENT';
+  return error;
+}
+
+/**
+ * Recover an interrupted pack transaction, logging what was done. Failures are reported
+ * but never thrown, so a broken journal cannot block unrelated commands.
+ */
+export async function recoverPackTransaction(
+  projectRoot: string,
+  fs?: FileSystemAdapter
+): Promise<PackTransactionRecovery | null> {
+  try {
+    const recovery = await PackTransaction.recover(projectRoot, fs);
+    if (recovery) {
+      logger.warn(
+        recovery.action === 'resumed'
+          ? `Finished the interrupted ${recovery.operation} of pack '${recovery.pack}'`
+          : `Rolled back the interrupted ${recovery.operation} of pack '${recovery.pack}'`
+      );
+    }
+    return recovery;
+  } catch (error) {
+    logger.warn(`Could not recover interrupted pack transaction: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
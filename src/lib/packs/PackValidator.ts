@@ -15,6 +15,8 @@ import { logger } from "../logger";
 import { ZccError } from "../errors";
 import { PackagePaths } from "../packagePaths";
 import { IPackSource } from "./PackSource";
+import { getPackDependencies, formatPackDependency } from "./PackRegistry";
+import { isValidRange } from "../utils/semver";
 
 /**
  * Security and validation rules for pack validation
@@ -222,6 +224,13 @@ export class PackValidator {
     errors: string[],
     warnings: string[]
   ): Promise<void> {
+    // Dependency version ranges must be valid semver ranges
+    for (const dependency of getPackDependencies(manifest)) {
+      if (!isValidRange(dependency.range)) {
+        errors.push(`Invalid version range in dependency '${formatPackDependency(dependency)}'`);
+      }
+    }
+
     const components = manifest.components;
     
     // Skip validation if components is not defined
@@ -245,7 +254,7 @@ export class PackValidator {
     // Check for duplicate component names
     const allComponentNames = new Set<string>();
     
-    for (const componentType of ['modes', 'workflows', 'agents', 'hooks'] as const) {
+    for (const componentType of ['modes', 'workflows', 'agents', 'hooks', 'tickets'] as const) {
       const componentList = components[componentType];
       if (componentList) {
         for (const component of componentList) {
@@ -282,7 +291,7 @@ export class PackValidator {
     warnings: string[]
   ): Promise<void> {
     const { manifest } = packStructure;
-    const componentTypes = ['modes', 'workflows', 'agents', 'hooks'] as const;
+    const componentTypes = ['modes', 'workflows', 'agents', 'hooks', 'tickets'] as const;
 
     for (const componentType of componentTypes) {
       const components = manifest.components[componentType];
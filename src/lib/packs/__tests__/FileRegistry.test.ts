@@ -260,6 +260,22 @@ describe('FileRegistry', () => {
       const isModified = await registry.isFileModified('/test-project/.zcc/modes/test.md');
       expect(isModified).toBe(true);
     });
+
+    it('should keep the installed content as the merge base', async () => {
+      await fs.writeFile('/test-project/.zcc/modes/test.md', 'modified content');
+
+      expect(await registry.getBaseContent('/test-project/.zcc/modes/test.md')).toBe('original content');
+      expect(await registry.getBaseContent('/test-project/.zcc/modes/unknown.md')).toBeNull();
+    });
+
+    it('should register merged files against the given base content', async () => {
+      await fs.writeFile('/test-project/.zcc/modes/test.md', 'merged content');
+      await registry.registerFile('/test-project/.zcc/modes/test.md', 'test-pack', '/source/test.md', 'pack content');
+
+      expect(await registry.getBaseContent('/test-project/.zcc/modes/test.md')).toBe('pack content');
+      expect((await registry.getFileInfo('/test-project/.zcc/modes/test.md'))?.modified).toBe(true);
+      expect(await registry.isFileModified('/test-project/.zcc/modes/test.md')).toBe(true);
+    });
   });
 
   describe('pack management', () => {
@@ -309,6 +325,57 @@ describe('FileRegistry', () => {
     });
   });
 
+  describe('merge bases', () => {
+    const baseDir = '/test-project/.zcc/file-base';
+
+    beforeEach(async () => {
+      await fs.mkdir('/test-project/.zcc/modes', { recursive: true });
+      await fs.writeFile('/test-project/.zcc/modes/a.md', 'shared');
+      await fs.writeFile('/test-project/.zcc/modes/b.md', 'shared');
+      await fs.writeFile('/test-project/.zcc/modes/c.md', 'only c');
+      await registry.registerFile('/test-project/.zcc/modes/a.md', 'pack-a', '/source/a.md');
+      await registry.registerFile('/test-project/.zcc/modes/b.md', 'pack-b', '/source/b.md');
+      await registry.registerFile('/test-project/.zcc/modes/c.md', 'pack-a', '/source/c.md');
+    });
+
+    it('should delete bases once no pack file refers to them', async () => {
+      await registry.unregisterPack('pack-a');
+
+      expect(await fs.readdir(baseDir)).toHaveLength(1);
+      expect(await registry.getBaseContent('/test-project/.zcc/modes/b.md')).toBe('shared');
+
+      await registry.unregisterFile('/test-project/.zcc/modes/b.md');
+      expect(await fs.readdir(baseDir)).toEqual([]);
+    });
+
+    it('should delete the bases of modified files an uninstall preserves', async () => {
+      await fs.writeFile('/test-project/.zcc/modes/c.md', 'edited');
+      await registry.isFileModified('/test-project/.zcc/modes/c.md');
+
+      await registry.unregisterPackPreservingModified('pack-a');
+
+      expect(await registry.getFileInfo('/test-project/.zcc/modes/c.md')).toMatchObject({ pack: '' });
+      expect(await registry.getBaseContent('/test-project/.zcc/modes/c.md')).toBeNull();
+      expect(await fs.readdir(baseDir)).toHaveLength(1);
+    });
+
+    it('should replace the base of an updated file', async () => {
+      await fs.writeFile('/test-project/.zcc/modes/c.md', 'c v2');
+      await registry.registerFile('/test-project/.zcc/modes/c.md', 'pack-a', '/source/c.md');
+
+      expect(await fs.readdir(baseDir)).toHaveLength(2);
+      expect(await registry.getBaseContent('/test-project/.zcc/modes/c.md')).toBe('c v2');
+    });
+
+    it('should delete the bases of files a pack no longer ships', async () => {
+      await registry.pruneDroppedBases('pack-a', ['/test-project/.zcc/modes/a.md']);
+
+      expect(await registry.getBaseContent('/test-project/.zcc/modes/c.md')).toBeNull();
+      expect(await registry.getBaseContent('/test-project/.zcc/modes/a.md')).toBe('shared');
+      expect(await registry.getPackFiles('pack-a')).toContain('/test-project/.zcc/modes/c.md');
+    });
+  });
+
   describe('persistence', () => {
     it('should save registry to disk', async () => {
       await fs.mkdir('/test-project/.zcc/modes', { recursive: true });
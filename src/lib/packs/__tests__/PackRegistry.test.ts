@@ -326,6 +326,71 @@ describe("PackRegistry", () => {
     });
   });
 
+  describe("version ranges", () => {
+    beforeEach(async () => {
+      // Newer releases of base-utils in two extra sources
+      await fs.writeFile('/team/packs/base-utils/manifest.json', JSON.stringify({ ...basePack, version: "1.4.2" }));
+      await fs.writeFile('/next/packs/base-utils/manifest.json', JSON.stringify({ ...basePack, version: "2.0.0" }));
+      registry.registerSource("team", new LocalPackSource("/team/packs", fs));
+      registry.registerSource("next", new LocalPackSource("/next/packs", fs));
+    });
+
+    it("should pick the highest version satisfying a range across sources", async () => {
+      expect(await registry.resolvePackVersion("base-utils")).toEqual({ name: "base-utils", version: "2.0.0", source: "next" });
+      expect(await registry.resolvePackVersion("base-utils", "^1.0.0")).toEqual({ name: "base-utils", version: "1.4.2", source: "team" });
+      expect(await registry.resolvePackVersion("base-utils", "~1.0.0")).toEqual({ name: "base-utils", version: "1.0.0", source: "local" });
+      expect(await registry.resolvePackVersion("base-utils", ">=3.0.0")).toBeNull();
+    });
+
+    it("should resolve dependency ranges that every dependent accepts", async () => {
+      await fs.writeFile('/test/templates/app/manifest.json', JSON.stringify({
+        ...testPack1,
+        name: "app",
+        dependencies: ["backend-node@^2.1.0", "base-utils@^1.2.0"]
+      }));
+
+      const result = await registry.resolveDependencies("app");
+
+      expect(result.resolved).toEqual(["base-utils", "backend-node"]);
+      expect(result.missing).toEqual([]);
+      expect(result.versions).toEqual({
+        app: { name: "app", version: "1.0.0", source: "local" },
+        "backend-node": { name: "backend-node", version: "2.1.0", source: "local" },
+        // backend-node accepts any base-utils, app needs ^1.2.0
+        "base-utils": { name: "base-utils", version: "1.4.2", source: "team" }
+      });
+    });
+
+    it("should report ranges no source can satisfy as missing", async () => {
+      await fs.writeFile('/test/templates/app/manifest.json', JSON.stringify({
+        ...testPack1,
+        name: "app",
+        dependencies: ["base-utils@^3.0.0"]
+      }));
+
+      const result = await registry.resolveDependencies("app");
+
+      expect(result.missing).toEqual(["base-utils@^3.0.0"]);
+    });
+
+    it("should report ranges that cannot be satisfied together", async () => {
+      await fs.writeFile('/test/templates/app/manifest.json', JSON.stringify({
+        ...testPack1,
+        name: "app",
+        dependencies: ["base-utils@^2.0.0", "pack-old"]
+      }));
+      await fs.writeFile('/test/templates/pack-old/manifest.json', JSON.stringify({
+        ...testPack1,
+        name: "pack-old",
+        dependencies: ["base-utils@~1.0.0"]
+      }));
+
+      const result = await registry.resolveDependencies("app");
+
+      expect(result.missing).toEqual(["base-utils@^2.0.0"]);
+    });
+  });
+
   describe("searchPacks", () => {
     it("should filter packs by category", async () => {
       const result = await registry.searchPacks({ category: "frontend" });
@@ -0,0 +1,215 @@
+import { PackTransaction } from "../PackTransaction";
+import { createTestFileSystem } from "../../testing";
+import { MemoryFileSystemAdapter } from "../../adapters/MemoryFileSystemAdapter";
+
+jest.mock("../../logger");
+
+describe("PackTransaction", () => {
+  let fs: MemoryFileSystemAdapter;
+  const projectRoot = "/project";
+  const journalPath = "/project/.zcc/transaction/journal.json";
+
+  beforeEach(async () => {
+    fs = await createTestFileSystem({
+      "/project/.zcc/config.json": '{"defaultMode":"engineer"}',
+      "/project/.zcc/modes/engineer.md": "# Engineer",
+      "/project/.zcc/modes/old.md": "# Old"
+    });
+  });
+
+  const projectFiles = () => Object.fromEntries(
+    Object.entries(fs.toJSON()).filter(([path]) => !path.startsWith("/project/.zcc/transaction"))
+  );
+
+  describe("staging", () => {
+    it("should show staged changes to reads but not to the project", async () => {
+      const transaction = await PackTransaction.begin(projectRoot, "install", "test-pack", fs);
+
+      await transaction.writeFile("/project/.zcc/modes/new.md", "# New");
+      await transaction.unlink("/project/.zcc/modes/old.md");
+      await transaction.copyFile("/project/.zcc/modes/engineer.md", "/project/.zcc/modes/copy.md");
+
+      expect(await transaction.readFile("/project/.zcc/modes/new.md", "utf-8")).toBe("# New");
+      expect(await transaction.exists("/project/.zcc/modes/old.md")).toBe(false);
+      expect((await transaction.readdir("/project/.zcc/modes")).sort()).toEqual(["copy.md", "engineer.md", "new.md"]);
+      await expect(transaction.readFile("/project/.zcc/modes/old.md")).rejects.toMatchObject({ code: "ENOENT" });
+
+      expect(await fs.exists("/project/.zcc/modes/new.md")).toBe(false);
+      expect(await fs.exists("/project/.zcc/modes/old.md")).toBe(true);
+    });
+
+    it("should treat files under a removed directory as deleted until something is written there", async () => {
+      const transaction = await PackTransaction.begin(projectRoot, "uninstall", "test-pack", fs);
+
+      await transaction.rmdir("/project/.zcc/modes");
+      expect(await transaction.exists("/project/.zcc/modes/engineer.md")).toBe(false);
+      expect(await transaction.exists("/project/.zcc/modes")).toBe(false);
+
+      await transaction.writeFile("/project/.zcc/modes/new.md", "# New");
+      expect(await transaction.readdir("/project/.zcc/modes")).toEqual(["new.md"]);
+    });
+
+    it("should refuse to start while another transaction is pending", async () => {
+      await PackTransaction.begin(projectRoot, "install", "first", fs);
+
+      await expect(PackTransaction.begin(projectRoot, "install", "second", fs))
+        .rejects.toThrow("Another pack transaction is pending");
+    });
+  });
+
+  describe("commit and rollback", () => {
+    it("should apply writes, deletes and modes on commit", async () => {
+      const transaction = await PackTransaction.begin(projectRoot, "install", "test-pack", fs);
+      await transaction.mkdir("/project/.zcc/scripts", { recursive: true });
+      await transaction.writeFile("/project/.zcc/scripts/run.sh", "echo hi");
+      await transaction.chmod("/project/.zcc/scripts/run.sh", 0o755);
+      await transaction.writeFile("/project/.zcc/modes/engineer.md", "# Engineer v2");
+      await transaction.unlink("/project/.zcc/modes/old.md");
+      const chmod = jest.spyOn(fs, "chmod");
+
+      await transaction.commit();
+
+      expect(await fs.readFile("/project/.zcc/scripts/run.sh", "utf-8")).toBe("echo hi");
+      expect(chmod).toHaveBeenCalledWith("/project/.zcc/scripts/run.sh", 0o755);
+      expect(await fs.readFile("/project/.zcc/modes/engineer.md", "utf-8")).toBe("# Engineer v2");
+      expect(await fs.exists("/project/.zcc/modes/old.md")).toBe(false);
+      expect(await fs.exists("/project/.zcc/transaction")).toBe(false);
+    });
+
+    it("should leave the project untouched on rollback, including directories it created", async () => {
+      const before = projectFiles();
+      const transaction = await PackTransaction.begin(projectRoot, "install", "test-pack", fs);
+      await transaction.mkdir("/project/.claude/agents", { recursive: true });
+      await transaction.writeFile("/project/.claude/agents/helper.md", "# Helper");
+      await transaction.unlink("/project/.zcc/modes/engineer.md");
+
+      await transaction.rollback();
+
+      expect(projectFiles()).toEqual(before);
+      expect(await fs.exists("/project/.claude")).toBe(false);
+      expect(await fs.exists("/project/.zcc/transaction")).toBe(false);
+      await expect(transaction.commit()).rejects.toThrow("already finished");
+    });
+
+    it("should restore replaced files when applying fails part way", async () => {
+      const before = projectFiles();
+      const transaction = await PackTransaction.begin(projectRoot, "install", "test-pack", fs);
+      await transaction.writeFile("/project/.zcc/modes/engineer.md", "# Engineer v2");
+      await transaction.unlink("/project/.zcc/modes/old.md");
+      await transaction.writeFile("/project/.zcc/config.json", "{}");
+
+      const copyFile = fs.copyFile.bind(fs);
+      let failed = false;
+      jest.spyOn(fs, "copyFile").mockImplementation(async (src, dest) => {
+        if (dest === "/project/.zcc/config.json" && !failed) {
+          failed = true;
+          throw new Error("disk full");
+        }
+        return copyFile(src, dest);
+      });
+
+      await expect(transaction.commit()).rejects.toThrow("disk full");
+
+      expect(projectFiles()).toEqual(before);
+      expect(await fs.exists(journalPath)).toBe(false);
+    });
+  });
+
+  describe("recovery", () => {
+    let kill: jest.SpyInstance;
+
+    beforeEach(() => {
+      // The transactions below belong to this process; recovery has to see them as abandoned
+      kill = jest.spyOn(process, "kill").mockImplementation(() => {
+        throw Object.assign(new Error("kill ESRCH"), { code: "ESRCH" });
+      });
+    });
+
+    afterEach(() => {
+      kill.mockRestore();
+    });
+
+    it("should do nothing without a pending transaction", async () => {
+      expect(await PackTransaction.recover(projectRoot, fs)).toBeNull();
+    });
+
+    it("should leave a transaction alone while its owner is running", async () => {
+      kill.mockReturnValue(true);
+      const transaction = await PackTransaction.begin(projectRoot, "install", "test-pack", fs);
+      await transaction.writeFile("/project/.zcc/modes/new.md", "# New");
+
+      expect(await PackTransaction.recover(projectRoot, fs)).toBeNull();
+      expect(kill).toHaveBeenCalledWith(process.pid, 0);
+      await expect(PackTransaction.begin(projectRoot, "install", "other", fs)).rejects.toThrow("Another pack transaction");
+
+      await transaction.commit();
+      expect(await fs.readFile("/project/.zcc/modes/new.md", "utf-8")).toBe("# New");
+    });
+
+    it("should roll back a run interrupted while staging", async () => {
+      const before = projectFiles();
+      const transaction = await PackTransaction.begin(projectRoot, "install", "test-pack", fs);
+      await transaction.mkdir("/project/.zcc/scripts");
+      await transaction.writeFile("/project/.zcc/scripts/run.sh", "echo hi");
+
+      expect(await PackTransaction.recover(projectRoot, fs)).toEqual({
+        operation: "install",
+        pack: "test-pack",
+        action: "rolled-back"
+      });
+      expect(projectFiles()).toEqual(before);
+      expect(await fs.exists("/project/.zcc/transaction")).toBe(false);
+    });
+
+    describe("a run interrupted while committing", () => {
+      let before: Record<string, string | null>;
+
+      beforeEach(async () => {
+        before = projectFiles();
+        const transaction = await PackTransaction.begin(projectRoot, "uninstall", "test-pack", fs);
+        await transaction.unlink("/project/.zcc/modes/old.md");
+        await transaction.writeFile("/project/.zcc/config.json", "{}");
+        await transaction.writeFile("/project/.zcc/modes/engineer.md", "# Engineer v2");
+
+        // The process dies while the second change is being applied
+        const copyFile = fs.copyFile.bind(fs);
+        let interrupted!: () => void;
+        const reached = new Promise<void>(resolve => { interrupted = resolve; });
+        const spy = jest.spyOn(fs, "copyFile").mockImplementation(async (src, dest) => {
+          if (dest === "/project/.zcc/config.json") {
+            interrupted();
+            return new Promise<void>(() => {});
+          }
+          return copyFile(src, dest);
+        });
+
+        void transaction.commit();
+        await reached;
+        spy.mockRestore();
+      });
+
+      it("should resume it", async () => {
+        expect(await PackTransaction.recover(projectRoot, fs)).toMatchObject({ action: "resumed" });
+
+        expect(await fs.readFile("/project/.zcc/config.json", "utf-8")).toBe("{}");
+        expect(await fs.readFile("/project/.zcc/modes/engineer.md", "utf-8")).toBe("# Engineer v2");
+        expect(await fs.exists("/project/.zcc/modes/old.md")).toBe(false);
+        expect(await fs.exists(journalPath)).toBe(false);
+      });
+
+      it("should roll it back when asked", async () => {
+        expect(await PackTransaction.recover(projectRoot, fs, { rollback: true }))
+          .toMatchObject({ action: "rolled-back" });
+
+        expect(projectFiles()).toEqual(before);
+      });
+    });
+
+    it("should reject an unreadable journal", async () => {
+      await fs.mkdir("/project/.zcc/transaction", { recursive: true });
+      await fs.writeFile(journalPath, "{ not json");
+
+      await expect(PackTransaction.recover(projectRoot, fs)).rejects.toThrow("Unreadable pack transaction journal");
+    });
+  });
+});
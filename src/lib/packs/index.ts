@@ -17,7 +17,10 @@ export { LocalPackSource } from './PackSource';
 // TODO: Add RemotePackSource and GitHubPackSource when implementing remote pack support
 
 // Pack registry and management
-export { PackRegistry } from './PackRegistry';
+export { PackRegistry, parsePackDependency, formatPackDependency, getPackDependencies } from './PackRegistry';
+export { PackLockfile } from './PackLockfile';
+export { PackTransaction, recoverPackTransaction } from './PackTransaction';
+export { PackBuilder } from './PackBuilder';
 
 // Validation and utilities
 export { PackValidator } from './PackValidator';
@@ -0,0 +1,276 @@
+/**
+ * PackScanner reads the files of a pack that can run code (scripts, hook scripts, hook
+ * definitions and the shell commands embedded in markdown components) and flags risky
+ * patterns line by line, so they can be reviewed before a pack is installed.
+ */
+
+import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
+import { PackStructure } from '../types/packs';
+
+export type ScanSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface PackScanFinding {
+  severity: ScanSeverity;
+  rule: string;
+  message: string;
+  // Relative to the pack directory, with forward slashes
+  file: string;
+  line: number;
+  snippet: string;
+}
+
+interface ScanRule {
+  id: string;
+  severity: ScanSeverity;
+  message: string;
+  pattern: RegExp;
+  // Less specific rules that a match makes redundant on the same line
+  supersedes?: string[];
+}
+
+const SEVERITY_ORDER: Record<ScanSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+const NETWORK_COMMAND = String.raw`\b(?:curl|wget|nc|ncat|netcat|telnet|scp|rsync|ftp)\b`;
+
+const SCAN_RULES: ScanRule[] = [
+  {
+    id: 'remote-code',
+    severity: 'critical',
+    message: 'Downloads a script and runs it',
+    pattern: new RegExp(String.raw`\b(?:curl|wget)\b[^|\n]*\|\s*(?:sudo\s+)?(?:ba|z|k|da)?sh\b|\b(?:ba|z)?sh\s+<\(\s*(?:curl|wget)\b|\b(?:source|\.)\s+<\(\s*(?:curl|wget)\b`),
+    supersedes: ['network'],
+  },
+  {
+    id: 'encoded-payload',
+    severity: 'critical',
+    message: 'Decodes a base64 payload and executes it',
+    pattern: /base64\s+(?:-d|--decode|-D)\b[^\n]*\|\s*(?:ba|z)?sh\b|\beval\b[^\n]*base64\s+(?:-d|--decode|-D)\b/,
+    supersedes: ['base64-decode', 'eval'],
+  },
+  {
+    id: 'base64-decode',
+    severity: 'high',
+    message: 'Decodes base64 data, which can hide a payload',
+    pattern: /base64\s+(?:-d|--decode|-D)\b|\batob\s*\(|Buffer\.from\([^)]*['"]base64['"]\)|\bb64decode\b/,
+  },
+  {
+    id: 'env-exfiltration',
+    severity: 'critical',
+    message: 'Sends environment variables or secrets over the network',
+    pattern: new RegExp(
+      String.raw`(?:\benv\b|\bprintenv\b|\bset\b\s*\||process\.env|\$\{?[A-Z_]*(?:TOKEN|SECRET|KEY|PASSWORD|CREDENTIALS?)\b)[^\n]*${NETWORK_COMMAND}` +
+      String.raw`|${NETWORK_COMMAND}[^\n]*(?:\$\(\s*(?:env|printenv)\b|\$\{?[A-Z_]*(?:TOKEN|SECRET|KEY|PASSWORD|CREDENTIALS?)\b|process\.env)`
+    ),
+    supersedes: ['network'],
+  },
+  {
+    id: 'delete-root',
+    severity: 'critical',
+    message: 'Recursively deletes the home or root directory',
+    pattern: /\brm\s+(?:-[a-zA-Z]*\s+)*-[a-zA-Z]*[rR][a-zA-Z]*\s+(?:-[a-zA-Z]+\s+)*["']?(?:\/|~|\$HOME|\$\{HOME\}|\/\*)["']?(?:\s|;|&|$)/,
+    supersedes: ['recursive-delete'],
+  },
+  {
+    id: 'recursive-delete',
+    severity: 'high',
+    message: 'Recursively deletes files (rm -rf)',
+    pattern: /\brm\s+(?:-[a-zA-Z]*\s+)*-(?:[a-zA-Z]*r[a-zA-Z]*f|[a-zA-Z]*f[a-zA-Z]*r)[a-zA-Z]*\b|\brm\s+--recursive\b/,
+  },
+  {
+    id: 'write-outside-project',
+    severity: 'high',
+    message: 'Writes outside the project directory',
+    pattern: /(?:>>?|\btee\s+(?:-a\s+)?|\b(?:cp|mv|install|ln)\b[^\n]*\s)["']?(?:~\/|\$HOME\/|\$\{HOME\}\/|\/(?:etc|usr|bin|sbin|var|opt|root|home|Users|Library|System)\/)|\.(?:bashrc|zshrc|bash_profile|profile|ssh\/authorized_keys)\b|\bcrontab\b/,
+  },
+  {
+    id: 'privilege-escalation',
+    severity: 'high',
+    message: 'Runs commands as root',
+    pattern: /\bsudo\b|\bdoas\b/,
+  },
+  {
+    id: 'eval',
+    severity: 'medium',
+    message: 'Evaluates dynamically built code',
+    pattern: /\beval\b|\bnew Function\s*\(|\bchild_process\b/,
+  },
+  {
+    id: 'network',
+    severity: 'medium',
+    message: 'Makes network requests',
+    pattern: new RegExp(String.raw`${NETWORK_COMMAND}|\/dev\/(?:tcp|udp)\/|\bfetch\s*\(|\brequests\.(?:get|post)\b|\burllib\b`),
+  },
+];
+
+// Files larger than this are reported instead of read
+const MAX_SCANNED_SIZE = 1024 * 1024;
+
+const SCRIPT_EXTENSIONS = ['.sh', '.bash', '.zsh', '.fish', '.js', '.cjs', '.mjs', '.ts', '.py', '.rb', '.pl', '.ps1'];
+
+export class PackScanner {
+  private fs: FileSystemAdapter;
+
+  constructor(fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
+  }
+
+  /**
+   * Scan the pack directory, most severe findings first
+   */
+  async scan(pack: PackStructure): Promise<PackScanFinding[]> {
+    if (!await this.fs.exists(pack.path)) {
+      return [];
+    }
+
+    const findings: PackScanFinding[] = [];
+    const unscannedDirs: string[] = [];
+    for (const file of await this.listFiles(pack.path, '', unscannedDirs)) {
+      findings.push(...await this.scanFile(pack.path, file));
+    }
+    for (const dir of unscannedDirs) {
+      // Bundled dependencies can hold any code, including install scripts; too much to read line by line
+      findings.push({
+        severity: 'high',
+        rule: 'unscanned',
+        message: 'Bundled dependencies are not scanned',
+        file: `${dir}/`,
+        line: 0,
+        snippet: '',
+      });
+    }
+
+    return findings.sort((a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line
+    );
+  }
+
+  /**
+   * Scan the text of one file; `file` only decides which lines count as code
+   */
+  scanContent(file: string, content: string): PackScanFinding[] {
+    const markdown = file.endsWith('.md');
+    const findings: PackScanFinding[] = [];
+
+    content.split(/\r?\n/).forEach((text, index) => {
+      const code = markdown ? embeddedCommands(text) : stripComment(file, text);
+      if (!code) {
+        return;
+      }
+
+      const matched = SCAN_RULES.filter(rule => rule.pattern.test(code));
+      const superseded = new Set(matched.flatMap(rule => rule.supersedes || []));
+      for (const rule of matched.filter(rule => !superseded.has(rule.id))) {
+        findings.push({
+          severity: rule.severity,
+          rule: rule.id,
+          message: rule.message,
+          file,
+          line: index + 1,
+          snippet: text.trim().slice(0, 200),
+        });
+      }
+    });
+
+    return findings;
+  }
+
+  private async scanFile(packDir: string, file: string): Promise<PackScanFinding[]> {
+    const fullPath = this.fs.join(packDir, ...file.split('/'));
+    if ((await this.fs.stat(fullPath)).size > MAX_SCANNED_SIZE) {
+      return [{
+        severity: 'medium',
+        rule: 'unscanned',
+        message: 'File is too large to scan',
+        file,
+        line: 0,
+        snippet: '',
+      }];
+    }
+
+    const content = await this.fs.readFile(fullPath);
+    const buffer = typeof content === 'string' ? Buffer.from(content) : content;
+    if (buffer.includes(0)) {
+      // Binaries can't be reviewed, and a pack has no reason to ship executables
+      return [{
+        severity: isCodePath(file) ? 'high' : 'low',
+        rule: 'binary',
+        message: 'Binary file cannot be scanned',
+        file,
+        line: 0,
+        snippet: '',
+      }];
+    }
+
+    return this.scanContent(file, buffer.toString('utf-8'));
+  }
+
+  /**
+   * Files that can run or embed commands: everything under scripts/ and hooks/,
+   * script files anywhere, and markdown components for their `!` commands.
+   * node_modules directories are added to `unscannedDirs` instead.
+   */
+  private async listFiles(dir: string, prefix: string, unscannedDirs: string[]): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of (await this.fs.readdir(dir)).sort()) {
+      if (entry === '.metadata.json') {
+        continue;
+      }
+      const fullPath = this.fs.join(dir, entry);
+      const relativePath = prefix ? `${prefix}/${entry}` : entry;
+      if ((await this.fs.stat(fullPath)).isDirectory()) {
+        if (entry === 'node_modules') {
+          unscannedDirs.push(relativePath);
+          continue;
+        }
+        files.push(...await this.listFiles(fullPath, relativePath, unscannedDirs));
+      } else if (isCodePath(relativePath) || relativePath.endsWith('.md')) {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+}
+
+/**
+ * One line per finding, e.g. `[high] hooks/scripts/sync.sh:12 Recursively deletes files (rm -rf)`
+ */
+export function formatFinding(finding: PackScanFinding): string {
+  const location = finding.line > 0 ? `${finding.file}:${finding.line}` : finding.file;
+  return `[${finding.severity}] ${location} ${finding.message}`;
+}
+
+export function isSevereFinding(finding: PackScanFinding): boolean {
+  return finding.severity === 'critical' || finding.severity === 'high';
+}
+
+function isCodePath(file: string): boolean {
+  return file.startsWith('scripts/') ||
+    file.startsWith('hooks/') ||
+    SCRIPT_EXTENSIONS.some(extension => file.endsWith(extension));
+}
+
+/**
+ * Shell commands a markdown component runs when used, written !`command` as in Claude
+ * Code commands; the rest of the line is prose
+ */
+function embeddedCommands(line: string): string {
+  const commands = [...line.matchAll(/!`([^`]+)`/g)].map(match => match[1]);
+  return commands.join('\n');
+}
+
+function stripComment(file: string, line: string): string {
+  const trimmed = line.trim();
+  if (trimmed.startsWith('#!')) {
+    return '';
+  }
+  if (trimmed.startsWith('#') && !file.endsWith('.json')) {
+    return '';
+  }
+  if (trimmed.startsWith('//') && /\.(?:c|m)?[jt]s$/.test(file)) {
+    return '';
+  }
+  return line;
+}
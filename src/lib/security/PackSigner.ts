@@ -0,0 +1,211 @@
+/**
+ * PackSigner signs packs with an author's ed25519 key and verifies those signatures.
+ *
+ * A signature covers every file of the pack directory (the files `zcc pack build` bundles,
+ * except the signature itself), so it survives bundling, publishing and extraction into
+ * a source cache. It is stored next to the manifest as `signature.json`.
+ */
+
+import * as crypto from 'crypto';
+import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
+import { ZccError } from '../errors';
+
+export const PACK_SIGNATURE_FILE = 'signature.json';
+
+export interface PackSignature {
+  algorithm: 'ed25519';
+  // Identifies the public key that verifies the signature, see getKeyId
+  keyId: string;
+  // sha256 over the signed files, see PackSigner.digest
+  digest: string;
+  signature: string; // base64
+  signedAt: string;
+}
+
+export interface SigningKeyPair {
+  keyId: string;
+  publicKey: string; // PEM (SPKI)
+  privateKey: string; // PEM (PKCS#8)
+}
+
+export interface SignatureVerification {
+  signed: boolean;
+  verified: boolean;
+  keyId?: string;
+  error?: string;
+}
+
+/**
+ * Whether a file or directory name is left out of signatures (and bundles): dotfiles
+ * and bundles. The installer refuses such files, so everything it writes is signed.
+ */
+export function isUnsignedEntry(name: string): boolean {
+  return name.startsWith('.') || name.endsWith('.tgz');
+}
+
+/**
+ * Short identifier of a public key: the start of the sha256 of its DER encoding
+ */
+export function getKeyId(publicKey: string | crypto.KeyObject): string {
+  const key = typeof publicKey === 'string' ? parsePublicKey(publicKey) : publicKey;
+  const der = key.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+/**
+ * Parse a PEM public key, accepting only ed25519 keys
+ */
+export function parsePublicKey(pem: string): crypto.KeyObject {
+  let key: crypto.KeyObject;
+  try {
+    key = crypto.createPublicKey(pem);
+  } catch (error) {
+    throw new ZccError(
+      `Invalid public key: ${error instanceof Error ? error.message : error}`,
+      'INVALID_SIGNING_KEY',
+      'Use the .pub file written by: zcc pack keygen'
+    );
+  }
+  assertEd25519(key);
+  return key;
+}
+
+export class PackSigner {
+  private fs: FileSystemAdapter;
+
+  constructor(fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
+  }
+
+  static generateKeyPair(): SigningKeyPair {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    return {
+      keyId: getKeyId(publicKey),
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    };
+  }
+
+  /**
+   * Sign the pack in `packDir` with a PEM private key and write its signature.json
+   */
+  async sign(packDir: string, privateKeyPem: string): Promise<PackSignature> {
+    let privateKey: crypto.KeyObject;
+    try {
+      privateKey = crypto.createPrivateKey(privateKeyPem);
+    } catch (error) {
+      throw new ZccError(
+        `Invalid private key: ${error instanceof Error ? error.message : error}`,
+        'INVALID_SIGNING_KEY',
+        'Use the .key file written by: zcc pack keygen'
+      );
+    }
+    assertEd25519(privateKey);
+
+    const digest = await this.digest(packDir);
+    const signature: PackSignature = {
+      algorithm: 'ed25519',
+      keyId: getKeyId(crypto.createPublicKey(privateKey)),
+      digest,
+      signature: crypto.sign(null, Buffer.from(digest), privateKey).toString('base64'),
+      signedAt: new Date().toISOString(),
+    };
+
+    await this.fs.writeFile(
+      this.fs.join(packDir, PACK_SIGNATURE_FILE),
+      `${JSON.stringify(signature, null, 2)}\n`
+    );
+    return signature;
+  }
+
+  async readSignature(packDir: string): Promise<PackSignature | null> {
+    const signaturePath = this.fs.join(packDir, PACK_SIGNATURE_FILE);
+    if (!await this.fs.exists(signaturePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(await this.fs.readFile(signaturePath, 'utf-8') as string);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check the pack's signature against the given public keys, keyed by key id
+   */
+  async verify(packDir: string, publicKeys: Map<string, string>): Promise<SignatureVerification> {
+    const signature = await this.readSignature(packDir);
+    if (!signature) {
+      return { signed: false, verified: false, error: 'Pack is not signed' };
+    }
+
+    const result: SignatureVerification = { signed: true, verified: false, keyId: signature.keyId };
+    if (signature.algorithm !== 'ed25519') {
+      return { ...result, error: `Unsupported signature algorithm: ${signature.algorithm}` };
+    }
+
+    const publicKey = publicKeys.get(signature.keyId);
+    if (!publicKey) {
+      return { ...result, error: `Signing key ${signature.keyId} is not trusted` };
+    }
+
+    // The files must still be the ones that were signed, and the signature must be over them
+    const digest = await this.digest(packDir);
+    if (digest !== signature.digest) {
+      return { ...result, error: 'Pack contents do not match the signature' };
+    }
+    try {
+      if (!crypto.verify(null, Buffer.from(digest), parsePublicKey(publicKey), Buffer.from(signature.signature, 'base64'))) {
+        return { ...result, error: 'Signature does not verify' };
+      }
+    } catch (error) {
+      return { ...result, error: `Signature does not verify: ${error instanceof Error ? error.message : error}` };
+    }
+
+    return { ...result, verified: true };
+  }
+
+  /**
+   * sha256 over the path and content hash of each signed file, in path order
+   */
+  async digest(packDir: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for (const file of await this.listSignedFiles(packDir)) {
+      const content = await this.fs.readFile(this.fs.join(packDir, ...file.split('/')));
+      const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+      hash.update(`${file}\n${contentHash}\n`);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Same selection as PackBuilder bundles: dotfiles and bundles are left out
+   */
+  private async listSignedFiles(dir: string, prefix = ''): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of (await this.fs.readdir(dir)).sort()) {
+      if (isUnsignedEntry(entry) || (!prefix && entry === PACK_SIGNATURE_FILE)) {
+        continue;
+      }
+      const fullPath = this.fs.join(dir, entry);
+      const relativePath = prefix ? `${prefix}/${entry}` : entry;
+      if ((await this.fs.stat(fullPath)).isDirectory()) {
+        files.push(...await this.listSignedFiles(fullPath, relativePath));
+      } else {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+}
+
+function assertEd25519(key: crypto.KeyObject): void {
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new ZccError(
+      `Unsupported key type: ${key.asymmetricKeyType}`,
+      'INVALID_SIGNING_KEY',
+      'Packs are signed with ed25519 keys; create one with: zcc pack keygen'
+    );
+  }
+}
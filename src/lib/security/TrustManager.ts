@@ -3,6 +3,10 @@ import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
 import * as crypto from 'crypto';
 import { IPackSource } from '../packs/PackSource';
 import { PackStructure } from '../types/packs';
+import { PackSigner, SignatureVerification, getKeyId } from './PackSigner';
+import { PackScanFinding, PackScanner, formatFinding, isSevereFinding } from './PackScanner';
+import { ZccError } from '../errors';
+import { logger } from '../logger';
 
 export interface TrustPolicy {
   allowUntrustedSources: boolean;
@@ -24,6 +28,17 @@ export interface TrustRecord {
   action: 'installed' | 'updated' | 'removed';
   userConsent: boolean;
   checksum?: string;
+  // Content scan findings shown before consent
+  findings?: PackScanFinding[];
+}
+
+// Author public key packs from the listed sources may be signed with
+export interface TrustedKey {
+  keyId: string;
+  publicKey: string; // PEM
+  sources: string[];
+  addedAt: string;
+  description?: string;
 }
 
 export interface SecurityValidationResult {
@@ -32,20 +47,25 @@ export interface SecurityValidationResult {
   warnings: string[];
   errors: string[];
   requiresConsent: boolean;
+  // Risky lines in the pack's scripts, hooks and commands (pack validation only)
+  findings?: PackScanFinding[];
 }
 
 export class TrustManager {
   private trustPolicyPath: string;
   private trustRecordsPath: string;
   private trustedSourcesPath: string;
+  private keyringPath: string;
   private policy: TrustPolicy;
   private records: TrustRecord[] = [];
   private trustedSources: Map<string, TrustedSourceConfig> = new Map();
+  private keyring: Map<string, TrustedKey> = new Map();
 
   constructor(private projectRoot: string, private fs: FileSystemAdapter = new NodeFileSystemAdapter()) {
     this.trustPolicyPath = this.fs.join(projectRoot, '.zcc', 'security', 'trust-policy.json');
     this.trustRecordsPath = this.fs.join(projectRoot, '.zcc', 'security', 'trust-records.json');
     this.trustedSourcesPath = this.fs.join(projectRoot, '.zcc', 'security', 'trusted-sources.json');
+    this.keyringPath = this.fs.join(projectRoot, '.zcc', 'security', 'keyring.json');
     
     // Default trust policy
     this.policy = {
@@ -65,6 +85,7 @@ export class TrustManager {
     await this.loadPolicy();
     await this.loadRecords();
     await this.loadTrustedSources();
+    await this.loadKeyring();
   }
 
   private async ensureSecurityDirectory(): Promise<void> {
@@ -138,6 +159,40 @@ export class TrustManager {
     );
   }
 
+  /**
+   * Load the trusted signing keys. A keyring that cannot be read stops here instead of
+   * being treated as empty, so nothing is installed against keys nobody can see.
+   */
+  private async loadKeyring(): Promise<void> {
+    if (!await this.fileExists(this.keyringPath)) {
+      return;
+    }
+
+    let keys: unknown;
+    try {
+      const content = await this.fs.readFile(this.keyringPath, 'utf-8') as string;
+      keys = JSON.parse(content).keys ?? [];
+    } catch (error) {
+      logger.debug(`Failed to load keyring ${this.keyringPath}: ${error}`);
+    }
+
+    if (!Array.isArray(keys) || !keys.every(key => typeof key?.keyId === 'string')) {
+      throw new ZccError(
+        `Cannot read the trusted key keyring at ${this.keyringPath}`,
+        'INVALID_KEYRING',
+        'Fix the file, or delete it and trust your keys again with `zcc source trust <id> --key <file>`'
+      );
+    }
+    this.keyring = new Map((keys as TrustedKey[]).map(key => [key.keyId, key]));
+  }
+
+  private async saveKeyring(): Promise<void> {
+    await this.fs.writeFile(
+      this.keyringPath,
+      JSON.stringify({ keys: Array.from(this.keyring.values()) }, null, 2)
+    );
+  }
+
   async validateSource(source: IPackSource): Promise<SecurityValidationResult> {
     const result: SecurityValidationResult = {
       valid: true,
@@ -155,9 +210,7 @@ export class TrustManager {
       return result;
     }
 
-    // Check source type (treat any non-local source as remote)
-    const sourceType = (sourceInfo as any).type;
-    if (sourceType && sourceType !== 'local') {
+    if (this.isRemoteSource(source)) {
       // Validate domain if it's a URL
       const domain = this.extractDomain(sourceInfo.path);
       if (domain) {
@@ -196,8 +249,23 @@ export class TrustManager {
       requiresConsent: false,
     };
 
-    // Check author trust
-    if (this.policy.trustedAuthors.includes(pack.manifest.author)) {
+    // The author named in the manifest is only believed when the source is, otherwise
+    // packs from untrusted remote sources must be signed by a key trusted for the source
+    const sourceId = source.getSourceInfo().name;
+    const signature = await this.verifyPackSignature(pack, sourceId);
+    const untrustedRemote = this.isRemoteSource(source) && !this.isTrustedSource(sourceId);
+    if (signature.verified) {
+      result.trusted = true;
+    } else if (untrustedRemote) {
+      result.valid = false;
+      result.errors.push(
+        `Pack '${pack.manifest.name}' from untrusted source '${sourceId}' is not signed by a trusted key: ${signature.error}`
+      );
+    } else if (this.getTrustedKeys(sourceId).some(key => key.keyId === signature.keyId)) {
+      // Signed with a key we know, but the files no longer match: refuse even from trusted sources
+      result.valid = false;
+      result.errors.push(`Signature check failed for pack '${pack.manifest.name}': ${signature.error}`);
+    } else if (this.policy.trustedAuthors.includes(pack.manifest.author)) {
       result.trusted = true;
     }
 
@@ -220,6 +288,18 @@ export class TrustManager {
       );
     }
 
+    // Scan what the pack would run, not just what its manifest declares
+    result.findings = await new PackScanner(this.fs).scan(pack);
+    const severe = result.findings.filter(isSevereFinding);
+    if (severe.length > 0) {
+      result.warnings.push(
+        `Content scan found ${severe.length} high-risk line${severe.length === 1 ? '' : 's'} in the pack's scripts and hooks`
+      );
+      if (!result.trusted) {
+        result.requiresConsent = true;
+      }
+    }
+
     // Check component counts
     const componentCount = 
       (pack.manifest.components.modes?.length || 0) +
@@ -245,7 +325,8 @@ export class TrustManager {
   async recordInstallation(
     source: IPackSource,
     pack: PackStructure,
-    userConsent: boolean
+    userConsent: boolean,
+    findings?: PackScanFinding[]
   ): Promise<void> {
     if (!this.policy.auditInstallations) {
       return;
@@ -261,6 +342,7 @@ export class TrustManager {
       action: 'installed',
       userConsent,
       checksum: await this.calculatePackChecksum(pack),
+      ...(findings && findings.length > 0 ? { findings } : {}),
     };
 
     this.records.push(record);
@@ -292,6 +374,57 @@ export class TrustManager {
     ];
   }
 
+  /**
+   * Trust an author's ed25519 public key (PEM) for packs from a source
+   */
+  async addTrustedKey(sourceId: string, publicKey: string, description?: string): Promise<TrustedKey> {
+    const keyId = getKeyId(publicKey);
+    const existing = this.keyring.get(keyId);
+    const key: TrustedKey = existing
+      ? { ...existing, sources: Array.from(new Set([...existing.sources, sourceId])) }
+      : { keyId, publicKey: publicKey.trim(), sources: [sourceId], addedAt: new Date().toISOString(), description };
+
+    this.keyring.set(keyId, key);
+    await this.saveKeyring();
+    return key;
+  }
+
+  /**
+   * Stop trusting a key for a source; the key leaves the keyring with its last source
+   */
+  async removeTrustedKey(sourceId: string, keyId: string): Promise<boolean> {
+    const key = this.keyring.get(keyId);
+    if (!key || !key.sources.includes(sourceId)) {
+      return false;
+    }
+
+    const sources = key.sources.filter(id => id !== sourceId);
+    if (sources.length > 0) {
+      this.keyring.set(keyId, { ...key, sources });
+    } else {
+      this.keyring.delete(keyId);
+    }
+    await this.saveKeyring();
+    return true;
+  }
+
+  getTrustedKeys(sourceId?: string): TrustedKey[] {
+    const keys = Array.from(this.keyring.values());
+    return sourceId ? keys.filter(key => key.sources.includes(sourceId)) : keys;
+  }
+
+  /**
+   * Verify a pack's signature against the keys trusted for its source
+   */
+  async verifyPackSignature(pack: PackStructure, sourceId: string): Promise<SignatureVerification> {
+    const publicKeys = new Map(this.getTrustedKeys(sourceId).map(key => [key.keyId, key.publicKey]));
+    try {
+      return await new PackSigner(this.fs).verify(pack.path, publicKeys);
+    } catch (error) {
+      return { signed: false, verified: false, error: `Cannot read pack files: ${error instanceof Error ? error.message : error}` };
+    }
+  }
+
   async updatePolicy(updates: Partial<TrustPolicy>): Promise<void> {
     this.policy = { ...this.policy, ...updates };
     await this.savePolicy();
@@ -308,6 +441,12 @@ export class TrustManager {
     return [...this.records];
   }
 
+  // Any source that is not a local directory counts as remote
+  private isRemoteSource(source: IPackSource): boolean {
+    const sourceType = (source.getSourceInfo() as any).type;
+    return Boolean(sourceType) && sourceType !== 'local';
+  }
+
   private extractDomain(url: string): string | null {
     try {
       const urlObj = new URL(url);
@@ -359,6 +498,11 @@ export class TrustManager {
         }
       }
     }
+
+    // Then the content of the files that run
+    for (const finding of await new PackScanner(this.fs).scan(pack)) {
+      threats.push(formatFinding(finding));
+    }
     
     return threats;
   }
@@ -56,6 +56,10 @@ export class GitHubPackSource extends RemotePackSource {
   }
 
   async listPacks(): Promise<string[]> {
+    if (this.isOffline()) {
+      return this.listCachedPacks();
+    }
+
     // Check cache
     const now = Date.now();
     if (this.packListCache && (now - this.packListCacheTime) < this.CACHE_TTL) {
@@ -154,14 +158,20 @@ export class GitHubPackSource extends RemotePackSource {
   }
 
   // Override loadPack to pass pack name to saveToCache for proper extraction
-  async loadPack(name: string): Promise<PackStructure> {
+  async loadPack(name: string, options: { refresh?: boolean } = {}): Promise<PackStructure> {
+    this.packCacheDir(name);
+
     // Check memory cache first
-    if (this.packCache.has(name)) {
+    if (!options.refresh && this.packCache.has(name)) {
       return this.packCache.get(name)!;
     }
 
+    if (this.isOffline()) {
+      return this.loadOffline(name);
+    }
+
     // Check disk cache
-    const cachedPack = await this.loadFromCache(name);
+    const cachedPack = options.refresh ? null : await this.loadFromCache(name);
     if (cachedPack) {
       this.packCache.set(name, cachedPack);
       return cachedPack;
@@ -180,6 +190,11 @@ export class GitHubPackSource extends RemotePackSource {
       }
     }
 
+    // A refresh replaces the cached copy once the new one has been fetched
+    if (options.refresh) {
+      await this.clearCache(name);
+    }
+
     // Save to cache and extract (pass pack name for GitHub extraction)
     const packPath = await this.saveToCache(name, content, metadata, name);
     const pack = await this.extractAndLoadPack(packPath, name);
@@ -190,7 +205,7 @@ export class GitHubPackSource extends RemotePackSource {
 
   // Override saveToCache to pass pack name to extractPackContent
   protected async saveToCache(name: string, content: Buffer, metadata: RemotePackMetadata, packName?: string): Promise<string> {
-    const cacheDir = this.join(this.cachePath, name);
+    const cacheDir = this.packCacheDir(name);
     await this.mkdir(cacheDir, { recursive: true });
 
     // Save metadata
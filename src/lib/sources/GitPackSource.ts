@@ -0,0 +1,191 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { IPackSource, LocalPackSource } from '../packs/PackSource';
+import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
+import { PackComponentType, PackStructure } from '../types/packs';
+import { OfflineError, ZccError } from '../errors';
+import { logger } from '../logger';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitPackSourceConfig {
+  name: string;
+  // Anything git can clone: https://, ssh, git@host:path or file://
+  url: string;
+  // Branch, tag or commit; defaults to the remote's default branch
+  ref?: string;
+  directory?: string;
+  cachePath?: string;
+  trustLevel?: 'trusted' | 'untrusted';
+  // Use the existing clone as is instead of fetching
+  offline?: boolean;
+}
+
+/**
+ * Pack source reading `<directory>/<name>` from any git remote. The repository is
+ * cloned into the source cache once and fetched again the first time a source instance
+ * needs it; the resolved commit is reported in the source info, so installations
+ * record exactly what they were installed from.
+ */
+export class GitPackSource implements IPackSource {
+  private config: Required<Omit<GitPackSourceConfig, 'ref' | 'offline'>> & { ref?: string; offline?: boolean };
+  private repoDir: string;
+  private packs: LocalPackSource;
+  private commit?: string;
+  // Commit to check out instead of the configured ref
+  private pinnedCommit?: string;
+  private syncing: Promise<void> | null = null;
+
+  constructor(config: GitPackSourceConfig, private fs: FileSystemAdapter = new NodeFileSystemAdapter()) {
+    this.config = {
+      ...config,
+      directory: config.directory || 'packs',
+      cachePath: config.cachePath || path.join(process.cwd(), '.zcc', '.cache', 'sources'),
+      trustLevel: config.trustLevel || 'untrusted',
+    };
+
+    // Each URL and ref gets its own checkout, so sources pinned to different refs of one repository don't collide
+    const key = crypto.createHash('sha256').update(`${config.url}#${config.ref || ''}`).digest('hex').slice(0, 16);
+    this.repoDir = path.join(this.config.cachePath, 'git', key);
+    this.packs = new LocalPackSource(path.join(this.repoDir, this.config.directory), this.fs);
+  }
+
+  async loadPack(name: string): Promise<PackStructure> {
+    await this.sync();
+    return this.packs.loadPack(name);
+  }
+
+  async listPacks(): Promise<string[]> {
+    await this.sync();
+    return this.packs.listPacks();
+  }
+
+  async hasPack(name: string): Promise<boolean> {
+    await this.sync();
+    return this.packs.hasPack(name);
+  }
+
+  async getComponentPath(packName: string, componentType: PackComponentType, componentName: string): Promise<string> {
+    await this.sync();
+    return this.packs.getComponentPath(packName, componentType, componentName);
+  }
+
+  async hasComponent(packName: string, componentType: PackComponentType, componentName: string): Promise<boolean> {
+    await this.sync();
+    return this.packs.hasComponent(packName, componentType, componentName);
+  }
+
+  getSourceInfo(): any {
+    return {
+      name: this.config.name,
+      type: 'git',
+      path: this.config.url,
+      url: this.config.url,
+      ref: this.config.ref,
+      commit: this.commit,
+      trustLevel: this.config.trustLevel,
+    };
+  }
+
+  /**
+   * Check out the given commit instead of the configured ref, e.g. to install the
+   * commit a lockfile recorded after the branch has moved on
+   */
+  async checkoutCommit(commit: string): Promise<void> {
+    await this.syncing?.catch(() => undefined);
+    this.pinnedCommit = commit;
+    this.syncing = null;
+    await this.sync();
+  }
+
+  /**
+   * Commit the checkout is at, once the repository has been fetched
+   */
+  getCommit(): string | undefined {
+    return this.commit;
+  }
+
+  getTrustLevel(): 'trusted' | 'untrusted' {
+    return this.config.trustLevel;
+  }
+
+  isTrusted(): boolean {
+    return this.config.trustLevel === 'trusted';
+  }
+
+  private sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.fetchAndCheckout().catch(error => {
+        // Let the next call try again
+        this.syncing = null;
+        throw error;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async fetchAndCheckout(): Promise<void> {
+    const cloned = await this.fs.exists(path.join(this.repoDir, '.git'));
+    if (this.config.offline) {
+      if (!cloned) {
+        throw new OfflineError(`Git source '${this.config.name}' has not been synced`);
+      }
+    } else if (cloned) {
+      await this.git(['fetch', '--quiet', '--prune', '--tags', '--force', 'origin'], this.repoDir);
+    } else {
+      await this.fs.mkdir(path.dirname(this.repoDir), { recursive: true });
+      await this.git(['clone', '--quiet', '--no-checkout', '--', this.config.url, this.repoDir]);
+    }
+
+    const commit = await this.resolveRef();
+    await this.git(['checkout', '--quiet', '--force', '--detach', commit], this.repoDir);
+    this.commit = commit;
+    logger.debug(`Git source ${this.config.name} at ${commit} (${this.config.ref || 'default branch'})`);
+  }
+
+  /**
+   * Resolve a pinned commit, or the configured ref as a remote branch, then a tag, then a commit
+   */
+  private async resolveRef(): Promise<string> {
+    const ref = this.pinnedCommit || this.config.ref;
+    const candidates = this.pinnedCommit
+      ? [this.pinnedCommit]
+      : ref
+        ? [`refs/remotes/origin/${ref}`, `refs/tags/${ref}`, ref]
+        : ['refs/remotes/origin/HEAD'];
+
+    for (const candidate of candidates) {
+      try {
+        return await this.git(['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`], this.repoDir);
+      } catch {
+        // Try the next kind of ref
+      }
+    }
+
+    throw new ZccError(
+      `Cannot resolve '${ref || 'HEAD'}' in ${this.config.url}`,
+      'GIT_REF_NOT_FOUND',
+      'Check the branch, tag or commit configured for this source'
+    );
+  }
+
+  private async git(args: string[], cwd?: string): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd,
+        // Fail instead of waiting for credentials nobody can type
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      });
+      return stdout.trim();
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new ZccError(
+        `git ${args.join(' ')} failed: ${stderr || (error instanceof Error ? error.message : error)}`,
+        'GIT_ERROR'
+      );
+    }
+  }
+}
@@ -0,0 +1,256 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { RemotePackSource, RemotePackMetadata, RemotePackSourceConfig } from './RemotePackSource';
+import { FetchHttpAdapter, HttpAdapter, HttpError } from '../adapters/HttpAdapter';
+import { PackStructure } from '../types/packs';
+import { OfflineError, ZccError } from '../errors';
+import { logger } from '../logger';
+import {
+  REGISTRY_INDEX_FILE,
+  RegistryIndex,
+  createRegistryIndex,
+  parseRegistryIndex,
+} from './RegistryIndex';
+
+export interface HttpPackSourceConfig extends Omit<RemotePackSourceConfig, 'baseUrl'> {
+  // Registry root, or the URL of its index file when it is not `<root>/index.json`
+  url: string;
+  token?: string; // Sent as a bearer token
+}
+
+// The last index fetched from the registry, kept on disk for conditional requests
+interface CachedIndex {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  index: RegistryIndex;
+}
+
+/**
+ * Pack source for registries laid out as described in RegistryIndex, such as the ones
+ * `zcc pack publish` writes to. Any static host works: the index is revalidated with
+ * If-None-Match/If-Modified-Since, and cached packs are reused only while their sha256
+ * matches the index.
+ */
+export class HttpPackSource extends RemotePackSource {
+  private indexUrl: string;
+  private indexCachePath: string;
+  private index: RegistryIndex | null = null;
+
+  constructor(config: HttpPackSourceConfig, private http: HttpAdapter = new FetchHttpAdapter()) {
+    const baseUrl = config.url.endsWith('.json') || config.url.endsWith('/') ? config.url : `${config.url}/`;
+    super({
+      ...config,
+      baseUrl,
+      description: config.description || `Pack registry: ${config.url}`,
+    });
+
+    this.indexUrl = baseUrl.endsWith('.json') ? baseUrl : new URL(REGISTRY_INDEX_FILE, baseUrl).toString();
+    this.indexCachePath = path.join(this.cachePath, '.index.json');
+    if (config.token) {
+      this.config.headers = {
+        ...this.config.headers,
+        'Authorization': `Bearer ${config.token}`,
+      };
+    }
+  }
+
+  async listPacks(): Promise<string[]> {
+    if (this.isOffline()) {
+      return this.listCachedPacks();
+    }
+
+    const index = await this.fetchIndex();
+    return Object.keys(index.packs).sort();
+  }
+
+  /**
+   * Every version the index lists for a pack; offline, only the cached one
+   */
+  async listVersions(name: string): Promise<string[]> {
+    if (this.isOffline()) {
+      return [(await this.loadOffline(name)).manifest.version];
+    }
+
+    const entry = (await this.fetchIndex()).packs[name];
+    return entry ? Object.keys(entry.versions) : [];
+  }
+
+  /**
+   * Metadata of a published version of a pack, the latest unless one is given
+   */
+  async fetchPackMetadata(name: string, version?: string): Promise<RemotePackMetadata> {
+    const entry = (await this.fetchIndex()).packs[name];
+    const resolvedVersion = version || entry?.latest;
+    const cacheKey = `${name}@${resolvedVersion}`;
+    if (this.metadataCache.has(cacheKey)) {
+      return this.metadataCache.get(cacheKey)!;
+    }
+
+    const published = resolvedVersion ? entry?.versions[resolvedVersion] : undefined;
+    if (!published) {
+      throw new Error(`Pack ${version ? `${name}@${version}` : name} not found in ${this.indexUrl}`);
+    }
+    if (!published.sha256) {
+      throw new ZccError(
+        `${name}@${resolvedVersion} in ${this.indexUrl} has no sha256 checksum`,
+        'PACK_INTEGRITY_ERROR',
+        'Registry indexes must list a sha256 digest for every archive'
+      );
+    }
+
+    const metadata: RemotePackMetadata = {
+      name,
+      version: resolvedVersion!,
+      description: published.description,
+      author: published.author,
+      url: new URL(published.url, this.indexUrl).toString(),
+      checksum: published.sha256,
+      size: published.size,
+      lastUpdated: published.publishedAt,
+    };
+    this.metadataCache.set(cacheKey, metadata);
+    return metadata;
+  }
+
+  async fetchPackContent(metadata: RemotePackMetadata): Promise<Buffer> {
+    try {
+      const response = await this.http.request(metadata.url, this.requestOptions());
+      return response.body || Buffer.from(response.data);
+    } catch (error: any) {
+      throw new Error(`Failed to fetch pack content: ${error.message}`);
+    }
+  }
+
+  /**
+   * Load the given version, or the one the index lists as latest, from the cache when it
+   * holds that exact archive and from the registry otherwise
+   */
+  async loadPack(name: string, options: { refresh?: boolean; version?: string } = {}): Promise<PackStructure> {
+    const cacheDir = this.packCacheDir(name);
+    const loaded = this.packCache.get(name);
+
+    if (this.isOffline()) {
+      const cached = loaded || await this.loadOffline(name);
+      if (options.version && cached.manifest.version !== options.version) {
+        throw new OfflineError(`Pack '${name}@${options.version}' from source '${this.config.name}' is not cached`);
+      }
+      return cached;
+    }
+
+    const metadata = await this.fetchPackMetadata(name, options.version);
+    if (loaded?.manifest.version === metadata.version) {
+      return loaded;
+    }
+
+    // The checksum ties the cache to the index, so unlike other sources it never expires
+    if (await this.cachedChecksum(cacheDir) === metadata.checksum) {
+      try {
+        const cached = await this.extractAndLoadPack(cacheDir, name);
+        this.packCache.set(name, cached);
+        return cached;
+      } catch {
+        logger.debug(`Cached copy of ${name} is incomplete, downloading it again`);
+      }
+    }
+
+    const content = await this.fetchPackContent(metadata);
+    const digest = crypto.createHash('sha256').update(content).digest('hex');
+    if (digest !== metadata.checksum) {
+      throw new ZccError(
+        `Pack integrity check failed for ${name}@${metadata.version}: expected sha256 ${metadata.checksum}, got ${digest}`,
+        'PACK_INTEGRITY_ERROR',
+        `The archive at ${metadata.url} does not match the registry index`
+      );
+    }
+
+    // Drop whatever an earlier version left in the cache before extracting this one
+    await this.clearCache(name);
+    const packPath = await this.saveToCache(name, content, metadata);
+    const pack = await this.extractAndLoadPack(packPath, name);
+
+    this.packCache.set(name, pack);
+    return pack;
+  }
+
+  getSourceInfo(): any {
+    return {
+      ...super.getSourceInfo(),
+      type: 'http',
+      url: this.config.baseUrl,
+    };
+  }
+
+  private async fetchIndex(): Promise<RegistryIndex> {
+    if (this.index) {
+      return this.index;
+    }
+
+    const cached = await this.readCachedIndex();
+    const headers: Record<string, string> = { ...this.config.headers };
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    try {
+      const response = await this.http.request(this.indexUrl, { timeout: this.config.timeout, headers });
+
+      if (response.status === 304 && cached) {
+        logger.debug(`Registry index ${this.indexUrl} not modified`);
+        this.index = cached.index;
+      } else {
+        this.index = parseRegistryIndex(response.data, this.indexUrl);
+        await this.writeCachedIndex({
+          url: this.indexUrl,
+          etag: response.headers['etag'],
+          lastModified: response.headers['last-modified'],
+          index: this.index,
+        });
+      }
+    } catch (error) {
+      // A registry nothing has been published to yet has no index
+      if (error instanceof HttpError && error.statusCode === 404) {
+        this.index = createRegistryIndex();
+      } else {
+        throw error;
+      }
+    }
+    return this.index;
+  }
+
+  private async readCachedIndex(): Promise<CachedIndex | null> {
+    try {
+      const cached: CachedIndex = JSON.parse(await fs.readFile(this.indexCachePath, 'utf-8'));
+      return cached.url === this.indexUrl ? cached : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeCachedIndex(cached: CachedIndex): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.indexCachePath), { recursive: true });
+      await fs.writeFile(this.indexCachePath, JSON.stringify(cached, null, 2));
+    } catch (error) {
+      // The cache only saves bandwidth; failing to write it is not an error
+      logger.debug(`Failed to cache registry index ${this.indexUrl}: ${error}`);
+    }
+  }
+
+  private async cachedChecksum(cacheDir: string): Promise<string | undefined> {
+    try {
+      const metadata: RemotePackMetadata = JSON.parse(await fs.readFile(path.join(cacheDir, '.metadata.json'), 'utf-8'));
+      return metadata.checksum;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private requestOptions() {
+    return { timeout: this.config.timeout, headers: this.config.headers };
+  }
+}
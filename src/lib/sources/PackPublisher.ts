@@ -0,0 +1,252 @@
+/**
+ * PackPublisher builds a pack and publishes the archive to a writable source.
+ *
+ * Two kinds of source accept packs, both laid out as described in RegistryIndex:
+ * - `local` sources: the registry lives in the source directory, and the pack is also
+ *   unpacked to `<path>/<name>/` so the source can install it right away
+ * - `http` sources: archives and the index are uploaded with PUT, and the index is
+ *   replaced conditionally on the ETag it was read with, so concurrent publishes
+ *   cannot drop each other's versions
+ */
+
+import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
+import { FetchHttpAdapter, HttpAdapter, HttpError } from '../adapters/HttpAdapter';
+import { PackBuilder } from '../packs/PackBuilder';
+import { PackBuildResult, PackPublishResult } from '../types/packs';
+import { ZccError } from '../errors';
+import { logger } from '../logger';
+import { SourceConfig, SourceRegistry } from './SourceRegistry';
+import {
+  REGISTRY_INDEX_FILE,
+  RegistryIndex,
+  addRegistryVersion,
+  createRegistryIndex,
+  parseRegistryIndex,
+  registryArchivePath,
+} from './RegistryIndex';
+
+export interface PackPublishOptions {
+  // Directory for the built archive, defaults to `<packDir>/dist`
+  outDir?: string;
+  // Replace a version that is already published
+  force?: boolean;
+  // PEM ed25519 private key to sign the pack with
+  signingKey?: string;
+}
+
+interface LoadedIndex {
+  index: RegistryIndex;
+  // ETag of the index as read, when the registry sends one
+  etag: string | null;
+  // False when the registry has no index yet
+  exists: boolean;
+}
+
+interface PublishTarget {
+  readIndex(): Promise<LoadedIndex>;
+  writeArchive(relativePath: string, archive: Buffer, build: PackBuildResult, packDir: string): Promise<string>;
+  writeIndex(index: RegistryIndex, loaded: LoadedIndex): Promise<void>;
+}
+
+export class PackPublisher {
+  private builder: PackBuilder;
+
+  constructor(
+    private projectRoot: string,
+    private fs: FileSystemAdapter = new NodeFileSystemAdapter(),
+    private http: HttpAdapter = new FetchHttpAdapter()
+  ) {
+    this.builder = new PackBuilder(this.fs);
+  }
+
+  async publish(packDir: string, sourceId: string, options: PackPublishOptions = {}): Promise<PackPublishResult> {
+    const registry = new SourceRegistry(this.projectRoot, this.fs);
+    await registry.initialize();
+
+    const sourceConfig = registry.getSourceConfig(sourceId);
+    if (!sourceConfig) {
+      throw new ZccError(
+        `Source '${sourceId}' not found`,
+        'SOURCE_NOT_FOUND',
+        'Run "zcc source list" to see configured sources'
+      );
+    }
+    const target = this.createTarget(sourceConfig);
+
+    const build = await this.builder.build(packDir, options.outDir || this.fs.join(packDir, 'dist'), {
+      signingKey: options.signingKey,
+    });
+    if (!build.valid || !build.archivePath || !build.checksum) {
+      throw new ZccError(
+        `Pack '${build.manifest.name}' is invalid: ${build.errors.join(', ')}`,
+        'INVALID_PACK_MANIFEST',
+        'Fix the manifest and run "zcc pack build" to check it'
+      );
+    }
+
+    const { name, version } = build.manifest;
+    const loaded = await target.readIndex();
+    if (loaded.index.packs[name]?.versions[version] && !options.force) {
+      throw new ZccError(
+        `${name}@${version} is already published to '${sourceId}'`,
+        'PACK_VERSION_EXISTS',
+        'Bump the version in manifest.json, or use --force to replace it'
+      );
+    }
+
+    const archive = await this.fs.readFile(build.archivePath) as Buffer;
+    const archivePath = registryArchivePath(name, version);
+
+    // The archive goes up before the index, so the index never lists a missing archive
+    const location = await target.writeArchive(archivePath, archive, build, packDir);
+    await target.writeIndex(
+      addRegistryVersion(loaded.index, name, version, {
+        url: archivePath,
+        sha256: build.checksum,
+        size: archive.length,
+        description: build.manifest.description,
+        author: build.manifest.author,
+        publishedAt: new Date().toISOString(),
+      }),
+      loaded
+    );
+
+    logger.debug(`Published ${name}@${version} to ${location}`);
+
+    return { name, version, sourceId, location, checksum: build.checksum, size: archive.length };
+  }
+
+  private createTarget(config: SourceConfig): PublishTarget {
+    switch (config.type) {
+      case 'local':
+        return this.localTarget(config.config.path);
+      case 'http':
+        return this.httpTarget(config.config.url, config.config.token);
+      default:
+        throw new ZccError(
+          `Source '${config.id}' (${config.type}) does not accept published packs`,
+          'SOURCE_NOT_WRITABLE',
+          'Publish to a local or http source instead'
+        );
+    }
+  }
+
+  private localTarget(root: string): PublishTarget {
+    const fs = this.fs;
+    const indexPath = fs.join(root, REGISTRY_INDEX_FILE);
+
+    return {
+      async readIndex() {
+        if (!await fs.exists(indexPath)) {
+          return { index: createRegistryIndex(), etag: null, exists: false };
+        }
+        const content = await fs.readFile(indexPath, 'utf-8') as string;
+        return { index: parseRegistryIndex(content, indexPath), etag: null, exists: true };
+      },
+
+      async writeArchive(relativePath, archive, build, packDir) {
+        const packTarget = fs.join(root, build.manifest.name);
+        const archivePath = fs.join(root, relativePath);
+
+        // Publishing a pack from its place in the source: it is unpacked already
+        const source = fs.resolve(packDir);
+        const target = fs.resolve(packTarget);
+        if (source === target) {
+          await fs.writeFile(archivePath, archive);
+          return archivePath;
+        }
+        if (source.startsWith(`${target}/`) || target.startsWith(`${source}/`)) {
+          throw new ZccError(
+            `Cannot publish ${packDir} to ${packTarget}: one contains the other`,
+            'PUBLISH_TARGET_OVERLAP',
+            'Move the pack outside the local source, or publish it from the source directory itself'
+          );
+        }
+
+        await fs.mkdir(packTarget, { recursive: true });
+
+        // Replace the unpacked pack, keeping archives of earlier versions
+        for (const entry of await fs.readdir(packTarget)) {
+          const entryPath = fs.join(packTarget, entry);
+          if ((await fs.stat(entryPath)).isDirectory()) {
+            await fs.rmdir(entryPath);
+          } else if (!entry.endsWith('.tgz')) {
+            await fs.unlink(entryPath);
+          }
+        }
+        for (const file of build.files || []) {
+          const targetPath = fs.join(packTarget, file);
+          await fs.mkdir(fs.dirname(targetPath), { recursive: true });
+          await fs.copyFile(fs.join(packDir, file), targetPath);
+        }
+
+        await fs.writeFile(archivePath, archive);
+        return archivePath;
+      },
+
+      async writeIndex(index) {
+        await fs.writeFile(indexPath, `${JSON.stringify(index, null, 2)}\n`);
+      },
+    };
+  }
+
+  private httpTarget(baseUrl: string, token?: string): PublishTarget {
+    const http = this.http;
+    const root = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+    const indexUrl = new URL(REGISTRY_INDEX_FILE, root).toString();
+    const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+
+    return {
+      async readIndex() {
+        try {
+          const response = await http.request(indexUrl, { headers });
+          return {
+            index: parseRegistryIndex(response.data, indexUrl),
+            etag: response.headers['etag'] || null,
+            exists: true,
+          };
+        } catch (error) {
+          if (error instanceof HttpError && error.statusCode === 404) {
+            return { index: createRegistryIndex(), etag: null, exists: false };
+          }
+          throw error;
+        }
+      },
+
+      async writeArchive(relativePath, archive) {
+        const archiveUrl = new URL(relativePath, root).toString();
+        await http.request(archiveUrl, {
+          method: 'PUT',
+          headers: { ...headers, 'Content-Type': 'application/gzip' },
+          body: archive,
+        });
+        return archiveUrl;
+      },
+
+      async writeIndex(index, loaded) {
+        // Only replace the index we read; a fresh registry must still have no index
+        const precondition: Record<string, string> = loaded.etag
+          ? { 'If-Match': loaded.etag }
+          : loaded.exists ? {} : { 'If-None-Match': '*' };
+
+        try {
+          await http.request(indexUrl, {
+            method: 'PUT',
+            headers: { ...headers, ...precondition, 'Content-Type': 'application/json' },
+            body: `${JSON.stringify(index, null, 2)}\n`,
+          });
+        } catch (error) {
+          if (error instanceof HttpError && error.statusCode === 412) {
+            throw new ZccError(
+              `The registry index at ${indexUrl} changed while publishing`,
+              'REGISTRY_CONFLICT',
+              'Run "zcc pack publish" again'
+            );
+          }
+          throw error;
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * The index of a pack registry, shared by local directory and HTTP registries.
+ *
+ * A registry is a directory (or URL prefix) holding `index.json` and one archive per
+ * published version at `<name>/<name>-<version>.tgz`. Archive URLs in the index are
+ * relative to the index itself.
+ */
+
+import { ZccError } from '../errors';
+import { compareVersions } from '../utils/semver';
+
+export const REGISTRY_INDEX_FILE = 'index.json';
+
+export interface RegistryPackVersion {
+  url: string;
+  sha256: string;
+  size: number;
+  description: string;
+  author: string;
+  publishedAt: string;
+}
+
+export interface RegistryPackEntry {
+  latest: string;
+  versions: Record<string, RegistryPackVersion>;
+}
+
+export interface RegistryIndex {
+  indexVersion: 1;
+  packs: Record<string, RegistryPackEntry>;
+}
+
+export function createRegistryIndex(): RegistryIndex {
+  return { indexVersion: 1, packs: {} };
+}
+
+/**
+ * Whether a pack name is a plain identifier. Names from a registry become cache
+ * directories, so anything that could point elsewhere (`..`, separators) is refused.
+ */
+export function isPlainPackName(name: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name) && !name.includes('..');
+}
+
+/**
+ * Parse index.json content, naming `location` in errors
+ */
+export function parseRegistryIndex(content: string, location: string): RegistryIndex {
+  let index: RegistryIndex;
+  try {
+    index = JSON.parse(content);
+  } catch (error) {
+    throw new ZccError(
+      `Invalid registry index at ${location}: ${error instanceof Error ? error.message : error}`,
+      'INVALID_REGISTRY_INDEX'
+    );
+  }
+
+  if (index?.indexVersion !== 1 || typeof index.packs !== 'object' || index.packs === null) {
+    throw new ZccError(
+      `Unsupported registry index at ${location}`,
+      'INVALID_REGISTRY_INDEX',
+      'Expected an index.json with "indexVersion": 1'
+    );
+  }
+
+  const invalid = Object.keys(index.packs).filter(name => !isPlainPackName(name));
+  if (invalid.length > 0) {
+    throw new ZccError(
+      `Invalid pack names in registry index at ${location}: ${invalid.join(', ')}`,
+      'INVALID_REGISTRY_INDEX',
+      'Pack names may only contain letters, digits, dots, hyphens and underscores'
+    );
+  }
+  return index;
+}
+
+/**
+ * Archive path of a pack version, relative to the registry root
+ */
+export function registryArchivePath(name: string, version: string): string {
+  return `${name}/${name}-${version}.tgz`;
+}
+
+/**
+ * Record a published version, keeping `latest` at the highest version
+ */
+export function addRegistryVersion(
+  index: RegistryIndex,
+  name: string,
+  version: string,
+  entry: RegistryPackVersion
+): RegistryIndex {
+  const existing = index.packs[name];
+  const versions = { ...existing?.versions, [version]: entry };
+  const latest = existing && compareVersions(existing.latest, version) > 0 ? existing.latest : version;
+
+  return {
+    ...index,
+    packs: { ...index.packs, [name]: { latest, versions } },
+  };
+}
@@ -1,5 +1,7 @@
 import { IPackSource } from '../packs/PackSource';
 import { PackStructure, LocalPackSource as LocalPackSourceInterface } from '../types/packs';
+import { OfflineError, ZccError } from '../errors';
+import { isPlainPackName } from './RegistryIndex';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
@@ -12,6 +14,8 @@ export interface RemotePackSourceConfig {
   trustLevel?: 'trusted' | 'untrusted';
   timeout?: number;
   headers?: Record<string, string>;
+  // Answer only from the cache, without network requests
+  offline?: boolean;
 }
 
 export interface RemotePackMetadata {
@@ -37,21 +41,29 @@ export abstract class RemotePackSource implements IPackSource {
       trustLevel: config.trustLevel || 'untrusted',
       timeout: config.timeout || 30000,
     };
-    this.cachePath = config.cachePath || path.join(process.cwd(), '.zcc', '.cache', 'packs');
+    // Each source caches its own packs, so offline listings only show what that source provides
+    this.cachePath = config.cachePath
+      || path.join(process.cwd(), '.zcc', '.cache', 'packs', config.name.replace(/[^a-zA-Z0-9._-]/g, '_'));
   }
 
   abstract listPacks(): Promise<string[]>;
   abstract fetchPackMetadata(name: string): Promise<RemotePackMetadata>;
   abstract fetchPackContent(metadata: RemotePackMetadata): Promise<Buffer>;
 
-  async loadPack(name: string): Promise<PackStructure> {
+  async loadPack(name: string, options: { refresh?: boolean } = {}): Promise<PackStructure> {
+    this.packCacheDir(name);
+
     // Check memory cache first
-    if (this.packCache.has(name)) {
+    if (!options.refresh && this.packCache.has(name)) {
       return this.packCache.get(name)!;
     }
 
+    if (this.isOffline()) {
+      return this.loadOffline(name);
+    }
+
     // Check disk cache
-    const cachedPack = await this.loadFromCache(name);
+    const cachedPack = options.refresh ? null : await this.loadFromCache(name);
     if (cachedPack) {
       this.packCache.set(name, cachedPack);
       return cachedPack;
@@ -69,6 +81,11 @@ export abstract class RemotePackSource implements IPackSource {
       }
     }
 
+    // A refresh replaces the cached copy once the new one has been fetched
+    if (options.refresh) {
+      await this.clearCache(name);
+    }
+
     // Save to cache and extract
     const packPath = await this.saveToCache(name, content, metadata);
     const pack = await this.extractAndLoadPack(packPath, name);
@@ -113,8 +130,57 @@ export abstract class RemotePackSource implements IPackSource {
     }
   }
 
-  protected async loadFromCache(name: string): Promise<PackStructure | null> {
+  isOffline(): boolean {
+    return this.config.offline === true;
+  }
+
+  /**
+   * Load a pack from the cache however old it is, as offline mode does
+   */
+  protected async loadOffline(name: string): Promise<PackStructure> {
+    const cachedPack = await this.loadFromCache(name, false);
+    if (!cachedPack) {
+      throw new OfflineError(`Pack '${name}' from source '${this.config.name}' is not cached`);
+    }
+    this.packCache.set(name, cachedPack);
+    return cachedPack;
+  }
+
+  /**
+   * Packs in this source's cache, as listed offline
+   */
+  protected async listCachedPacks(): Promise<string[]> {
+    if (!await this.fileExists(this.cachePath)) {
+      return [];
+    }
+
+    const packs: string[] = [];
+    for (const entry of await fs.readdir(this.cachePath)) {
+      if (!entry.startsWith('.') && await this.fileExists(path.join(this.cachePath, entry, 'manifest.json'))) {
+        packs.push(entry);
+      }
+    }
+    return packs.sort();
+  }
+
+  /**
+   * Cache directory of a pack. Pack names come from remote listings, so names that
+   * are not plain identifiers, or that would leave the cache, are refused.
+   */
+  protected packCacheDir(name: string): string {
     const cacheDir = path.join(this.cachePath, name);
+    if (!isPlainPackName(name) || path.dirname(path.resolve(cacheDir)) !== path.resolve(this.cachePath)) {
+      throw new ZccError(
+        `Invalid pack name from source '${this.config.name}': ${name}`,
+        'INVALID_PACK_NAME',
+        'Pack names may only contain letters, digits, dots, hyphens and underscores'
+      );
+    }
+    return cacheDir;
+  }
+
+  protected async loadFromCache(name: string, expire = true): Promise<PackStructure | null> {
+    const cacheDir = this.packCacheDir(name);
     const manifestPath = path.join(cacheDir, 'manifest.json');
     
     try {
@@ -125,7 +191,7 @@ export abstract class RemotePackSource implements IPackSource {
         // Check cache validity (24 hours by default)
         const stats = await fs.stat(manifestPath);
         const age = Date.now() - stats.mtime.getTime();
-        if (age > 24 * 60 * 60 * 1000) {
+        if (expire && age > 24 * 60 * 60 * 1000) {
           // Cache expired, remove it
           await this.clearCache(name);
           return null;
@@ -142,7 +208,7 @@ export abstract class RemotePackSource implements IPackSource {
   }
 
   protected async saveToCache(name: string, content: Buffer, metadata: RemotePackMetadata): Promise<string> {
-    const cacheDir = path.join(this.cachePath, name);
+    const cacheDir = this.packCacheDir(name);
     await fs.mkdir(cacheDir, { recursive: true });
 
     // Save metadata
@@ -236,7 +302,7 @@ export abstract class RemotePackSource implements IPackSource {
 
   protected async clearCache(name?: string): Promise<void> {
     if (name) {
-      const cacheDir = path.join(this.cachePath, name);
+      const cacheDir = this.packCacheDir(name);
       if (await this.fileExists(cacheDir)) {
         await fs.rm(cacheDir, { recursive: true, force: true });
       }
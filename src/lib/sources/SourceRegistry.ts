@@ -1,17 +1,27 @@
 import { IPackSource, LocalPackSource } from '../packs/PackSource';
 import { GitHubPackSource } from './GitHubPackSource';
+import { HttpPackSource } from './HttpPackSource';
+import { GitPackSource } from './GitPackSource';
 import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
 import { NodeFileSystemAdapter } from '../adapters/NodeFileSystemAdapter';
 import { PackagePaths } from '../packagePaths';
+import { isOffline } from '../context';
+import { OfflineError, ValidationError } from '../errors';
 
 export interface SourceConfig {
   id: string;
-  type: 'local' | 'github' | 'http' | 'custom';
+  type: 'local' | 'github' | 'git' | 'http' | 'custom';
   enabled: boolean;
   priority: number;
   config: any;
 }
 
+export interface SourceSyncResult {
+  id: string;
+  packs: string[];
+  errors: string[];
+}
+
 export interface SourceRegistryConfig {
   sources: SourceConfig[];
   defaultSource?: string;
@@ -125,12 +135,29 @@ export class SourceRegistry {
           directory: config.config.directory,
           token: config.config.token,
           trustLevel: config.config.trustLevel || 'untrusted',
+          offline: isOffline(),
         });
       
+      case 'git':
+        return new GitPackSource({
+          name: config.id,
+          url: config.config.url,
+          ref: config.config.ref,
+          directory: config.config.directory,
+          // git works on the real disk, so the checkout is read through the default adapter
+          cachePath: this.fs.join(this.projectRoot, '.zcc', '.cache', 'sources'),
+          trustLevel: config.config.trustLevel || 'untrusted',
+          offline: isOffline(),
+        });
+
       case 'http':
-        // Placeholder for HTTP source implementation
-        console.warn('HTTP source type not yet implemented');
-        return null;
+        return new HttpPackSource({
+          name: config.id,
+          url: config.config.url,
+          token: config.config.token,
+          trustLevel: config.config.trustLevel || 'untrusted',
+          offline: isOffline(),
+        });
       
       case 'custom':
         // Placeholder for custom source implementation
@@ -148,6 +175,19 @@ export class SourceRegistry {
     if (this.sourceConfigs.has(config.id)) {
       throw new Error(`Source with ID ${config.id} already exists`);
     }
+
+    // git would read a URL or ref starting with '-' as an option
+    if (config.type === 'git') {
+      for (const field of ['url', 'ref'] as const) {
+        if (typeof config.config[field] === 'string' && config.config[field].startsWith('-')) {
+          throw new ValidationError(
+            `Invalid git ${field}: ${config.config[field]}`,
+            field,
+            `A git ${field} cannot start with '-'`
+          );
+        }
+      }
+    }
     
     // Create and test the source
     const source = await this.createSource(config);
@@ -263,6 +303,47 @@ export class SourceRegistry {
     return packsBySource;
   }
 
+  /**
+   * Fetch every pack of the enabled remote sources (or only the given ones) into the
+   * cache, so they can be installed offline later. Packs are fetched again even when
+   * the cached copy has not expired.
+   */
+  async syncSources(ids?: string[]): Promise<SourceSyncResult[]> {
+    if (isOffline()) {
+      throw new OfflineError('Cannot sync sources in offline mode');
+    }
+
+    const targets = ids || Array.from(this.sourceConfigs.values())
+      .filter(config => config.enabled && config.type !== 'local')
+      .sort((a, b) => a.priority - b.priority)
+      .map(config => config.id);
+
+    const results: SourceSyncResult[] = [];
+    for (const id of targets) {
+      const source = this.getSource(id);
+      if (!source) {
+        throw new Error(`Source ${id} not found or disabled`);
+      }
+
+      const result: SourceSyncResult = { id, packs: [], errors: [] };
+      try {
+        for (const name of await source.listPacks()) {
+          try {
+            await source.loadPack(name, { refresh: true });
+            result.packs.push(name);
+          } catch (error: any) {
+            result.errors.push(`${name}: ${error.message}`);
+          }
+        }
+      } catch (error: any) {
+        result.errors.push(error.message);
+      }
+      results.push(result);
+    }
+
+    return results;
+  }
+
   async findPack(packName: string): Promise<{ source: IPackSource; sourceId: string } | null> {
     // First check default source
     const defaultSource = this.getSource(this.defaultSourceId);
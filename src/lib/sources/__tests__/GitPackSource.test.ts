@@ -0,0 +1,143 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GitPackSource } from "../GitPackSource";
+import { PackInstaller } from "../../packs/PackInstaller";
+
+jest.mock("../../logger");
+
+describe("GitPackSource", () => {
+  let tempDir: string;
+  let workDir: string;
+  let remoteUrl: string;
+  let cachePath: string;
+
+  const git = (...args: string[]): string =>
+    execFileSync("git", args, { cwd: workDir, encoding: "utf8" }).trim();
+
+  // Commit a version of the demo pack and push it to the bare remote
+  const pushVersion = (version: string, branch = "main") => {
+    const packDir = path.join(workDir, "packs", "demo");
+    fs.mkdirSync(path.join(packDir, "modes"), { recursive: true });
+    fs.writeFileSync(path.join(packDir, "manifest.json"), JSON.stringify({
+      name: "demo",
+      version,
+      description: "Demo pack",
+      author: "team",
+      components: { modes: [{ name: "reviewer", required: true }] }
+    }));
+    fs.writeFileSync(path.join(packDir, "modes", "reviewer.md"), `# Reviewer ${version}\n`);
+    git("add", "-A");
+    git("commit", "-q", "-m", `demo ${version}`);
+    git("push", "-q", "origin", `HEAD:${branch}`);
+    return git("rev-parse", "HEAD");
+  };
+
+  const createSource = (ref?: string, offline = false) =>
+    new GitPackSource({ name: "team", url: remoteUrl, ref, cachePath, offline });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "zcc-git-source-"));
+    workDir = path.join(tempDir, "work");
+    cachePath = path.join(tempDir, "cache");
+    const remoteDir = path.join(tempDir, "remote.git");
+    remoteUrl = `file://${remoteDir}`;
+
+    execFileSync("git", ["init", "-q", "--bare", "-b", "main", remoteDir]);
+    fs.mkdirSync(workDir);
+    git("init", "-q", "-b", "main");
+    git("config", "user.email", "dev@example.com");
+    git("config", "user.name", "Dev");
+    git("config", "commit.gpgsign", "false");
+    git("remote", "add", "origin", remoteUrl);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should read packs from the default branch and report the commit", async () => {
+    const commit = pushVersion("1.0.0");
+    const source = createSource();
+
+    expect(await source.listPacks()).toEqual(["demo"]);
+    expect((await source.loadPack("demo")).manifest.version).toBe("1.0.0");
+    expect(await source.hasComponent("demo", "modes", "reviewer")).toBe(true);
+    expect(source.getSourceInfo()).toMatchObject({ name: "team", type: "git", url: remoteUrl, commit });
+  });
+
+  it("should check out a branch, tag or commit", async () => {
+    const first = pushVersion("1.0.0");
+    git("tag", "v1.0.0");
+    git("push", "-q", "origin", "v1.0.0");
+    pushVersion("2.0.0");
+    pushVersion("3.0.0-beta", "next");
+
+    expect((await createSource("v1.0.0").loadPack("demo")).manifest.version).toBe("1.0.0");
+    expect((await createSource(first).loadPack("demo")).manifest.version).toBe("1.0.0");
+    expect((await createSource(first.slice(0, 10)).loadPack("demo")).manifest.version).toBe("1.0.0");
+    expect((await createSource("main").loadPack("demo")).manifest.version).toBe("2.0.0");
+    expect((await createSource("next").loadPack("demo")).manifest.version).toBe("3.0.0-beta");
+  });
+
+  it("should fetch new commits into the cached clone", async () => {
+    pushVersion("1.0.0");
+    await createSource().listPacks();
+
+    const latest = pushVersion("1.1.0");
+    const source = createSource();
+
+    expect((await source.loadPack("demo")).manifest.version).toBe("1.1.0");
+    expect(source.getCommit()).toBe(latest);
+  });
+
+  it("should check out a pinned commit after the branch has moved on", async () => {
+    const first = pushVersion("1.0.0");
+    pushVersion("1.1.0");
+    const source = createSource();
+
+    await source.checkoutCommit(first);
+
+    expect((await source.loadPack("demo")).manifest.version).toBe("1.0.0");
+    expect(source.getSourceInfo().commit).toBe(first);
+    await expect(source.checkoutCommit("0".repeat(40))).rejects.toThrow(`Cannot resolve '${"0".repeat(40)}'`);
+  });
+
+  it("should report refs that do not exist", async () => {
+    pushVersion("1.0.0");
+
+    await expect(createSource("missing").listPacks()).rejects.toThrow(`Cannot resolve 'missing' in ${remoteUrl}`);
+  });
+
+  it("should report remotes that cannot be cloned", async () => {
+    remoteUrl = `file://${path.join(tempDir, "nowhere.git")}`;
+
+    await expect(createSource().listPacks()).rejects.toThrow("git clone");
+  });
+
+  it("should use the existing clone without fetching when offline", async () => {
+    const commit = pushVersion("1.0.0");
+    await expect(createSource(undefined, true).listPacks()).rejects.toThrow("Git source 'team' has not been synced");
+    await createSource().listPacks();
+    pushVersion("1.1.0");
+
+    const source = createSource(undefined, true);
+
+    expect((await source.loadPack("demo")).manifest.version).toBe("1.0.0");
+    expect(source.getCommit()).toBe(commit);
+  });
+
+  it("should pin the commit in the installation record", async () => {
+    const commit = pushVersion("1.0.0");
+    const projectRoot = path.join(tempDir, "project");
+    fs.mkdirSync(path.join(projectRoot, ".zcc"), { recursive: true });
+    const source = createSource();
+
+    const result = await new PackInstaller(projectRoot).installPack(await source.loadPack("demo"), source);
+
+    expect(result.errors).toEqual([]);
+    const record = JSON.parse(fs.readFileSync(path.join(projectRoot, ".zcc", "packs.json"), "utf8"));
+    expect(record.packs.demo.source).toMatchObject({ type: "git", url: remoteUrl, commit });
+  });
+});
@@ -0,0 +1,212 @@
+import { promises as fsp, mkdtempSync, rmSync } from "fs";
+import { createHash } from "crypto";
+import * as os from "os";
+import * as path from "path";
+import { HttpPackSource } from "../HttpPackSource";
+import { PackRegistry } from "../../packs/PackRegistry";
+import { RegistryServer } from "./RegistryServer.helper";
+import { addRegistryVersion, createRegistryIndex, parseRegistryIndex, registryArchivePath } from "../RegistryIndex";
+
+jest.mock("../../logger");
+
+describe("HttpPackSource", () => {
+  let server: RegistryServer;
+  let registryUrl: string;
+  let cacheRoot: string;
+
+  // Archives are the pack manifest itself; extraction below just writes it out
+  const manifestArchive = (name: string, version: string) =>
+    Buffer.from(JSON.stringify({ name, version, description: `${name} pack` }));
+
+  const publish = (name: string, version: string, archive = manifestArchive(name, version), url?: string) => {
+    const current = server.files.get("index.json");
+    const index = current ? parseRegistryIndex(current.toString(), "index.json") : createRegistryIndex();
+    server.files.set(registryArchivePath(name, version), archive);
+    server.files.set("index.json", Buffer.from(JSON.stringify(addRegistryVersion(index, name, version, {
+      url: url || registryArchivePath(name, version),
+      sha256: createHash("sha256").update(archive).digest("hex"),
+      size: archive.length,
+      description: `${name} pack`,
+      author: "team",
+      publishedAt: "2026-10-19T09:00:00.000Z"
+    }))));
+  };
+
+  const createSource = (url = registryUrl, offline = false) =>
+    new HttpPackSource({ name: "internal", url, cachePath: path.join(cacheRoot, "packs"), offline });
+
+  const requestsFor = (file: string) => server.requests.filter(request => request.path === file);
+
+  beforeAll(async () => {
+    server = new RegistryServer();
+    registryUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.files.clear();
+    server.modified.clear();
+    server.requests.length = 0;
+    server.etags = true;
+    cacheRoot = mkdtempSync(path.join(os.tmpdir(), "zcc-http-source-"));
+
+    jest.spyOn(HttpPackSource.prototype as any, "extractPackContent")
+      .mockImplementation(async (content: any, targetDir: any) => {
+        await fsp.writeFile(path.join(targetDir, "manifest.json"), content);
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(cacheRoot, { recursive: true, force: true });
+  });
+
+  describe("index", () => {
+    it("should list packs and resolve archive URLs against the index", async () => {
+      publish("frontend", "1.0.0");
+      publish("backend", "2.1.0", undefined, "https://cdn.example.com/backend-2.1.0.tgz");
+
+      const source = createSource();
+
+      expect(await source.listPacks()).toEqual(["backend", "frontend"]);
+      expect(await source.fetchPackMetadata("frontend")).toMatchObject({
+        version: "1.0.0",
+        url: `${registryUrl}/frontend/frontend-1.0.0.tgz`
+      });
+      expect((await source.fetchPackMetadata("backend")).url).toBe("https://cdn.example.com/backend-2.1.0.tgz");
+      await expect(source.fetchPackMetadata("missing")).rejects.toThrow("Pack missing not found");
+    });
+
+    it("should read an index from an explicit URL", async () => {
+      server.files.set("static/packs.json", Buffer.from(JSON.stringify(addRegistryVersion(createRegistryIndex(), "frontend", "1.0.0", {
+        url: "files/frontend.tgz", sha256: "0".repeat(64), size: 1, description: "", author: "", publishedAt: ""
+      }))));
+
+      const source = createSource(`${registryUrl}/static/packs.json`);
+
+      expect((await source.fetchPackMetadata("frontend")).url).toBe(`${registryUrl}/static/files/frontend.tgz`);
+    });
+
+    it("should revalidate the cached index with its ETag", async () => {
+      publish("frontend", "1.0.0");
+      await createSource().listPacks();
+
+      expect(await createSource().listPacks()).toEqual(["frontend"]);
+      const [first, second] = requestsFor("index.json");
+      expect(first.headers["if-none-match"]).toBeUndefined();
+      expect(second.headers["if-none-match"]).toBe(server.etag("index.json"));
+
+      publish("backend", "1.0.0");
+      expect(await createSource().listPacks()).toEqual(["backend", "frontend"]);
+    });
+
+    it("should fall back to Last-Modified when the host sends no ETag", async () => {
+      server.etags = false;
+      server.modified.set("index.json", new Date("2026-10-19T09:00:00Z"));
+      publish("frontend", "1.0.0");
+      await createSource().listPacks();
+
+      expect(await createSource().listPacks()).toEqual(["frontend"]);
+      expect(requestsFor("index.json")[1].headers["if-modified-since"]).toBe("Mon, 19 Oct 2026 09:00:00 GMT");
+    });
+
+    it("should treat a registry without an index as empty", async () => {
+      expect(await createSource().listPacks()).toEqual([]);
+    });
+
+    it("should require a digest for every archive", async () => {
+      server.files.set("index.json", Buffer.from(JSON.stringify({
+        indexVersion: 1,
+        packs: { frontend: { latest: "1.0.0", versions: { "1.0.0": { url: "frontend.tgz" } } } }
+      })));
+
+      await expect(createSource().fetchPackMetadata("frontend")).rejects.toThrow("has no sha256 checksum");
+    });
+  });
+
+  describe("pack names", () => {
+    it("should refuse indexes and pack names that point outside the cache", async () => {
+      const victim = path.join(cacheRoot, "victim");
+      await fsp.mkdir(victim);
+      const archive = manifestArchive("evil", "1.0.0");
+      server.files.set("index.json", Buffer.from(JSON.stringify({
+        indexVersion: 1,
+        packs: {
+          "../victim": {
+            latest: "1.0.0",
+            versions: { "1.0.0": { url: "evil.tgz", sha256: createHash("sha256").update(archive).digest("hex") } }
+          }
+        }
+      })));
+      server.files.set("evil.tgz", archive);
+
+      const source = createSource();
+
+      await expect(source.listPacks()).rejects.toThrow("Invalid pack names in registry index");
+      await expect(source.loadPack("../victim")).rejects.toThrow("Invalid pack name from source 'internal': ../victim");
+      await expect((source as any).clearCache("/tmp")).rejects.toThrow("Invalid pack name");
+      expect(await fsp.stat(victim)).toBeTruthy();
+    });
+  });
+
+  describe("loadPack", () => {
+    it("should reuse a cached pack only while it matches the index", async () => {
+      publish("frontend", "1.0.0");
+
+      expect((await createSource().loadPack("frontend")).manifest.version).toBe("1.0.0");
+      expect((await createSource().loadPack("frontend")).manifest.version).toBe("1.0.0");
+      expect(requestsFor("frontend/frontend-1.0.0.tgz")).toHaveLength(1);
+
+      publish("frontend", "1.1.0");
+      const pack = await createSource().loadPack("frontend");
+      expect(pack.manifest.version).toBe("1.1.0");
+      expect(pack.path).toBe(path.join(cacheRoot, "packs", "frontend"));
+    });
+
+    it("should reject an archive that does not match its digest", async () => {
+      publish("frontend", "1.0.0");
+      server.files.set("frontend/frontend-1.0.0.tgz", Buffer.from("tampered"));
+
+      await expect(createSource().loadPack("frontend")).rejects.toThrow("Pack integrity check failed for frontend@1.0.0");
+      await expect(fsp.access(path.join(cacheRoot, "packs", "frontend"))).rejects.toThrow();
+    });
+  });
+
+  describe("versions", () => {
+    it("should load and resolve versions older than the latest", async () => {
+      publish("frontend", "1.0.0");
+      publish("frontend", "1.1.0");
+      publish("frontend", "2.0.0");
+      const source = createSource();
+
+      expect(await source.listVersions("frontend")).toEqual(["1.0.0", "1.1.0", "2.0.0"]);
+      expect((await source.loadPack("frontend", { version: "1.1.0" })).manifest.version).toBe("1.1.0");
+      expect((await source.loadPack("frontend")).manifest.version).toBe("2.0.0");
+      await expect(source.loadPack("frontend", { version: "3.0.0" })).rejects.toThrow("Pack frontend@3.0.0 not found");
+
+      const registry = new PackRegistry();
+      registry.registerSource("internal", source);
+      expect(await registry.resolvePackVersion("frontend", "^1.0.0")).toEqual({ name: "frontend", version: "1.1.0", source: "internal" });
+      expect((await registry.loadPack("frontend", "internal", "1.0.0")).manifest.version).toBe("1.0.0");
+    });
+  });
+
+  describe("offline", () => {
+    it("should answer from the cache without contacting the registry", async () => {
+      publish("frontend", "1.0.0");
+      publish("backend", "1.0.0");
+      await createSource().loadPack("frontend");
+      server.requests.length = 0;
+
+      const source = createSource(registryUrl, true);
+
+      expect(await source.listPacks()).toEqual(["frontend"]);
+      expect((await source.loadPack("frontend")).manifest.version).toBe("1.0.0");
+      await expect(source.loadPack("backend")).rejects.toThrow("Pack 'backend' from source 'internal' is not cached");
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+});
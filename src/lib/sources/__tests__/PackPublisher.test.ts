@@ -0,0 +1,177 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PackPublisher } from "../PackPublisher";
+import { HttpPackSource } from "../HttpPackSource";
+import { RegistryServer } from "./RegistryServer.helper";
+import { LocalPackSource } from "../../packs/PackSource";
+import { PackBuilder } from "../../packs/PackBuilder";
+import { FetchHttpAdapter, HttpAdapter } from "../../adapters/HttpAdapter";
+import { MemoryFileSystemAdapter } from "../../adapters/MemoryFileSystemAdapter";
+import { createTestZccProject } from "../../testing";
+
+jest.mock("../../logger");
+
+describe("PackPublisher", () => {
+  const projectRoot = "/project";
+  const packDir = "/work/team-pack";
+  let fs: MemoryFileSystemAdapter;
+  let server: RegistryServer;
+  let registryUrl: string;
+
+  const readJson = async (file: string) => JSON.parse(await fs.readFile(file, "utf-8") as string);
+
+  const setVersion = async (version: string) => {
+    const manifest = await readJson(`${packDir}/manifest.json`);
+    await fs.writeFile(`${packDir}/manifest.json`, JSON.stringify({ ...manifest, version }));
+  };
+
+  beforeAll(async () => {
+    server = new RegistryServer();
+    registryUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.files.clear();
+    server.requests.length = 0;
+    server.token = undefined;
+
+    fs = await createTestZccProject(projectRoot, {
+      "/test/templates/schema.json": readFileSync(path.join(__dirname, "../../../../templates/schema.json"), "utf-8"),
+      "/project/.zcc/sources.json": JSON.stringify({
+        sources: [
+          { id: "shared", type: "local", enabled: true, priority: 5, config: { path: "/shared/packs" } },
+          { id: "internal", type: "http", enabled: true, priority: 5, config: { url: registryUrl, token: "secret" } },
+          { id: "github", type: "github", enabled: false, priority: 10, config: { owner: "o", repo: "r" } }
+        ],
+        defaultSource: "shared"
+      })
+    });
+    await new PackBuilder(fs).create("/work", "team-pack", { author: "Team" });
+  });
+
+  describe("to a local source", () => {
+    it("should write the archive and index, and unpack the pack for the local source", async () => {
+      const result = await new PackPublisher(projectRoot, fs).publish(packDir, "shared");
+
+      expect(result).toMatchObject({
+        name: "team-pack",
+        version: "0.1.0",
+        sourceId: "shared",
+        location: "/shared/packs/team-pack/team-pack-0.1.0.tgz"
+      });
+      expect(await fs.exists(result.location)).toBe(true);
+
+      const index = await readJson("/shared/packs/index.json");
+      expect(index.packs["team-pack"]).toMatchObject({
+        latest: "0.1.0",
+        versions: { "0.1.0": { url: "team-pack/team-pack-0.1.0.tgz", sha256: result.checksum, author: "Team" } }
+      });
+
+      const source = new LocalPackSource("/shared/packs", fs);
+      expect(await source.listPacks()).toEqual(["team-pack"]);
+      expect(await source.hasComponent("team-pack", "modes", "example-mode")).toBe(true);
+    });
+
+    it("should replace the unpacked pack but keep earlier archives on a new version", async () => {
+      const publisher = new PackPublisher(projectRoot, fs);
+      await publisher.publish(packDir, "shared");
+
+      await fs.unlink(`${packDir}/workflows/example-workflow.md`);
+      await setVersion("0.2.0");
+      await publisher.publish(packDir, "shared");
+
+      expect((await readJson("/shared/packs/index.json")).packs["team-pack"].latest).toBe("0.2.0");
+      expect(await fs.exists("/shared/packs/team-pack/team-pack-0.1.0.tgz")).toBe(true);
+      expect(await fs.exists("/shared/packs/team-pack/workflows")).toBe(false);
+      expect((await readJson("/shared/packs/team-pack/manifest.json")).version).toBe("0.2.0");
+    });
+
+    it("should publish a pack that sits in the local source without touching its files", async () => {
+      await new PackBuilder(fs).create("/shared/packs", "team-pack", { author: "Team" });
+      const files = await fs.readdir("/shared/packs/team-pack");
+
+      const result = await new PackPublisher(projectRoot, fs).publish("/shared/packs/team-pack", "shared");
+
+      expect(result.location).toBe("/shared/packs/team-pack/team-pack-0.1.0.tgz");
+      expect(await fs.readdir("/shared/packs/team-pack")).toEqual(expect.arrayContaining([...files, "team-pack-0.1.0.tgz"]));
+      expect(await fs.exists("/shared/packs/team-pack/README.md")).toBe(true);
+    });
+
+    it("should refuse to publish into a directory that holds the pack", async () => {
+      await new PackBuilder(fs).create("/shared/packs/team-pack/src", "team-pack", { author: "Team" });
+
+      await expect(new PackPublisher(projectRoot, fs).publish("/shared/packs/team-pack/src/team-pack", "shared"))
+        .rejects.toThrow("one contains the other");
+      expect(await fs.exists("/shared/packs/team-pack/src/team-pack/manifest.json")).toBe(true);
+    });
+
+    it("should refuse to republish a version unless forced", async () => {
+      const publisher = new PackPublisher(projectRoot, fs);
+      await publisher.publish(packDir, "shared");
+
+      await expect(publisher.publish(packDir, "shared")).rejects.toThrow("team-pack@0.1.0 is already published to 'shared'");
+      await expect(publisher.publish(packDir, "shared", { force: true })).resolves.toMatchObject({ version: "0.1.0" });
+    });
+  });
+
+  describe("to an http source", () => {
+    it("should upload the archive before the index and be readable through an http source", async () => {
+      server.token = "secret";
+
+      const result = await new PackPublisher(projectRoot, fs, new FetchHttpAdapter()).publish(packDir, "internal");
+
+      expect(result.location).toBe(`${registryUrl}/team-pack/team-pack-0.1.0.tgz`);
+      expect(server.requests.map(request => `${request.method} ${request.path}`)).toEqual([
+        "GET index.json",
+        "PUT team-pack/team-pack-0.1.0.tgz",
+        "PUT index.json"
+      ]);
+      expect(server.requests[2].headers["if-none-match"]).toBe("*");
+
+      const cachePath = mkdtempSync(path.join(os.tmpdir(), "zcc-publish-"));
+      try {
+        const source = new HttpPackSource({ name: "internal", url: registryUrl, token: "secret", cachePath });
+        expect(await source.listPacks()).toEqual(["team-pack"]);
+        const metadata = await source.fetchPackMetadata("team-pack");
+        expect(metadata).toMatchObject({ version: "0.1.0", checksum: result.checksum, url: result.location });
+        expect(await source.fetchPackContent(metadata)).toEqual(server.files.get("team-pack/team-pack-0.1.0.tgz"));
+      } finally {
+        rmSync(cachePath, { recursive: true, force: true });
+      }
+    });
+
+    it("should only replace the index it read", async () => {
+      await new PackPublisher(projectRoot, fs, new FetchHttpAdapter()).publish(packDir, "internal");
+      const etag = server.etag("index.json");
+
+      // Someone else publishes between our read and write of the index
+      const http = new FetchHttpAdapter();
+      const racing: HttpAdapter = {
+        async request(url, options) {
+          const response = await http.request(url, options);
+          if (!options?.method && url.endsWith("index.json")) {
+            server.files.set("index.json", Buffer.from('{"indexVersion":1,"packs":{}}'));
+          }
+          return response;
+        }
+      };
+      await setVersion("0.2.0");
+
+      await expect(new PackPublisher(projectRoot, fs, racing).publish(packDir, "internal"))
+        .rejects.toThrow("changed while publishing");
+      expect(server.requests[server.requests.length - 1].headers["if-match"]).toBe(etag);
+    });
+  });
+
+  it("should reject unknown and read-only sources", async () => {
+    const publisher = new PackPublisher(projectRoot, fs);
+
+    await expect(publisher.publish(packDir, "missing")).rejects.toThrow("Source 'missing' not found");
+    await expect(publisher.publish(packDir, "github")).rejects.toThrow("does not accept published packs");
+  });
+});
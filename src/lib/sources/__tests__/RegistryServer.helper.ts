@@ -0,0 +1,94 @@
+/**
+ * In-process stand-in for an HTTP pack registry: a static file store that accepts PUT,
+ * with ETag preconditions, for exercising publishing and HTTP sources end to end
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { createHash } from "crypto";
+
+export interface RegistryRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+}
+
+export class RegistryServer {
+  readonly files = new Map<string, Buffer>();
+  // Last-Modified dates sent with GET responses, when set
+  readonly modified = new Map<string, Date>();
+  // Whether GET responses carry an ETag, as most static hosts' do
+  etags = true;
+  readonly requests: RegistryRequest[] = [];
+  // When set, requests without `Authorization: Bearer <token>` get a 401
+  token?: string;
+
+  private server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/registry`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  etag(path: string): string | undefined {
+    const file = this.files.get(path);
+    return file && `"${createHash("sha1").update(file).digest("hex")}"`;
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const path = new URL(req.url!, "http://localhost").pathname.replace(/^\/registry\//, "");
+    this.requests.push({ method: req.method!, path, headers: req.headers });
+
+    if (this.token && req.headers.authorization !== `Bearer ${this.token}`) {
+      res.writeHead(401).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", () => {
+      const etag = this.etag(path);
+
+      if (req.method === "GET") {
+        const modified = this.modified.get(path);
+        const ifModifiedSince = req.headers["if-modified-since"];
+        const headers: Record<string, string> = {};
+        if (etag && this.etags) {
+          headers["ETag"] = etag;
+        }
+        if (modified) {
+          headers["Last-Modified"] = modified.toUTCString();
+        }
+
+        if (!etag) {
+          res.writeHead(404).end();
+        } else if ((this.etags && req.headers["if-none-match"] === etag)
+          || (modified && ifModifiedSince && modified <= new Date(ifModifiedSince))) {
+          res.writeHead(304, headers).end();
+        } else {
+          res.writeHead(200, headers).end(this.files.get(path));
+        }
+        return;
+      }
+
+      if (req.method === "PUT") {
+        const ifMatch = req.headers["if-match"];
+        const ifNoneMatch = req.headers["if-none-match"];
+        if ((ifMatch && ifMatch !== etag) || (ifNoneMatch === "*" && etag)) {
+          res.writeHead(412).end();
+          return;
+        }
+        this.files.set(path, Buffer.concat(chunks));
+        res.writeHead(etag ? 204 : 201).end();
+        return;
+      }
+
+      res.writeHead(405).end();
+    });
+  }
+}
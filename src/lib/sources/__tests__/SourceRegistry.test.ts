@@ -1,6 +1,7 @@
 import { SourceRegistry } from '../SourceRegistry';
 import { MemoryFileSystemAdapter } from '../../adapters/MemoryFileSystemAdapter';
 import { createTestZccProject } from '../../testing';
+import { cliContext } from '../../context';
 
 describe('SourceRegistry', () => {
   let registry: SourceRegistry;
@@ -112,6 +113,16 @@ describe('SourceRegistry', () => {
       );
     });
 
+    it('should reject git URLs and refs git would read as options', async () => {
+      const gitSource = (config: object) => ({ id: 'team', type: 'git' as const, enabled: true, priority: 5, config });
+
+      await expect(registry.addSource(gitSource({ url: '--upload-pack=touch /tmp/pwned' })))
+        .rejects.toThrow('Invalid git url: --upload-pack=touch /tmp/pwned');
+      await expect(registry.addSource(gitSource({ url: 'https://example.com/packs.git', ref: '--output=/tmp/x' })))
+        .rejects.toThrow('Invalid git ref');
+      expect(registry.getSourceConfig('team')).toBeUndefined();
+    });
+
     it('should remove a source', async () => {
       const source = {
         id: 'test-source',
@@ -244,4 +255,39 @@ describe('SourceRegistry', () => {
       expect(packsBySource.get('local')).toEqual(['local-pack1', 'local-pack2']);
     });
   });
-});
\ No newline at end of file
+
+  describe('sync', () => {
+    beforeEach(async () => {
+      await registry.initialize();
+    });
+
+    afterEach(() => {
+      cliContext.reset();
+    });
+
+    it('should load every pack of the enabled remote sources', async () => {
+      const remote = {
+        listPacks: jest.fn().mockResolvedValue(['frontend', 'broken']),
+        loadPack: jest.fn().mockImplementation(async (name: string) => {
+          if (name === 'broken') throw new Error('Manifest not found');
+          return { manifest: { name }, path: `/cache/${name}` };
+        }),
+      };
+      jest.spyOn(registry as any, 'createSource').mockResolvedValue(remote);
+      await registry.addSource({ id: 'team', type: 'github', enabled: true, priority: 10, config: {} });
+
+      const results = await registry.syncSources();
+
+      expect(results).toEqual([
+        { id: 'team', packs: ['frontend'], errors: ['broken: Manifest not found'] },
+      ]);
+      expect(remote.loadPack).toHaveBeenCalledWith('frontend', { refresh: true });
+    });
+
+    it('should refuse to sync in offline mode', async () => {
+      cliContext.initialize({ offline: true });
+
+      await expect(registry.syncSources()).rejects.toThrow('Cannot sync sources in offline mode');
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import * as readline from 'readline';
+import {
+  TicketManager,
+  TicketInfo,
+  TicketStatus,
+  TicketPriority,
+  TICKET_PRIORITIES
+} from './ticketManager';
+import { getChalk } from './logger';
+
+/**
+ * Filters applied to the board columns; `t` and `p` cycle them interactively
+ */
+export interface TicketBoardFilters {
+  tag?: string;
+  priority?: TicketPriority;
+}
+
+/**
+ * Keypress as emitted by `readline.emitKeypressEvents`
+ */
+export interface TicketBoardKey {
+  name?: string;
+  shift?: boolean;
+  ctrl?: boolean;
+}
+
+export interface TicketBoardColumn {
+  status: TicketStatus;
+  tickets: TicketInfo[];
+}
+
+// Lines of ticket body shown below the columns
+const PREVIEW_LINES = 8;
+
+// Title, column headers, separators, message and help lines around the lists
+const CHROME_LINES = 7;
+
+const HELP_TEXT = '←/→ move ticket  ↑/↓ select  tab column  t tag  p priority  r reload  q quit';
+
+// Terminal control sequences
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CLEAR_SCREEN = '\x1b[H\x1b[2J';
+
+/**
+ * Interactive kanban board over the ticket status columns.
+ * Key handling and rendering are kept apart from terminal I/O in `run`,
+ * so the board can be driven without a TTY.
+ */
+export class TicketBoard {
+  private ticketManager: TicketManager;
+  private filters: TicketBoardFilters;
+  private statuses: TicketStatus[] = [];
+  private tickets: TicketInfo[] = [];
+  private column = 0;
+  private rows: number[] = [];
+  private preview: string[] = [];
+  private message = '';
+
+  constructor(ticketManager: TicketManager, filters: TicketBoardFilters = {}) {
+    this.ticketManager = ticketManager;
+    this.filters = { ...filters };
+  }
+
+  /**
+   * (Re)load statuses and tickets, keeping the current selection where possible
+   */
+  async load(): Promise<void> {
+    this.statuses = await this.ticketManager.getStatuses();
+    this.tickets = await this.ticketManager.query({ sort: 'priority' });
+    this.rows = this.statuses.map((_status, index) => this.rows[index] || 0);
+    this.clampSelection();
+    await this.loadPreview();
+  }
+
+  /**
+   * Columns in workflow order with the tickets that pass the filters
+   */
+  getColumns(): TicketBoardColumn[] {
+    return this.statuses.map(status => ({
+      status,
+      tickets: this.tickets.filter(ticket => ticket.status === status && this.matchesFilters(ticket))
+    }));
+  }
+
+  getSelected(): TicketInfo | undefined {
+    return this.getColumns()[this.column]?.tickets[this.rows[this.column]];
+  }
+
+  getFilters(): TicketBoardFilters {
+    return { ...this.filters };
+  }
+
+  getMessage(): string {
+    return this.message;
+  }
+
+  /**
+   * Apply a keypress. Resolves to false when the board should close.
+   */
+  async handleKey(key: TicketBoardKey): Promise<boolean> {
+    if ((key.ctrl && key.name === 'c') || key.name === 'q' || key.name === 'escape') {
+      return false;
+    }
+
+    this.message = '';
+    try {
+      switch (key.name) {
+        case 'up':
+        case 'k':
+          this.selectRow(-1);
+          break;
+        case 'down':
+        case 'j':
+          this.selectRow(1);
+          break;
+        case 'tab':
+          this.focusColumn(key.shift ? -1 : 1);
+          break;
+        case 'left':
+          await this.moveSelected(-1);
+          break;
+        case 'right':
+          await this.moveSelected(1);
+          break;
+        case 't':
+          this.cycleTagFilter();
+          break;
+        case 'p':
+          this.cyclePriorityFilter();
+          break;
+        case 'r':
+          await this.load();
+          this.message = 'Reloaded tickets';
+          break;
+        default:
+          return true;
+      }
+      await this.loadPreview();
+    } catch (error) {
+      this.message = error instanceof Error ? error.message : String(error);
+    }
+    return true;
+  }
+
+  /**
+   * Render the board into lines that fit the given terminal size
+   */
+  render(width: number, height: number): string[] {
+    const chalk = getChalk();
+    const columns = this.getColumns();
+    const columnWidth = Math.max(12, Math.floor(width / Math.max(columns.length, 1)));
+    const listHeight = Math.max(3, height - PREVIEW_LINES - CHROME_LINES);
+
+    const filterText = [
+      this.filters.tag ? `#${this.filters.tag}` : '',
+      this.filters.priority ? `[${this.filters.priority}]` : ''
+    ].filter(Boolean).join(' ');
+    const lines = [`${chalk.bold('Ticket board')}${filterText ? `  ${chalk.cyan(filterText)}` : ''}`, ''];
+
+    lines.push(columns.map((column, index) => {
+      const header = this.fit(`${column.status} (${column.tickets.length})`, columnWidth);
+      return index === this.column ? chalk.bold.underline(header) : chalk.bold(header);
+    }).join(''));
+
+    // Scroll each column so its selected ticket stays visible
+    const offsets = columns.map((_column, index) => Math.max(0, this.rows[index] - listHeight + 1));
+    const visibleRows = Math.min(listHeight, Math.max(1, ...columns.map((column, index) => column.tickets.length - offsets[index])));
+    for (let row = 0; row < visibleRows; row++) {
+      lines.push(columns.map((column, index) => {
+        const ticketIndex = row + offsets[index];
+        const ticket = column.tickets[ticketIndex];
+        if (!ticket) {
+          return ' '.repeat(columnWidth);
+        }
+        const selected = ticketIndex === this.rows[index];
+        const label = this.fit(`${selected ? '>' : ' '} ${ticket.id ? `${ticket.id} ` : ''}${ticket.name}`, columnWidth);
+        return selected && index === this.column ? chalk.inverse(label) : label;
+      }).join('').trimEnd());
+    }
+
+    lines.push(chalk.gray('─'.repeat(Math.max(1, width - 1))));
+    lines.push(...this.preview.map(line => this.fit(line, width - 1).trimEnd()));
+    lines.push('');
+    lines.push(this.message ? chalk.yellow(this.message) : '');
+    lines.push(chalk.dim(this.fit(HELP_TEXT, width - 1).trimEnd()));
+    return lines;
+  }
+
+  /**
+   * Take over the terminal until the user quits
+   */
+  async run(input: NodeJS.ReadStream = process.stdin, output: NodeJS.WriteStream = process.stdout): Promise<void> {
+    await this.load();
+
+    readline.emitKeypressEvents(input);
+    if (input.isTTY) {
+      input.setRawMode(true);
+    }
+    input.resume();
+    output.write(ENTER_SCREEN);
+
+    const draw = () => {
+      output.write(CLEAR_SCREEN + this.render(output.columns || 80, output.rows || 24).join('\n'));
+    };
+    draw();
+
+    await new Promise<void>(resolve => {
+      // Keys are handled one at a time; moves write files before the next key runs
+      let pending = Promise.resolve();
+
+      const onKeypress = (_input: string, key: TicketBoardKey | undefined) => {
+        pending = pending.then(async () => {
+          if (await this.handleKey(key || {})) {
+            draw();
+            return;
+          }
+          input.removeListener('keypress', onKeypress);
+          output.removeListener('resize', draw);
+          if (input.isTTY) {
+            input.setRawMode(false);
+          }
+          input.pause();
+          output.write(LEAVE_SCREEN);
+          resolve();
+        });
+      };
+
+      input.on('keypress', onKeypress);
+      output.on('resize', draw);
+    });
+  }
+
+  private matchesFilters(ticket: TicketInfo): boolean {
+    const tag = this.filters.tag?.toLowerCase();
+    if (tag && !(ticket.tags || []).some(candidate => candidate.toLowerCase() === tag)) {
+      return false;
+    }
+    if (this.filters.priority && (ticket.priority || 'medium') !== this.filters.priority) {
+      return false;
+    }
+    return true;
+  }
+
+  private clampSelection(): void {
+    const columns = this.getColumns();
+    this.column = Math.min(Math.max(this.column, 0), Math.max(columns.length - 1, 0));
+    this.rows = this.rows.map((row, index) => {
+      const count = columns[index]?.tickets.length || 0;
+      return Math.min(Math.max(row, 0), Math.max(count - 1, 0));
+    });
+  }
+
+  private selectRow(delta: number): void {
+    this.rows[this.column] = (this.rows[this.column] || 0) + delta;
+    this.clampSelection();
+  }
+
+  private focusColumn(delta: number): void {
+    const count = this.statuses.length;
+    if (count > 0) {
+      this.column = (this.column + delta + count) % count;
+    }
+  }
+
+  /**
+   * Move the selected ticket to the neighbouring column; the selection follows it.
+   * Moves go through `TicketManager.move`, so blocked tickets cannot be started.
+   */
+  private async moveSelected(delta: number): Promise<void> {
+    const ticket = this.getSelected();
+    const target = this.statuses[this.column + delta];
+    if (!ticket || !target) {
+      return;
+    }
+
+    await this.ticketManager.move(ticket.name, target);
+    this.message = `Moved ${ticket.id || ticket.name} to ${target}`;
+
+    this.column += delta;
+    this.tickets = await this.ticketManager.query({ sort: 'priority' });
+    const row = this.getColumns()[this.column].tickets.findIndex(candidate => candidate.name === ticket.name);
+    this.rows[this.column] = Math.max(row, 0);
+    this.clampSelection();
+  }
+
+  private cycleTagFilter(): void {
+    // Tags differing only in case are one filter
+    const tags = [...new Set(this.tickets.flatMap(ticket => ticket.tags || []).map(tag => tag.toLowerCase()))].sort();
+    const index = this.filters.tag ? tags.indexOf(this.filters.tag.toLowerCase()) : -1;
+    this.filters.tag = tags[index + 1];
+    this.clampSelection();
+  }
+
+  private cyclePriorityFilter(): void {
+    // Highest priority first, then back to showing everything
+    const priorities = [...TICKET_PRIORITIES].reverse();
+    const index = this.filters.priority ? priorities.indexOf(this.filters.priority) : -1;
+    this.filters.priority = priorities[index + 1];
+    this.clampSelection();
+  }
+
+  private async loadPreview(): Promise<void> {
+    const ticket = this.getSelected();
+    if (!ticket) {
+      this.preview = ['No tickets in this column'];
+      return;
+    }
+
+    const details = [
+      ticket.priority ? `[${ticket.priority}]` : '',
+      ticket.type || '',
+      ticket.assignee ? `@${ticket.assignee}` : '',
+      (ticket.tags || []).map(tag => `#${tag}`).join(' '),
+      ticket.due ? `due ${ticket.due}` : ''
+    ].filter(Boolean).join(' ');
+    const body = (await this.ticketManager.getBody(ticket.name)).split('\n');
+
+    this.preview = [...(details ? [details] : []), ...body].slice(0, PREVIEW_LINES);
+  }
+
+  /**
+   * Truncate or pad text to an exact width
+   */
+  private fit(text: string, width: number): string {
+    if (width <= 0) {
+      return '';
+    }
+    return text.length > width - 1 ? `${text.slice(0, Math.max(width - 2, 0))}… ` : text.padEnd(width);
+  }
+}
@@ -0,0 +1,536 @@
+import { FileSystemAdapter } from './adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from './adapters/NodeFileSystemAdapter';
+import { ValidationError } from './errors';
+import {
+  TicketManager,
+  TicketInfo,
+  TicketStatus,
+  TicketType,
+  TicketPriority,
+  TicketMetadata,
+  TICKET_TYPES,
+  TICKET_PRIORITIES
+} from './ticketManager';
+
+export type TicketExportFormat = 'json' | 'csv' | 'github';
+
+/**
+ * Issue-shaped ticket used by the json and csv formats.
+ * Type, priority and tags travel as labels (`feature`, `priority:high`, `auth`).
+ */
+export interface TicketRecord {
+  id: string;
+  title: string;
+  body: string;
+  labels: string[];
+  assignee?: string;
+  state: TicketStatus;
+  due?: string;
+}
+
+/**
+ * Issue in the shape used by the GitHub REST API and `gh issue list --json`
+ */
+export interface GitHubIssueRecord {
+  title: string;
+  body: string;
+  labels: Array<{ name: string }>;
+  assignees: Array<{ login: string }>;
+  state: 'open' | 'closed';
+}
+
+export interface TicketImportChange {
+  field: string;
+  from?: string;
+  to?: string;
+}
+
+export interface TicketImportEntry {
+  id: string;
+  action: 'create' | 'update' | 'unchanged';
+  changes: TicketImportChange[];
+}
+
+export interface TicketImportResult {
+  dryRun: boolean;
+  entries: TicketImportEntry[];
+}
+
+export interface TicketImportOptions {
+  format?: TicketExportFormat;
+  dryRun?: boolean;
+}
+
+// Columns written to and read from CSV files
+const CSV_COLUMNS = ['id', 'title', 'state', 'assignee', 'labels', 'due', 'body'];
+
+// Due dates as the ticket commands accept them
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Hidden marker that carries the ticket id through GitHub issue bodies
+const GITHUB_ID_MARKER = /\n*<!-- zcc-id: (.+?) -->\s*$/;
+
+const PRIORITY_LABEL_PREFIX = 'priority:';
+const STATUS_LABEL_PREFIX = 'status:';
+
+/**
+ * Converts tickets to and from GitHub-issue-compatible JSON and CSV files.
+ * Imports are deduplicated by ticket id: records whose id matches an
+ * existing ticket's stable ID (or, for older exports, its name) update it
+ * instead of creating a copy.
+ */
+export class TicketExchange {
+  private fs: FileSystemAdapter;
+  private ticketManager: TicketManager;
+
+  constructor(projectRoot: string, fs?: FileSystemAdapter) {
+    this.fs = fs || new NodeFileSystemAdapter();
+    this.ticketManager = new TicketManager(projectRoot, this.fs);
+  }
+
+  /**
+   * All tickets as issue-shaped records
+   */
+  async toRecords(): Promise<TicketRecord[]> {
+    const records: TicketRecord[] = [];
+    for (const { name } of await this.ticketManager.list()) {
+      const info = await this.ticketManager.get(name);
+      const body = await this.ticketManager.getBody(name);
+      records.push({
+        // Tickets created before stable IDs are identified by name
+        id: info.id || info.name,
+        title: info.title || info.name,
+        body: this.stripTitle(body),
+        labels: this.toLabels(info),
+        ...(info.assignee ? { assignee: info.assignee } : {}),
+        state: info.status,
+        ...(info.due ? { due: info.due } : {})
+      });
+    }
+    return records;
+  }
+
+  /**
+   * Serialize all tickets in the given format
+   */
+  async export(format: TicketExportFormat): Promise<string> {
+    return this.serialize(await this.toRecords(), format, await this.ticketManager.getFinishedStatuses());
+  }
+
+  /**
+   * Write all tickets to a file, returning the number exported
+   */
+  async exportToFile(format: TicketExportFormat, filePath: string): Promise<number> {
+    const records = await this.toRecords();
+    await this.fs.writeFile(filePath, this.serialize(records, format, await this.ticketManager.getFinishedStatuses()));
+    return records.length;
+  }
+
+  private serialize(records: TicketRecord[], format: TicketExportFormat, finished: readonly TicketStatus[]): string {
+    switch (format) {
+      case 'json':
+        return `${JSON.stringify(records, null, 2)}\n`;
+      case 'csv':
+        return this.toCsv(records);
+      case 'github':
+        return `${JSON.stringify(records.map(record => this.toGitHubIssue(record, finished)), null, 2)}\n`;
+      default:
+        throw new ValidationError(`Unsupported export format: ${format}`, 'format', 'Use one of: json, csv, github');
+    }
+  }
+
+  /**
+   * Parse an export file into records. JSON input may use either the zcc
+   * record shape or GitHub issues; the shape is detected per file. Closed
+   * issues keep a `status:` label naming one of the finished statuses.
+   */
+  parse(content: string, format?: TicketExportFormat, finished: readonly TicketStatus[] = ['done']): TicketRecord[] {
+    if (format === 'csv') {
+      return this.parseCsv(content);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new ValidationError(`Invalid ticket import file: ${error instanceof Error ? error.message : error}`, 'import file');
+    }
+    if (!Array.isArray(data)) {
+      throw new ValidationError('Invalid ticket import file: expected a JSON array of tickets', 'import file');
+    }
+
+    const github = format === 'github' || (format === undefined && data.some(item => this.looksLikeGitHubIssue(item)));
+    return data.map((item, index) => github ? this.fromGitHubIssue(item, index, finished) : this.fromJsonRecord(item, index));
+  }
+
+  /**
+   * Import records, creating new tickets and updating ones with a matching id.
+   * With `dryRun` nothing is written and the returned entries describe the changes.
+   */
+  async import(content: string, options: TicketImportOptions = {}): Promise<TicketImportResult> {
+    const records = this.parse(content, options.format, await this.ticketManager.getFinishedStatuses());
+    const statuses = await this.ticketManager.getStatuses();
+    const tickets = await this.ticketManager.query();
+    const names = new Set(tickets.map(ticket => ticket.name));
+    const ids = new Set(tickets.flatMap(ticket => ticket.id ? [ticket.id] : []));
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    const entries: TicketImportEntry[] = [];
+    // Ticket names for records that create tickets
+    const createNames = new Map<string, string>();
+
+    for (const record of records) {
+      if (!this.slugify(record.id)) {
+        errors.push(`'${record.title}' needs an id with letters or digits to name its ticket`);
+        continue;
+      }
+      if (seen.has(record.id)) {
+        errors.push(`duplicate id '${record.id}'`);
+        continue;
+      }
+      seen.add(record.id);
+
+      if (!statuses.includes(record.state)) {
+        errors.push(`'${record.id}' has unknown state '${record.state}' (expected one of: ${statuses.join(', ')})`);
+        continue;
+      }
+
+      const isId = TicketManager.isTicketId(record.id);
+      if (isId ? !ids.has(record.id) : !names.has(record.id)) {
+        // New tickets keep an incoming stable ID and are named after their title, or the ID
+        // when the title has no letters or digits
+        const name = isId ? this.slugify(record.title) || record.id.toLowerCase() : record.id;
+        if (names.has(name)) {
+          errors.push(`'${record.id}' would create ticket '${name}', which already exists`);
+          continue;
+        }
+        names.add(name);
+        createNames.set(record.id, name);
+        entries.push({ id: record.id, action: 'create', changes: this.diff(undefined, record) });
+        continue;
+      }
+
+      const info = await this.ticketManager.get(record.id);
+      const changes = this.diff({ info, body: this.stripTitle(await this.ticketManager.getBody(record.id)) }, record);
+      const stateChange = changes.find(change => change.field === 'state');
+      if (stateChange) {
+        const allowed = await this.ticketManager.getAllowedTransitions(info.status);
+        if (!allowed.includes(record.state)) {
+          errors.push(`'${record.id}' cannot move from ${info.status} to ${record.state}`);
+          continue;
+        }
+      }
+      entries.push({ id: record.id, action: changes.length > 0 ? 'update' : 'unchanged', changes });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(`Cannot import tickets: ${errors.join('; ')}`, 'import file');
+    }
+
+    if (!options.dryRun) {
+      const byId = new Map(records.map(record => [record.id, record]));
+      for (const entry of entries) {
+        await this.apply(entry, byId.get(entry.id)!, createNames.get(entry.id));
+      }
+    }
+
+    return { dryRun: !!options.dryRun, entries };
+  }
+
+  async importFile(filePath: string, options: TicketImportOptions = {}): Promise<TicketImportResult> {
+    if (!this.fs.existsSync(filePath)) {
+      throw new ValidationError(`Import file not found: ${filePath}`, 'import file');
+    }
+
+    const content = await this.fs.readFile(filePath, 'utf8') as string;
+    const format = options.format || (filePath.toLowerCase().endsWith('.csv') ? 'csv' : undefined);
+    return this.import(content, { ...options, format });
+  }
+
+  private async apply(entry: TicketImportEntry, record: TicketRecord, name?: string): Promise<void> {
+    const metadata = this.fromLabels(record.labels);
+
+    if (entry.action === 'create') {
+      await this.ticketManager.create(name || record.id, {
+        ...metadata,
+        ...(TicketManager.isTicketId(record.id) ? { id: record.id } : {}),
+        title: record.title,
+        body: record.body,
+        assignee: record.assignee,
+        due: record.due,
+        status: record.state
+      });
+      return;
+    }
+
+    if (entry.action === 'unchanged') {
+      return;
+    }
+
+    const fields = new Set(entry.changes.map(change => change.field));
+    if (fields.has('title') || fields.has('body')) {
+      await this.ticketManager.setBody(record.id, `# ${record.title}\n\n${record.body}`);
+    }
+    if (['type', 'priority', 'tags', 'assignee', 'due'].some(field => fields.has(field))) {
+      await this.ticketManager.update(record.id, {
+        ...(metadata.type ? { type: metadata.type } : {}),
+        ...(metadata.priority ? { priority: metadata.priority } : {}),
+        tags: metadata.tags,
+        assignee: record.assignee,
+        due: record.due
+      });
+    }
+    // The tracker already has the ticket in this state, blockers or not
+    if (fields.has('state')) {
+      await this.ticketManager.move(record.id, record.state, { force: true });
+    }
+  }
+
+  /**
+   * Field-level differences between an existing ticket and an incoming record
+   */
+  private diff(current: { info: TicketInfo; body: string } | undefined, record: TicketRecord): TicketImportChange[] {
+    const incoming = this.fromLabels(record.labels);
+    const before: Record<string, string | undefined> = current ? {
+      title: current.info.title || current.info.name,
+      state: current.info.status,
+      type: current.info.type,
+      priority: current.info.priority,
+      assignee: current.info.assignee,
+      tags: current.info.tags?.join(', ') || undefined,
+      due: current.info.due,
+      body: current.body
+    } : {};
+    const after: Record<string, string | undefined> = {
+      title: record.title,
+      state: record.state,
+      // Records without type/priority labels keep the ticket's current values
+      type: incoming.type || (current ? before.type : 'task'),
+      priority: incoming.priority || (current ? before.priority : 'medium'),
+      assignee: record.assignee,
+      tags: incoming.tags?.join(', ') || undefined,
+      due: record.due,
+      body: record.body
+    };
+
+    return Object.keys(after)
+      .filter(field => (before[field] || '') !== (after[field] || ''))
+      .map(field => ({
+        field,
+        ...(before[field] ? { from: before[field] } : {}),
+        ...(after[field] ? { to: after[field] } : {})
+      }));
+  }
+
+  private toLabels(info: TicketInfo): string[] {
+    return [
+      ...(info.type ? [info.type] : []),
+      ...(info.priority ? [`${PRIORITY_LABEL_PREFIX}${info.priority}`] : []),
+      ...(info.tags || [])
+    ];
+  }
+
+  private fromLabels(labels: string[]): Pick<TicketMetadata, 'type' | 'priority' | 'tags'> {
+    let type: TicketType | undefined;
+    let priority: TicketPriority | undefined;
+    const tags: string[] = [];
+
+    for (const label of labels) {
+      const lower = label.toLowerCase();
+      if (!type && TICKET_TYPES.includes(lower as TicketType)) {
+        type = lower as TicketType;
+      } else if (lower.startsWith(PRIORITY_LABEL_PREFIX) && TICKET_PRIORITIES.includes(lower.slice(PRIORITY_LABEL_PREFIX.length) as TicketPriority)) {
+        priority = lower.slice(PRIORITY_LABEL_PREFIX.length) as TicketPriority;
+      } else if (!lower.startsWith(STATUS_LABEL_PREFIX)) {
+        tags.push(label);
+      }
+    }
+
+    return { type, priority, tags };
+  }
+
+  /**
+   * Remove the leading `# Title` heading from ticket markdown
+   */
+  private stripTitle(markdown: string): string {
+    return markdown.replace(/^#[ \t]+[^\n]*\n?/, '').trim();
+  }
+
+  private slugify(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private toGitHubIssue(record: TicketRecord, finished: readonly TicketStatus[]): GitHubIssueRecord {
+    // GitHub only knows open and closed; statuses other than next and done travel as a label
+    const closed = finished.includes(record.state);
+    const labels = record.state !== 'next' && record.state !== 'done'
+      ? [...record.labels, `${STATUS_LABEL_PREFIX}${record.state}`]
+      : record.labels;
+
+    return {
+      title: record.title,
+      body: `${record.body}\n\n<!-- zcc-id: ${record.id} -->`,
+      labels: labels.map(name => ({ name })),
+      assignees: record.assignee ? [{ login: record.assignee }] : [],
+      state: closed ? 'closed' : 'open'
+    };
+  }
+
+  private looksLikeGitHubIssue(item: unknown): boolean {
+    if (!item || typeof item !== 'object') {
+      return false;
+    }
+    const issue = item as Record<string, unknown>;
+    return 'number' in issue
+      || Array.isArray(issue.assignees)
+      || (Array.isArray(issue.labels) && issue.labels.some(label => label && typeof label === 'object'));
+  }
+
+  private fromGitHubIssue(item: unknown, index: number, finished: readonly TicketStatus[]): TicketRecord {
+    const issue = this.expectObject(item, index);
+    const title = this.expectTitle(issue.title, index);
+    const rawBody = typeof issue.body === 'string' ? issue.body : '';
+    const marker = rawBody.match(GITHUB_ID_MARKER);
+
+    const labels = (Array.isArray(issue.labels) ? issue.labels : [])
+      .map(label => typeof label === 'string' ? label : (label as { name?: unknown })?.name)
+      .filter((label): label is string => typeof label === 'string');
+    const assignees = Array.isArray(issue.assignees) ? issue.assignees : [];
+    const assignee = (assignees[0] as { login?: unknown } | undefined)?.login
+      ?? (issue.assignee as { login?: unknown } | null | undefined)?.login;
+
+    const statusLabel = labels.find(label => label.toLowerCase().startsWith(STATUS_LABEL_PREFIX));
+    const labelState = statusLabel?.slice(STATUS_LABEL_PREFIX.length);
+    // A closed issue may still carry the label of the open status it was closed from
+    const state = String(issue.state || 'open').toLowerCase() === 'closed'
+      ? labelState && finished.includes(labelState) ? labelState : 'done'
+      : labelState || 'next';
+
+    return {
+      id: marker ? marker[1] : this.slugify(title),
+      title,
+      body: (marker ? rawBody.slice(0, marker.index) : rawBody).trim(),
+      labels: labels.filter(label => label !== statusLabel),
+      ...(typeof assignee === 'string' && assignee ? { assignee } : {}),
+      state
+    };
+  }
+
+  private fromJsonRecord(item: unknown, index: number): TicketRecord {
+    const record = this.expectObject(item, index);
+    const title = this.expectTitle(record.title, index);
+    const due = typeof record.due === 'string' ? record.due.trim() : '';
+    if (due && (!DUE_DATE_PATTERN.test(due) || isNaN(Date.parse(due)))) {
+      throw new ValidationError(`Invalid ticket import file: entry ${index + 1} has due date '${due}', expected YYYY-MM-DD`, 'import file');
+    }
+
+    return {
+      id: typeof record.id === 'string' && record.id.trim() ? record.id.trim() : this.slugify(title),
+      title,
+      body: typeof record.body === 'string' ? record.body.trim() : '',
+      labels: Array.isArray(record.labels) ? record.labels.filter((label): label is string => typeof label === 'string') : [],
+      ...(typeof record.assignee === 'string' && record.assignee ? { assignee: record.assignee } : {}),
+      state: typeof record.state === 'string' && record.state ? record.state : 'next',
+      ...(due ? { due } : {})
+    };
+  }
+
+  private expectObject(item: unknown, index: number): Record<string, unknown> {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new ValidationError(`Invalid ticket import file: entry ${index + 1} is not an object`, 'import file');
+    }
+    return item as Record<string, unknown>;
+  }
+
+  private expectTitle(title: unknown, index: number): string {
+    if (typeof title !== 'string' || !title.trim()) {
+      throw new ValidationError(`Invalid ticket import file: entry ${index + 1} has no title`, 'import file');
+    }
+    return title.trim();
+  }
+
+  private toCsv(records: TicketRecord[]): string {
+    const escape = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = records.map(record => [
+      record.id,
+      record.title,
+      record.state,
+      record.assignee || '',
+      record.labels.join(','),
+      record.due || '',
+      record.body
+    ].map(escape).join(','));
+
+    return `${[CSV_COLUMNS.join(','), ...rows].join('\n')}\n`;
+  }
+
+  /**
+   * Parse RFC 4180 CSV with a header row; columns are matched by name
+   */
+  private parseCsv(content: string): TicketRecord[] {
+    const rows = this.parseCsvRows(content);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const header = rows[0].map(column => column.trim().toLowerCase());
+    if (!header.includes('title')) {
+      throw new ValidationError('Invalid ticket import file: CSV header must include a title column', 'import file');
+    }
+
+    return rows.slice(1)
+      .filter(row => row.some(cell => cell.trim() !== ''))
+      .map((row, index) => {
+        const values: Record<string, unknown> = {};
+        header.forEach((column, i) => {
+          values[column] = row[i] ?? '';
+        });
+        values.labels = String(values.labels || '').split(',').map(label => label.trim()).filter(Boolean);
+        return this.fromJsonRecord(values, index);
+      });
+  }
+
+  private parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      throw new ValidationError('Invalid ticket import file: unterminated quoted CSV field', 'import file');
+    }
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+}
@@ -0,0 +1,162 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { FileSystemAdapter } from './adapters/FileSystemAdapter';
+import { NodeFileSystemAdapter } from './adapters/NodeFileSystemAdapter';
+import { ZccCore } from './ZccCore';
+import { GitIntegrationConfig } from './configSchema';
+import { TicketManager } from './ticketManager';
+import { ZccError } from './errors';
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_TICKET_BRANCH_PREFIX = 'ticket/';
+
+// Base branches tried in order when `integrations.git.baseBranch` is not set
+const DEFAULT_BASE_BRANCHES = ['main', 'master'];
+
+export interface TicketBranchResult {
+  branch: string;
+  created: boolean;
+}
+
+export interface TicketCommitRange {
+  branch: string;
+  // `<base>..<head>` with abbreviated commit hashes
+  range: string;
+  count: number;
+}
+
+/**
+ * Opt-in git integration for tickets, enabled with `integrations.git.enabled`.
+ * Starting a ticket works on a `ticket/<name>` branch; finishing it records
+ * the commits made on that branch in the ticket frontmatter.
+ */
+export class TicketGitIntegration {
+  private projectRoot: string;
+  private core: ZccCore;
+  private ticketManager: TicketManager;
+
+  constructor(projectRoot: string, fs?: FileSystemAdapter) {
+    const adapter = fs || new NodeFileSystemAdapter();
+    this.projectRoot = projectRoot;
+    this.core = new ZccCore(projectRoot, adapter);
+    this.ticketManager = new TicketManager(projectRoot, adapter);
+  }
+
+  async getConfig(): Promise<GitIntegrationConfig> {
+    const config = await this.core.getConfig();
+    return config.integrations?.git || {};
+  }
+
+  async isEnabled(): Promise<boolean> {
+    return (await this.getConfig()).enabled === true;
+  }
+
+  /**
+   * Branch for a ticket: the one recorded in the ticket, or `<prefix><name>`
+   */
+  async getBranchName(ticket: string): Promise<string> {
+    const info = await this.ticketManager.get(ticket);
+    if (info.branch) {
+      return info.branch;
+    }
+    const prefix = (await this.getConfig()).branchPrefix ?? DEFAULT_TICKET_BRANCH_PREFIX;
+    return `${prefix}${info.name}`;
+  }
+
+  /**
+   * Check out the ticket branch, creating it from the current HEAD when missing,
+   * and record it in the ticket
+   */
+  async startBranch(ticket: string): Promise<TicketBranchResult> {
+    await this.ensureRepository();
+
+    const info = await this.ticketManager.get(ticket);
+    const branch = await this.getBranchName(info.name);
+    const created = !(await this.branchExists(branch));
+
+    await this.git(created ? ['checkout', '-b', branch] : ['checkout', branch]);
+    if (info.branch !== branch) {
+      await this.ticketManager.update(info.name, { branch });
+    }
+
+    return { branch, created };
+  }
+
+  /**
+   * Record the commits on the ticket branch that are not on the base branch.
+   * Returns null when the branch does not exist or has no commits of its own.
+   */
+  async recordCommits(ticket: string): Promise<TicketCommitRange | null> {
+    await this.ensureRepository();
+
+    const info = await this.ticketManager.get(ticket);
+    const branch = await this.getBranchName(info.name);
+    if (!(await this.branchExists(branch))) {
+      return null;
+    }
+
+    const baseBranch = await this.findBaseBranch(branch);
+    const base = await this.git(['merge-base', baseBranch, branch]);
+    const commits = (await this.git(['rev-list', `${base}..${branch}`])).split('\n').filter(Boolean);
+    if (commits.length === 0) {
+      return null;
+    }
+
+    const range = `${await this.git(['rev-parse', '--short', base])}..${await this.git(['rev-parse', '--short', branch])}`;
+    await this.ticketManager.update(info.name, { branch, commits: range });
+
+    return { branch, range, count: commits.length };
+  }
+
+  private async findBaseBranch(branch: string): Promise<string> {
+    const configured = (await this.getConfig()).baseBranch;
+    const candidates = configured ? [configured] : DEFAULT_BASE_BRANCHES;
+
+    for (const candidate of candidates) {
+      if (candidate !== branch && await this.branchExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    throw new ZccError(
+      `No base branch found for ${branch} (tried: ${candidates.join(', ')})`,
+      'GIT_ERROR',
+      'Set integrations.git.baseBranch in .zcc/config.yaml'
+    );
+  }
+
+  private async ensureRepository(): Promise<void> {
+    try {
+      await this.git(['rev-parse', '--is-inside-work-tree']);
+    } catch {
+      throw new ZccError(
+        `Not a git repository: ${this.projectRoot}`,
+        'GIT_ERROR',
+        'Run "git init" or disable integrations.git in .zcc/config.yaml'
+      );
+    }
+  }
+
+  private async branchExists(branch: string): Promise<boolean> {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async git(args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd: this.projectRoot });
+      return stdout.trim();
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new ZccError(
+        `git ${args.join(' ')} failed: ${stderr || (error instanceof Error ? error.message : error)}`,
+        'GIT_ERROR'
+      );
+    }
+  }
+}
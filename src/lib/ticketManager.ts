@@ -1,33 +1,217 @@
+import * as yaml from 'js-yaml';
 import { FileSystemAdapter } from './adapters/FileSystemAdapter';
 import { NodeFileSystemAdapter } from './adapters/NodeFileSystemAdapter';
-
-export type TicketStatus = 'next' | 'in-progress' | 'done';
+import { ZccCore } from './ZccCore';
+import { TicketWorkflowConfigValidator } from './configSchema';
+import { ConfigurationError, TicketError } from './errors';
+import { FuzzyMatcher } from './fuzzyMatcher';
+
+/**
+ * Ticket status; one of the configured `tickets.statuses` (defaults to next, in-progress, done)
+ */
+export type TicketStatus = string;
 export type TicketType = 'feature' | 'bug' | 'task' | 'refactor';
+export type TicketPriority = 'low' | 'medium' | 'high' | 'critical';
+export type TicketSortField = 'name' | 'priority' | 'created' | 'updated' | 'due';
+
+export const DEFAULT_TICKET_STATUSES: readonly TicketStatus[] = ['next', 'in-progress', 'done'];
+export const TICKET_TYPES: readonly TicketType[] = ['feature', 'bug', 'task', 'refactor'];
+export const TICKET_PRIORITIES: readonly TicketPriority[] = ['low', 'medium', 'high', 'critical'];
+export const DEFAULT_TICKET_ID_PREFIX = 'ZCC';
+
+/**
+ * Metadata stored in a ticket's YAML frontmatter
+ */
+export interface TicketMetadata {
+  // Stable ID assigned on creation (e.g. ZCC-42); survives renames
+  id?: string;
+  type?: TicketType;
+  priority?: TicketPriority;
+  assignee?: string;
+  tags?: string[];
+  created?: string;
+  updated?: string;
+  due?: string;
+  blockedBy?: string[];
+  // Git branch and commit range (`<base>..<head>`) recorded by the git integration
+  branch?: string;
+  commits?: string;
+  // Frontmatter zcc does not own, and values it could not read, written back unchanged
+  extra?: Record<string, unknown>;
+}
 
-export interface TicketInfo {
+export interface TicketInfo extends TicketMetadata {
   name: string;
   status: TicketStatus;
-  type?: TicketType;
+  title?: string;
 }
 
 export interface TicketCreationOptions {
   type?: TicketType;
   title?: string;
   description?: string;
-  priority?: 'low' | 'medium' | 'high' | 'critical';
+  priority?: TicketPriority;
+  assignee?: string;
+  tags?: string[];
+  due?: string;
+  // Initial status; defaults to `next`
+  status?: TicketStatus;
+  // Markdown below the title, used instead of the type template
+  body?: string;
+  // Ticket template component to start from instead of the type's template
+  template?: string;
+  // Keep an existing stable ID (e.g. when importing) instead of assigning the next one
+  id?: string;
+}
+
+/**
+ * Outcome of renaming a ticket; `references` lists the other tickets that were rewritten
+ */
+export interface TicketRenameResult {
+  name: string;
+  path: string;
+  references: string[];
+}
+
+/**
+ * A ticket template available to `create`, with the scope it resolves from
+ */
+export interface TicketTemplateInfo {
+  name: string;
+  source: 'builtin' | 'global' | 'project';
+  description?: string;
+}
+
+/**
+ * Node in the ticket dependency tree; children are the tickets blocking this one
+ */
+export interface TicketDependencyNode {
+  name: string;
+  status?: TicketStatus;
+  blockedBy: TicketDependencyNode[];
+  missing?: boolean;
+  circular?: boolean;
+}
+
+export interface TicketDependencyGraph {
+  roots: TicketDependencyNode[];
+  cycles: string[][];
+}
+
+/**
+ * A status transition recorded in a ticket's `## Activity` section
+ */
+export interface TicketActivityEntry {
+  timestamp: string;
+  from?: TicketStatus;
+  to: TicketStatus;
+}
+
+export interface TicketCompletion {
+  name: string;
+  type: TicketType;
+  completedAt: string;
+  cycleTimeMs: number;
+  inProgressMs: number;
+}
+
+export interface TicketTypeReport {
+  completed: number;
+  averageCycleTimeMs: number;
+  averageInProgressMs: number;
+}
+
+/**
+ * Throughput and cycle time for tickets finished in a time window
+ */
+export interface TicketReport {
+  since?: string;
+  until?: string;
+  completed: number;
+  byType: Partial<Record<TicketType, TicketTypeReport>>;
+  tickets: TicketCompletion[];
+}
+
+/**
+ * Filters and ordering for TicketManager.query
+ */
+export interface TicketQuery {
+  status?: TicketStatus | TicketStatus[];
+  type?: TicketType;
+  priority?: TicketPriority;
   assignee?: string;
   tags?: string[];
+  sort?: TicketSortField;
+}
+
+export interface TicketSearchOptions {
+  status?: TicketStatus | TicketStatus[];
+  limit?: number;
 }
 
+/**
+ * Ticket matched by TicketManager.search, with its relevance score (0-100)
+ * and the body line that matched, if any
+ */
+export interface TicketSearchResult extends TicketInfo {
+  score: number;
+  snippet?: string;
+}
+
+// Frontmatter block at the very top of a ticket file
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// Order in which metadata keys are written to frontmatter
+const METADATA_KEYS: (keyof TicketMetadata)[] = ['id', 'type', 'priority', 'assignee', 'tags', 'created', 'updated', 'due', 'blockedBy', 'branch', 'commits'];
+
+// Activity log heading and entry format: "- <timestamp> created in <status>" / "- <timestamp> moved <from> → <to>"
+const ACTIVITY_HEADING = '## Activity';
+const ACTIVITY_ENTRY_PATTERN = /^- (\S+) (?:created in (\S+)|moved (\S+) → (\S+))\s*$/;
+
+// Stable ticket IDs: a prefix and a sequence number, e.g. ZCC-42
+const TICKET_ID_PATTERN = /^[A-Z][A-Z0-9]*-\d+$/;
+
+// Last issued ticket number per ID prefix, kept so IDs of deleted tickets are never reused.
+// It lives outside tickets/, where every file is a ticket template.
+const ID_SEQUENCE_FILE = 'ticket-ids.json';
+// Where earlier versions kept the sequence
+const LEGACY_ID_SEQUENCE_FILE = '.last-id';
+
+// Maximum depth when walking ticket dependencies
+const MAX_DEPENDENCY_DEPTH = 50;
+
+// Template placeholders: {{name}} or {{name|text used when the value is empty}}
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+
+// Search weights: name/title similarity counts most, then tags, then body occurrences
+const SEARCH_NAME_THRESHOLD = 50;
+const SEARCH_TAG_SCORE = 20;
+const SEARCH_BODY_SCORE = 5;
+const SEARCH_MAX_BODY_HITS = 4;
+const SEARCH_SNIPPET_LENGTH = 80;
+
+// Labels used by the bold metadata lines in ticket bodies
+const BODY_METADATA_LABELS: Partial<Record<keyof TicketMetadata, string>> = {
+  priority: 'Priority',
+  assignee: 'Assignee',
+  tags: 'Tags'
+};
+
 export class TicketManager {
   private zccDir: string;
   private ticketsDir: string;
   private fs: FileSystemAdapter;
+  private core: ZccCore;
+  private statuses: TicketStatus[] = [...DEFAULT_TICKET_STATUSES];
+  private transitions: Record<TicketStatus, TicketStatus[]> | null = null;
+  private idPrefix = DEFAULT_TICKET_ID_PREFIX;
+  private workflowLoaded = false;
 
   constructor(projectRoot: string, fs?: FileSystemAdapter) {
     this.fs = fs || new NodeFileSystemAdapter();
     this.zccDir = this.fs.join(projectRoot, '.zcc');
     this.ticketsDir = this.fs.join(this.zccDir, 'tickets');
+    this.core = new ZccCore(projectRoot, this.fs);
     this.ensureStatusDirectories();
   }
 
@@ -93,12 +277,42 @@ export class TicketManager {
     }
   }
 
+  /**
+   * Load custom statuses and transitions from the `tickets` configuration
+   */
+  private async loadWorkflow(): Promise<void> {
+    if (this.workflowLoaded) {
+      return;
+    }
+
+    const config = await this.core.getConfig();
+    if (config.tickets !== undefined) {
+      const result = new TicketWorkflowConfigValidator().validate(config.tickets);
+      if (!result.valid) {
+        throw new ConfigurationError(
+          `Invalid ticket workflow configuration: ${result.errors.join(', ')}`,
+          'Run "zcc config validate" and fix the tickets section of .zcc/config.yaml'
+        );
+      }
+
+      if (config.tickets.statuses) {
+        this.statuses = [...config.tickets.statuses];
+      }
+      this.transitions = config.tickets.transitions || null;
+      if (config.tickets.idPrefix) {
+        this.idPrefix = config.tickets.idPrefix;
+      }
+    }
+
+    this.ensureStatusDirectories();
+    this.workflowLoaded = true;
+  }
+
   /**
    * Ensure status directories exist
    */
   private ensureStatusDirectories(): void {
-    const statusDirs = ['next', 'in-progress', 'done'];
-    statusDirs.forEach(status => {
+    this.statuses.forEach(status => {
       const statusDir = this.fs.join(this.ticketsDir, status);
       if (!this.fs.existsSync(statusDir)) {
         this.fs.mkdirSync(statusDir, { recursive: true });
@@ -110,9 +324,7 @@ export class TicketManager {
    * Find a ticket by name across all status directories
    */
   private findTicket(name: string): { path: string; status: TicketStatus } | null {
-    const statusDirs: TicketStatus[] = ['next', 'in-progress', 'done'];
-    
-    for (const status of statusDirs) {
+    for (const status of this.statuses) {
       // Check with .md extension
       const pathWithMd = this.fs.join(this.ticketsDir, status, `${name}.md`);
       if (this.fs.existsSync(pathWithMd)) {
@@ -129,6 +341,421 @@ export class TicketManager {
     return null;
   }
 
+  /**
+   * Collect every ticket file across all status directories
+   */
+  private collectTickets(): Array<{ name: string; status: TicketStatus; path: string }> {
+    const tickets: Array<{ name: string; status: TicketStatus; path: string }> = [];
+    
+    for (const status of this.statuses) {
+      const statusDir = this.fs.join(this.ticketsDir, status);
+      if (this.fs.existsSync(statusDir)) {
+        const files = this.fs.readdirSync(statusDir);
+        files.forEach(file => {
+          // Only include .md files or files without extension that are regular files
+          const filePath = this.fs.join(statusDir, file);
+          if (file.endsWith('.md') || (!file.includes('.') && this.fs.statSync(filePath).isFile())) {
+            const name = file.endsWith('.md') ? file.slice(0, -3) : file;
+            tickets.push({ name, status, path: filePath });
+          }
+        });
+      }
+    }
+    
+    return tickets;
+  }
+
+  /**
+   * Find a ticket by name, or by its stable ID when no ticket has that name
+   */
+  private async locateTicket(nameOrId: string): Promise<{ name: string; path: string; status: TicketStatus } | null> {
+    const sanitizedName = this.sanitizeTicketName(nameOrId);
+    const byName = this.findTicket(sanitizedName);
+    if (byName) {
+      return { name: sanitizedName, ...byName };
+    }
+
+    // IDs are matched case-insensitively so `zcc-42` finds ZCC-42
+    const id = sanitizedName.toUpperCase();
+    if (!TicketManager.isTicketId(id)) {
+      return null;
+    }
+
+    for (const ticket of this.collectTickets()) {
+      const { metadata } = this.parseTicketContent(await this.fs.readFile(ticket.path, 'utf8') as string);
+      if (metadata.id === id) {
+        return ticket;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Like locateTicket, but fails when the ticket does not exist
+   */
+  private async requireTicket(nameOrId: string): Promise<{ name: string; path: string; status: TicketStatus }> {
+    const ticket = await this.locateTicket(nameOrId);
+    if (!ticket) {
+      throw new Error(`Ticket '${nameOrId}' not found`);
+    }
+    return ticket;
+  }
+
+  /**
+   * Reserve the next ticket ID. Numbering continues after the highest of the
+   * recorded sequence and any ID already present, so IDs are never reused.
+   */
+  private async nextTicketId(): Promise<string> {
+    const sequencePath = this.fs.join(this.zccDir, ID_SEQUENCE_FILE);
+    let sequences: Record<string, number> = {};
+    if (this.fs.existsSync(sequencePath)) {
+      try {
+        const data = JSON.parse(await this.fs.readFile(sequencePath, 'utf8') as string);
+        sequences = data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+      } catch {
+        // Rebuilt from the tickets below
+      }
+    }
+    let last = Number(sequences[this.idPrefix]) || 0;
+
+    const legacyPath = this.fs.join(this.ticketsDir, LEGACY_ID_SEQUENCE_FILE);
+    if (this.fs.existsSync(legacyPath)) {
+      last = Math.max(last, parseInt(String(await this.fs.readFile(legacyPath, 'utf8')).trim(), 10) || 0);
+    }
+
+    for (const ticket of this.collectTickets()) {
+      const { metadata } = this.parseTicketContent(await this.fs.readFile(ticket.path, 'utf8') as string);
+      last = Math.max(last, this.ticketNumber(metadata.id));
+    }
+
+    sequences[this.idPrefix] = last + 1;
+    await this.fs.writeFile(sequencePath, JSON.stringify(sequences, null, 2) + '\n');
+    if (this.fs.existsSync(legacyPath)) {
+      await this.fs.unlink(legacyPath);
+    }
+    return `${this.idPrefix}-${last + 1}`;
+  }
+
+  /**
+   * Sequence number of an ID with the configured prefix, or 0
+   */
+  private ticketNumber(id: string | undefined): number {
+    const prefix = `${this.idPrefix}-`;
+    return id && id.startsWith(prefix) ? parseInt(id.slice(prefix.length), 10) || 0 : 0;
+  }
+
+  /**
+   * Whether a value has the shape of a stable ticket ID such as ZCC-42
+   */
+  static isTicketId(value: string): boolean {
+    return TICKET_ID_PATTERN.test(value);
+  }
+
+  /**
+   * Split ticket content into frontmatter metadata and markdown body.
+   * Tickets created before frontmatter support fall back to the bold
+   * metadata lines and footer in the body.
+   */
+  private parseTicketContent(content: string): { metadata: TicketMetadata; body: string; hasFrontmatter: boolean } {
+    const match = content.match(FRONTMATTER_PATTERN);
+    if (!match) {
+      return { metadata: this.parseLegacyMetadata(content), body: content, hasFrontmatter: false };
+    }
+
+    let data: unknown;
+    try {
+      // CORE_SCHEMA keeps timestamps as plain strings
+      data = yaml.load(match[1], { schema: yaml.CORE_SCHEMA });
+    } catch {
+      data = null;
+    }
+
+    const body = content.slice(match[0].length).replace(/^(\r?\n)+/, '');
+    const metadata = data && typeof data === 'object' && !Array.isArray(data)
+      ? this.normalizeMetadata(data as Record<string, unknown>)
+      : {};
+
+    return { metadata, body, hasFrontmatter: true };
+  }
+
+  /**
+   * Read the metadata zcc owns from parsed frontmatter. Other keys, and values that are
+   * not well-formed, are kept in `extra` so rewriting the ticket does not lose them.
+   */
+  private normalizeMetadata(data: Record<string, unknown>): TicketMetadata {
+    const metadata: TicketMetadata = {};
+
+    if (typeof data.id === 'string' && TICKET_ID_PATTERN.test(data.id)) {
+      metadata.id = data.id;
+    }
+    if (typeof data.type === 'string' && TICKET_TYPES.includes(data.type as TicketType)) {
+      metadata.type = data.type as TicketType;
+    }
+    if (typeof data.priority === 'string' && TICKET_PRIORITIES.includes(data.priority as TicketPriority)) {
+      metadata.priority = data.priority as TicketPriority;
+    }
+    if (typeof data.assignee === 'string' && data.assignee.trim()) {
+      metadata.assignee = data.assignee.trim();
+    }
+    if (Array.isArray(data.tags)) {
+      metadata.tags = data.tags.map(tag => String(tag).trim()).filter(tag => tag.length > 0);
+    } else if (typeof data.tags === 'string') {
+      metadata.tags = this.splitTags(data.tags);
+    }
+    if (Array.isArray(data.blockedBy)) {
+      metadata.blockedBy = data.blockedBy.map(blocker => String(blocker).trim()).filter(blocker => blocker.length > 0);
+    }
+    for (const key of ['created', 'updated', 'due'] as const) {
+      const value = data[key];
+      if (typeof value === 'string' || typeof value === 'number') {
+        metadata[key] = String(value);
+      }
+    }
+    for (const key of ['branch', 'commits'] as const) {
+      const value = data[key];
+      if (typeof value === 'string' && value.trim()) {
+        metadata[key] = value.trim();
+      }
+    }
+
+    const extra: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      const owned = (METADATA_KEYS as string[]).includes(key);
+      if (!owned || (metadata[key as keyof TicketMetadata] === undefined && value !== null && value !== '')) {
+        extra[key] = value;
+      }
+    }
+    if (Object.keys(extra).length > 0) {
+      metadata.extra = extra;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Read metadata from the bold lines and footer written by older templates
+   */
+  private parseLegacyMetadata(content: string): TicketMetadata {
+    const metadata: TicketMetadata = {};
+    const field = (pattern: RegExp): string | undefined => content.match(pattern)?.[1]?.trim() || undefined;
+
+    const type = field(/^Type:\s*(\S+)\s*$/m);
+    if (type && TICKET_TYPES.includes(type as TicketType)) {
+      metadata.type = type as TicketType;
+    }
+
+    const priority = field(/^\*\*Priority:\*\*[ \t]*([^\n]*)$/m)?.toLowerCase();
+    if (priority && TICKET_PRIORITIES.includes(priority as TicketPriority)) {
+      metadata.priority = priority as TicketPriority;
+    }
+
+    const assignee = field(/^\*\*Assignee:\*\*[ \t]*([^\n]*)$/m);
+    if (assignee) {
+      metadata.assignee = assignee;
+    }
+
+    const tags = field(/^\*\*Tags:\*\*[ \t]*([^\n]*)$/m);
+    if (tags) {
+      metadata.tags = this.splitTags(tags);
+    }
+
+    const created = field(/^Created:\s*(\S+)\s*$/m);
+    if (created) {
+      metadata.created = created;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Serialize metadata as YAML frontmatter followed by the markdown body
+   */
+  private serializeTicket(metadata: TicketMetadata, body: string): string {
+    const data: Record<string, unknown> = {};
+    for (const key of METADATA_KEYS) {
+      const value = metadata[key];
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+        continue;
+      }
+      data[key] = value;
+    }
+    // A key zcc sets, even to nothing, replaces the value it could not read
+    for (const [key, value] of Object.entries(metadata.extra || {})) {
+      if (!((METADATA_KEYS as string[]).includes(key) && key in metadata)) {
+        data[key] = value;
+      }
+    }
+
+    const frontmatter = yaml.dump(data, { lineWidth: -1 });
+    return `---\n${frontmatter}---\n\n${body}`;
+  }
+
+  /**
+   * Rewrite the bold metadata lines in a ticket body so they match the frontmatter
+   */
+  private syncBodyMetadata(body: string, metadata: TicketMetadata): string {
+    let result = body;
+    for (const [key, label] of Object.entries(BODY_METADATA_LABELS) as [keyof TicketMetadata, string][]) {
+      const value = metadata[key];
+      const text = Array.isArray(value) ? value.join(', ') : (value || '');
+      const pattern = new RegExp(`^(\\*\\*${label}:\\*\\*)[ \\t]*[^\\n]*?([ \\t]*)$`, 'm');
+      result = result.replace(pattern, (_line, prefix: string, trailing: string) => `${prefix} ${text}${trailing}`);
+    }
+    return result;
+  }
+
+  private splitTags(tags: string): string[] {
+    return tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+  }
+
+  /**
+   * Append an entry to the `## Activity` section, creating the section if needed
+   */
+  private appendActivity(body: string, entry: TicketActivityEntry): string {
+    const line = entry.from
+      ? `- ${entry.timestamp} moved ${entry.from} → ${entry.to}`
+      : `- ${entry.timestamp} created in ${entry.to}`;
+
+    const lines = body.split('\n');
+    const headingIndex = lines.findIndex(l => l.trim() === ACTIVITY_HEADING);
+    if (headingIndex === -1) {
+      return `${body.replace(/\s+$/, '')}\n\n${ACTIVITY_HEADING}\n${line}\n`;
+    }
+
+    // Insert after the last entry of the existing section
+    let insertAt = headingIndex + 1;
+    for (let i = headingIndex + 1; i < lines.length; i++) {
+      if (lines[i].startsWith('- ')) {
+        insertAt = i + 1;
+      } else if (lines[i].trim() !== '') {
+        break;
+      }
+    }
+    lines.splice(insertAt, 0, line);
+    return lines.join('\n');
+  }
+
+  /**
+   * Parse the entries of the `## Activity` section
+   */
+  private parseActivity(body: string): TicketActivityEntry[] {
+    const lines = body.split('\n');
+    const headingIndex = lines.findIndex(l => l.trim() === ACTIVITY_HEADING);
+    if (headingIndex === -1) {
+      return [];
+    }
+
+    const entries: TicketActivityEntry[] = [];
+    for (let i = headingIndex + 1; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (line.startsWith('#')) {
+        break;
+      }
+      const match = line.match(ACTIVITY_ENTRY_PATTERN);
+      if (match) {
+        entries.push(match[2]
+          ? { timestamp: match[1], to: match[2] }
+          : { timestamp: match[1], from: match[3], to: match[4] });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Separate the trailing `## Activity` section from the rest of a ticket body
+   */
+  private splitActivitySection(body: string): { content: string; activity: string } {
+    const lines = body.split('\n');
+    const headingIndex = lines.findIndex(l => l.trim() === ACTIVITY_HEADING);
+    if (headingIndex === -1) {
+      return { content: body, activity: '' };
+    }
+
+    return {
+      content: lines.slice(0, headingIndex).join('\n'),
+      activity: lines.slice(headingIndex).join('\n')
+    };
+  }
+
+  /**
+   * Total milliseconds spent in a status according to the activity log.
+   * A ticket still in that status is counted up to `now`.
+   */
+  private computeTimeInStatus(activity: TicketActivityEntry[], status: TicketStatus, now: Date): number {
+    let total = 0;
+    let enteredAt: number | null = null;
+
+    for (const entry of activity) {
+      const at = Date.parse(entry.timestamp);
+      if (isNaN(at)) continue;
+      if (enteredAt !== null && entry.to !== status) {
+        total += at - enteredAt;
+        enteredAt = null;
+      } else if (enteredAt === null && entry.to === status) {
+        enteredAt = at;
+      }
+    }
+
+    if (enteredAt !== null) {
+      total += now.getTime() - enteredAt;
+    }
+    return total;
+  }
+
+  /**
+   * Build ticket info from a ticket file
+   */
+  private async readTicketInfo(name: string, status: TicketStatus, filePath: string): Promise<TicketInfo> {
+    const content = await this.fs.readFile(filePath, 'utf8') as string;
+    const { metadata, body } = this.parseTicketContent(content);
+    const title = body.match(/^#[ \t]+(.+?)[ \t]*$/m)?.[1];
+
+    return { name, status, ...(title ? { title } : {}), ...metadata };
+  }
+
+  /**
+   * Resolve a ticket template component (project → global → built-in) and
+   * split its frontmatter defaults from the markdown
+   */
+  private async loadTemplate(name: string): Promise<{ metadata: TicketMetadata; content: string } | null> {
+    const resolved = await this.core.resolveComponent(name, 'ticket');
+    if (!resolved) {
+      return null;
+    }
+
+    // Built-in templates ship with the package, not the project filesystem
+    const reader = resolved.source === 'builtin' ? new NodeFileSystemAdapter() : this.fs;
+    const raw = await reader.readFile(resolved.component.path, 'utf8') as string;
+    const match = raw.match(FRONTMATTER_PATTERN);
+    if (!match) {
+      return { metadata: {}, content: raw };
+    }
+
+    let data: unknown;
+    try {
+      data = yaml.load(match[1], { schema: yaml.CORE_SCHEMA });
+    } catch {
+      data = null;
+    }
+    const metadata = data && typeof data === 'object' && !Array.isArray(data)
+      ? this.normalizeMetadata(data as Record<string, unknown>)
+      : {};
+
+    return { metadata, content: raw.slice(match[0].length) };
+  }
+
+  /**
+   * Fill `{{placeholder}}` and `{{placeholder|fallback}}` values in template markdown
+   */
+  private renderTemplate(content: string, values: Record<string, string>): string {
+    return content.replace(TEMPLATE_PLACEHOLDER_PATTERN, (placeholder, key: string, fallback?: string) => {
+      if (!(key in values)) {
+        return placeholder;
+      }
+      return values[key] || fallback || '';
+    });
+  }
+
   /**
    * Get template content based on ticket type
    */
@@ -298,6 +925,8 @@ Type: refactor`
    * Create a new ticket
    */
   async create(name: string, options: TicketCreationOptions = {}): Promise<string> {
+    await this.loadWorkflow();
+
     // Sanitize the ticket name for filesystem safety
     const sanitizedName = this.sanitizeTicketName(name);
     
@@ -306,79 +935,709 @@ Type: refactor`
       throw new Error(`Ticket '${sanitizedName}' already exists`);
     }
 
-    const ticketPath = this.fs.join(this.ticketsDir, 'next', `${sanitizedName}.md`);
+    const status = options.status || 'next';
+    if (!this.statuses.includes(status)) {
+      throw new Error(`Invalid status: ${status}. Must be one of: ${this.statuses.join(', ')}`);
+    }
+
+    if (options.id !== undefined) {
+      if (!TicketManager.isTicketId(options.id)) {
+        throw new Error(`Invalid ticket ID: ${options.id}. Expected a prefix and number such as ${this.idPrefix}-42`);
+      }
+      if (await this.locateTicket(options.id)) {
+        throw new Error(`Ticket ID '${options.id}' is already in use`);
+      }
+    }
+
+    const ticketPath = this.fs.join(this.ticketsDir, status, `${sanitizedName}.md`);
     
     // Validate the final path is within tickets directory
     this.validatePath(ticketPath);
     
-    const type = options.type || 'task';
+    // Project, global and pack templates override the built-in template for a type
+    const template = options.body === undefined
+      ? await this.loadTemplate(options.template || options.type || 'task')
+      : null;
+    if (options.template && !template) {
+      throw new Error(`Ticket template '${options.template}' not found`);
+    }
+
+    const type = options.type || template?.metadata.type || 'task';
+    const priority = options.priority || template?.metadata.priority || 'medium';
+    const tags = options.tags && options.tags.length > 0 ? options.tags : (template?.metadata.tags || options.tags);
+    const timestamp = new Date().toISOString();
     
     // Create content based on ticket type, using original name for display in template
-    const content = this.getTicketTemplate(type, name, options);
+    let content: string;
+    if (options.body !== undefined) {
+      content = `# ${options.title || name}\n\n${options.body.trim()}\n`;
+    } else if (template) {
+      content = this.renderTemplate(template.content, {
+        name,
+        title: options.title || name,
+        description: options.description || '',
+        type,
+        priority,
+        assignee: options.assignee || '',
+        tags: tags?.join(', ') || '',
+        due: options.due || '',
+        created: timestamp
+      });
+    } else {
+      content = this.getTicketTemplate(type, name, options);
+    }
+    const body = this.appendActivity(content, { timestamp, to: status });
+    const metadata: TicketMetadata = {
+      id: options.id || await this.nextTicketId(),
+      type,
+      priority,
+      assignee: options.assignee,
+      tags,
+      created: timestamp,
+      updated: timestamp,
+      due: options.due
+    };
 
-    this.fs.writeFileSync(ticketPath, content);
+    this.fs.writeFileSync(ticketPath, this.serializeTicket(metadata, body));
     return ticketPath;
   }
 
+  /**
+   * Ticket templates available to `create`, including the built-in type templates.
+   * Names defined in several scopes are listed once, from the winning scope.
+   */
+  async listTemplates(): Promise<TicketTemplateInfo[]> {
+    const templates = new Map<string, TicketTemplateInfo>();
+
+    // Results are sorted by name with the highest-precedence scope first
+    for (const { component, source } of await this.core.getComponentsByTypeWithSource('ticket')) {
+      if (!templates.has(component.name)) {
+        const description = component.metadata?.description;
+        templates.set(component.name, {
+          name: component.name,
+          source,
+          ...(typeof description === 'string' ? { description } : {})
+        });
+      }
+    }
+
+    for (const type of TICKET_TYPES) {
+      if (!templates.has(type)) {
+        templates.set(type, { name: type, source: 'builtin' });
+      }
+    }
+
+    return Array.from(templates.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
   /**
    * List all tickets
    */
   async list(): Promise<TicketInfo[]> {
+    await this.loadWorkflow();
+    return this.collectTickets().map(({ name, status }) => ({ name, status }));
+  }
+
+  /**
+   * Get a single ticket with its frontmatter metadata
+   */
+  async get(name: string): Promise<TicketInfo> {
+    await this.loadWorkflow();
+
+    const ticket = await this.requireTicket(name);
+    return this.readTicketInfo(ticket.name, ticket.status, ticket.path);
+  }
+
+  /**
+   * Query tickets by metadata, optionally sorted by a metadata field
+   */
+  async query(query: TicketQuery = {}): Promise<TicketInfo[]> {
+    await this.loadWorkflow();
+
+    const statuses = query.status === undefined
+      ? undefined
+      : Array.isArray(query.status) ? query.status : [query.status];
+    const assignee = query.assignee?.toLowerCase();
+    const tags = (query.tags || []).map(tag => tag.toLowerCase());
+
     const tickets: TicketInfo[] = [];
-    const statusDirs: TicketStatus[] = ['next', 'in-progress', 'done'];
-    
-    for (const status of statusDirs) {
-      const statusDir = this.fs.join(this.ticketsDir, status);
-      if (this.fs.existsSync(statusDir)) {
-        const files = this.fs.readdirSync(statusDir);
-        files.forEach(file => {
-          // Only include .md files or files without extension that are regular files
-          if (file.endsWith('.md') || (!file.includes('.') && this.fs.statSync(this.fs.join(statusDir, file)).isFile())) {
-            const name = file.endsWith('.md') ? file.slice(0, -3) : file;
-            tickets.push({ name, status });
-          }
-        });
+    for (const { name, status, path } of this.collectTickets()) {
+      if (statuses && !statuses.includes(status)) {
+        continue;
+      }
+
+      const info = await this.readTicketInfo(name, status, path);
+      if (query.type && info.type !== query.type) continue;
+      if (query.priority && info.priority !== query.priority) continue;
+      if (assignee && info.assignee?.toLowerCase() !== assignee) continue;
+      if (tags.length > 0) {
+        const ticketTags = (info.tags || []).map(tag => tag.toLowerCase());
+        if (!tags.every(tag => ticketTags.includes(tag))) continue;
       }
+
+      tickets.push(info);
     }
-    
+
+    if (query.sort) {
+      tickets.sort(this.getSortComparator(query.sort));
+    }
+
     return tickets;
   }
 
   /**
-   * Move a ticket to a different status
+   * Full-text search over ticket names, titles, tags and bodies.
+   * Every query term must appear somewhere in the ticket unless the name or
+   * title is a close fuzzy match for the whole query. Results are ranked by score.
    */
-  async move(name: string, toStatus: TicketStatus): Promise<void> {
-    // Sanitize the ticket name for consistent lookup
-    const sanitizedName = this.sanitizeTicketName(name);
-    const ticket = this.findTicket(sanitizedName);
-    if (!ticket) {
-      throw new Error(`Ticket '${name}' not found`);
+  async search(queryText: string, options: TicketSearchOptions = {}): Promise<TicketSearchResult[]> {
+    await this.loadWorkflow();
+
+    const query = queryText.trim().toLowerCase();
+    if (!query) {
+      return [];
+    }
+    const terms = query.split(/\s+/);
+    const statuses = options.status === undefined
+      ? undefined
+      : Array.isArray(options.status) ? options.status : [options.status];
+
+    const results: TicketSearchResult[] = [];
+    for (const { name, status, path } of this.collectTickets()) {
+      if (statuses && !statuses.includes(status)) {
+        continue;
+      }
+
+      const content = await this.fs.readFile(path, 'utf8') as string;
+      const { metadata, body } = this.parseTicketContent(content);
+      const title = body.match(/^#[ \t]+(.+?)[ \t]*$/m)?.[1];
+
+      // The activity log only holds status names and timestamps
+      const { content: searchable } = this.splitActivitySection(body);
+      const text = searchable.toLowerCase();
+      const tags = (metadata.tags || []).map(tag => tag.toLowerCase());
+      const haystack = [name.toLowerCase(), title?.toLowerCase() || '', ...tags, text].join('\n');
+
+      const nameScore = Math.max(
+        FuzzyMatcher.scoreName(query, name.toLowerCase()),
+        title ? FuzzyMatcher.scoreName(query, title.toLowerCase()) : 0
+      );
+      if (nameScore < SEARCH_NAME_THRESHOLD && !terms.every(term => haystack.includes(term))) {
+        continue;
+      }
+
+      let score = nameScore >= SEARCH_NAME_THRESHOLD ? nameScore : 0;
+      for (const term of terms) {
+        if (tags.some(tag => tag.includes(term))) {
+          score += SEARCH_TAG_SCORE;
+        }
+        score += Math.min(this.countOccurrences(text, term), SEARCH_MAX_BODY_HITS) * SEARCH_BODY_SCORE;
+      }
+
+      const snippet = this.findSnippet(searchable, terms);
+      results.push({
+        name,
+        status,
+        ...(title ? { title } : {}),
+        ...metadata,
+        score: Math.min(score, 100),
+        ...(snippet ? { snippet } : {})
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  private countOccurrences(text: string, term: string): number {
+    let count = 0;
+    let index = text.indexOf(term);
+    while (index !== -1) {
+      count++;
+      index = text.indexOf(term, index + term.length);
+    }
+    return count;
+  }
+
+  /**
+   * First body line (below the title) mentioning a query term, trimmed around the match
+   */
+  private findSnippet(body: string, terms: string[]): string | undefined {
+    for (const rawLine of body.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('# ')) {
+        continue;
+      }
+
+      const lower = line.toLowerCase();
+      const index = terms.reduce((first, term) => {
+        const found = lower.indexOf(term);
+        return found !== -1 && (first === -1 || found < first) ? found : first;
+      }, -1);
+      if (index === -1) {
+        continue;
+      }
+
+      if (line.length <= SEARCH_SNIPPET_LENGTH) {
+        return line;
+      }
+      const start = Math.max(0, Math.min(index - 20, line.length - SEARCH_SNIPPET_LENGTH));
+      const end = start + SEARCH_SNIPPET_LENGTH;
+      return `${start > 0 ? '…' : ''}${line.slice(start, end).trim()}${end < line.length ? '…' : ''}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Update frontmatter metadata of an existing ticket
+   */
+  async update(name: string, updates: TicketMetadata): Promise<TicketInfo> {
+    await this.loadWorkflow();
+
+    const ticket = await this.requireTicket(name);
+    const content = await this.fs.readFile(ticket.path, 'utf8') as string;
+    const { metadata, body } = this.parseTicketContent(content);
+    const merged: TicketMetadata = {
+      ...metadata,
+      ...updates,
+      updated: new Date().toISOString()
+    };
+
+    await this.fs.writeFile(ticket.path, this.serializeTicket(merged, this.syncBodyMetadata(body, merged)));
+    return this.readTicketInfo(ticket.name, ticket.status, ticket.path);
+  }
+
+  /**
+   * Markdown content of a ticket, without frontmatter and activity log
+   */
+  async getBody(name: string): Promise<string> {
+    await this.loadWorkflow();
+
+    const ticket = await this.requireTicket(name);
+    const content = await this.fs.readFile(ticket.path, 'utf8') as string;
+    return this.splitActivitySection(this.parseTicketContent(content).body).content.trim();
+  }
+
+  /**
+   * Replace the markdown content of a ticket, keeping its frontmatter and activity log
+   */
+  async setBody(name: string, markdown: string): Promise<void> {
+    await this.loadWorkflow();
+
+    const ticket = await this.requireTicket(name);
+    const content = await this.fs.readFile(ticket.path, 'utf8') as string;
+    const { metadata, body, hasFrontmatter } = this.parseTicketContent(content);
+    const { activity } = this.splitActivitySection(body);
+    const updated = activity ? `${markdown.trim()}\n\n${activity}` : `${markdown.trim()}\n`;
+
+    if (hasFrontmatter) {
+      await this.fs.writeFile(ticket.path, this.serializeTicket({ ...metadata, updated: new Date().toISOString() }, updated));
+    } else {
+      await this.fs.writeFile(ticket.path, updated);
+    }
+  }
+
+  /**
+   * Comparator for query results; dates sort newest first, due dates soonest first
+   */
+  private getSortComparator(field: TicketSortField): (a: TicketInfo, b: TicketInfo) => number {
+    const byName = (a: TicketInfo, b: TicketInfo) => a.name.localeCompare(b.name);
+
+    switch (field) {
+      case 'priority':
+        return (a, b) => {
+          const rank = (t: TicketInfo) => TICKET_PRIORITIES.indexOf(t.priority || 'medium');
+          return rank(b) - rank(a) || byName(a, b);
+        };
+      case 'created':
+      case 'updated':
+        return (a, b) => (b[field] || '').localeCompare(a[field] || '') || byName(a, b);
+      case 'due':
+        return (a, b) => {
+          if (a.due && b.due) return a.due.localeCompare(b.due) || byName(a, b);
+          if (a.due) return -1;
+          if (b.due) return 1;
+          return byName(a, b);
+        };
+      default:
+        return byName;
     }
+  }
 
+  /**
+   * Get the configured statuses in board order
+   */
+  async getStatuses(): Promise<TicketStatus[]> {
+    await this.loadWorkflow();
+    return [...this.statuses];
+  }
+
+  /**
+   * Statuses in which tickets count as finished, in workflow order
+   */
+  async getFinishedStatuses(): Promise<TicketStatus[]> {
+    await this.loadWorkflow();
+    return this.statuses.filter(status => this.isFinishedStatus(status));
+  }
+
+  /**
+   * Whether a ticket in the given status is finished: `done` and the statuses the
+   * workflow lists after it, such as `archived`
+   */
+  private isFinishedStatus(status: TicketStatus): boolean {
+    const doneIndex = this.statuses.indexOf('done');
+    return status === 'done' || (doneIndex !== -1 && this.statuses.indexOf(status) > doneIndex);
+  }
+
+  /**
+   * Get the statuses a ticket in the given status may move to.
+   * Statuses without configured transitions may move anywhere.
+   */
+  async getAllowedTransitions(fromStatus: TicketStatus): Promise<TicketStatus[]> {
+    await this.loadWorkflow();
+    const configured = this.transitions?.[fromStatus];
+    if (!configured) {
+      return this.statuses.filter(status => status !== fromStatus);
+    }
+    return configured.filter(status => status !== fromStatus);
+  }
+
+  /**
+   * Move a ticket to a different status. Starting a ticket (moving it to
+   * in-progress) is refused while it has open blockers, unless `force` is set.
+   */
+  async move(name: string, toStatus: TicketStatus, options: { force?: boolean } = {}): Promise<void> {
+    await this.loadWorkflow();
+
+    if (!this.statuses.includes(toStatus)) {
+      throw new Error(`Invalid status: ${toStatus}. Must be one of: ${this.statuses.join(', ')}`);
+    }
+
+    const ticket = await this.requireTicket(name);
     if (ticket.status === toStatus) {
       throw new Error(`Ticket '${name}' is already in ${toStatus}`);
     }
 
+    const allowed = await this.getAllowedTransitions(ticket.status);
+    if (!allowed.includes(toStatus)) {
+      const choices = allowed.length > 0 ? allowed.join(', ') : 'none';
+      throw new Error(`Cannot move ticket '${name}' from ${ticket.status} to ${toStatus}. Allowed: ${choices}`);
+    }
+
+    if (toStatus === 'in-progress' && !options.force) {
+      const blockers = await this.getOpenBlockers(ticket.name);
+      if (blockers.length > 0) {
+        throw new TicketError(
+          'start',
+          ticket.name,
+          `blocked by ${blockers.map(blocker => `${blocker.name} (${blocker.status})`).join(', ')}`,
+          'Finish the blocking tickets first, or use --force to start anyway'
+        );
+      }
+    }
+
     const filename = this.fs.basename(ticket.path);
     const newPath = this.fs.join(this.ticketsDir, toStatus, filename);
     
     // Use read+write+unlink pattern since FileSystemAdapter doesn't have rename
-    const content = await this.fs.readFile(ticket.path, 'utf8') as string;
+    const timestamp = new Date().toISOString();
+    const parsed = this.parseTicketContent(await this.fs.readFile(ticket.path, 'utf8') as string);
+    const body = this.appendActivity(parsed.body, { timestamp, from: ticket.status, to: toStatus });
+    const content = parsed.hasFrontmatter
+      ? this.serializeTicket({ ...parsed.metadata, updated: timestamp }, body)
+      : body;
     await this.fs.writeFile(newPath, content);
     await this.fs.unlink(ticket.path);
   }
 
+  /**
+   * Rename a ticket, keeping its ID, status and history. References to the old
+   * name in other tickets (`blockedBy` entries, `Ticket: <name>` prompts and
+   * ticket file paths) are rewritten to the new name.
+   */
+  async rename(name: string, newName: string): Promise<TicketRenameResult> {
+    await this.loadWorkflow();
+
+    const ticket = await this.requireTicket(name);
+    const sanitizedName = this.sanitizeTicketName(newName);
+    if (sanitizedName === ticket.name) {
+      throw new Error(`Ticket '${name}' is already named '${sanitizedName}'`);
+    }
+    if (this.findTicket(sanitizedName)) {
+      throw new Error(`Ticket '${sanitizedName}' already exists`);
+    }
+
+    const newPath = this.fs.join(this.ticketsDir, ticket.status, `${sanitizedName}.md`);
+    this.validatePath(newPath);
+
+    const references: string[] = [];
+    for (const other of this.collectTickets()) {
+      const content = await this.fs.readFile(other.path, 'utf8') as string;
+      const rewritten = this.rewriteReferences(content, ticket.name, sanitizedName, other.path === ticket.path);
+
+      if (other.path === ticket.path) {
+        await this.fs.writeFile(newPath, rewritten);
+        await this.fs.unlink(ticket.path);
+      } else if (rewritten !== content) {
+        await this.fs.writeFile(other.path, rewritten);
+        references.push(other.name);
+      }
+    }
+
+    return { name: sanitizedName, path: newPath, references };
+  }
+
+  /**
+   * Replace references to a ticket name in ticket content. In the renamed
+   * ticket itself a `# <name>` heading that still shows the old name is updated too.
+   */
+  private rewriteReferences(content: string, from: string, to: string, isRenamed: boolean): string {
+    const { metadata, body, hasFrontmatter } = this.parseTicketContent(content);
+    const name = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // The name must end here: followed by `.md`, sentence punctuation or a non-name character
+    const end = '(?=\\.md\\b|\\.(?![\\w-])|[^\\w.-]|$)';
+    const keepPrefix = (_match: string, prefix: string) => `${prefix}${to}`;
+
+    let updated = body
+      .replace(new RegExp(`(\\b[Tt]icket:[ \\t]*(?:[\\w-]+/)?)${name}${end}`, 'g'), keepPrefix)
+      .replace(new RegExp(`(tickets/[\\w-]+/)${name}${end}`, 'g'), keepPrefix);
+    if (isRenamed) {
+      updated = updated.replace(new RegExp(`^(#[ \\t]+)${name}[ \\t]*$`, 'm'), keepPrefix);
+    }
+
+    const blockedBy = metadata.blockedBy?.map(blocker => blocker === from ? to : blocker);
+    const linksChanged = blockedBy?.some((blocker, index) => blocker !== metadata.blockedBy![index]);
+    if (updated === body && !linksChanged) {
+      return content;
+    }
+
+    return hasFrontmatter ? this.serializeTicket({ ...metadata, blockedBy }, updated) : updated;
+  }
+
+  /**
+   * Get the recorded status transitions of a ticket, oldest first.
+   * Tickets created before activity tracking start from their creation date.
+   */
+  async getActivity(name: string): Promise<TicketActivityEntry[]> {
+    await this.loadWorkflow();
+    const ticket = await this.requireTicket(name);
+
+    const { metadata, body } = this.parseTicketContent(await this.fs.readFile(ticket.path, 'utf8') as string);
+    const activity = this.parseActivity(body);
+    if (metadata.created && (activity.length === 0 || activity[0].from !== undefined)) {
+      activity.unshift({ timestamp: metadata.created, to: activity[0]?.from || ticket.status });
+    }
+    return activity;
+  }
+
+  /**
+   * Milliseconds a ticket has spent in a status (in-progress by default)
+   */
+  async getTimeInStatus(name: string, status: TicketStatus = 'in-progress', now: Date = new Date()): Promise<number> {
+    const activity = await this.getActivity(name);
+    return this.computeTimeInStatus(activity, status, now);
+  }
+
+  /**
+   * Summarize throughput and cycle time per type for tickets finished in a window.
+   * Cycle time runs from the first move to in-progress (or creation) to the last move into
+   * a finished status; later moves between finished statuses, such as done → archived, don't count.
+   */
+  async report(options: { since?: Date; until?: Date } = {}): Promise<TicketReport> {
+    await this.loadWorkflow();
+    const tickets = await this.query({ status: this.statuses.filter(status => this.isFinishedStatus(status)) });
+    const completions: TicketCompletion[] = [];
+
+    for (const ticket of tickets) {
+      const activity = await this.getActivity(ticket.name);
+      const finished = [...activity].reverse().find(entry =>
+        entry.from !== undefined && !this.isFinishedStatus(entry.from) && this.isFinishedStatus(entry.to)
+      );
+      if (!finished) continue;
+
+      const completedAt = Date.parse(finished.timestamp);
+      if (isNaN(completedAt)) continue;
+      if (options.since && completedAt < options.since.getTime()) continue;
+      if (options.until && completedAt > options.until.getTime()) continue;
+
+      const started = activity.find(entry => entry.to === 'in-progress') || activity[0];
+      const startedAt = Date.parse(started.timestamp);
+
+      completions.push({
+        name: ticket.name,
+        type: ticket.type || 'task',
+        completedAt: finished.timestamp,
+        cycleTimeMs: isNaN(startedAt) ? 0 : Math.max(0, completedAt - startedAt),
+        inProgressMs: this.computeTimeInStatus(activity, 'in-progress', new Date(completedAt))
+      });
+    }
+
+    completions.sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+
+    const byType: Partial<Record<TicketType, TicketTypeReport>> = {};
+    for (const type of TICKET_TYPES) {
+      const ofType = completions.filter(completion => completion.type === type);
+      if (ofType.length === 0) continue;
+
+      const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+      byType[type] = {
+        completed: ofType.length,
+        averageCycleTimeMs: average(ofType.map(completion => completion.cycleTimeMs)),
+        averageInProgressMs: average(ofType.map(completion => completion.inProgressMs))
+      };
+    }
+
+    return {
+      ...(options.since ? { since: options.since.toISOString() } : {}),
+      ...(options.until ? { until: options.until.toISOString() } : {}),
+      completed: completions.length,
+      byType,
+      tickets: completions
+    };
+  }
+
+  /**
+   * Record that one ticket blocks another
+   */
+  async link(blocker: string, blocked: string): Promise<void> {
+    await this.loadWorkflow();
+    // Links are stored by name; IDs are resolved to the ticket they identify
+    const blockerTicket = await this.locateTicket(blocker);
+    const blockerName = blockerTicket?.name ?? this.sanitizeTicketName(blocker);
+    const blockedName = (await this.locateTicket(blocked))?.name ?? this.sanitizeTicketName(blocked);
+
+    if (blockerName === blockedName) {
+      throw new Error(`Ticket '${blocker}' cannot block itself`);
+    }
+    if (!blockerTicket) {
+      throw new Error(`Ticket '${blocker}' not found`);
+    }
+
+    const ticket = await this.get(blockedName);
+    const blockedBy = ticket.blockedBy || [];
+    if (blockedBy.includes(blockerName)) {
+      throw new Error(`Ticket '${blocker}' already blocks '${blocked}'`);
+    }
+
+    // Refuse links that would make the blocked ticket (transitively) block itself
+    const tickets = await this.query();
+    const blockersOf = new Map(tickets.map(t => [t.name, t.blockedBy || []]));
+    const stack = [blockerName];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === blockedName) {
+        throw new Error(`Linking '${blocker}' to block '${blocked}' would create a dependency cycle`);
+      }
+      if (!seen.has(current)) {
+        seen.add(current);
+        stack.push(...(blockersOf.get(current) || []));
+      }
+    }
+
+    await this.update(blockedName, { blockedBy: [...blockedBy, blockerName] });
+  }
+
+  /**
+   * Remove a blocking relationship between two tickets
+   */
+  async unlink(blocker: string, blocked: string): Promise<void> {
+    await this.loadWorkflow();
+    const blockerName = (await this.locateTicket(blocker))?.name ?? this.sanitizeTicketName(blocker);
+    const ticket = await this.get(blocked);
+    const blockedBy = ticket.blockedBy || [];
+
+    if (!blockedBy.includes(blockerName)) {
+      throw new Error(`Ticket '${blocker}' does not block '${blocked}'`);
+    }
+
+    await this.update(ticket.name, { blockedBy: blockedBy.filter(name => name !== blockerName) });
+  }
+
+  /**
+   * Get blocking tickets that are not finished yet, i.e. not in `done` or a status
+   * listed after it. Blockers that no longer exist are ignored.
+   */
+  async getOpenBlockers(name: string): Promise<TicketInfo[]> {
+    const ticket = await this.get(name);
+    const open: TicketInfo[] = [];
+
+    for (const blocker of ticket.blockedBy || []) {
+      const found = this.findTicket(blocker);
+      if (found && !this.isFinishedStatus(found.status)) {
+        open.push(await this.readTicketInfo(blocker, found.status, found.path));
+      }
+    }
+
+    return open;
+  }
+
+  /**
+   * Build the dependency tree of all linked tickets and detect cycles.
+   * Roots are tickets that do not block anything else.
+   */
+  async getDependencyGraph(): Promise<TicketDependencyGraph> {
+    const tickets = await this.query();
+    const byName = new Map(tickets.map(ticket => [ticket.name, ticket]));
+    const linked = tickets.filter(ticket => (ticket.blockedBy || []).length > 0);
+    const blockers = new Set(linked.flatMap(ticket => ticket.blockedBy || []));
+
+    const cycles: string[][] = [];
+    const cycleKeys = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (name: string, path: string[]): TicketDependencyNode => {
+      const ticket = byName.get(name);
+      if (!ticket) {
+        return { name, blockedBy: [], missing: true };
+      }
+
+      // Check for circular dependencies
+      const index = path.indexOf(name);
+      if (index !== -1) {
+        const cycle = [...path.slice(index), name];
+        const key = [...new Set(cycle)].sort().join(',');
+        if (!cycleKeys.has(key)) {
+          cycleKeys.add(key);
+          cycles.push(cycle);
+        }
+        return { name, status: ticket.status, blockedBy: [], circular: true };
+      }
+
+      visited.add(name);
+      if (path.length >= MAX_DEPENDENCY_DEPTH) {
+        return { name, status: ticket.status, blockedBy: [] };
+      }
+
+      return {
+        name,
+        status: ticket.status,
+        blockedBy: (ticket.blockedBy || []).map(blocker => visit(blocker, [...path, name]))
+      };
+    };
+
+    const roots = linked
+      .filter(ticket => !blockers.has(ticket.name))
+      .map(ticket => visit(ticket.name, []));
+
+    // Tickets only reachable through a cycle have no natural root
+    for (const ticket of linked) {
+      if (!visited.has(ticket.name)) {
+        roots.push(visit(ticket.name, []));
+      }
+    }
+
+    return { roots, cycles };
+  }
+
   /**
    * Delete a ticket
    */
   async delete(name: string): Promise<void> {
-    // Sanitize the ticket name for consistent lookup
-    const sanitizedName = this.sanitizeTicketName(name);
-    const ticket = this.findTicket(sanitizedName);
-    if (!ticket) {
-      throw new Error(`Ticket '${name}' not found`);
-    }
+    await this.loadWorkflow();
 
+    const ticket = await this.requireTicket(name);
     await this.fs.unlink(ticket.path);
   }
 }
\ No newline at end of file
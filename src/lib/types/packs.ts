@@ -16,8 +16,11 @@ export interface PackComponents {
   readonly workflows?: readonly PackComponent[];
   readonly agents?: readonly PackComponent[];
   readonly hooks?: readonly PackComponent[];
+  readonly tickets?: readonly PackComponent[];
 }
 
+export type PackComponentType = keyof PackComponents;
+
 export interface PackConfiguration {
   readonly defaultMode?: string;
   readonly customCommands?: Record<string, {
@@ -76,6 +79,7 @@ export interface PackManifest {
   readonly components: PackComponents;
   readonly configuration?: PackConfiguration;
   readonly hooks?: readonly PackHook[];
+  // Pack names with an optional semver range, e.g. `essentials@^1.2.0`
   readonly dependencies?: readonly string[];
   readonly compatibleWith?: readonly ProjectType[];
   readonly postInstall?: PostInstallAction;
@@ -93,6 +97,8 @@ export interface PackInstallOptions {
   readonly skipOptional?: boolean;
   readonly dryRun?: boolean;
   readonly interactive?: boolean;
+  // Merge new pack content into locally modified files instead of overwriting them
+  readonly merge?: boolean;
 }
 
 export interface PackValidationResult {
@@ -101,10 +107,24 @@ export interface PackValidationResult {
   readonly warnings: readonly string[];
 }
 
+// A dependency entry split into pack name and version range
+export interface PackDependency {
+  readonly name: string;
+  readonly range: string;
+}
+
+// The version and source a pack was resolved to
+export interface PackResolution {
+  readonly name: string;
+  readonly version: string;
+  readonly source: string;
+}
+
 export interface PackDependencyResult {
   readonly resolved: readonly string[];
   readonly missing: readonly string[];
   readonly circular: readonly string[];
+  readonly versions?: Readonly<Record<string, PackResolution>>;
 }
 
 export interface PackInstallationResult {
@@ -114,15 +134,38 @@ export interface PackInstallationResult {
     readonly workflows: readonly string[];
     readonly agents: readonly string[];
     readonly hooks: readonly string[];
+    readonly tickets?: readonly string[];
   };
   readonly skipped: {
     readonly modes: readonly string[];
     readonly workflows: readonly string[];
     readonly agents: readonly string[];
     readonly hooks: readonly string[];
+    readonly tickets?: readonly string[];
   };
   readonly errors: readonly string[];
   readonly postInstallMessage?: string;
+  readonly merge?: PackMergeSummary;
+}
+
+// What happened to each installed file during a merging update (paths relative to the project)
+export interface PackMergeSummary {
+  // Local edits and pack changes combined cleanly
+  readonly merged: readonly string[];
+  // Local edits and pack changes overlap; conflict markers were written into the file
+  readonly conflicted: readonly string[];
+  // Unmodified files replaced with the new pack version
+  readonly overwritten: readonly string[];
+  // Locally modified files kept as they are
+  readonly untouched: readonly string[];
+}
+
+// Outcome of installing the packs pinned in .zcc/packs.lock
+export interface PackLockInstallResult {
+  readonly success: boolean;
+  readonly installed: readonly string[];
+  readonly upToDate: readonly string[];
+  readonly errors: readonly string[];
 }
 
 export interface PackConflictResolution {
@@ -135,6 +178,8 @@ export interface PackConflictResolution {
 export interface PackSource {
   readonly name: string;
   readonly type: 'local';
+  // Commit the pack was read from, for git sources
+  readonly commit?: string;
 }
 
 export interface LocalPackSource extends PackSource {
@@ -172,4 +217,100 @@ export interface ProjectPackManifest {
     readonly installedAt: string;
     readonly source: PackSource;
   }>;
-}
\ No newline at end of file
+}
+// Lockfile (.zcc/packs.lock) pinning installed packs to exact versions and content
+export interface PackLockEntry {
+  readonly version: string;
+  readonly source: string;
+  readonly checksum: string;
+  // Commit the pack was installed from, for git sources
+  readonly commit?: string;
+  readonly dependencies?: Readonly<Record<string, string>>;
+}
+
+export interface PackLock {
+  readonly lockfileVersion: number;
+  readonly packs: Record<string, PackLockEntry>;
+}
+
+export type PackTransactionOperation = 'install' | 'uninstall';
+
+// One staged change to a project file, as recorded in the transaction journal
+export interface PackTransactionChange {
+  readonly path: string;
+  readonly action: 'write' | 'delete' | 'rmdir';
+  // Staged content for writes
+  readonly staged?: string;
+  readonly mode?: number;
+  // Copy of the file taken before commit, or null when it did not exist
+  readonly backup?: string | null;
+}
+
+// Journal of a running pack install or uninstall, kept in .zcc/transaction/journal.json
+export interface PackTransactionJournal {
+  readonly journalVersion: number;
+  readonly operation: PackTransactionOperation;
+  readonly pack: string;
+  // `staging`: the project is untouched; `committing`: changes are being applied;
+  // `rolling-back`: applying failed and backups are being restored
+  readonly state: 'staging' | 'committing' | 'rolling-back';
+  readonly startedAt: string;
+  // Directories created along the way, removed again on rollback when empty
+  readonly createdDirs: readonly string[];
+  readonly changes: readonly PackTransactionChange[];
+}
+
+// Owner of a running pack transaction, kept in .zcc/transaction/lock.json
+export interface PackTransactionLock {
+  readonly pid: number;
+  readonly host: string;
+  readonly startedAt: string;
+}
+
+// What recovery did with a transaction an earlier run left behind
+export interface PackTransactionRecovery {
+  readonly operation: PackTransactionOperation;
+  readonly pack: string;
+  readonly action: 'rolled-back' | 'resumed';
+}
+
+// Options for scaffolding a new pack with `zcc pack create`
+export interface PackCreateOptions {
+  readonly description?: string;
+  readonly author?: string;
+  readonly category?: PackCategory;
+}
+
+export interface PackBuildOptions {
+  // PEM ed25519 private key to sign the pack with after its manifest is synced
+  readonly signingKey?: string;
+}
+
+// Outcome of `zcc pack build`
+export interface PackBuildResult {
+  readonly manifest: PackManifest;
+  readonly valid: boolean;
+  readonly errors: readonly string[];
+  readonly warnings: readonly string[];
+  // Components added to or removed from the manifest, e.g. `modes/reviewer`
+  readonly added: readonly string[];
+  readonly removed: readonly string[];
+  // Written only when the manifest is valid
+  readonly archivePath?: string;
+  readonly checksum?: string;
+  // Bundled files, relative to the pack directory
+  readonly files?: readonly string[];
+  // Key id of the signature bundled with the pack, when it is signed
+  readonly keyId?: string;
+}
+
+// Outcome of `zcc pack publish`
+export interface PackPublishResult {
+  readonly name: string;
+  readonly version: string;
+  readonly sourceId: string;
+  // Where the archive was stored: a file path or URL
+  readonly location: string;
+  readonly checksum: string;
+  readonly size: number;
+}
@@ -13,6 +13,7 @@ export interface PackComponents {
   modes?: PackComponent[];
   workflows?: PackComponent[];
   agents?: PackComponent[];
+  tickets?: PackComponent[];
 }
 
 export interface PackConfiguration {
@@ -0,0 +1,44 @@
+import { mergeThreeWay } from '../merge';
+
+describe('mergeThreeWay', () => {
+  const base = ['one', 'two', 'three', 'four', 'five'].join('\n');
+
+  it('should combine changes to different lines', () => {
+    const ours = ['one', 'TWO', 'three', 'four', 'five'].join('\n');
+    const theirs = ['one', 'two', 'three', 'four', 'FIVE', 'six'].join('\n');
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      content: ['one', 'TWO', 'three', 'four', 'FIVE', 'six'].join('\n'),
+      conflicts: 0
+    });
+  });
+
+  it('should take one side when the other is unchanged or both made the same change', () => {
+    const changed = ['one', 'two', 'three', 'five'].join('\n');
+
+    expect(mergeThreeWay(base, base, changed).content).toBe(changed);
+    expect(mergeThreeWay(base, changed, base).content).toBe(changed);
+    expect(mergeThreeWay(base, changed, changed)).toEqual({ content: changed, conflicts: 0 });
+  });
+
+  it('should mark overlapping changes as conflicts with the given labels', () => {
+    const ours = ['one', 'two', 'mine', 'four', 'five'].join('\n');
+    const theirs = ['one', 'two', 'yours', 'four', 'five'].join('\n');
+
+    const result = mergeThreeWay(base, ours, theirs, { ours: 'local', theirs: 'pack@2.0.0' });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(
+      ['one', 'two', '<<<<<<< local', 'mine', '=======', 'yours', '>>>>>>> pack@2.0.0', 'four', 'five'].join('\n')
+    );
+  });
+
+  it('should merge insertions on both sides of an unchanged line', () => {
+    const ours = ['zero', 'one', 'two', 'three', 'four', 'five'].join('\n');
+    const theirs = ['one', 'two', 'three', 'four', 'five', 'six'].join('\n');
+
+    expect(mergeThreeWay(base, ours, theirs).content).toBe(
+      ['zero', 'one', 'two', 'three', 'four', 'five', 'six'].join('\n')
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { parseVersion, compareVersions, isValidRange, satisfies, maxSatisfying } from '../semver';
+
+describe('semver', () => {
+  describe('parseVersion', () => {
+    it('should parse full versions with prerelease and build metadata', () => {
+      expect(parseVersion('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+      expect(parseVersion('v2.0.0-beta.1+build.5')).toEqual({ major: 2, minor: 0, patch: 0, prerelease: ['beta', '1'] });
+    });
+
+    it('should reject partial and malformed versions', () => {
+      expect(parseVersion('1.2')).toBeNull();
+      expect(parseVersion('01.2.3')).toBeNull();
+      expect(parseVersion('latest')).toBeNull();
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should order versions numerically with prereleases before releases', () => {
+      const sorted = ['1.10.0', '1.2.0', '1.2.0-beta.2', '1.2.0-beta.10', '1.2.0-alpha', '0.9.9'].sort(compareVersions);
+
+      expect(sorted).toEqual(['0.9.9', '1.2.0-alpha', '1.2.0-beta.2', '1.2.0-beta.10', '1.2.0', '1.10.0']);
+    });
+  });
+
+  describe('satisfies', () => {
+    it.each([
+      ['1.2.3', '1.2.3', true],
+      ['1.2.4', '1.2.3', false],
+      ['1.9.0', '^1.2.0', true],
+      ['2.0.0', '^1.2.0', false],
+      ['0.2.5', '^0.2.1', true],
+      ['0.3.0', '^0.2.1', false],
+      ['0.0.4', '^0.0.3', false],
+      ['1.2.9', '~1.2.3', true],
+      ['1.3.0', '~1.2.3', false],
+      ['1.7.0', '1.x', true],
+      ['1.7.0', '1.2', false],
+      ['5.0.0', '*', true],
+      ['1.5.0', '>=1.2.0 <2', true],
+      ['2.0.0', '>=1.2.0 <2', false],
+      ['1.2.0', '> 1.1', true],
+      ['1.1.9', '> 1.1', false],
+      ['3.1.0', '^1.0.0 || ^3.0.0', true],
+      ['2.1.0', '^1.0.0 || ^3.0.0', false]
+    ])('%s satisfies %s: %s', (version, range, expected) => {
+      expect(satisfies(version, range)).toBe(expected);
+    });
+
+    it('should only match prereleases that a range opts into', () => {
+      expect(satisfies('2.0.0-beta.1', '^1.0.0')).toBe(false);
+      expect(satisfies('2.0.0-beta.1', '*')).toBe(false);
+      expect(satisfies('2.0.0-beta.2', '>=2.0.0-beta.1')).toBe(true);
+      expect(satisfies('2.1.0-beta.1', '>=2.0.0-beta.1')).toBe(false);
+    });
+
+    it('should never match invalid versions or ranges', () => {
+      expect(satisfies('not-a-version', '*')).toBe(false);
+      expect(satisfies('1.0.0', '^banana')).toBe(false);
+      expect(isValidRange('^banana')).toBe(false);
+      expect(isValidRange('>=1.2.0 <2 || 3.x')).toBe(true);
+    });
+  });
+
+  describe('maxSatisfying', () => {
+    it('should pick the highest matching version', () => {
+      expect(maxSatisfying(['1.2.0', '1.4.1', '2.0.0'], '^1.0.0')).toBe('1.4.1');
+      expect(maxSatisfying(['1.2.0', '2.0.0'], '^3.0.0')).toBeNull();
+    });
+  });
+});
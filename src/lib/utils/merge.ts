@@ -0,0 +1,132 @@
+/**
+ * Line-based three-way merge, as used when updating pack files the user has edited.
+ *
+ * Both edited versions are diffed against their common base. Regions only one side
+ * changed take that side's lines; regions both sides changed differently become a
+ * conflict wrapped in git-style markers.
+ */
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+/**
+ * Merge `ours` and `theirs`, both derived from `base`
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = { ours: 'ours', theirs: 'theirs' }
+): MergeResult {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+
+  const ourMatches = matchLines(baseLines, ourLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let o = 0;
+  let t = 0;
+
+  const resolve = (baseEnd: number, ourEnd: number, theirEnd: number) => {
+    const baseChunk = baseLines.slice(b, baseEnd);
+    const ourChunk = ourLines.slice(o, ourEnd);
+    const theirChunk = theirLines.slice(t, theirEnd);
+
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      output.push(...ourChunk);
+    } else {
+      conflicts++;
+      output.push(`<<<<<<< ${labels.ours}`, ...ourChunk, '=======', ...theirChunk, `>>>>>>> ${labels.theirs}`);
+    }
+  };
+
+  // Base lines kept by both sides are sync points; everything between them is merged as a chunk
+  for (let i = 0; i < baseLines.length; i++) {
+    const ourIndex = ourMatches.get(i);
+    const theirIndex = theirMatches.get(i);
+    if (ourIndex === undefined || theirIndex === undefined) {
+      continue;
+    }
+
+    resolve(i, ourIndex, theirIndex);
+    output.push(baseLines[i]);
+    b = i + 1;
+    o = ourIndex + 1;
+    t = theirIndex + 1;
+  }
+  resolve(baseLines.length, ourLines.length, theirLines.length);
+
+  return { content: output.join('\n'), conflicts };
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Longest common subsequence of two line lists, as a map from base to other line index
+ */
+function matchLines(base: string[], other: string[]): Map<number, number> {
+  // Common prefix and suffix are matched directly to keep the table small
+  let start = 0;
+  while (start < base.length && start < other.length && base[start] === other[start]) {
+    start++;
+  }
+  let baseEnd = base.length;
+  let otherEnd = other.length;
+  while (baseEnd > start && otherEnd > start && base[baseEnd - 1] === other[otherEnd - 1]) {
+    baseEnd--;
+    otherEnd--;
+  }
+
+  const matches = new Map<number, number>();
+  for (let i = 0; i < start; i++) {
+    matches.set(i, i);
+  }
+
+  const rows = baseEnd - start;
+  const cols = otherEnd - start;
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= rows; i++) {
+    lengths.push(new Uint32Array(cols + 1));
+  }
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = base[start + i] === other[start + j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (base[start + i] === other[start + j]) {
+      matches.set(start + i, start + j);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  for (let k = 0; k < base.length - baseEnd; k++) {
+    matches.set(baseEnd + k, otherEnd + k);
+  }
+  return matches;
+}
@@ -0,0 +1,35 @@
+/**
+ * Liveness checks for state files owned by a zcc process, such as the pack
+ * transaction lock and the hook payload recorder.
+ */
+
+import * as os from 'os';
+
+export interface ProcessOwner {
+  pid: number;
+  host: string;
+}
+
+/**
+ * Owner record for the current process
+ */
+export function currentProcessOwner(): ProcessOwner {
+  return { pid: process.pid, host: os.hostname() };
+}
+
+/**
+ * Whether the owning process is still running. Processes on other hosts cannot be
+ * checked, so they are assumed to be.
+ */
+export function isOwnerRunning(owner: ProcessOwner): boolean {
+  if (owner.host !== os.hostname()) {
+    return true;
+  }
+  try {
+    process.kill(owner.pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Minimal semantic versioning support for pack versions and dependency ranges.
+ *
+ * Supported range syntax follows npm: exact versions, comparators (`>=1.2.0 <2`),
+ * caret (`^1.2.0`), tilde (`~1.2.0`), x-ranges (`1.x`, `1.2`, `*`) and `||` unions.
+ * Prerelease versions only satisfy a range when one of its comparators names a
+ * prerelease of the same major.minor.patch.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+const VERSION_PATTERN = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+// A possibly partial version as written in a range: `1`, `1.2`, `1.x`, `1.2.3-beta.1`
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const COMPARATOR_PATTERN = /^(<=|>=|<|>|=|\^|~)?\s*(.*)$/;
+
+/**
+ * Parse a full `major.minor.patch[-prerelease][+build]` version
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions: negative when a < b, positive when a > b, 0 when equal.
+ * Build metadata is ignored.
+ */
+export function compareVersions(a: string | SemVer, b: string | SemVer): number {
+  const left = typeof a === 'string' ? requireVersion(a) : a;
+  const right = typeof b === 'string' ? requireVersion(b) : b;
+
+  return left.major - right.major
+    || left.minor - right.minor
+    || left.patch - right.patch
+    || comparePrerelease(left.prerelease, right.prerelease);
+}
+
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Check whether a version satisfies a range. Invalid versions or ranges never match.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const sets = parseRange(range);
+  if (!parsed || !sets) {
+    return false;
+  }
+  return sets.some(set => matchesSet(parsed, set));
+}
+
+/**
+ * Highest version in the list that satisfies the range, or null when none does
+ */
+export function maxSatisfying(versions: readonly string[], range: string): string | null {
+  let best: string | null = null;
+  for (const version of versions) {
+    if (satisfies(version, range) && (best === null || compareVersions(version, best) > 0)) {
+      best = version;
+    }
+  }
+  return best;
+}
+
+function requireVersion(version: string): SemVer {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    throw new Error(`Invalid version: ${version}`);
+  }
+  return parsed;
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release sorts after all of its prereleases
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) {
+      return Number(a[i]) - Number(b[i]);
+    }
+    if (aNumeric !== bNumeric) {
+      return aNumeric ? -1 : 1;
+    }
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Parse a range into a union of comparator sets, or null when it is invalid
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const part of range.split('||')) {
+    // Allow `>= 1.2.0` by joining operators to the version that follows them
+    const tokens = part.trim().replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    const set: Comparator[] = [];
+
+    for (const token of tokens.length > 0 ? tokens : ['*']) {
+      const comparators = parseComparator(token);
+      if (!comparators) {
+        return null;
+      }
+      set.push(...comparators);
+    }
+    sets.push(set);
+  }
+
+  return sets;
+}
+
+function parseComparator(token: string): Comparator[] | null {
+  const [, operator = '', rest] = COMPARATOR_PATTERN.exec(token)!;
+  const match = PARTIAL_PATTERN.exec(rest);
+  if (!match) {
+    return null;
+  }
+
+  const isWildcard = (value: string | undefined) => value === undefined || /^[xX*]$/.test(value);
+  const major = isWildcard(match[1]) ? null : Number(match[1]);
+  const minor = major === null || isWildcard(match[2]) ? null : Number(match[2]);
+  const patch = minor === null || isWildcard(match[3]) ? null : Number(match[3]);
+  const prerelease = patch !== null && match[4] ? match[4].split('.') : [];
+
+  const version = (maj: number, min = 0, pat = 0, pre: string[] = []): SemVer =>
+    ({ major: maj, minor: min, patch: pat, prerelease: pre });
+  const lower = (maj: number, min = 0, pat = 0): Comparator => ({ operator: '>=', version: version(maj, min, pat, prerelease) });
+  const upper = (maj: number, min = 0, pat = 0): Comparator => ({ operator: '<', version: version(maj, min, pat, ['0']) });
+
+  if (major === null) {
+    // `*` matches everything except where an operator makes it match nothing
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: version(0, 0, 0, ['0']) }] : [];
+  }
+
+  switch (operator) {
+    case '^':
+      if (major > 0 || minor === null) return [lower(major, minor ?? 0, patch ?? 0), upper(major + 1)];
+      if (minor > 0 || patch === null) return [lower(0, minor, patch ?? 0), upper(0, minor + 1)];
+      return [lower(0, 0, patch), upper(0, 0, patch + 1)];
+    case '~':
+      if (minor === null) return [lower(major), upper(major + 1)];
+      return [lower(major, minor, patch ?? 0), upper(major, minor + 1)];
+    case '>':
+      if (patch !== null) return [{ operator: '>', version: version(major, minor!, patch, prerelease) }];
+      return [minor === null ? lower(major + 1) : lower(major, minor + 1)];
+    case '>=':
+      return [lower(major, minor ?? 0, patch ?? 0)];
+    case '<':
+      return [{ operator: '<', version: version(major, minor ?? 0, patch ?? 0, patch === null ? ['0'] : prerelease) }];
+    case '<=':
+      if (patch !== null) return [{ operator: '<=', version: version(major, minor!, patch, prerelease) }];
+      return [minor === null ? upper(major + 1) : upper(major, minor + 1)];
+    default:
+      if (patch !== null) return [{ operator: '=', version: version(major, minor!, patch, prerelease) }];
+      return [lower(major, minor ?? 0), minor === null ? upper(major + 1) : upper(major, minor + 1)];
+  }
+}
+
+function matchesSet(version: SemVer, set: Comparator[]): boolean {
+  for (const { operator, version: bound } of set) {
+    const comparison = compareVersions(version, bound);
+    const ok = operator === '<' ? comparison < 0
+      : operator === '<=' ? comparison <= 0
+      : operator === '>' ? comparison > 0
+      : operator === '>=' ? comparison >= 0
+      : comparison === 0;
+    if (!ok) {
+      return false;
+    }
+  }
+
+  if (version.prerelease.length === 0) {
+    return true;
+  }
+
+  // Prereleases need an explicit opt-in on the same major.minor.patch
+  return set.some(({ version: bound }) =>
+    bound.prerelease.length > 0
+    && bound.prerelease[0] !== '0'
+    && bound.major === version.major
+    && bound.minor === version.minor
+    && bound.patch === version.patch
+  );
+}
@@ -4,6 +4,17 @@ set -euo pipefail
 project_root="${PWD}"
 tickets_dir="${project_root}/.zcc/tickets"
 statuses=("next" "in-progress" "done")
+# Pick up custom workflow statuses (tickets.statuses in config.yaml) from their directories
+if [ -d "$tickets_dir" ]; then
+  for status_dir in "$tickets_dir"/*/; do
+    [ -d "$status_dir" ] || continue
+    status="$(basename "$status_dir")"
+    case " ${statuses[*]} " in
+      *" ${status} "*) ;;
+      *) statuses+=("$status") ;;
+    esac
+  done
+fi
 ticket_name_raw="${1:-}"
 
 sanitize() {
@@ -0,0 +1,21 @@
+#!/bin/bash
+# Notification hook: shows Claude Code's notification message on the desktop.
+
+if ! command -v jq >/dev/null 2>&1; then
+  echo "notification-forward: jq is required to read the hook payload (https://jqlang.github.io/jq/)" >&2
+  exit 1
+fi
+
+message=$(jq -r '.message // empty')
+if [ -z "$message" ]; then
+  exit 0
+fi
+
+if command -v osascript >/dev/null 2>&1; then
+  # Pass the message as an argument; it never becomes AppleScript source
+  osascript -e 'on run argv' -e 'display notification (item 1 of argv) with title "Claude Code"' -e 'end run' "$message"
+elif command -v notify-send >/dev/null 2>&1; then
+  notify-send -- "Claude Code" "$message"
+fi
+
+exit 0
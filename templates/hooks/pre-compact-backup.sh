@@ -0,0 +1,20 @@
+#!/bin/bash
+# PreCompact hook: copies the transcript to .zcc/logs/transcripts/ before compaction.
+
+if ! command -v jq >/dev/null 2>&1; then
+  echo "pre-compact-backup: jq is required to read the hook payload (https://jqlang.github.io/jq/)" >&2
+  exit 1
+fi
+
+json_input=$(cat)
+transcript=$(echo "$json_input" | jq -r '.transcript_path // empty')
+session=$(echo "$json_input" | jq -r '.session_id // "unknown"')
+
+if [ -z "$transcript" ] || [ ! -f "$transcript" ]; then
+  exit 0
+fi
+
+mkdir -p .zcc/logs/transcripts
+cp "$transcript" ".zcc/logs/transcripts/${session}-$(date -u +%Y%m%dT%H%M%SZ).jsonl"
+
+exit 0
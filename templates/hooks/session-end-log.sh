@@ -0,0 +1,17 @@
+#!/bin/bash
+# SessionEnd hook: one line per session with the reason it ended
+# (clear, logout, prompt_input_exit or other).
+
+if ! command -v jq >/dev/null 2>&1; then
+  echo "session-end-log: jq is required to read the hook payload (https://jqlang.github.io/jq/)" >&2
+  exit 1
+fi
+
+json_input=$(cat)
+session=$(echo "$json_input" | jq -r '.session_id // "unknown"')
+reason=$(echo "$json_input" | jq -r '.reason // "other"')
+
+mkdir -p .zcc/logs
+echo "$(date -u +%Y-%m-%dT%H:%M:%SZ) session=$session reason=$reason" >> .zcc/logs/sessions.log
+
+exit 0
@@ -0,0 +1,19 @@
+#!/bin/bash
+# SessionStart hook: reminds Claude of the tickets in progress after /resume or compaction.
+# Claude Code adds the output of SessionStart hooks to the context.
+
+if ! command -v jq >/dev/null 2>&1; then
+  echo "session-resume-context: jq is required to read the hook payload (https://jqlang.github.io/jq/)" >&2
+  exit 1
+fi
+
+source=$(jq -r '.source // empty')
+
+echo "## Resumed Session (${source:-unknown})"
+if [ -d ".zcc/tickets/in-progress" ]; then
+  find .zcc/tickets/in-progress -name '*.md' 2>/dev/null | while read -r ticket; do
+    echo "- $(basename "$ticket" .md) ($ticket)"
+  done
+fi
+
+exit 0
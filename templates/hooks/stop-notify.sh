@@ -0,0 +1,17 @@
+#!/bin/bash
+# Stop hook: desktop notification when Claude is done.
+
+# Claude is already continuing because of a Stop hook; don't notify twice
+if grep -Eq '"stop_hook_active"[[:space:]]*:[[:space:]]*true'; then
+  exit 0
+fi
+
+# The directory name can hold quotes; pass it as an argument, never as AppleScript source
+message="Claude finished in $(basename "$PWD")"
+if command -v osascript >/dev/null 2>&1; then
+  osascript -e 'on run argv' -e 'display notification (item 1 of argv) with title "Claude Code"' -e 'end run' "$message"
+elif command -v notify-send >/dev/null 2>&1; then
+  notify-send -- "Claude Code" "$message"
+fi
+
+exit 0
@@ -0,0 +1,14 @@
+#!/bin/bash
+# SubagentStop hook: one line per finished subagent task.
+
+if ! command -v jq >/dev/null 2>&1; then
+  echo "subagent-stop-log: jq is required to read the hook payload (https://jqlang.github.io/jq/)" >&2
+  exit 1
+fi
+
+session=$(jq -r '.session_id // "unknown"')
+
+mkdir -p .zcc/logs
+echo "$(date -u +%Y-%m-%dT%H:%M:%SZ) session=$session subagent finished" >> .zcc/logs/subagents.log
+
+exit 0